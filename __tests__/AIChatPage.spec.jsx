@@ -20,8 +20,31 @@ jest.mock("next/router", () => ({
   useRouter: () => ({ push: jest.fn() }),
 }));
 
-jest.mock("@/lib/aiChat", () => ({
-  chatWithHealthAI: jest.fn(async () => "Hello from AI!"),
+jest.mock("@/lib/chatApi", () => ({
+  ChatStreamInterruptedError: class ChatStreamInterruptedError extends Error {},
+  streamChatReply: jest.fn(async (history, message, onText) => {
+    onText("Hello from AI!");
+    return "Hello from AI!";
+  }),
+}));
+
+jest.mock("@/lib/chatThreads", () => ({
+  getChatThreadsByUser: jest.fn(async () => []),
+  getChatMessagesByThread: jest.fn(async () => []),
+  createChatThread: jest.fn(async ({ user_profile_id, title }) => ({
+    id: "thread-1",
+    user_profile_id,
+    title,
+    created_at: "2025-01-01T00:00:00.000Z",
+    updated_at: "2025-01-01T00:00:00.000Z",
+  })),
+  addChatMessages: jest.fn(async (threadId, userId, messages) =>
+    messages.map((m, i) => ({ id: `msg-${i}`, thread_id: threadId, ...m })),
+  ),
+  renameChatThread: jest.fn(),
+  deleteChatThread: jest.fn(),
+  importChatHistory: jest.fn(),
+  updateChatMessageActionStatus: jest.fn(),
 }));
 
 // ─── tests ──────────────────────────────────────────────────────────────
@@ -55,4 +78,25 @@ describe("<AIChatPage />", () => {
       expect(screen.getByText("Hello from AI!")).toBeInTheDocument(),
     );
   });
-});
\ No newline at end of file
+
+  it("moves a conversation saved in localStorage into a thread", async () => {
+    const { importChatHistory } = require("@/lib/chatThreads");
+    localStorage.setItem(
+      "symptomSyncChat-user-1",
+      JSON.stringify([
+        { role: "user", text: "Old question" },
+        { role: "model", text: "Old answer" },
+      ]),
+    );
+
+    render(<AIChatPage />);
+
+    await waitFor(() =>
+      expect(importChatHistory).toHaveBeenCalledWith("user-1", [
+        { role: "user", text: "Old question" },
+        { role: "model", text: "Old answer" },
+      ]),
+    );
+    expect(localStorage.getItem("symptomSyncChat-user-1")).toBeNull();
+  });
+});
@@ -50,6 +50,10 @@ jest.mock("@/components/ui/time-picker", () => ({
   ),
 }));
 
+jest.mock("@/components/RecurrenceEditor", () => ({
+  RecurrenceEditor: () => null,
+}));
+
 jest.mock("next/router", () => ({
   useRouter: () => ({ push: jest.fn() }),
 }));
@@ -104,6 +108,17 @@ jest.mock("@/lib/healthLogs", () => ({
   getHealthLogsByUser: jest.fn(async () => []),
 }));
 
+jest.mock("@/lib/medicationDoses", () => ({
+  getMedicationDosesByUser: jest.fn(async () => []),
+  calculateAdherence: jest.fn(() => ({
+    taken: 0,
+    late: 0,
+    skipped: 0,
+    missed: 0,
+    percentage: null,
+  })),
+}));
+
 /* ────────────  TEST SUITE  ──────────── */
 describe("<HomePage />", () => {
   test("renders counters and adds a medication", async () => {
@@ -133,4 +148,4 @@ describe("<HomePage />", () => {
     expect(payload.dosage).toBe("500 mg");
     expect(payload.recurrence).toBe("Daily");
   });
-});
\ No newline at end of file
+});
@@ -24,6 +24,18 @@ jest.mock("@/lib/profile", () => ({
   })),
 }));
 
+jest.mock("@/components/CalendarFeedCard", () => ({
+  CalendarFeedCard: () => null,
+}));
+
+jest.mock("@/components/PushNotificationsCard", () => ({
+  PushNotificationsCard: () => null,
+}));
+
+jest.mock("@/components/NotificationSettingsCard", () => ({
+  NotificationSettingsCard: () => null,
+}));
+
 jest.mock("next/router", () => ({
   useRouter: () => ({ push: jest.fn() }),
 }));
@@ -44,4 +56,4 @@ describe("<ProfilePage />", () => {
     fireEvent.change(fnameInput, { target: { value: "Jane Doe" } });
     expect(fnameInput).toHaveValue("Jane Doe");
   });
-});
\ No newline at end of file
+});
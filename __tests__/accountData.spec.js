@@ -0,0 +1,113 @@
+jest.mock("@/lib/supabaseClient", () => ({ supabase: {} }));
+
+import { toCsv } from "@/lib/accountData";
+import { deleteAccount, runAccountDeletions } from "@/lib/accountDeletion";
+
+test("toCsv writes a column for every key and quotes what needs it", () => {
+  expect(toCsv([])).toBe("");
+  expect(
+    toCsv([
+      { id: "1", notes: 'Felt "off", then better', vitals: { heartRate: 72 } },
+      { id: "2", mood: "Happy", notes: null },
+    ]),
+  ).toBe(
+    [
+      "id,notes,vitals,mood",
+      '1,"Felt ""off"", then better","{""heartRate"":72}",',
+      "2,,,Happy",
+    ].join("\r\n"),
+  );
+});
+
+// A service client that records what it's asked to delete
+function fakeClient({
+  documents = [],
+  avatars = [],
+  due = [],
+  failDeleteFor,
+} = {}) {
+  const calls = [];
+  const client = {
+    calls,
+    storage: {
+      from: (bucket) => ({
+        list: async () => ({
+          data: (bucket === "avatars" ? avatars : documents).map((name) => ({
+            id: name,
+            name,
+          })),
+          error: null,
+        }),
+        remove: async (paths) => {
+          calls.push(["storage", bucket, paths]);
+          return { error: null };
+        },
+      }),
+    },
+    from: (table) => ({
+      select: () => ({
+        lte: async () => ({ data: due, error: null }),
+      }),
+      delete: () => ({
+        eq: async (column, value) => {
+          calls.push(["delete", table, value]);
+          return {
+            error: value === failDeleteFor ? new Error("denied") : null,
+          };
+        },
+      }),
+    }),
+    auth: {
+      admin: {
+        deleteUser: async (id) => {
+          calls.push(["auth", id]);
+          return { error: null };
+        },
+      },
+    },
+  };
+  return client;
+}
+
+test("deleteAccount removes documents, rows and the auth user, profile last", async () => {
+  const client = fakeClient({
+    documents: ["a.pdf", "b.png"],
+    // The search for "u1" finds another user's picture too
+    avatars: ["u1.png", "u1.jpg", "u10.png"],
+  });
+  await deleteAccount(client, "u1");
+
+  expect(client.calls[0]).toEqual([
+    "storage",
+    "documents",
+    ["u1/a.pdf", "u1/b.png"],
+  ]);
+  expect(client.calls[1]).toEqual(["storage", "avatars", ["u1.png", "u1.jpg"]]);
+  const steps = client.calls.map((c) => (c[0] === "delete" ? c[1] : c[0]));
+  expect(steps.slice(-3)).toEqual([
+    "auth",
+    "user_profiles",
+    "account_deletion_requests",
+  ]);
+  expect(steps).toContain("health_logs");
+  expect(steps).toContain("chat_messages");
+});
+
+test("runAccountDeletions carries on past an account that fails", async () => {
+  const request = (id) => ({
+    user_profile_id: id,
+    requested_at: "2025-05-01T00:00:00Z",
+    scheduled_for: "2025-05-31T00:00:00Z",
+  });
+  const client = fakeClient({
+    due: [request("u1"), request("u2")],
+    failDeleteFor: "u1",
+  });
+  jest.spyOn(console, "error").mockImplementation(() => {});
+
+  expect(await runAccountDeletions(client)).toEqual({
+    deleted: ["u2"],
+    failed: [{ userId: "u1", error: "denied" }],
+  });
+  expect(client.calls).not.toContainEqual(["auth", "u1"]);
+});
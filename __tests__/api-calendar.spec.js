@@ -0,0 +1,80 @@
+import handler from "@/pages/api/calendar/[token]";
+import { createMocks } from "node-mocks-http";
+
+// ─── mocks ──────────────────────────────────────────────────────────────
+const mockRpc = jest.fn();
+
+jest.mock("@/lib/supabaseClient", () => ({
+  supabase: { rpc: (...args) => mockRpc(...args) },
+}));
+
+const feed = {
+  time_zone: "America/New_York",
+  medications: [
+    {
+      id: "m1",
+      user_profile_id: "user-1",
+      medication_name: "Ibuprofen",
+      dosage: "200 mg",
+      reminder_time: "2025-01-02T13:00:00.000Z",
+      recurrence: "Daily",
+      recurrence_rule: "FREQ=DAILY;UNTIL=20250131T235959Z",
+      calendar_sync_token: "secret",
+      created_at: "2025-01-01T09:00:00.000Z",
+    },
+  ],
+  appointments: [
+    {
+      id: "a1",
+      user_profile_id: "user-1",
+      appointment_name: "Checkup",
+      date: "2025-02-01T15:00:00.000Z",
+    },
+  ],
+};
+
+async function callRoute({ method = "GET", token = "secret.ics" } = {}) {
+  const { req, res } = createMocks({ method, query: { token } });
+  await handler(req, res);
+  return res;
+}
+
+afterEach(() => {
+  jest.clearAllMocks();
+});
+
+// ─── tests ──────────────────────────────────────────────────────────────
+test("rejects anything but GET", async () => {
+  const res = await callRoute({ method: "POST" });
+  expect(res._getStatusCode()).toBe(405);
+});
+
+test("returns 404 for unknown or revoked tokens", async () => {
+  mockRpc.mockResolvedValue({ data: null, error: null });
+  const res = await callRoute();
+  expect(mockRpc).toHaveBeenCalledWith("get_calendar_feed", {
+    feed_token: "secret",
+  });
+  expect(res._getStatusCode()).toBe(404);
+});
+
+test("serves the feed as an iCalendar file", async () => {
+  mockRpc.mockResolvedValue({ data: feed, error: null });
+  const res = await callRoute();
+
+  expect(res._getStatusCode()).toBe(200);
+  expect(res.getHeader("Content-Type")).toBe("text/calendar; charset=utf-8");
+  const ics = res._getData();
+  expect(ics).toContain("REFRESH-INTERVAL;VALUE=DURATION:PT1H");
+  expect(ics).toContain("UID:appt-a1@symptomsync.com");
+  // Medication times are written in the user's zone, not the server's
+  expect(ics).toContain("DTSTART;TZID=America/New_York:20250102T080000");
+  expect(ics).toContain("RRULE:FREQ=DAILY;UNTIL=20250131T235959Z");
+});
+
+test("returns 500 when the feed can't be loaded", async () => {
+  jest.spyOn(console, "error").mockImplementation(() => {});
+  mockRpc.mockResolvedValue({ data: null, error: new Error("db down") });
+  const res = await callRoute();
+  expect(res._getStatusCode()).toBe(500);
+});
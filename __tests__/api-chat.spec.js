@@ -0,0 +1,171 @@
+import handler from "@/pages/api/chat";
+import { CHAT_STREAM_ERROR_MARKER } from "@/lib/chatApi";
+import { createMocks } from "node-mocks-http";
+
+// ─── mocks ──────────────────────────────────────────────────────────────
+const mockGetUser = jest.fn();
+const mockTables = {
+  medication_reminders: [
+    {
+      id: "m1",
+      user_profile_id: "user-1",
+      medication_name: "Ibuprofen",
+      dosage: "200 mg",
+      reminder_time: "2025-01-02T09:00:00.000Z",
+      recurrence: "Daily",
+      calendar_sync_token: null,
+      created_at: "2025-01-01T09:00:00.000Z",
+    },
+  ],
+  appointment_reminders: [],
+  health_logs: [],
+  user_profiles: null,
+  files: [],
+};
+
+jest.mock("@/lib/supabaseClient", () => ({
+  supabase: {},
+  createServerSupabaseClient: jest.fn(() => ({
+    auth: { getUser: mockGetUser },
+    from: (table) => {
+      const result = () => ({ data: mockTables[table], error: null });
+      const builder = {
+        select: () => builder,
+        eq: () => builder,
+        gte: () => builder,
+        limit: () => builder,
+        order: () => builder,
+        range: () => builder,
+        maybeSingle: async () => result(),
+        then: (resolve, reject) =>
+          Promise.resolve(result()).then(resolve, reject),
+      };
+      return builder;
+    },
+  })),
+}));
+
+// A deterministic stand-in for the LLM: echoes the message back, in two pieces when streaming
+const mockProvider = {
+  name: "fake",
+  send: jest.fn(async ({ message }) => `You said: ${message}`),
+  stream: jest.fn(async function* ({ message }) {
+    yield "You said: ";
+    yield message;
+  }),
+  listModels: jest.fn(async () => ["fake-model"]),
+};
+
+jest.mock("@/lib/chatProvider", () => ({
+  getChatProvider: () => mockProvider,
+}));
+
+async function callRoute({ method = "POST", token = "token-1", body }) {
+  const { req, res } = createMocks({
+    method,
+    headers: token ? { authorization: `Bearer ${token}` } : {},
+    body,
+  });
+  await handler(req, res);
+  return res;
+}
+
+beforeEach(() => {
+  mockGetUser.mockResolvedValue({
+    data: { user: { id: "user-1" } },
+    error: null,
+  });
+});
+
+afterEach(() => {
+  jest.clearAllMocks();
+});
+
+// ─── tests ──────────────────────────────────────────────────────────────
+test("rejects anything but POST", async () => {
+  const res = await callRoute({ method: "GET" });
+  expect(res._getStatusCode()).toBe(405);
+});
+
+test("returns 401 without a session token", async () => {
+  const res = await callRoute({ token: null, body: { message: "Hi" } });
+  expect(res._getStatusCode()).toBe(401);
+});
+
+test("returns 401 when the session token is invalid", async () => {
+  mockGetUser.mockResolvedValue({
+    data: { user: null },
+    error: new Error("invalid JWT"),
+  });
+  const res = await callRoute({ body: { message: "Hi" } });
+  expect(res._getStatusCode()).toBe(401);
+});
+
+test("returns 400 for an empty message", async () => {
+  const res = await callRoute({ body: { message: "   " } });
+  expect(res._getStatusCode()).toBe(400);
+});
+
+test("answers with the provider's reply and the user's data as context", async () => {
+  const history = [
+    { role: "user", text: "Hello" },
+    { role: "model", text: "Hi there!" },
+  ];
+
+  const res = await callRoute({
+    body: { message: "When do I take my meds?", history },
+  });
+
+  expect(res._getStatusCode()).toBe(200);
+  expect(res._getJSONData()).toEqual({
+    text: "You said: When do I take my meds?",
+  });
+
+  const request = mockProvider.send.mock.calls[0][0];
+  expect(request.history).toEqual(history);
+  expect(request.systemInstruction).toContain("Ibuprofen");
+});
+
+test("streams the reply as plain text when asked to", async () => {
+  const res = await callRoute({ body: { message: "Hi", stream: true } });
+
+  expect(res._getStatusCode()).toBe(200);
+  expect(res.getHeader("content-type")).toMatch(/text\/plain/);
+  expect(res._getData()).toBe("You said: Hi");
+  expect(res._isEndCalled()).toBe(true);
+});
+
+test("reports provider failures before anything was streamed", async () => {
+  mockProvider.stream.mockImplementationOnce(async function* () {
+    throw new Error("[429 Too Many Requests]");
+  });
+
+  const res = await callRoute({ body: { message: "Hi", stream: true } });
+
+  expect(res._getStatusCode()).toBe(429);
+  expect(res._getJSONData().error).toMatch(/429/);
+});
+
+test("marks the end of a reply that fails partway through", async () => {
+  mockProvider.stream.mockImplementationOnce(async function* () {
+    yield "You said: ";
+    throw new Error("model unavailable");
+  });
+
+  const res = await callRoute({ body: { message: "Hi", stream: true } });
+
+  expect(res._getStatusCode()).toBe(200);
+  expect(res._getData()).toBe(
+    `You said: ${CHAT_STREAM_ERROR_MARKER}model unavailable`,
+  );
+  expect(res._isEndCalled()).toBe(true);
+});
+
+test("reports provider failures", async () => {
+  mockProvider.send.mockRejectedValueOnce(new Error("model unavailable"));
+
+  const res = await callRoute({ body: { message: "Hi" } });
+
+  expect(res._getStatusCode()).toBe(502);
+  expect(res._getJSONData()).toEqual({ error: "model unavailable" });
+});
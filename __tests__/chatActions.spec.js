@@ -0,0 +1,186 @@
+import {
+  extractChatAction,
+  describeChatAction,
+  applyChatAction,
+} from "@/lib/chatActions";
+
+// ─── mocks ──────────────────────────────────────────────────────────────
+jest.mock("@/lib/medications", () => ({
+  createMedicationReminder: jest.fn(async (p) => ({ id: "m-new", ...p })),
+  updateMedicationReminder: jest.fn(async (id, p) => ({
+    id,
+    medication_name: "Ibuprofen",
+    ...p,
+  })),
+  deleteMedicationReminder: jest.fn(async (id) => ({ id })),
+}));
+
+jest.mock("@/lib/appointmentReminders", () => ({
+  createAppointmentReminder: jest.fn(async (p) => ({ id: "a-new", ...p })),
+  updateAppointmentReminder: jest.fn(),
+  deleteAppointmentReminder: jest.fn(async (id) => ({ id })),
+}));
+
+jest.mock("@/lib/healthLogs", () => ({
+  createHealthLog: jest.fn(async (p) => ({ id: "l-new", ...p })),
+  updateHealthLog: jest.fn(),
+  deleteHealthLog: jest.fn(),
+}));
+
+const records = {
+  medications: [
+    {
+      id: "m1",
+      user_profile_id: "user-1",
+      medication_name: "Ibuprofen",
+      dosage: "200 mg",
+      reminder_time: "2025-01-02T09:00:00.000Z",
+      recurrence: "Daily",
+      calendar_sync_token: null,
+      created_at: "2025-01-01T09:00:00.000Z",
+    },
+  ],
+  appointments: [],
+  logs: [],
+};
+
+const block = (json) =>
+  `Sure, I can do that.\n\n\`\`\`symptomsync-action\n${JSON.stringify(json)}\n\`\`\``;
+
+afterEach(() => {
+  jest.clearAllMocks();
+});
+
+// ─── tests ──────────────────────────────────────────────────────────────
+test("returns the text unchanged when there is no action block", () => {
+  expect(extractChatAction("Drink water.")).toEqual({
+    content: "Drink water.",
+    action: null,
+    error: null,
+  });
+});
+
+test("strips the block and validates a create action", () => {
+  const { content, action, error } = extractChatAction(
+    block({
+      entity: "appointment",
+      intent: "create",
+      data: { appointment_name: "Dentist", date: "2025-03-04T15:00:00Z" },
+    }),
+  );
+
+  expect(content).toBe("Sure, I can do that.");
+  expect(error).toBeNull();
+  expect(action).toEqual({
+    entity: "appointment",
+    intent: "create",
+    data: { appointment_name: "Dentist", date: "2025-03-04T15:00:00.000Z" },
+  });
+});
+
+test("resolves natural-language times and recurrence", () => {
+  const { action, error } = extractChatAction(
+    block({
+      entity: "medication",
+      intent: "create",
+      data: {
+        medication_name: "Vitamin D",
+        reminder_time: "every morning at 8",
+      },
+    }),
+  );
+
+  expect(error).toBeNull();
+  expect(new Date(action.data.reminder_time).getHours()).toBe(8);
+  expect(action.data.recurrence).toBe("Daily");
+});
+
+test("resolves relative times against when the message was sent", () => {
+  const text = block({
+    entity: "appointment",
+    intent: "create",
+    data: { appointment_name: "Physio", date: "tomorrow at 9" },
+  });
+  const sentAt = new Date(2025, 0, 1, 10, 0);
+
+  // The same message read days later still means the day after it was sent
+  expect(extractChatAction(text, sentAt).action.data.date).toBe(
+    new Date(2025, 0, 2, 9, 0).toISOString(),
+  );
+});
+
+test("hides an action block that has not been closed yet", () => {
+  expect(
+    extractChatAction('Adding it now.\n\n```symptomsync-action\n{ "entity"'),
+  ).toEqual({ content: "Adding it now.", action: null, error: null });
+});
+
+test("reports missing required fields", () => {
+  const { action, error } = extractChatAction(
+    block({
+      entity: "medication",
+      intent: "create",
+      data: { medication_name: "Aspirin" },
+    }),
+  );
+
+  expect(action).toBeNull();
+  expect(error).toMatch(/reminder_time/);
+});
+
+test("reports malformed JSON", () => {
+  const { action, error } = extractChatAction(
+    "```symptomsync-action\n{ not json }\n```",
+  );
+
+  expect(action).toBeNull();
+  expect(error).toMatch(/could not be read/i);
+});
+
+test("describes an update against the matching record", () => {
+  const { action } = extractChatAction(
+    block({
+      entity: "medication",
+      intent: "update",
+      data: { medication_name: "ibuprofen", dosage: "400 mg" },
+    }),
+  );
+
+  expect(describeChatAction(action, records)).toEqual([
+    { field: "medication_name", before: "Ibuprofen", after: "ibuprofen" },
+    { field: "dosage", before: "200 mg", after: "400 mg" },
+  ]);
+});
+
+test("applies an update to the record resolved by name", async () => {
+  const { updateMedicationReminder } = require("@/lib/medications");
+  const { action } = extractChatAction(
+    block({
+      entity: "medication",
+      intent: "update",
+      data: { medication_name: "Ibuprofen", dosage: "400 mg" },
+    }),
+  );
+
+  const result = await applyChatAction(action, "user-1", records);
+
+  expect(updateMedicationReminder).toHaveBeenCalledWith("m1", {
+    medication_name: "Ibuprofen",
+    dosage: "400 mg",
+  });
+  expect(result.event).toBe("med-update");
+});
+
+test("refuses to delete a record that does not exist", async () => {
+  const { action } = extractChatAction(
+    block({
+      entity: "medication",
+      intent: "delete",
+      data: { medication_name: "Unknown" },
+    }),
+  );
+
+  await expect(applyChatAction(action, "user-1", records)).rejects.toThrow(
+    /could not find/i,
+  );
+});
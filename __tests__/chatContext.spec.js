@@ -0,0 +1,148 @@
+import { buildChatContext, estimateTokens } from "@/lib/chatContext";
+
+// Wednesday, January 15th 2025 at noon UTC
+const NOW = new Date("2025-01-15T12:00:00Z");
+const daysFromNow = (days) =>
+  new Date(NOW.getTime() + days * 24 * 60 * 60 * 1000).toISOString();
+
+const appt = (id, name, days) => ({
+  id,
+  user_profile_id: "user-1",
+  appointment_name: name,
+  date: daysFromNow(days),
+});
+
+const med = (id, name, days, recurrence) => ({
+  id,
+  user_profile_id: "user-1",
+  medication_name: name,
+  dosage: "10 mg",
+  reminder_time: daysFromNow(days),
+  recurrence,
+  calendar_sync_token: null,
+  created_at: daysFromNow(-60),
+});
+
+const log = (id, symptom, severity, days) => ({
+  id,
+  user_profile_id: "user-1",
+  symptom_type: symptom,
+  severity,
+  mood: null,
+  vitals: null,
+  medication_intake: null,
+  notes: null,
+  start_date: daysFromNow(days),
+  end_date: null,
+});
+
+const empty = { meds: [], appts: [], logs: [], profile: null, files: [] };
+
+const build = (records, options = {}) =>
+  buildChatContext(
+    { ...empty, ...records },
+    { now: NOW, timeZone: "UTC", ...options },
+  );
+
+const section = (text, title) =>
+  text.split(`${title}:\n`)[1].split("\n\n")[0].trim().split("\n");
+
+test("notes empty sections", () => {
+  const text = build({});
+  expect(section(text, "Appointments")).toEqual(["- None"]);
+  expect(section(text, "Profile")).toEqual(["- No profile found."]);
+});
+
+test("lists upcoming appointments soonest first, before past ones", () => {
+  const lines = section(
+    build({
+      appts: [
+        appt("a1", "Past checkup", -3),
+        appt("a2", "Dentist", 10),
+        appt("a3", "Cardiology", 2),
+      ],
+    }),
+    "Appointments",
+  );
+
+  expect(lines.map((l) => l.split(" on ")[0])).toEqual([
+    "- Cardiology",
+    "- Dentist",
+    "- Past checkup",
+  ]);
+  expect(lines[2]).toContain("past");
+});
+
+test("puts active medications before old one-off ones", () => {
+  const lines = section(
+    build({
+      meds: [
+        med("m1", "Antibiotic", -30, null),
+        med("m2", "Vitamin D", -90, "Daily"),
+        med("m3", "Ibuprofen", 1, "As Needed"),
+      ],
+    }),
+    "Medications",
+  );
+
+  expect(lines[0]).toContain("Vitamin D");
+  expect(lines[1]).toContain("Ibuprofen");
+  expect(lines[2]).toContain("Antibiotic");
+  expect(lines[2]).toContain("inactive");
+});
+
+test("lists the most recent logs, then the most severe", () => {
+  const logs = [
+    log("old-severe", "Migraine", 10, -40),
+    log("old-mild", "Cough", 1, -20),
+    ...[1, 2, 3, 4, 5].map((d) => log(`recent-${d}`, "Headache", 3, -d)),
+  ];
+
+  const lines = section(build({ logs }), "Health Logs");
+
+  expect(lines.map((l) => l.match(/id: ([\w-]+)/)[1])).toEqual([
+    "recent-1",
+    "recent-2",
+    "recent-3",
+    "recent-4",
+    "recent-5",
+    "old-severe",
+    "old-mild",
+  ]);
+});
+
+test("summarizes symptom trends against the previous month", () => {
+  const lines = section(
+    build({
+      logs: [
+        log("1", "Headache", 8, -2),
+        log("2", "Headache", 6, -5),
+        log("3", "Headache", 3, -40),
+        log("4", "Nausea", 2, -1),
+      ],
+    }),
+    "Symptom Trends",
+  );
+
+  expect(lines[0]).toMatch(
+    /^- headache: logged 2 times .* 7\.0 \(worsening\)$/,
+  );
+  expect(lines[1]).toMatch(/^- nausea: logged 1 time .*\(new this month\)$/);
+});
+
+test("stays within the token budget for thousands of logs", () => {
+  const logs = Array.from({ length: 5000 }, (_, i) =>
+    log(`log-${i}`, i % 2 ? "Headache" : "Fatigue", i % 11, -(i % 170)),
+  );
+  const meds = Array.from({ length: 50 }, (_, i) =>
+    med(`med-${i}`, `Medication ${i}`, i, "Daily"),
+  );
+
+  const text = build({ logs, meds }, { maxTokens: 800 });
+
+  expect(estimateTokens(text)).toBeLessThanOrEqual(800);
+  // every section still gets its most relevant records
+  expect(section(text, "Medications")[0]).toContain("Medication 0");
+  expect(section(text, "Health Logs")[0]).toContain("log-0");
+  expect(text).toMatch(/- …and \d+ more/);
+});
@@ -0,0 +1,245 @@
+import { createGeminiProvider } from "@/lib/geminiProvider";
+import { createOpenAICompatibleProvider } from "@/lib/openAICompatibleProvider";
+import { getChatProvider } from "@/lib/chatProvider";
+
+const buildOk = (json) =>
+  Promise.resolve({ ok: true, status: 200, json: async () => json });
+
+const buildStream = (events) => {
+  const encoder = new TextEncoder();
+  const body = new ReadableStream({
+    start(controller) {
+      events.forEach((event) => controller.enqueue(encoder.encode(event)));
+      controller.close();
+    },
+  });
+  return Promise.resolve({ ok: true, status: 200, body });
+};
+
+const geminiCandidate = (text) => ({
+  candidates: [{ content: { role: "model", parts: [{ text }] }, index: 0 }],
+});
+
+const request = {
+  history: [
+    { role: "user", text: "Hello" },
+    { role: "model", text: "Hi there!" },
+  ],
+  message: "How are you?",
+  systemInstruction: "Be kind.",
+};
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+// ─── gemini ─────────────────────────────────────────────────────────────
+describe("createGeminiProvider", () => {
+  const stubGemini = () =>
+    jest.spyOn(global, "fetch").mockImplementation((url) => {
+      if (String(url).includes(":generateContent")) {
+        return buildOk(geminiCandidate("Doing well."));
+      }
+      if (String(url).includes(":streamGenerateContent")) {
+        return buildStream(
+          ["Doing ", "well."].map(
+            (text) => `data: ${JSON.stringify(geminiCandidate(text))}\r\n\r\n`,
+          ),
+        );
+      }
+      return buildOk({
+        models: [
+          {
+            name: "models/gemini-2.5-flash",
+            supportedGenerationMethods: ["generateContent"],
+          },
+          {
+            name: "models/text-embedding-004",
+            supportedGenerationMethods: ["embedContent"],
+          },
+        ],
+      });
+    });
+
+  test("sends the history and system instruction with the API key", async () => {
+    const fetchSpy = stubGemini();
+
+    const text = await createGeminiProvider("server-key").send(request);
+
+    expect(text).toBe("Doing well.");
+    const [url, options] = fetchSpy.mock.calls.find(([u]) =>
+      String(u).includes(":generateContent"),
+    );
+    expect(String(url)).toContain("gemini-2.5-flash");
+    expect(options.headers.get("x-goog-api-key")).toBe("server-key");
+    const payload = JSON.parse(options.body);
+    expect(JSON.stringify(payload.systemInstruction)).toContain("Be kind.");
+    expect(payload.contents.map((c) => c.role)).toEqual([
+      "user",
+      "model",
+      "user",
+    ]);
+  });
+
+  test("streams the reply piece by piece", async () => {
+    stubGemini();
+
+    const pieces = [];
+    for await (const piece of createGeminiProvider("server-key").stream(
+      request,
+    )) {
+      pieces.push(piece);
+    }
+
+    expect(pieces).toEqual(["Doing ", "well."]);
+  });
+
+  test("only lists the available models once across messages", async () => {
+    // Load a fresh copy of the module so the earlier tests haven't filled the cache yet
+    let createFreshProvider;
+    jest.isolateModules(() => {
+      createFreshProvider =
+        require("@/lib/geminiProvider").createGeminiProvider;
+    });
+    const fetchSpy = stubGemini();
+    const provider = createFreshProvider("server-key");
+
+    await provider.send(request);
+    await provider.send(request);
+
+    expect(await provider.listModels()).toEqual(["gemini-2.5-flash"]);
+    const listCalls = fetchSpy.mock.calls.filter(
+      ([u]) => !String(u).includes(":generateContent"),
+    );
+    expect(listCalls).toHaveLength(1);
+  });
+});
+
+// ─── openai-compatible ──────────────────────────────────────────────────
+describe("createOpenAICompatibleProvider", () => {
+  const provider = createOpenAICompatibleProvider({
+    baseUrl: "http://localhost:11434/v1/",
+    model: "llama3.2",
+  });
+
+  test("posts an OpenAI chat completion request", async () => {
+    const fetchSpy = jest
+      .spyOn(global, "fetch")
+      .mockImplementation(() =>
+        buildOk({ choices: [{ message: { content: "Doing well." } }] }),
+      );
+
+    const text = await provider.send(request);
+
+    expect(text).toBe("Doing well.");
+    const [url, options] = fetchSpy.mock.calls[0];
+    expect(url).toBe("http://localhost:11434/v1/chat/completions");
+    expect(JSON.parse(options.body)).toEqual({
+      model: "llama3.2",
+      stream: false,
+      messages: [
+        { role: "system", content: "Be kind." },
+        { role: "user", content: "Hello" },
+        { role: "assistant", content: "Hi there!" },
+        { role: "user", content: "How are you?" },
+      ],
+    });
+  });
+
+  test("streams server-sent events until [DONE]", async () => {
+    const delta = (content) =>
+      `data: ${JSON.stringify({ choices: [{ delta: { content } }] })}\n\n`;
+    jest.spyOn(global, "fetch").mockImplementation(() =>
+      buildStream([
+        delta("Doing "),
+        // events may be split across network chunks
+        delta("well.").slice(0, 10),
+        delta("well.").slice(10),
+        "data: [DONE]\n\n",
+      ]),
+    );
+
+    const pieces = [];
+    for await (const piece of provider.stream(request)) {
+      pieces.push(piece);
+    }
+
+    expect(pieces).toEqual(["Doing ", "well."]);
+  });
+
+  test("defaults to the first model the server lists", async () => {
+    const fetchSpy = jest
+      .spyOn(global, "fetch")
+      .mockImplementation((url) =>
+        url.endsWith("/models")
+          ? buildOk({ data: [{ id: "qwen2.5" }, { id: "llama3.2" }] })
+          : buildOk({ choices: [{ message: { content: "Hi" } }] }),
+      );
+
+    await createOpenAICompatibleProvider({
+      baseUrl: "http://localhost:8080/v1",
+    }).send(request);
+
+    expect(JSON.parse(fetchSpy.mock.calls[1][1].body).model).toBe("qwen2.5");
+  });
+
+  test("only lists the server's models once across messages", async () => {
+    const fetchSpy = jest
+      .spyOn(global, "fetch")
+      .mockImplementation((url) =>
+        url.endsWith("/models")
+          ? buildOk({ data: [{ id: "qwen2.5" }] })
+          : buildOk({ choices: [{ message: { content: "Hi" } }] }),
+      );
+    const options = { baseUrl: "http://localhost:8081/v1" };
+
+    // A new provider is created for each request
+    await createOpenAICompatibleProvider(options).send(request);
+    await createOpenAICompatibleProvider(options).send(request);
+
+    const listCalls = fetchSpy.mock.calls.filter(([u]) =>
+      u.endsWith("/models"),
+    );
+    expect(listCalls).toHaveLength(1);
+  });
+});
+
+// ─── configuration ──────────────────────────────────────────────────────
+describe("getChatProvider", () => {
+  const env = process.env;
+
+  afterEach(() => {
+    process.env = env;
+  });
+
+  test.each([
+    [{ GOOGLE_AI_API_KEY: "key" }, "gemini"],
+    [
+      {
+        CHAT_PROVIDER: "openai-compatible",
+        OPENAI_COMPATIBLE_BASE_URL: "http://localhost:11434/v1",
+      },
+      "openai-compatible",
+    ],
+  ])("selects the provider from %p", (vars, name) => {
+    process.env = { ...env, CHAT_PROVIDER: "", ...vars };
+    expect(getChatProvider().name).toBe(name);
+  });
+
+  test("rejects unknown or misconfigured providers", () => {
+    process.env = { ...env, CHAT_PROVIDER: "nope" };
+    expect(() => getChatProvider()).toThrow(/Unknown CHAT_PROVIDER/);
+
+    process.env = { ...env, CHAT_PROVIDER: "gemini", GOOGLE_AI_API_KEY: "" };
+    expect(() => getChatProvider()).toThrow(/GOOGLE_AI_API_KEY/);
+
+    // Installs still on the old public name are told about the rename
+    process.env = {
+      ...env,
+      CHAT_PROVIDER: "gemini",
+      GOOGLE_AI_API_KEY: "",
+      NEXT_PUBLIC_GOOGLE_AI_API_KEY: "key",
+    };
+    expect(() => getChatProvider()).toThrow(/was renamed to GOOGLE_AI_API_KEY/);
+  });
+});
@@ -0,0 +1,88 @@
+import { parseNaturalDateTime } from "@/lib/dateParsing";
+
+// Wednesday, January 1st 2025 at 10:00 local time
+const NOW = new Date(2025, 0, 1, 10, 0);
+
+const resolve = (phrase) => parseNaturalDateTime(phrase, NOW);
+
+test("returns null for empty or unknown input", () => {
+  expect(resolve("")).toBeNull();
+  expect(resolve("sometime soon")).toBeNull();
+});
+
+test("passes ISO timestamps straight through", () => {
+  const parsed = resolve("2025-03-04T15:30:00Z");
+  expect(parsed.iso).toBe("2025-03-04T15:30:00.000Z");
+  expect(parsed.hasTime).toBe(true);
+  expect(parsed.recurrence).toBeNull();
+});
+
+test.each([
+  ["tomorrow at 9", new Date(2025, 0, 2, 9, 0)],
+  ["tomorrow at 9:30pm", new Date(2025, 0, 2, 21, 30)],
+  ["today at 17:45", new Date(2025, 0, 1, 17, 45)],
+  ["tonight", new Date(2025, 0, 1, 21, 0)],
+  ["next Tuesday at 9", new Date(2025, 0, 7, 9, 0)],
+  ["friday morning", new Date(2025, 0, 3, 8, 0)],
+  ["March 5th at 2pm", new Date(2025, 2, 5, 14, 0)],
+  ["the 5th of march at noon", new Date(2025, 2, 5, 12, 0)],
+  ["2/14 at 8am", new Date(2025, 1, 14, 8, 0)],
+  ["at 9am", new Date(2025, 0, 2, 9, 0)],
+  ["at 3pm", new Date(2025, 0, 1, 15, 0)],
+  ["tonight at 9", new Date(2025, 0, 1, 21, 0)],
+  ["this evening at 7", new Date(2025, 0, 1, 19, 0)],
+  ["at 4 in the afternoon", new Date(2025, 0, 1, 16, 0)],
+  ["tomorrow morning at 7", new Date(2025, 0, 2, 7, 0)],
+  ["wednesday at 11", new Date(2025, 0, 1, 11, 0)],
+  // Today is a Wednesday, and 8am has passed
+  ["wednesday at 8", new Date(2025, 0, 8, 8, 0)],
+])("resolves %p", (phrase, expected) => {
+  const parsed = resolve(phrase);
+  expect(parsed.date).toEqual(expected);
+  expect(parsed.hasTime).toBe(true);
+  expect(parsed.recurrence).toBeNull();
+});
+
+test("resolves relative offsets", () => {
+  expect(resolve("in 3 hours").date).toEqual(new Date(2025, 0, 1, 13, 0));
+  expect(resolve("in 30 minutes").date).toEqual(new Date(2025, 0, 1, 10, 30));
+  expect(resolve("in two days at 8am").date).toEqual(
+    new Date(2025, 0, 3, 8, 0),
+  );
+});
+
+test("rolls past dates to next year when no year is given", () => {
+  const later = new Date(2025, 5, 1, 10, 0);
+  expect(parseNaturalDateTime("March 5 at 9am", later).date).toEqual(
+    new Date(2026, 2, 5, 9, 0),
+  );
+});
+
+test.each([
+  ["every other morning", "Every 2 Days", new Date(2025, 0, 2, 8, 0)],
+  ["daily at 8pm", "Daily", new Date(2025, 0, 1, 20, 0)],
+  ["every evening", "Daily", new Date(2025, 0, 1, 18, 0)],
+  ["every monday at 7am", "Weekly", new Date(2025, 0, 6, 7, 0)],
+  ["every wednesday at 8am", "Weekly", new Date(2025, 0, 8, 8, 0)],
+  [
+    "every other week starting tomorrow at 9",
+    "Biweekly",
+    new Date(2025, 0, 2, 9, 0),
+  ],
+  [
+    "monthly on the 15th of january at 10am",
+    "Monthly",
+    new Date(2025, 0, 15, 10, 0),
+  ],
+  ["every 8 hours", "Every 8 Hours", new Date(2025, 0, 1, 18, 0)],
+  [
+    "every 3 months starting tomorrow at 9",
+    "Every 3 Months",
+    new Date(2025, 0, 2, 9, 0),
+  ],
+  ["as needed", "As Needed", new Date(2025, 0, 1, 10, 0)],
+])("resolves recurrence in %p", (phrase, recurrence, expected) => {
+  const parsed = resolve(phrase);
+  expect(parsed.recurrence).toBe(recurrence);
+  expect(parsed.date).toEqual(expected);
+});
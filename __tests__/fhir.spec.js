@@ -0,0 +1,230 @@
+jest.mock("@/lib/supabaseClient", () => ({ supabase: {} }));
+
+import { buildFhirBundle, planFhirImport, stableId } from "@/lib/fhir";
+
+const USER = "0b6f3a52-3c1e-4d8e-9a51-2f0d7c1e4b10";
+
+const profile = {
+  id: USER,
+  email: "sam@example.com",
+  full_name: "Sam Rivera",
+  avatar_url: null,
+  condition_tags: ["Migraine", "Asthma"],
+  created_at: "2025-01-01T00:00:00.000Z",
+};
+
+const record = {
+  profile,
+  medications: [
+    {
+      id: "5d7c2a10-8f1b-4c3e-a2d4-6b9e0f1a2c3d",
+      user_profile_id: USER,
+      medication_name: "Sumatriptan",
+      dosage: "50mg",
+      reminder_time: "2025-06-01T08:00:00.000Z",
+      recurrence: "Daily",
+      recurrence_rule: "FREQ=DAILY",
+      calendar_sync_token: null,
+      created_at: "2025-05-30T10:00:00.000Z",
+    },
+  ],
+  logs: [
+    {
+      id: "9a1b2c3d-4e5f-4a6b-8c7d-0e1f2a3b4c5d",
+      user_profile_id: USER,
+      symptom_type: "Headache, Nausea",
+      severity: 7,
+      symptoms: [
+        { symptom_id: "headache", name: "Headache", severity: 7 },
+        { symptom_id: "nausea", name: "Nausea", severity: 4 },
+      ],
+      mood: "Stressed",
+      vitals: { heartRate: 88, systolic: 130, diastolic: 85, weight: 150 },
+      medication_intake: "Sumatriptan 50mg",
+      notes: "Started after lunch",
+      start_date: "2025-06-02T13:00:00.000Z",
+      end_date: "2025-06-02T18:00:00.000Z",
+    },
+  ],
+  appointments: [
+    {
+      id: "1f2e3d4c-5b6a-4978-8695-a4b3c2d1e0f9",
+      user_profile_id: USER,
+      appointment_name: "Neurology follow-up",
+      date: "2025-07-01T15:30:00.000Z",
+    },
+  ],
+  files: [
+    {
+      id: "2a3b4c5d-6e7f-4809-9a1b-2c3d4e5f6a7b",
+      filename: "mri.pdf",
+      url: "https://example.com/mri.pdf",
+      file_type: "application/pdf",
+      uploaded_at: "2025-06-03T09:00:00.000Z",
+      tags: ["Imaging"],
+    },
+  ],
+};
+
+const types = (bundle) => bundle.entry.map((e) => e.resource.resourceType);
+
+test("buildFhirBundle maps each record to FHIR resources", () => {
+  const bundle = buildFhirBundle(record, new Date("2025-06-10T00:00:00Z"));
+
+  expect(bundle).toMatchObject({
+    resourceType: "Bundle",
+    type: "collection",
+    timestamp: "2025-06-10T00:00:00.000Z",
+  });
+  expect(types(bundle).sort()).toEqual([
+    "Appointment",
+    "Condition",
+    "Condition",
+    "Condition",
+    "Condition",
+    "DocumentReference",
+    "MedicationRequest",
+    "Observation",
+    "Observation",
+    "Observation",
+    "Observation",
+    "Patient",
+  ]);
+
+  const resources = bundle.entry.map((e) => e.resource);
+  const headache = resources.find((r) => r.code?.text === "Headache");
+  expect(headache.severity.coding[0].display).toBe("Severe");
+  expect(headache.abatementDateTime).toBe("2025-06-02T18:00:00.000Z");
+  const bp = resources.find((r) => r.code?.text === "Blood pressure");
+  expect(bp.component.map((c) => c.valueQuantity.value)).toEqual([130, 85]);
+  expect(
+    resources.find((r) => r.resourceType === "MedicationRequest")
+      .dosageInstruction[0],
+  ).toMatchObject({
+    text: "50mg",
+    timing: { event: ["2025-06-01T08:00:00.000Z"] },
+  });
+});
+
+const ownIds = new Set(
+  [...record.medications, ...record.logs, ...record.appointments].map(
+    (r) => r.id,
+  ),
+);
+
+test("planFhirImport reads an exported Bundle back into the same records", () => {
+  const plan = planFhirImport(buildFhirBundle(record), USER, ownIds);
+
+  expect(plan.profile).toEqual({
+    full_name: "Sam Rivera",
+    condition_tags: ["Migraine", "Asthma"],
+  });
+  const { calendar_sync_token, ...medication } = record.medications[0];
+  expect(calendar_sync_token).toBeNull();
+  expect(plan.medications).toEqual([medication]);
+  expect(plan.logs).toEqual(record.logs);
+  expect(plan.appointments).toEqual(record.appointments);
+  expect(plan.skipped).toEqual({ DocumentReference: 1 });
+  expect(plan.errors).toEqual([]);
+});
+
+test("planFhirImport reads resources from other systems", () => {
+  const bundle = {
+    resourceType: "Bundle",
+    type: "searchset",
+    entry: [
+      {
+        resource: {
+          resourceType: "Patient",
+          id: "pat-1",
+          name: [{ given: ["Sam"], family: "Rivera" }],
+        },
+      },
+      {
+        resource: {
+          resourceType: "Condition",
+          id: "cond-1",
+          code: {
+            coding: [{ system: "http://snomed.info/sct", code: "25064002" }],
+            text: "Head pain",
+          },
+          severity: {
+            coding: [{ system: "http://snomed.info/sct", code: "6736007" }],
+          },
+          onsetDateTime: "2025-06-05T10:00:00Z",
+        },
+      },
+      ...[
+        { code: "8310-5", value: 38, unit: "Cel" },
+        { code: "29463-7", value: 70, unit: "kg" },
+        { code: "2339-0", value: 900, unit: "mg/dL" },
+      ].map(({ code, value, unit }, i) => ({
+        resource: {
+          resourceType: "Observation",
+          id: `obs-${i}`,
+          code: { coding: [{ system: "http://loinc.org", code }] },
+          effectiveDateTime: "2025-06-05T11:00:00Z",
+          valueQuantity: { value, unit, code: unit },
+        },
+      })),
+      {
+        resource: {
+          resourceType: "MedicationStatement",
+          id: "ms-1",
+          medicationCodeableConcept: { text: "Ibuprofen" },
+          effectiveDateTime: "2025-06-01T09:00:00Z",
+          dosage: [{ text: "200mg", timing: { code: { text: "Daily" } } }],
+        },
+      },
+      { resource: { resourceType: "Appointment", id: "appt-1" } },
+      { resource: { resourceType: "Encounter", id: "enc-1" } },
+    ],
+  };
+  const plan = planFhirImport(bundle, USER);
+
+  expect(plan.profile.full_name).toBe("Sam Rivera");
+  expect(plan.logs).toHaveLength(2);
+  expect(plan.logs[0]).toMatchObject({
+    id: stableId(`${USER}/Condition/cond-1`),
+    symptoms: [{ symptom_id: "headache", name: "Headache", severity: 5 }],
+    start_date: "2025-06-05T10:00:00.000Z",
+  });
+  // The out-of-range glucose reading is dropped
+  expect(plan.logs[1].vitals).toEqual({ temperature: 100.4, weight: 154.3 });
+  expect(plan.medications[0]).toMatchObject({
+    id: stableId(`${USER}/MedicationStatement/ms-1`),
+    medication_name: "Ibuprofen",
+    dosage: "200mg",
+    recurrence: "Daily",
+    recurrence_rule: "FREQ=DAILY",
+  });
+  expect(plan.skipped).toEqual({ Encounter: 1 });
+  expect(plan.errors).toEqual(["Appointment/appt-1: start: Required"]);
+
+  // Importing the same Bundle again gives the same ids
+  expect(planFhirImport(bundle, USER).logs.map((l) => l.id)).toEqual(
+    plan.logs.map((l) => l.id),
+  );
+});
+
+test("planFhirImport gives ids the user doesn't own new ones of their own", () => {
+  const bundle = buildFhirBundle(record);
+  const plan = planFhirImport(bundle, USER);
+  const other = planFhirImport(bundle, "7c2d9e41-0a3b-4f5c-8d6e-1b2a3c4d5e6f");
+
+  const [medication] = record.medications;
+  expect(plan.medications[0].id).toBe(
+    stableId(`${USER}/MedicationRequest/${medication.id}`),
+  );
+  expect(plan.logs[0].id).not.toBe(record.logs[0].id);
+  expect(plan.appointments[0].id).not.toBe(record.appointments[0].id);
+  expect(other.medications[0].id).not.toBe(plan.medications[0].id);
+  // Importing it again still lands on the same records
+  expect(planFhirImport(bundle, USER).medications[0].id).toBe(
+    plan.medications[0].id,
+  );
+});
+
+test("planFhirImport rejects JSON that isn't a Bundle", () => {
+  expect(() => planFhirImport({ resourceType: "Patient" }, USER)).toThrow();
+});
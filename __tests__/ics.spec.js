@@ -0,0 +1,311 @@
+import {
+  classifyIcsEvent,
+  escapeIcsText,
+  foldIcsLine,
+  generateIcs,
+  parseIcs,
+  parseIcsDate,
+  unescapeIcsText,
+} from "@/lib/ics";
+import { parseRRule } from "@/lib/recurrence";
+
+const crlf = (lines) => lines.join("\r\n") + "\r\n";
+
+// Trimmed from a Google Calendar export
+const GOOGLE_SAMPLE = crlf([
+  "BEGIN:VCALENDAR",
+  "PRODID:-//Google Inc//Google Calendar 70.9054//EN",
+  "VERSION:2.0",
+  "CALSCALE:GREGORIAN",
+  "METHOD:PUBLISH",
+  "X-WR-CALNAME:Personal",
+  "X-WR-TIMEZONE:America/New_York",
+  "BEGIN:VTIMEZONE",
+  "TZID:America/New_York",
+  "BEGIN:DAYLIGHT",
+  "TZOFFSETFROM:-0500",
+  "TZOFFSETTO:-0400",
+  "DTSTART:19700308T020000",
+  "RRULE:FREQ=YEARLY;BYMONTH=3;BYDAY=2SU",
+  "END:DAYLIGHT",
+  "END:VTIMEZONE",
+  "BEGIN:VEVENT",
+  "DTSTART;TZID=America/New_York:20250715T093000",
+  "DTEND;TZID=America/New_York:20250715T103000",
+  "DTSTAMP:20250101T000000Z",
+  "UID:4kqp0d1l5o2c3s2vbl8v5v1g3k@google.com",
+  "CREATED:20241201T120000Z",
+  "DESCRIPTION:Bring insurance card\\, referral and last year's lab results.\\n",
+  " Parking is on Level 2\\; elevator by the east entrance.",
+  "SUMMARY:Dr. Patel - cardiology follow-up",
+  "END:VEVENT",
+  "BEGIN:VEVENT",
+  "DTSTART;TZID=America/New_York:20250106T080000",
+  "DTEND;TZID=America/New_York:20250106T081500",
+  "RRULE:FREQ=WEEKLY;BYDAY=MO,TH",
+  "UID:7h2b9sj1d0q3@google.com",
+  "SUMMARY:Medication: Vitamin D",
+  "END:VEVENT",
+  "END:VCALENDAR",
+]);
+
+// Trimmed from an Outlook export
+const OUTLOOK_SAMPLE = crlf([
+  "BEGIN:VCALENDAR",
+  "PRODID:-//Microsoft Corporation//Outlook 16.0 MIMEDIR//EN",
+  "VERSION:2.0",
+  "METHOD:PUBLISH",
+  "BEGIN:VTIMEZONE",
+  "TZID:W. Europe Standard Time",
+  "END:VTIMEZONE",
+  "BEGIN:VEVENT",
+  'ATTENDEE;CN="Smith, Jane";RSVP=TRUE:mailto:jane@example.com',
+  "CLASS:PUBLIC",
+  "DTSTART;TZID=W. Europe Standard Time:20250115T140000",
+  "DTEND;TZID=W. Europe Standard Time:20250115T150000",
+  "LOCATION:Room 3",
+  "SUMMARY;LANGUAGE=en-us:Physiotherapy",
+  "UID:040000008200E00074C5B7101A82E00800000000",
+  "END:VEVENT",
+  "END:VCALENDAR",
+]);
+
+// Trimmed from an Apple Calendar export, which uses LF line endings
+const APPLE_SAMPLE = [
+  "BEGIN:VCALENDAR",
+  "VERSION:2.0",
+  "PRODID:-//Apple Inc.//macOS 14.5//EN",
+  "BEGIN:VEVENT",
+  "UID:1E3A6E5C-7C59-4E1B-9A5B-0F2B7E6F8D11",
+  "DTSTART;VALUE=DATE:20180302",
+  "DTEND;VALUE=DATE:20180303",
+  "SUMMARY:Blood test (fasting)",
+  "BEGIN:VALARM",
+  "ACTION:DISPLAY",
+  "DESCRIPTION:Reminder",
+  "TRIGGER:-PT15H",
+  "END:VALARM",
+  "END:VEVENT",
+  "BEGIN:VEVENT",
+  "UID:9A0C2F43-1B6E-4C0A-8C7E-2E6A3D1B9F00",
+  "DTSTART:20250301T090000",
+  "DURATION:PT45M",
+  "SUMMARY:Dentist",
+  "END:VEVENT",
+  "END:VCALENDAR",
+].join("\n");
+
+describe("text values", () => {
+  test("escapes and unescapes special characters", () => {
+    const text = "Take 1, with food; see note\\back\nthen rest";
+    const escaped = escapeIcsText(text);
+    expect(escaped).toBe("Take 1\\, with food\\; see note\\\\back\\nthen rest");
+    expect(unescapeIcsText(escaped)).toBe(text);
+  });
+
+  test("folds long lines at 75 bytes without splitting characters", () => {
+    const line = `SUMMARY:${"💊".repeat(40)}`;
+    const folded = foldIcsLine(line);
+    const encoder = new TextEncoder();
+    for (const part of folded.split("\r\n")) {
+      expect(encoder.encode(part).length).toBeLessThanOrEqual(75);
+    }
+    expect(folded.replace(/\r\n /g, "")).toBe(line);
+  });
+});
+
+describe("parseIcsDate", () => {
+  test("reads UTC, time zone, floating and date values", () => {
+    expect(parseIcsDate("20250105T083000Z").date.toISOString()).toBe(
+      "2025-01-05T08:30:00.000Z",
+    );
+    expect(
+      parseIcsDate("20250105T083000", { TZID: "Asia/Kolkata" }).date,
+    ).toEqual(new Date("2025-01-05T03:00:00.000Z"));
+    expect(parseIcsDate("20250105T083000").date).toEqual(
+      new Date(2025, 0, 5, 8, 30),
+    );
+    expect(parseIcsDate("20250105", { VALUE: "DATE" })).toEqual({
+      date: new Date(2025, 0, 5),
+      allDay: true,
+    });
+    expect(parseIcsDate("not a date")).toBeNull();
+  });
+
+  test("handles daylight saving time and prefixed zone names", () => {
+    expect(
+      parseIcsDate("20250715T093000", { TZID: "America/New_York" }).date,
+    ).toEqual(new Date("2025-07-15T13:30:00.000Z"));
+    expect(
+      parseIcsDate("20250115T093000", {
+        TZID: "/mozilla.org/20050126_1/America/New_York",
+      }).date,
+    ).toEqual(new Date("2025-01-15T14:30:00.000Z"));
+  });
+});
+
+describe("parseIcs", () => {
+  test("reads a Google Calendar export", () => {
+    const [appt, med] = parseIcs(GOOGLE_SAMPLE);
+    expect(appt).toEqual({
+      uid: "4kqp0d1l5o2c3s2vbl8v5v1g3k@google.com",
+      summary: "Dr. Patel - cardiology follow-up",
+      description:
+        "Bring insurance card, referral and last year's lab results.\nParking is on Level 2; elevator by the east entrance.",
+      start: new Date("2025-07-15T13:30:00.000Z"),
+      end: new Date("2025-07-15T14:30:00.000Z"),
+      allDay: false,
+      rrule: null,
+    });
+    expect(med.rrule).toBe("FREQ=WEEKLY;BYDAY=MO,TH");
+    expect(classifyIcsEvent(med)).toMatchObject({
+      type: "medication",
+      id: null,
+      name: "Vitamin D",
+    });
+  });
+
+  test("reads an Outlook export with Windows time zones", () => {
+    const [event] = parseIcs(OUTLOOK_SAMPLE);
+    expect(event.summary).toBe("Physiotherapy");
+    expect(event.start).toEqual(new Date("2025-01-15T13:00:00.000Z"));
+    expect(classifyIcsEvent(event).type).toBe("appointment");
+  });
+
+  test("reads an Apple Calendar export and keeps old events", () => {
+    const [bloodTest, dentist] = parseIcs(APPLE_SAMPLE);
+    expect(bloodTest).toMatchObject({
+      summary: "Blood test (fasting)",
+      description: null,
+      start: new Date(2018, 2, 2),
+      end: new Date(2018, 2, 3),
+      allDay: true,
+    });
+    expect(dentist.end).toEqual(new Date(2025, 2, 1, 9, 45));
+  });
+});
+
+describe("generateIcs", () => {
+  const medication = {
+    id: "m1",
+    user_profile_id: "u1",
+    medication_name: "Ibuprofen, extra strength",
+    dosage: "200 mg; with food",
+    reminder_time: new Date(2025, 0, 1, 8, 0).toISOString(),
+    recurrence: "Daily",
+    recurrence_rule: "FREQ=DAILY;BYHOUR=8,20;BYMINUTE=0;COUNT=20",
+    calendar_sync_token: null,
+  };
+  const asNeeded = {
+    ...medication,
+    id: "m2",
+    medication_name: "Antacid",
+    dosage: null,
+    recurrence: "As Needed",
+    recurrence_rule: null,
+  };
+  const appointment = {
+    id: "a1",
+    user_profile_id: "u1",
+    appointment_name: "Checkup",
+    date: "2025-02-01T15:00:00.000Z",
+  };
+  const ics = generateIcs(
+    { medications: [medication, asNeeded], appointments: [appointment] },
+    { now: new Date("2025-01-01T00:00:00.000Z") },
+  );
+
+  test("writes one event per record with an RRULE for recurring medications", () => {
+    expect(ics.startsWith("BEGIN:VCALENDAR\r\nVERSION:2.0\r\n")).toBe(true);
+    expect(ics.match(/BEGIN:VEVENT/g)).toHaveLength(3);
+    expect(ics).toContain("DTSTAMP:20250101T000000Z");
+    expect(ics).toContain("DTSTART:20250101T080000\r\n");
+    expect(ics).toContain("RRULE:FREQ=DAILY;BYHOUR=8,20;BYMINUTE=0;COUNT=20");
+    expect(ics).toContain("SUMMARY:💊 Med: Ibuprofen\\, extra strength");
+    expect(ics).toContain("DESCRIPTION:Dosage: 200 mg\\; with food");
+    expect(ics).toContain("DTSTART:20250201T150000Z");
+  });
+
+  test("round-trips through parseIcs with stable UIDs", () => {
+    const items = parseIcs(ics).map(classifyIcsEvent);
+    expect(items).toEqual([
+      {
+        type: "appointment",
+        id: "a1",
+        name: "Checkup",
+        dosage: null,
+        start: new Date(appointment.date),
+        rrule: null,
+      },
+      {
+        type: "medication",
+        id: "m1",
+        name: "Ibuprofen, extra strength",
+        dosage: "200 mg; with food",
+        start: new Date(medication.reminder_time),
+        rrule: "FREQ=DAILY;BYHOUR=8,20;BYMINUTE=0;COUNT=20",
+      },
+      {
+        type: "medication",
+        id: "m2",
+        name: "Antacid",
+        dosage: null,
+        start: new Date(asNeeded.reminder_time),
+        rrule: null,
+      },
+    ]);
+    expect(parseRRule(items[1].rrule)).toEqual(
+      parseRRule(medication.recurrence_rule),
+    );
+  });
+
+  test("defines the TZID of recurring medications with a VTIMEZONE", () => {
+    const zoned = generateIcs(
+      { medications: [medication], appointments: [] },
+      {
+        now: new Date("2025-01-01T00:00:00.000Z"),
+        timeZone: "America/New_York",
+      },
+    );
+    const vtimezone = zoned.slice(
+      zoned.indexOf("BEGIN:VTIMEZONE"),
+      zoned.indexOf("END:VTIMEZONE"),
+    );
+
+    expect(zoned.indexOf("BEGIN:VTIMEZONE")).toBeLessThan(
+      zoned.indexOf("BEGIN:VEVENT"),
+    );
+    expect(vtimezone).toContain("TZID:America/New_York\r\n");
+    expect(vtimezone).toContain(
+      crlf([
+        "BEGIN:DAYLIGHT",
+        "DTSTART:20250309T020000",
+        "TZOFFSETFROM:-0500",
+        "TZOFFSETTO:-0400",
+        "END:DAYLIGHT",
+        "BEGIN:STANDARD",
+        "DTSTART:20251102T020000",
+        "TZOFFSETFROM:-0400",
+        "TZOFFSETTO:-0500",
+        "END:STANDARD",
+      ]),
+    );
+    expect(zoned).toMatch(/DTSTART;TZID=America\/New_York:\d{8}T\d{6}\r\n/);
+  });
+
+  test("keeps UNTIL in local time next to a floating start", () => {
+    const until = new Date(2025, 0, 31, 23, 59, 59).toISOString();
+    const [event] = parseIcs(
+      generateIcs({
+        medications: [
+          {
+            ...medication,
+            recurrence_rule: `FREQ=DAILY;UNTIL=${until.replace(/[-:]|\.\d{3}/g, "")}`,
+          },
+        ],
+        appointments: [],
+      }),
+    );
+    expect(event.rrule).toBe("FREQ=DAILY;UNTIL=20250131T235959");
+  });
+});
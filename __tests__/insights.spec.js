@@ -0,0 +1,158 @@
+import {
+  compareSeverities,
+  computeInsights,
+  findCoOccurrenceInsights,
+  findDayOfWeekInsights,
+  findMedicationInsights,
+  findMoodInsights,
+  findTimeOfDayInsights,
+} from "@/lib/insights";
+
+const NOW = new Date(2025, 5, 30, 12);
+
+// A log at local time, `daysAgo` days before NOW
+const log = (id, { daysAgo = 0, hour = 12, severity = 5, symptoms, mood }) => {
+  const start = new Date(NOW);
+  start.setDate(start.getDate() - daysAgo);
+  start.setHours(hour, 0, 0, 0);
+  return {
+    id,
+    user_profile_id: "u1",
+    symptom_type: symptoms ?? "Headache",
+    severity,
+    symptoms: [],
+    mood: mood ?? null,
+    vitals: null,
+    medication_intake: null,
+    notes: null,
+    start_date: start.toISOString(),
+    end_date: null,
+  };
+};
+
+const med = (id, name, daysAgo) => {
+  const start = new Date(NOW);
+  start.setDate(start.getDate() - daysAgo);
+  return {
+    id,
+    user_profile_id: "u1",
+    medication_name: name,
+    dosage: null,
+    reminder_time: start.toISOString(),
+    recurrence: "Daily",
+    recurrence_rule: null,
+    calendar_sync_token: null,
+    created_at: start.toISOString(),
+  };
+};
+
+describe("compareSeverities", () => {
+  test("needs enough logs on each side", () => {
+    expect(compareSeverities([8, 8], [2, 2, 2])).toBeNull();
+  });
+
+  test("rates confidence by group size and consistency", () => {
+    expect(compareSeverities([8, 7, 9], [2, 3, 2])?.confidence).toBe("low");
+    const many = (value) =>
+      Array.from({ length: 12 }, (_, i) => value + (i % 2));
+    const comparison = compareSeverities(many(7), many(3));
+    expect(comparison).toMatchObject({ difference: 4, confidence: "high" });
+  });
+});
+
+test("findMedicationInsights compares severity before and after starting", () => {
+  const logs = [
+    ...[20, 18, 16, 14, 12, 11].map((d, i) =>
+      log(`b${i}`, { daysAgo: d, severity: 7 + (i % 2) }),
+    ),
+    ...[9, 7, 5, 4, 3, 1].map((d, i) =>
+      log(`a${i}`, { daysAgo: d, severity: 3 + (i % 2) }),
+    ),
+  ];
+  const insights = findMedicationInsights(
+    logs,
+    [med("m1", "Sumatriptan", 10), med("m2", "Later", -5)],
+    NOW,
+  );
+
+  expect(insights).toHaveLength(1);
+  expect(insights[0]).toMatchObject({
+    kind: "medication",
+    title: "Severity lower since starting Sumatriptan",
+    confidence: "medium",
+    basis: "Based on 6 logs before and 6 after",
+  });
+  expect(insights[0].description).toContain("7.5 in the 30 days before");
+  expect(insights[0].description).toContain("3.5 in the 30 days after");
+});
+
+test("findCoOccurrenceInsights reports symptoms logged together", () => {
+  const logs = [
+    log("1", { symptoms: "Headache, Nausea" }),
+    log("2", { symptoms: "migraines, nausea" }),
+    log("3", { symptoms: "Headache, Nausea" }),
+    log("4", { symptoms: "Headache, nauseous" }),
+    log("5", { symptoms: "Cough" }),
+    log("6", { symptoms: "Cough" }),
+    log("7", { symptoms: "Headache" }),
+  ];
+  const insights = findCoOccurrenceInsights(logs);
+
+  expect(insights).toHaveLength(1);
+  expect(insights[0].title).toBe("Headache and Nausea often come together");
+  expect(insights[0].description).toBe(
+    "Nausea was logged alongside Headache in 3 of the 4 logs with Headache (75%).",
+  );
+});
+
+test("findDayOfWeekInsights and findTimeOfDayInsights find the worst group", () => {
+  // Three evening logs a week apart (the same weekday) with high severity
+  const logs = [
+    log("1", { daysAgo: 0, hour: 20, severity: 8 }),
+    log("2", { daysAgo: 7, hour: 20, severity: 9 }),
+    log("3", { daysAgo: 14, hour: 20, severity: 8 }),
+    log("4", { daysAgo: 1, hour: 9, severity: 3 }),
+    log("5", { daysAgo: 2, hour: 9, severity: 2 }),
+    log("6", { daysAgo: 3, hour: 14, severity: 3 }),
+    log("7", { daysAgo: 4, hour: 14, severity: 2 }),
+  ];
+  const weekday = new Date(logs[0].start_date).toLocaleDateString("en-US", {
+    weekday: "long",
+  });
+
+  expect(findDayOfWeekInsights(logs)[0].title).toBe(
+    `Symptoms are worse on ${weekday}s`,
+  );
+  expect(findTimeOfDayInsights(logs)[0].title).toBe(
+    "Symptoms are worse in the evening",
+  );
+});
+
+test("findMoodInsights compares each mood with the others", () => {
+  const logs = [
+    ...[8, 7, 8].map((s, i) => log(`s${i}`, { severity: s, mood: "Stressed" })),
+    ...[3, 2, 3].map((s, i) => log(`h${i}`, { severity: s, mood: "Happy" })),
+    log("n", { severity: 5, mood: null }),
+  ];
+  const titles = findMoodInsights(logs).map((i) => i.title);
+  expect(titles).toEqual([
+    "Severity is higher when you feel Stressed",
+    "Severity is lower when you feel Happy",
+  ]);
+});
+
+test("computeInsights puts the most confident findings first", () => {
+  expect(computeInsights([], [], NOW)).toEqual([]);
+  const logs = [
+    ...Array.from({ length: 12 }, (_, i) =>
+      log(`s${i}`, { daysAgo: i, severity: 8 + (i % 2), mood: "Stressed" }),
+    ),
+    ...Array.from({ length: 12 }, (_, i) =>
+      log(`h${i}`, { daysAgo: i, severity: 2 + (i % 2), mood: "Happy" }),
+    ),
+  ];
+  const rank = { high: 0, medium: 1, low: 2 };
+  const ranks = computeInsights(logs, [], NOW).map((i) => rank[i.confidence]);
+  expect(ranks[0]).toBe(0);
+  expect(ranks).toEqual([...ranks].sort((a, b) => a - b));
+});
@@ -0,0 +1,158 @@
+import {
+  calculateAdherence,
+  getSnoozeAction,
+  parseDoseAction,
+  getCurrentDoseTime,
+  isLateDose,
+  recordMedicationDose,
+} from "@/lib/medicationDoses";
+import { supabase } from "@/lib/supabaseClient";
+
+jest.mock("@/lib/supabaseClient", () => ({
+  supabase: { from: jest.fn() },
+}));
+
+const NOW = new Date(2025, 0, 10, 9, 30);
+
+const med = (reminderTime, recurrence) => ({
+  reminder_time: reminderTime.toISOString(),
+  recurrence,
+});
+
+describe("getCurrentDoseTime", () => {
+  test("returns the latest daily dose", () => {
+    const start = new Date(2025, 0, 1, 8, 0);
+    expect(getCurrentDoseTime(med(start, "Daily"), NOW)).toEqual(
+      new Date(2025, 0, 10, 8, 0),
+    );
+  });
+
+  test("returns the next dose when it is less than an hour away", () => {
+    const start = new Date(2025, 0, 1, 10, 0);
+    expect(getCurrentDoseTime(med(start, "Daily"), NOW)).toEqual(
+      new Date(2025, 0, 10, 10, 0),
+    );
+  });
+
+  test.each([
+    ["Weekly", new Date(2025, 0, 8, 8, 0)],
+    ["Every 3 Days", new Date(2025, 0, 10, 8, 0)],
+    ["Every 4 Hours", new Date(2025, 0, 10, 8, 0)],
+    ["Monthly", new Date(2025, 0, 1, 8, 0)],
+  ])("handles %s recurrence", (recurrence, expected) => {
+    const start = new Date(2025, 0, 1, 8, 0);
+    expect(getCurrentDoseTime(med(start, recurrence), NOW)).toEqual(expected);
+  });
+
+  test("uses the reminder time for one-off and as-needed medications", () => {
+    const start = new Date(2025, 0, 1, 8, 0);
+    expect(getCurrentDoseTime(med(start, "As Needed"), NOW)).toEqual(start);
+    expect(getCurrentDoseTime(med(start, null), NOW)).toEqual(start);
+  });
+
+  test("uses the first dose for medications that haven't started yet", () => {
+    const start = new Date(2025, 0, 20, 8, 0);
+    expect(getCurrentDoseTime(med(start, "Daily"), NOW)).toEqual(start);
+  });
+});
+
+describe("adherence", () => {
+  const scheduled = "2025-01-10T08:00:00.000Z";
+
+  test("flags doses taken more than an hour late", () => {
+    expect(
+      isLateDose({
+        status: "taken",
+        scheduled_for: scheduled,
+        taken_at: "2025-01-10T08:45:00.000Z",
+      }),
+    ).toBe(false);
+    expect(
+      isLateDose({
+        status: "taken",
+        scheduled_for: scheduled,
+        taken_at: "2025-01-10T09:30:00.000Z",
+      }),
+    ).toBe(true);
+  });
+
+  test("counts taken doses against taken, skipped and missed ones", () => {
+    const summary = calculateAdherence([
+      { status: "taken", scheduled_for: scheduled, taken_at: scheduled },
+      {
+        status: "taken",
+        scheduled_for: scheduled,
+        taken_at: "2025-01-10T11:00:00.000Z",
+      },
+      { status: "taken", scheduled_for: scheduled, taken_at: scheduled },
+      { status: "skipped", scheduled_for: scheduled, taken_at: null },
+      { status: "snoozed", scheduled_for: scheduled, taken_at: null },
+      { status: "missed", scheduled_for: scheduled, taken_at: null },
+    ]);
+    expect(summary).toEqual({
+      taken: 3,
+      late: 1,
+      skipped: 1,
+      missed: 1,
+      percentage: 60,
+    });
+  });
+
+  test("has no percentage until a dose is marked", () => {
+    expect(calculateAdherence([]).percentage).toBeNull();
+  });
+});
+
+describe("recordMedicationDose", () => {
+  test("upserts the dose keyed by medication and scheduled time", async () => {
+    const row = {
+      id: "dose_1",
+      medication_id: "med_1",
+      user_profile_id: "usr_1",
+      scheduled_for: "2025-01-10T08:00:00.000Z",
+      status: "taken",
+      taken_at: "2025-01-10T08:05:00.000Z",
+      snoozed_until: null,
+      created_at: "2025-01-10T08:05:00.000Z",
+    };
+    const upsert = jest.fn(() => ({
+      select: () => ({ single: async () => ({ data: row, error: null }) }),
+    }));
+    supabase.from.mockReturnValue({ upsert });
+
+    const dose = await recordMedicationDose({
+      medication_id: "med_1",
+      user_profile_id: "usr_1",
+      scheduled_for: "2025-01-10T08:00:00Z",
+      status: "taken",
+    });
+
+    expect(supabase.from).toHaveBeenCalledWith("medication_doses");
+    const [[rows, options]] = upsert.mock.calls;
+    expect(options).toEqual({ onConflict: "medication_id,scheduled_for" });
+    expect(rows[0]).toMatchObject({
+      medication_id: "med_1",
+      scheduled_for: "2025-01-10T08:00:00.000Z",
+      status: "taken",
+      snoozed_until: null,
+    });
+    expect(rows[0].taken_at).toEqual(expect.any(String));
+    expect(dose).toEqual(row);
+  });
+});
+
+describe("parseDoseAction", () => {
+  test("reads answers and snooze lengths", () => {
+    expect(parseDoseAction("taken")).toEqual({ status: "taken" });
+    expect(parseDoseAction(getSnoozeAction(30))).toEqual({
+      status: "snoozed",
+      snoozeMinutes: 30,
+    });
+    expect(parseDoseAction("snoozed", 60)).toEqual({
+      status: "snoozed",
+      snoozeMinutes: 60,
+    });
+    expect(parseDoseAction("snooze-soon")).toBeNull();
+    expect(parseDoseAction("missed")).toBeNull();
+  });
+});
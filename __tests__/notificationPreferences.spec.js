@@ -0,0 +1,88 @@
+import {
+  DEFAULT_NOTIFICATION_SETTINGS,
+  isWithinQuietHours,
+  shouldDeliverNotification,
+} from "@/lib/notificationPreferences";
+
+jest.mock("@/lib/supabaseClient", () => ({ supabase: {} }));
+
+const settings = {
+  ...DEFAULT_NOTIFICATION_SETTINGS,
+  time_zone: "America/New_York",
+  medication_channels: ["in_app", "push"],
+  quiet_hours_start: "22:00:00",
+  quiet_hours_end: "07:00:00",
+};
+
+describe("isWithinQuietHours", () => {
+  test("follows the user's time zone across midnight", () => {
+    // 23:30 and 06:59 in New York are quiet, 07:00 and 21:59 aren't
+    expect(isWithinQuietHours(settings, new Date("2025-01-06T04:30:00Z"))).toBe(
+      true,
+    );
+    expect(isWithinQuietHours(settings, new Date("2025-01-06T11:59:00Z"))).toBe(
+      true,
+    );
+    expect(isWithinQuietHours(settings, new Date("2025-01-06T12:00:00Z"))).toBe(
+      false,
+    );
+    expect(isWithinQuietHours(settings, new Date("2025-01-07T02:59:00Z"))).toBe(
+      false,
+    );
+  });
+
+  test("supports quiet hours within a day, and none", () => {
+    const afternoon = {
+      ...settings,
+      quiet_hours_start: "13:00",
+      quiet_hours_end: "15:00",
+    };
+    expect(
+      isWithinQuietHours(afternoon, new Date("2025-01-06T19:00:00Z")),
+    ).toBe(true);
+    expect(
+      isWithinQuietHours(afternoon, new Date("2025-01-06T20:00:00Z")),
+    ).toBe(false);
+    expect(
+      isWithinQuietHours(
+        DEFAULT_NOTIFICATION_SETTINGS,
+        new Date("2025-01-06T04:30:00Z"),
+      ),
+    ).toBe(false);
+  });
+});
+
+describe("shouldDeliverNotification", () => {
+  const medication = { medication_id: "m1" };
+  const appointment = { appointment_id: "a1" };
+  const daytime = new Date("2025-01-06T17:00:00Z");
+  const night = new Date("2025-01-06T04:30:00Z");
+
+  test("uses the channels picked for each kind of reminder", () => {
+    expect(
+      shouldDeliverNotification(settings, medication, "browser", daytime),
+    ).toBe(false);
+    expect(
+      shouldDeliverNotification(settings, medication, "push", daytime),
+    ).toBe(true);
+    expect(
+      shouldDeliverNotification(settings, appointment, "browser", daytime),
+    ).toBe(true);
+  });
+
+  test("only shows toasts during quiet hours", () => {
+    expect(shouldDeliverNotification(settings, medication, "push", night)).toBe(
+      false,
+    );
+    expect(
+      shouldDeliverNotification(settings, medication, "in_app", night),
+    ).toBe(true);
+  });
+
+  test("delivers everywhere without preferences", () => {
+    expect(shouldDeliverNotification(null, medication, "browser", night)).toBe(
+      true,
+    );
+    expect(shouldDeliverNotification(null, {}, "push", night)).toBe(true);
+  });
+});
@@ -0,0 +1,249 @@
+import {
+  findConflictingFields,
+  isTemporaryError,
+  syncOfflineChanges,
+} from "@/lib/offlineSync";
+import { isNetworkError } from "@/lib/offlineStore";
+
+jest.mock("@/lib/supabaseClient", () => ({ supabase: {} }));
+
+const mockOutbox = [];
+jest.mock("@/lib/offlineStore", () => ({
+  ...jest.requireActual("@/lib/offlineStore"),
+  getOutbox: jest.fn(async () => [...mockOutbox]),
+  removeOutboxEntry: jest.fn(async (seq) => {
+    mockOutbox.splice(
+      mockOutbox.findIndex((e) => e.seq === seq),
+      1,
+    );
+  }),
+  putCachedRecords: jest.fn(async () => {}),
+  removeCachedRecord: jest.fn(async () => {}),
+}));
+
+const log = {
+  id: "l1",
+  user_profile_id: "u1",
+  symptom_type: "Headache",
+  severity: 4,
+  notes: null,
+};
+
+/**
+ * A Supabase client whose rows live in a map. `fail` makes every request fail with that error
+ * and `status`.
+ */
+function createClient(rows, { fail, status = 400 } = {}) {
+  const calls = [];
+  const result = (data) =>
+    fail ? { data: null, error: fail, status } : { data, error: null };
+  const client = {
+    calls,
+    from: (table) => ({
+      insert: (payload) => ({
+        select: () => ({
+          single: async () => {
+            calls.push(["insert", table, payload]);
+            if (!fail && rows.has(payload.id)) {
+              return {
+                data: null,
+                error: { code: "23505", message: "duplicate key" },
+              };
+            }
+            if (!fail) rows.set(payload.id, payload);
+            return result(payload);
+          },
+        }),
+      }),
+      select: () => ({
+        eq: (_col, id) => ({
+          maybeSingle: async () => result(rows.get(id) ?? null),
+        }),
+      }),
+      update: (payload) => ({
+        eq: (_col, id) => ({
+          select: () => ({
+            single: async () => {
+              calls.push(["update", table, id, payload]);
+              const updated = { ...rows.get(id), ...payload };
+              if (!fail) rows.set(id, updated);
+              return result(updated);
+            },
+          }),
+        }),
+      }),
+      delete: () => ({
+        eq: async (_col, id) => {
+          calls.push(["delete", table, id]);
+          if (!fail) rows.delete(id);
+          return result(null);
+        },
+      }),
+    }),
+  };
+  return client;
+}
+
+const queue = (...entries) => {
+  mockOutbox.length = 0;
+  entries.forEach((entry, i) =>
+    mockOutbox.push({
+      seq: i + 1,
+      table: "health_logs",
+      user_profile_id: "u1",
+      base: null,
+      queued_at: "2025-01-06T12:00:00.000Z",
+      ...entry,
+    }),
+  );
+};
+
+describe("findConflictingFields", () => {
+  const entry = { payload: { severity: 6 }, base: log };
+
+  test("ignores fields only changed offline or changed the same way", () => {
+    expect(findConflictingFields(entry, log)).toEqual([]);
+    expect(findConflictingFields(entry, { ...log, severity: 6 })).toEqual([]);
+    expect(findConflictingFields(entry, { ...log, notes: "Worse" })).toEqual(
+      [],
+    );
+  });
+
+  test("finds fields changed both offline and elsewhere", () => {
+    expect(findConflictingFields(entry, { ...log, severity: 2 })).toEqual([
+      "severity",
+    ]);
+  });
+});
+
+describe("syncOfflineChanges", () => {
+  test("replays creates, updates and deletes in order", async () => {
+    const rows = new Map([["l1", log]]);
+    const client = createClient(rows);
+    queue(
+      { op: "create", id: "l2", payload: { ...log, id: "l2" } },
+      { op: "update", id: "l1", payload: { severity: 6 }, base: log },
+      { op: "delete", id: "l2", payload: {}, base: { ...log, id: "l2" } },
+    );
+
+    const result = await syncOfflineChanges(client);
+
+    expect(result).toEqual({ synced: 3, conflicts: [], pending: 0 });
+    expect(client.calls.map(([op]) => op)).toEqual([
+      "insert",
+      "update",
+      "delete",
+    ]);
+    expect(rows.get("l1").severity).toBe(6);
+    expect(rows.has("l2")).toBe(false);
+    expect(mockOutbox).toEqual([]);
+  });
+
+  test("treats a create that already went through as synced", async () => {
+    const client = createClient(new Map([["l1", log]]));
+    queue({ op: "create", id: "l1", payload: log });
+
+    expect(await syncOfflineChanges(client)).toEqual({
+      synced: 1,
+      conflicts: [],
+      pending: 0,
+    });
+  });
+
+  test("keeps changes made elsewhere and reports the conflict", async () => {
+    const rows = new Map([["l1", { ...log, severity: 2 }]]);
+    const client = createClient(rows);
+    queue(
+      { op: "update", id: "l1", payload: { severity: 6 }, base: log },
+      { op: "delete", id: "l1", payload: {}, base: log },
+      { op: "update", id: "gone", payload: { severity: 1 }, base: log },
+    );
+
+    const result = await syncOfflineChanges(client);
+
+    expect(result.synced).toBe(0);
+    expect(result.conflicts).toEqual([
+      { table: "health_logs", op: "update", id: "l1", reason: "changed" },
+      { table: "health_logs", op: "delete", id: "l1", reason: "changed" },
+      { table: "health_logs", op: "update", id: "gone", reason: "deleted" },
+    ]);
+    expect(rows.get("l1").severity).toBe(2);
+    expect(client.calls).toEqual([]);
+    expect(mockOutbox).toEqual([]);
+  });
+
+  test("stops and keeps the outbox when Supabase can't be reached", async () => {
+    const client = createClient(new Map(), {
+      fail: { message: "TypeError: Failed to fetch" },
+    });
+    queue(
+      { op: "create", id: "l2", payload: { ...log, id: "l2" } },
+      { op: "update", id: "l1", payload: { severity: 6 }, base: log },
+    );
+
+    expect(await syncOfflineChanges(client)).toEqual({
+      synced: 0,
+      conflicts: [],
+      pending: 2,
+    });
+    expect(mockOutbox).toHaveLength(2);
+  });
+
+  test("keeps the outbox when the session has expired", async () => {
+    const client = createClient(new Map(), {
+      fail: { code: "PGRST301", message: "JWT expired" },
+      status: 401,
+    });
+    queue({ op: "create", id: "l2", payload: { ...log, id: "l2" } });
+
+    expect(await syncOfflineChanges(client)).toEqual({
+      synced: 0,
+      conflicts: [],
+      pending: 1,
+    });
+    expect(mockOutbox).toHaveLength(1);
+  });
+
+  test("drops and reports changes Supabase rejects", async () => {
+    const client = createClient(new Map(), {
+      fail: {
+        code: "42501",
+        message: "new row violates row-level security policy",
+      },
+      status: 403,
+    });
+    queue({ op: "create", id: "l2", payload: { ...log, id: "l2" } });
+
+    expect(await syncOfflineChanges(client)).toEqual({
+      synced: 0,
+      conflicts: [
+        { table: "health_logs", op: "create", id: "l2", reason: "rejected" },
+      ],
+      pending: 0,
+    });
+    expect(mockOutbox).toEqual([]);
+  });
+});
+
+test("isTemporaryError tells errors worth retrying from rejections", () => {
+  expect(isTemporaryError({ message: "TypeError: Failed to fetch" })).toBe(
+    true,
+  );
+  expect(isTemporaryError({ code: "PGRST301", message: "JWT expired" })).toBe(
+    true,
+  );
+  expect(isTemporaryError({ code: "", message: "Bad gateway" }, 502)).toBe(
+    true,
+  );
+  expect(
+    isTemporaryError({ code: "23502", message: "null value in column" }, 400),
+  ).toBe(false);
+});
+
+test("isNetworkError tells unreachable from rejected", () => {
+  expect(isNetworkError(new TypeError("Failed to fetch"))).toBe(true);
+  expect(isNetworkError({ message: "TypeError: fetch failed" })).toBe(true);
+  expect(
+    isNetworkError({ message: "new row violates row-level security" }),
+  ).toBe(false);
+});
@@ -0,0 +1,241 @@
+import {
+  describeRecurrence,
+  expandRecurrence,
+  formatRRule,
+  getLatestOccurrence,
+  getMedicationOccurrences,
+  hasRepresentableTimes,
+  parseRRule,
+  recurrenceRuleFromLabel,
+} from "@/lib/recurrence";
+
+// Wednesday, January 1st 2025 at 08:00 local time
+const START = new Date(2025, 0, 1, 8, 0);
+
+const expand = (rrule, rangeStart, rangeEnd) =>
+  expandRecurrence(parseRRule(rrule), START, rangeStart, rangeEnd);
+
+describe("parseRRule / formatRRule", () => {
+  test("round-trips the supported parts", () => {
+    const rrule = "FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,WE;BYHOUR=8,20;BYMINUTE=30";
+    const rule = parseRRule(`RRULE:${rrule}`);
+    expect(rule).toEqual({
+      freq: "WEEKLY",
+      interval: 2,
+      byDay: ["MO", "WE"],
+      times: ["08:30", "20:30"],
+      until: null,
+      count: null,
+    });
+    expect(formatRRule(rule)).toBe(rrule);
+  });
+
+  test("reads UNTIL in UTC and COUNT", () => {
+    expect(parseRRule("FREQ=DAILY;UNTIL=20250110T120000Z").until).toBe(
+      "2025-01-10T12:00:00.000Z",
+    );
+    expect(parseRRule("FREQ=DAILY;COUNT=3").count).toBe(3);
+    expect(formatRRule(parseRRule("FREQ=DAILY;UNTIL=20250110T120000Z"))).toBe(
+      "FREQ=DAILY;UNTIL=20250110T120000Z",
+    );
+  });
+
+  test("rejects unsupported or invalid rules", () => {
+    expect(parseRRule("FREQ=YEARLY")).toBeNull();
+    expect(parseRRule("FREQ=DAILY;COUNT=2;UNTIL=20250110")).toBeNull();
+    expect(parseRRule("nonsense")).toBeNull();
+  });
+
+  test("only accepts times that BYHOUR/BYMINUTE can express", () => {
+    expect(hasRepresentableTimes(["08:00", "20:00"])).toBe(true);
+    expect(hasRepresentableTimes(["08:00", "20:30"])).toBe(false);
+  });
+});
+
+describe("expandRecurrence", () => {
+  test("expands several times per day", () => {
+    expect(
+      expand(
+        "FREQ=DAILY;BYHOUR=8,20;BYMINUTE=0",
+        START,
+        new Date(2025, 0, 2, 23, 59),
+      ),
+    ).toEqual([
+      new Date(2025, 0, 1, 8, 0),
+      new Date(2025, 0, 1, 20, 0),
+      new Date(2025, 0, 2, 8, 0),
+      new Date(2025, 0, 2, 20, 0),
+    ]);
+  });
+
+  test("expands specific weekdays", () => {
+    expect(
+      expand("FREQ=WEEKLY;BYDAY=MO,FR", START, new Date(2025, 0, 14)),
+    ).toEqual([
+      new Date(2025, 0, 3, 8, 0),
+      new Date(2025, 0, 6, 8, 0),
+      new Date(2025, 0, 10, 8, 0),
+      new Date(2025, 0, 13, 8, 0),
+    ]);
+  });
+
+  test("expands every N hours", () => {
+    expect(
+      expand("FREQ=HOURLY;INTERVAL=6", START, new Date(2025, 0, 2, 8, 0)),
+    ).toEqual([
+      new Date(2025, 0, 1, 8, 0),
+      new Date(2025, 0, 1, 14, 0),
+      new Date(2025, 0, 1, 20, 0),
+      new Date(2025, 0, 2, 2, 0),
+      new Date(2025, 0, 2, 8, 0),
+    ]);
+  });
+
+  test("stops at COUNT, counted from the start even for later ranges", () => {
+    const rrule = "FREQ=DAILY;COUNT=3";
+    expect(expand(rrule, START, new Date(2025, 1, 1))).toHaveLength(3);
+    expect(expand(rrule, new Date(2025, 0, 2), new Date(2025, 1, 1))).toEqual([
+      new Date(2025, 0, 2, 8, 0),
+      new Date(2025, 0, 3, 8, 0),
+    ]);
+  });
+
+  test("stops at UNTIL", () => {
+    const until = new Date(2025, 0, 3, 23, 59).toISOString();
+    const rule = { ...parseRRule("FREQ=DAILY"), until };
+    expect(
+      expandRecurrence(rule, START, START, new Date(2025, 1, 1)),
+    ).toHaveLength(3);
+  });
+
+  test("skips months without the day of the month", () => {
+    const start = new Date(2025, 0, 31, 8, 0);
+    expect(
+      expandRecurrence(
+        parseRRule("FREQ=MONTHLY"),
+        start,
+        start,
+        new Date(2025, 4, 1),
+      ),
+    ).toEqual([new Date(2025, 0, 31, 8, 0), new Date(2025, 2, 31, 8, 0)]);
+  });
+
+  test("has a single occurrence without a rule", () => {
+    expect(expandRecurrence(null, START, START, new Date(2025, 1, 1))).toEqual([
+      START,
+    ]);
+    expect(
+      expandRecurrence(null, START, new Date(2025, 0, 2), new Date(2025, 1, 1)),
+    ).toEqual([]);
+  });
+
+  test("finds the latest occurrence", () => {
+    expect(
+      getLatestOccurrence(
+        parseRRule("FREQ=DAILY;BYHOUR=8,20;BYMINUTE=0"),
+        START,
+        new Date(2025, 0, 5, 19, 0),
+      ),
+    ).toEqual(new Date(2025, 0, 5, 8, 0));
+    expect(
+      getLatestOccurrence(parseRRule("FREQ=DAILY"), START, new Date(2024, 0)),
+    ).toBeNull();
+  });
+});
+
+describe("medications", () => {
+  test("falls back to the recurrence label of older reminders", () => {
+    expect(recurrenceRuleFromLabel("Biweekly")).toMatchObject({
+      freq: "WEEKLY",
+      interval: 2,
+    });
+    expect(recurrenceRuleFromLabel("Every 8 Hours")).toMatchObject({
+      freq: "HOURLY",
+      interval: 8,
+    });
+    expect(recurrenceRuleFromLabel("Every 3 Months")).toMatchObject({
+      freq: "MONTHLY",
+      interval: 3,
+    });
+    expect(recurrenceRuleFromLabel("As Needed")).toBeNull();
+
+    const med = {
+      reminder_time: START.toISOString(),
+      recurrence: "Daily",
+      recurrence_rule: null,
+    };
+    expect(
+      getMedicationOccurrences(med, START, new Date(2025, 0, 3, 12, 0)),
+    ).toHaveLength(3);
+  });
+
+  test("prefers the recurrence rule over the label", () => {
+    const med = {
+      reminder_time: START.toISOString(),
+      recurrence: "Daily",
+      recurrence_rule: "FREQ=WEEKLY",
+    };
+    expect(
+      getMedicationOccurrences(med, START, new Date(2025, 0, 14)),
+    ).toHaveLength(2);
+  });
+
+  test("describes rules the way older labels read", () => {
+    expect(describeRecurrence(null)).toBe("As Needed");
+    expect(describeRecurrence(parseRRule("FREQ=DAILY"))).toBe("Daily");
+    expect(describeRecurrence(parseRRule("FREQ=WEEKLY;INTERVAL=2"))).toBe(
+      "Biweekly",
+    );
+    expect(describeRecurrence(parseRRule("FREQ=HOURLY;INTERVAL=8"))).toBe(
+      "Every 8 Hours",
+    );
+    expect(
+      describeRecurrence(
+        parseRRule("FREQ=WEEKLY;BYDAY=MO,TH;BYHOUR=8,20;BYMINUTE=0;COUNT=10"),
+      ),
+    ).toBe("Weekly on Mon, Thu at 8:00 AM, 8:00 PM, 10 doses");
+  });
+});
+
+describe("time zones", () => {
+  test("keeps local times of day on the day DST starts", () => {
+    // The tests run in America/New_York (see jest.config.js), where DST starts on March 8th 2026
+    const start = new Date(2026, 2, 7, 8, 0);
+    expect(
+      expandRecurrence(
+        parseRRule("FREQ=DAILY;BYHOUR=8,20;BYMINUTE=0"),
+        start,
+        start,
+        new Date(2026, 2, 9, 23, 59),
+      ).map((d) => [d.getDate(), d.getHours()]),
+    ).toEqual([
+      [7, 8],
+      [7, 20],
+      [8, 8],
+      [8, 20],
+      [9, 8],
+      [9, 20],
+    ]);
+  });
+
+  test("expands times of day in a given time zone across DST", () => {
+    const med = {
+      // 08:00 in New York, before DST starts on March 9th 2025
+      reminder_time: "2025-03-08T13:00:00.000Z",
+      recurrence: "Daily",
+      recurrence_rule: "FREQ=DAILY;BYHOUR=8;BYMINUTE=0",
+    };
+    expect(
+      getMedicationOccurrences(
+        med,
+        new Date("2025-03-08T00:00:00.000Z"),
+        new Date("2025-03-10T23:59:59.000Z"),
+        "America/New_York",
+      ).map((d) => d.toISOString()),
+    ).toEqual([
+      "2025-03-08T13:00:00.000Z",
+      "2025-03-09T12:00:00.000Z",
+      "2025-03-10T12:00:00.000Z",
+    ]);
+  });
+});
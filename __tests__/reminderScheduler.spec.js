@@ -0,0 +1,387 @@
+import {
+  planDoseEscalations,
+  planReminderNotifications,
+  runReminderScheduler,
+} from "@/lib/reminderScheduler";
+
+jest.mock("@/lib/supabaseClient", () => ({ supabase: {} }));
+
+const medication = {
+  id: "m1",
+  user_profile_id: "u1",
+  medication_name: "Ibuprofen",
+  dosage: "200 mg",
+  // 08:00 in New York
+  reminder_time: "2025-01-01T13:00:00.000Z",
+  recurrence: "Daily",
+  recurrence_rule: "FREQ=DAILY;BYHOUR=8,20;BYMINUTE=0",
+  calendar_sync_token: null,
+  created_at: "2025-01-01T09:00:00.000Z",
+};
+
+const appointment = {
+  id: "a1",
+  user_profile_id: "u1",
+  appointment_name: "Checkup",
+  date: "2025-01-10T15:00:00.000Z",
+};
+
+const records = {
+  medications: [medication],
+  appointments: [appointment],
+  doses: [],
+  timeZones: { u1: "America/New_York" },
+};
+
+const plan = (windowStart, windowEnd, overrides = {}) =>
+  planReminderNotifications(
+    { ...records, ...overrides },
+    new Date(windowStart),
+    new Date(windowEnd),
+  );
+
+describe("planReminderNotifications", () => {
+  test("notifies about doses in the user's time zone", () => {
+    // 20:00 in New York is 01:00 UTC the next day
+    const [notification] = plan(
+      "2025-01-06T00:55:00.000Z",
+      "2025-01-06T01:00:00.000Z",
+    );
+    expect(notification).toEqual({
+      user_profile_id: "u1",
+      title: "💊 Time to take Ibuprofen",
+      body: "Take 200 mg of Ibuprofen.",
+      medication_id: "m1",
+      appointment_id: null,
+      scheduled_for: "2025-01-06T01:00:00.000Z",
+      dedupe_key: "med:m1:2025-01-06T01:00:00.000Z:0",
+    });
+    expect(
+      plan("2025-01-06T01:00:00.000Z", "2025-01-06T01:05:00.000Z"),
+    ).toEqual([]);
+  });
+
+  test("skips doses already taken or skipped", () => {
+    const doses = [
+      {
+        medication_id: "m1",
+        scheduled_for: "2025-01-06T01:00:00+00:00",
+        status: "taken",
+      },
+    ];
+    expect(
+      plan("2025-01-06T00:55:00.000Z", "2025-01-06T01:00:00.000Z", { doses }),
+    ).toEqual([]);
+  });
+
+  test("notifies about appointments a day and an hour ahead", () => {
+    const dayBefore = plan(
+      "2025-01-09T14:59:00.000Z",
+      "2025-01-09T15:00:00.000Z",
+      { medications: [] },
+    );
+    expect(dayBefore).toHaveLength(1);
+    expect(dayBefore[0]).toMatchObject({
+      appointment_id: "a1",
+      body: 'Your appointment "Checkup" starts in 1 day.',
+      dedupe_key: "appt:a1:2025-01-10T15:00:00.000Z:1440",
+    });
+
+    const [hourBefore] = plan(
+      "2025-01-10T13:55:00.000Z",
+      "2025-01-10T14:00:00.000Z",
+      { medications: [] },
+    );
+    expect(hourBefore.body).toBe(
+      'Your appointment "Checkup" starts in 1 hour.',
+    );
+  });
+
+  test("uses the appointment lead times the user picked", () => {
+    const appointmentLeadTimes = { u1: [30] };
+    expect(
+      plan("2025-01-09T14:59:00.000Z", "2025-01-09T15:00:00.000Z", {
+        medications: [],
+        appointmentLeadTimes,
+      }),
+    ).toEqual([]);
+
+    const [notification] = plan(
+      "2025-01-10T14:25:00.000Z",
+      "2025-01-10T14:30:00.000Z",
+      { medications: [], appointmentLeadTimes },
+    );
+    expect(notification.body).toBe(
+      'Your appointment "Checkup" starts in 30 minutes.',
+    );
+  });
+
+  test("reminds about snoozed doses when the snooze ends", () => {
+    const doses = [
+      {
+        medication_id: "m1",
+        scheduled_for: "2025-01-06T01:00:00+00:00",
+        status: "snoozed",
+        snoozed_until: "2025-01-06T01:30:00+00:00",
+      },
+    ];
+    const [notification] = plan(
+      "2025-01-06T01:25:00.000Z",
+      "2025-01-06T01:30:00.000Z",
+      { doses, appointments: [] },
+    );
+    expect(notification).toEqual({
+      user_profile_id: "u1",
+      title: "⏰ Time to take Ibuprofen",
+      body: "Snoozed reminder: take 200 mg of Ibuprofen.",
+      medication_id: "m1",
+      appointment_id: null,
+      scheduled_for: "2025-01-06T01:00:00.000Z",
+      dedupe_key: "snooze:m1:2025-01-06T01:00:00.000Z:2025-01-06T01:30:00.000Z",
+    });
+  });
+});
+
+describe("planDoseEscalations", () => {
+  const escalate = (windowStart, windowEnd, overrides = {}) =>
+    planDoseEscalations(
+      { ...records, ...overrides },
+      new Date(windowStart),
+      new Date(windowEnd),
+    );
+
+  test("follows up on doses nobody answered", () => {
+    const [escalated] = escalate(
+      "2025-01-06T01:25:00.000Z",
+      "2025-01-06T01:30:00.000Z",
+    );
+    expect(escalated).toMatchObject({
+      medication_id: "m1",
+      scheduled_for: "2025-01-06T01:00:00.000Z",
+      snoozed: false,
+      notification: {
+        title: "⚠️ Missed dose: Ibuprofen",
+        dedupe_key: "missed:m1:2025-01-06T01:00:00.000Z",
+      },
+    });
+  });
+
+  test("leaves answered doses alone", () => {
+    const doses = [
+      {
+        medication_id: "m1",
+        scheduled_for: "2025-01-06T01:00:00+00:00",
+        status: "taken",
+        snoozed_until: null,
+      },
+    ];
+    expect(
+      escalate("2025-01-06T01:25:00.000Z", "2025-01-06T01:30:00.000Z", {
+        doses,
+      }),
+    ).toEqual([]);
+  });
+
+  test("follows up on snoozed doses after the snooze", () => {
+    const doses = [
+      {
+        medication_id: "m1",
+        scheduled_for: "2025-01-06T01:00:00+00:00",
+        status: "snoozed",
+        snoozed_until: "2025-01-06T01:30:00+00:00",
+      },
+    ];
+    expect(
+      escalate("2025-01-06T01:25:00.000Z", "2025-01-06T01:30:00.000Z", {
+        doses,
+      }),
+    ).toEqual([]);
+
+    const [escalated] = escalate(
+      "2025-01-06T01:55:00.000Z",
+      "2025-01-06T02:00:00.000Z",
+      { doses },
+    );
+    expect(escalated).toMatchObject({
+      scheduled_for: "2025-01-06T01:00:00.000Z",
+      snoozed: true,
+    });
+  });
+
+  test("honors the user's window, and never escalates as-needed medications", () => {
+    expect(
+      escalate("2025-01-06T01:25:00.000Z", "2025-01-06T01:30:00.000Z", {
+        escalationMinutes: { u1: null },
+      }),
+    ).toEqual([]);
+    expect(
+      escalate("2025-01-06T01:55:00.000Z", "2025-01-06T02:00:00.000Z", {
+        escalationMinutes: { u1: 60 },
+      }),
+    ).toHaveLength(1);
+    expect(
+      escalate("2025-01-06T01:25:00.000Z", "2025-01-06T01:30:00.000Z", {
+        medications: [
+          {
+            ...medication,
+            recurrence: "As Needed",
+            recurrence_rule: null,
+            reminder_time: "2025-01-06T01:00:00.000Z",
+          },
+        ],
+      }),
+    ).toEqual([]);
+  });
+});
+
+describe("runReminderScheduler", () => {
+  // `answered` lists the doses the user answers while the scheduler runs
+  function createClient(existingKeys = [], overrides = {}, answered = []) {
+    const upsert = jest.fn((rows) => ({
+      select: async () => ({
+        data: rows.filter((r) => !existingKeys.includes(r.dedupe_key)),
+        error: null,
+      }),
+    }));
+    const tables = {
+      medication_reminders: [medication],
+      appointment_reminders: [],
+      medication_doses: [],
+      notification_preferences: [
+        { user_profile_id: "u1", time_zone: "America/New_York" },
+      ],
+      ...overrides,
+    };
+    const doseUpsert = jest.fn((rows) => ({
+      select: async () => ({
+        data: rows.filter(
+          (r) =>
+            !answered.some(
+              (a) =>
+                a.medication_id === r.medication_id &&
+                a.scheduled_for === r.scheduled_for,
+            ),
+        ),
+        error: null,
+      }),
+    }));
+    const client = {
+      from: (table) => {
+        if (table === "user_notifications") return { upsert };
+        let rows = tables[table];
+        const builder = {
+          select: () => builder,
+          gt: () => builder,
+          lte: () => builder,
+          eq: () => builder,
+          order: () => builder,
+          range: (from, to) => {
+            rows = rows.slice(from, to + 1);
+            return builder;
+          },
+          upsert: doseUpsert,
+          // Like a Supabase project, never returns more than 1000 rows at once
+          then: (resolve, reject) =>
+            Promise.resolve({ data: rows.slice(0, 1000), error: null }).then(
+              resolve,
+              reject,
+            ),
+        };
+        return builder;
+      },
+    };
+    return { client, upsert, doseUpsert };
+  }
+
+  test("writes due notifications idempotently", async () => {
+    const { client, upsert } = createClient();
+    const result = await runReminderScheduler(client, {
+      now: new Date("2025-01-06T01:02:00.000Z"),
+    });
+
+    expect(result.due).toBe(1);
+    expect(result.created).toHaveLength(1);
+    expect(upsert).toHaveBeenCalledWith(
+      [expect.objectContaining({ medication_id: "m1" })],
+      { onConflict: "dedupe_key", ignoreDuplicates: true },
+    );
+  });
+
+  test("reads past the first page of medications", async () => {
+    const asNeeded = Array.from({ length: 1000 }, (_, i) => ({
+      ...medication,
+      id: `as-needed-${i}`,
+      recurrence: "As Needed",
+      recurrence_rule: null,
+      reminder_time: "2024-01-01T00:00:00.000Z",
+    }));
+    const { client } = createClient([], {
+      medication_reminders: [...asNeeded, medication],
+    });
+    const result = await runReminderScheduler(client, {
+      now: new Date("2025-01-06T01:02:00.000Z"),
+    });
+
+    expect(result.created).toEqual([
+      expect.objectContaining({ medication_id: "m1" }),
+    ]);
+  });
+
+  test("doesn't count notifications an earlier run already wrote", async () => {
+    const { client } = createClient(["med:m1:2025-01-06T01:00:00.000Z:0"]);
+    const result = await runReminderScheduler(client, {
+      now: new Date("2025-01-06T01:03:00.000Z"),
+    });
+    expect(result).toEqual({ due: 1, created: [], missed: 0 });
+  });
+
+  test("does nothing when nothing is due", async () => {
+    const { client, upsert } = createClient();
+    const result = await runReminderScheduler(client, {
+      now: new Date("2025-01-06T03:00:00.000Z"),
+    });
+    expect(result).toEqual({ due: 0, created: [], missed: 0 });
+    expect(upsert).not.toHaveBeenCalled();
+  });
+
+  test("marks doses nobody answered as missed", async () => {
+    const { client, upsert, doseUpsert } = createClient();
+    const result = await runReminderScheduler(client, {
+      now: new Date("2025-01-06T01:31:00.000Z"),
+    });
+
+    expect(result.missed).toBe(1);
+    expect(doseUpsert).toHaveBeenCalledWith(
+      [
+        {
+          medication_id: "m1",
+          user_profile_id: "u1",
+          scheduled_for: "2025-01-06T01:00:00.000Z",
+          status: "missed",
+        },
+      ],
+      { onConflict: "medication_id,scheduled_for", ignoreDuplicates: true },
+    );
+    expect(upsert).toHaveBeenCalledWith(
+      [
+        expect.objectContaining({
+          dedupe_key: "missed:m1:2025-01-06T01:00:00.000Z",
+        }),
+      ],
+      { onConflict: "dedupe_key", ignoreDuplicates: true },
+    );
+  });
+
+  test("doesn't follow up doses answered while it runs", async () => {
+    const { client, upsert, doseUpsert } = createClient([], {}, [
+      { medication_id: "m1", scheduled_for: "2025-01-06T01:00:00.000Z" },
+    ]);
+    const result = await runReminderScheduler(client, {
+      now: new Date("2025-01-06T01:31:00.000Z"),
+    });
+
+    expect(doseUpsert).toHaveBeenCalled();
+    expect(result).toEqual({ due: 0, created: [], missed: 0 });
+    expect(upsert).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,50 @@
+import {
+  fetchDeployedBuildId,
+  getWorkerBuildId,
+  parseBuildId,
+  serviceWorkerUrl,
+} from "@/lib/serviceWorker";
+
+const page = (buildId) =>
+  `<html><body><script id="__NEXT_DATA__" type="application/json">{"props":{"pageProps":{}},"page":"/offline","query":{},"buildId":"${buildId}","nextExport":true}</script></body></html>`;
+
+afterEach(() => {
+  delete global.fetch;
+});
+
+test("registers one worker URL per build and reads the build back", () => {
+  const url = serviceWorkerUrl("a1b2 c3");
+  expect(url).toBe("/sw.js?build=a1b2%20c3");
+  expect(
+    getWorkerBuildId({ scriptURL: `https://symptomsync.vercel.app${url}` }),
+  ).toBe("a1b2 c3");
+  expect(
+    getWorkerBuildId({ scriptURL: "https://symptomsync.vercel.app/sw.js" }),
+  ).toBeNull();
+  expect(getWorkerBuildId(null)).toBeNull();
+});
+
+test("parseBuildId reads the build id of a Next.js page", () => {
+  expect(parseBuildId(page("Xy_9-build"))).toBe("Xy_9-build");
+  expect(parseBuildId("<html>Offline</html>")).toBeNull();
+});
+
+test("fetchDeployedBuildId asks the server without the HTTP cache", async () => {
+  global.fetch = jest.fn(async () => ({
+    ok: true,
+    text: async () => page("new-build"),
+  }));
+
+  await expect(fetchDeployedBuildId()).resolves.toBe("new-build");
+  expect(global.fetch).toHaveBeenCalledWith("/offline", { cache: "no-store" });
+});
+
+test("fetchDeployedBuildId gives up when the server can't be reached", async () => {
+  global.fetch = jest.fn(async () => {
+    throw new TypeError("Failed to fetch");
+  });
+  await expect(fetchDeployedBuildId()).resolves.toBeNull();
+
+  global.fetch = jest.fn(async () => ({ ok: false, text: async () => "" }));
+  await expect(fetchDeployedBuildId()).resolves.toBeNull();
+});
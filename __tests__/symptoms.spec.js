@@ -0,0 +1,75 @@
+import {
+  SYMPTOM_CATALOGUE,
+  findSymptom,
+  getLogSymptoms,
+  parseSymptomList,
+  searchSymptoms,
+  summarizeSymptoms,
+} from "@/lib/symptoms";
+
+describe("findSymptom", () => {
+  test("matches canonical names and synonyms regardless of case and spacing", () => {
+    expect(findSymptom("Headache")?.id).toBe("headache");
+    expect(findSymptom("  headache ")?.id).toBe("headache");
+    expect(findSymptom("Stomach  Ache")?.id).toBe("abdominal-pain");
+    expect(findSymptom("migraines")?.id).toBe("migraine");
+    expect(findSymptom("restless legs")).toBeNull();
+  });
+
+  test("no term names two symptoms", () => {
+    const terms = SYMPTOM_CATALOGUE.flatMap((s) =>
+      [s.name, ...s.synonyms].map((t) => t.toLowerCase()),
+    );
+    expect(new Set(terms).size).toBe(terms.length);
+  });
+});
+
+test("searchSymptoms ranks prefix matches before substring matches", () => {
+  const ids = searchSymptoms("ache").map((s) => s.id);
+  expect(ids).toContain("headache");
+  expect(ids).toContain("back-pain");
+
+  const head = searchSymptoms("head").map((s) => s.id);
+  expect(head[0]).toBe("headache");
+  expect(searchSymptoms("zzz")).toEqual([]);
+});
+
+describe("parseSymptomList", () => {
+  test("normalizes a comma-separated list and drops repeats", () => {
+    expect(
+      parseSymptomList("headache , Migraines, HEADACHE,, hiccups", 6),
+    ).toEqual([
+      { symptom_id: "headache", name: "Headache", severity: 6 },
+      { symptom_id: "migraine", name: "Migraine", severity: 6 },
+      { symptom_id: null, name: "Hiccups", severity: 6 },
+    ]);
+  });
+
+  test("returns no entries for an empty list", () => {
+    expect(parseSymptomList(null, 3)).toEqual([]);
+    expect(parseSymptomList(" , ", 3)).toEqual([]);
+  });
+});
+
+test("getLogSymptoms reads symptom_type when a log has no symptoms", () => {
+  const entries = [{ symptom_id: "nausea", name: "Nausea", severity: 2 }];
+  expect(
+    getLogSymptoms({ symptoms: entries, symptom_type: "x", severity: 9 }),
+  ).toBe(entries);
+  expect(
+    getLogSymptoms({ symptoms: [], symptom_type: "tired", severity: 4 }),
+  ).toEqual([{ symptom_id: "fatigue", name: "Fatigue", severity: 4 }]);
+});
+
+test("summarizeSymptoms joins the names and keeps the worst severity", () => {
+  expect(
+    summarizeSymptoms([
+      { symptom_id: "headache", name: "Headache", severity: 3 },
+      { symptom_id: "nausea", name: "Nausea", severity: 7 },
+    ]),
+  ).toEqual({ symptom_type: "Headache, Nausea", severity: 7 });
+  expect(summarizeSymptoms([])).toEqual({
+    symptom_type: null,
+    severity: null,
+  });
+});
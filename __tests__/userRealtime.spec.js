@@ -0,0 +1,94 @@
+import { applyRealtimeEvent, toUserRealtimeEvent } from "@/lib/userRealtime";
+
+jest.mock("@/lib/supabaseClient", () => ({ supabase: {} }));
+
+const appointment = {
+  id: "a1",
+  user_profile_id: "u1",
+  appointment_name: "Dentist",
+  date: "2025-01-06T15:00:00Z",
+};
+
+describe("toUserRealtimeEvent", () => {
+  test("turns inserts and updates into typed records", () => {
+    expect(
+      toUserRealtimeEvent("appointment", {
+        eventType: "INSERT",
+        new: { ...appointment, created_at: "2025-01-01T00:00:00Z" },
+        old: {},
+      }),
+    ).toEqual({ entity: "appointment", type: "created", record: appointment });
+
+    expect(
+      toUserRealtimeEvent("appointment", {
+        eventType: "UPDATE",
+        new: appointment,
+        old: { id: "a1" },
+      }),
+    ).toEqual({ entity: "appointment", type: "updated", record: appointment });
+  });
+
+  test("deletes only carry the id", () => {
+    expect(
+      toUserRealtimeEvent("file", {
+        eventType: "DELETE",
+        new: {},
+        old: { id: "f1" },
+      }),
+    ).toEqual({ entity: "file", type: "deleted", id: "f1" });
+  });
+
+  test("ignores rows that don't match the record", () => {
+    jest.spyOn(console, "error").mockImplementation(() => {});
+    expect(
+      toUserRealtimeEvent("appointment", {
+        eventType: "INSERT",
+        new: { id: "a2" },
+        old: {},
+      }),
+    ).toBeNull();
+    console.error.mockRestore();
+  });
+});
+
+describe("applyRealtimeEvent", () => {
+  const list = [appointment, { ...appointment, id: "a2" }];
+
+  test("adds, replaces and removes records", () => {
+    const created = { ...appointment, id: "a3" };
+    expect(
+      applyRealtimeEvent(list, { type: "created", record: created }),
+    ).toEqual([created, ...list]);
+
+    const renamed = { ...appointment, appointment_name: "Dentist (moved)" };
+    expect(
+      applyRealtimeEvent(list, { type: "updated", record: renamed }),
+    ).toEqual([renamed, list[1]]);
+
+    expect(applyRealtimeEvent(list, { type: "deleted", id: "a1" })).toEqual([
+      list[1],
+    ]);
+  });
+
+  test("leaves the list alone when nothing changes", () => {
+    expect(applyRealtimeEvent(list, { type: "deleted", id: "other" })).toBe(
+      list,
+    );
+    expect(
+      applyRealtimeEvent(
+        list,
+        { type: "created", record: { ...appointment, id: "a3" } },
+        { addCreated: false },
+      ),
+    ).toBe(list);
+    expect(
+      applyRealtimeEvent(undefined, { type: "deleted", id: "a1" }),
+    ).toBeUndefined();
+  });
+
+  test("doesn't add a record twice", () => {
+    expect(
+      applyRealtimeEvent(list, { type: "created", record: appointment }),
+    ).toEqual(list);
+  });
+});
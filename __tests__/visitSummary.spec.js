@@ -0,0 +1,159 @@
+import { PDFDocument } from "pdf-lib";
+import {
+  buildVisitSummary,
+  findUnsupportedText,
+  renderVisitSummaryPdf,
+} from "@/lib/visitSummary";
+
+jest.mock("@/lib/supabaseClient", () => ({ supabase: {} }));
+
+const NOW = new Date(2025, 5, 30, 12);
+
+const profile = {
+  id: "u1",
+  email: "pat@example.com",
+  full_name: "Pat Doe",
+  avatar_url: null,
+  condition_tags: ["Migraine", "Asthma"],
+  created_at: "2024-01-01T00:00:00.000Z",
+};
+
+const log = (id, date, extra = {}) => ({
+  id,
+  user_profile_id: "u1",
+  symptom_type: "Headache",
+  severity: 5,
+  symptoms: [],
+  mood: null,
+  vitals: null,
+  medication_intake: null,
+  notes: null,
+  start_date: date.toISOString(),
+  end_date: null,
+  ...extra,
+});
+
+const med = (id, name, recurrence, recurrence_rule) => ({
+  id,
+  user_profile_id: "u1",
+  medication_name: name,
+  dosage: "10 mg",
+  reminder_time: new Date(2025, 0, 1, 8).toISOString(),
+  recurrence,
+  recurrence_rule,
+  calendar_sync_token: null,
+  created_at: "2025-01-01T00:00:00.000Z",
+});
+
+const data = {
+  profile,
+  medications: [
+    med("m1", "Propranolol", "Daily", null),
+    med("m2", "Old Course", "Daily", "FREQ=DAILY;COUNT=5"),
+    med("m3", "Ibuprofen", "As Needed", null),
+  ],
+  logs: [
+    log("before", new Date(2025, 4, 1, 9)),
+    log("a", new Date(2025, 5, 10, 9), {
+      severity: 4,
+      vitals: { heartRate: 112, systolic: 120, diastolic: 80 },
+    }),
+    log("b", new Date(2025, 5, 10, 20), { severity: 7, mood: "Tired" }),
+    log("c", new Date(2025, 5, 20, 9), {
+      symptom_type: "migraines, nausea",
+      severity: 6,
+      notes: "Started after screen time 😩",
+    }),
+  ],
+  appointments: [
+    {
+      id: "p1",
+      user_profile_id: "u1",
+      appointment_name: "Past",
+      date: new Date(2025, 5, 1).toISOString(),
+    },
+    {
+      id: "p2",
+      user_profile_id: "u1",
+      appointment_name: "Neurology",
+      date: new Date(2025, 6, 4, 10).toISOString(),
+    },
+  ],
+};
+
+const range = { start: new Date(2025, 5, 1), end: new Date(2025, 5, 30) };
+
+test("buildVisitSummary gathers the data for the date range", () => {
+  const summary = buildVisitSummary(data, range, NOW);
+
+  expect(summary.patient).toEqual({
+    name: "Pat Doe",
+    email: "pat@example.com",
+    conditions: ["Migraine", "Asthma"],
+  });
+  expect(summary.medications.map((m) => m.name)).toEqual([
+    "Ibuprofen",
+    "Propranolol",
+  ]);
+  expect(summary.timeline.map((t) => t.date)).toEqual([
+    data.logs[1].start_date,
+    data.logs[2].start_date,
+    data.logs[3].start_date,
+  ]);
+  expect(summary.timeline[2].symptoms.map((s) => s.name)).toEqual([
+    "Migraine",
+    "Nausea",
+  ]);
+  expect(summary.severityByDay).toEqual([
+    { date: new Date(2025, 5, 10), severity: 7 },
+    { date: new Date(2025, 5, 20), severity: 6 },
+  ]);
+  expect(summary.vitals).toHaveLength(1);
+  expect(summary.vitals[0].outOfRange).toEqual(["heartRate"]);
+  expect(summary.appointments).toEqual([
+    { name: "Neurology", date: data.appointments[1].date },
+  ]);
+});
+
+test("renderVisitSummaryPdf lays the summary out across pages", async () => {
+  const manyLogs = Array.from({ length: 80 }, (_, i) =>
+    log(`l${i}`, new Date(2025, 5, 1 + (i % 29), 9), {
+      notes: "Note ".repeat(30),
+    }),
+  );
+  const summary = buildVisitSummary(
+    { ...data, logs: [...data.logs, ...manyLogs] },
+    range,
+    NOW,
+  );
+  const pdf = await renderVisitSummaryPdf(summary);
+  const bytes = await pdf.save();
+
+  const loaded = await PDFDocument.load(bytes);
+  expect(loaded.getPageCount()).toBeGreaterThan(1);
+  expect(loaded.getTitle()).toBe("Visit Summary - Pat Doe");
+});
+
+test("findUnsupportedText lists the text the PDF shows as placeholders", async () => {
+  const summary = buildVisitSummary(
+    {
+      ...data,
+      profile: {
+        ...profile,
+        full_name: "Zoë 王",
+        condition_tags: ["Asthma 🫁"],
+      },
+    },
+    range,
+    NOW,
+  );
+
+  expect(await findUnsupportedText(summary)).toEqual([
+    "Zoë 王",
+    "Asthma 🫁",
+    "Started after screen time 😩",
+  ]);
+  // Rendering still works, with the placeholders in their place
+  const pdf = await renderVisitSummaryPdf(summary);
+  expect(pdf.getTitle()).toBe("Visit Summary - Zoë 王");
+});
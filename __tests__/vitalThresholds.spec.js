@@ -0,0 +1,82 @@
+import {
+  DEFAULT_VITAL_THRESHOLDS,
+  VitalThresholdsSchema,
+  describeOutOfRangeVital,
+  findOutOfRangeVitals,
+} from "@/lib/vitalThresholds";
+import { getVitalReadings } from "@/lib/vitals";
+
+jest.mock("@/lib/supabaseClient", () => ({ supabase: {} }));
+
+describe("findOutOfRangeVitals", () => {
+  test("flags vitals below or above the normal range", () => {
+    const outOfRange = findOutOfRangeVitals({
+      heartRate: 112,
+      systolic: 118,
+      diastolic: 76,
+      spo2: 91,
+      weight: 180,
+    });
+
+    expect(outOfRange.map(({ key, direction }) => [key, direction])).toEqual([
+      ["heartRate", "high"],
+      ["spo2", "low"],
+    ]);
+    expect(outOfRange.map(describeOutOfRangeVital)).toEqual([
+      "Heart Rate 112 bpm is above 100 bpm",
+      "Oxygen Saturation (SpO2) 91% is below 95%",
+    ]);
+  });
+
+  test("uses the user's thresholds and treats an empty bound as no limit", () => {
+    const thresholds = {
+      ...DEFAULT_VITAL_THRESHOLDS,
+      heartRate: { low: 50, high: null },
+    };
+    expect(findOutOfRangeVitals({ heartRate: 140 }, thresholds)).toEqual([]);
+    expect(findOutOfRangeVitals({ heartRate: 45 }, thresholds)).toHaveLength(1);
+    expect(findOutOfRangeVitals(null, thresholds)).toEqual([]);
+  });
+});
+
+describe("VitalThresholdsSchema", () => {
+  test("fills in the defaults for vitals the user never set", () => {
+    const thresholds = VitalThresholdsSchema.parse({
+      glucose: { low: 80, high: 180 },
+    });
+    expect(thresholds.glucose).toEqual({ low: 80, high: 180 });
+    expect(thresholds.heartRate).toEqual(DEFAULT_VITAL_THRESHOLDS.heartRate);
+  });
+
+  test("rejects a range whose low end isn't below the high end", () => {
+    expect(
+      VitalThresholdsSchema.safeParse({ heartRate: { low: 100, high: 60 } })
+        .success,
+    ).toBe(false);
+  });
+});
+
+test("getVitalReadings collects one vital in date order", () => {
+  const logs = [
+    {
+      id: "b",
+      start_date: "2025-01-05T08:00:00.000Z",
+      vitals: { heartRate: 80 },
+    },
+    {
+      id: "a",
+      start_date: "2025-01-01T08:00:00.000Z",
+      vitals: { heartRate: 70 },
+    },
+    { id: "c", start_date: "2025-01-03T08:00:00.000Z", vitals: { spo2: 97 } },
+    { id: "d", start_date: "2025-01-04T08:00:00.000Z", vitals: null },
+  ];
+
+  expect(getVitalReadings(logs, "heartRate")).toEqual([
+    { logId: "a", date: "2025-01-01T08:00:00.000Z", value: 70 },
+    { logId: "b", date: "2025-01-05T08:00:00.000Z", value: 80 },
+  ]);
+  expect(
+    getVitalReadings(logs, "heartRate", new Date("2025-01-02T00:00:00.000Z")),
+  ).toEqual([{ logId: "b", date: "2025-01-05T08:00:00.000Z", value: 80 }]);
+});
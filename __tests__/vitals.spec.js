@@ -0,0 +1,117 @@
+import {
+  EMPTY_VITALS_FORM,
+  VitalsSchema,
+  describeVitals,
+  parseVitals,
+  parseVitalsForm,
+  toVitalsForm,
+} from "@/lib/vitals";
+import { HealthLogSchema } from "@/lib/healthLogs";
+
+jest.mock("@/lib/supabaseClient", () => ({ supabase: {} }));
+
+describe("parseVitals", () => {
+  test("reads the JSON strings older logs stored", () => {
+    expect(
+      parseVitals(
+        JSON.stringify({ heartRate: "72 BPM", bloodPressure: "120/80 mmHg" }),
+      ),
+    ).toEqual({ heartRate: 72, systolic: 120, diastolic: 80 });
+    expect(
+      parseVitals(JSON.stringify({ heartRate: null, bloodPressure: null })),
+    ).toBeNull();
+  });
+
+  test("keeps structured vitals as they are", () => {
+    const vitals = { heartRate: 64, temperature: 99.1, spo2: 97, glucose: 110 };
+    expect(parseVitals(vitals)).toEqual(vitals);
+  });
+
+  test("drops values outside the accepted ranges", () => {
+    expect(
+      parseVitals({ heartRate: "999 BPM", bloodPressure: "80/120 mmHg" }),
+    ).toBeNull();
+    expect(parseVitals({ heartRate: 70, weight: 0 })).toEqual({
+      heartRate: 70,
+    });
+    expect(parseVitals("not json")).toBeNull();
+  });
+
+  test("lets health logs with either kind of vitals be read", () => {
+    const log = {
+      id: "l1",
+      user_profile_id: "u1",
+      symptom_type: "Headache",
+      severity: 4,
+      mood: null,
+      vitals: '{"heartRate":"80 BPM","bloodPressure":null}',
+      medication_intake: null,
+      notes: null,
+      start_date: "2025-01-06T12:00:00.000Z",
+      end_date: null,
+    };
+    expect(HealthLogSchema.parse(log).vitals).toEqual({ heartRate: 80 });
+    expect(HealthLogSchema.parse({ ...log, vitals: null }).vitals).toBeNull();
+  });
+});
+
+describe("parseVitalsForm", () => {
+  test("turns the inputs into vitals", () => {
+    const result = parseVitalsForm({
+      ...EMPTY_VITALS_FORM,
+      heartRate: "72",
+      systolic: "118",
+      diastolic: "76",
+      temperature: "98.64",
+    });
+    expect(result).toEqual({
+      vitals: {
+        heartRate: 72,
+        systolic: 118,
+        diastolic: 76,
+        temperature: 98.6,
+      },
+    });
+    expect(toVitalsForm(result.vitals)).toEqual({
+      ...EMPTY_VITALS_FORM,
+      heartRate: "72",
+      systolic: "118",
+      diastolic: "76",
+      temperature: "98.6",
+    });
+  });
+
+  test("saves no vitals when none were entered", () => {
+    expect(parseVitalsForm(EMPTY_VITALS_FORM)).toEqual({ vitals: null });
+  });
+
+  test("explains the first invalid value", () => {
+    expect(parseVitalsForm({ ...EMPTY_VITALS_FORM, spo2: "120" })).toEqual({
+      error: "Oxygen Saturation (SpO2) must be at most 100%.",
+    });
+    expect(parseVitalsForm({ ...EMPTY_VITALS_FORM, systolic: "120" })).toEqual({
+      error: "Enter both systolic and diastolic blood pressure.",
+    });
+    expect(
+      VitalsSchema.safeParse({ systolic: 80, diastolic: 90 }).success,
+    ).toBe(false);
+  });
+});
+
+test("describeVitals shows blood pressure as one reading", () => {
+  expect(
+    describeVitals({
+      heartRate: 72,
+      systolic: 120,
+      diastolic: 80,
+      spo2: 98,
+      temperature: 98.6,
+    }),
+  ).toEqual([
+    { key: "heartRate", label: "Heart Rate", value: "72 bpm" },
+    { key: "bloodPressure", label: "Blood Pressure", value: "120/80 mmHg" },
+    { key: "temperature", label: "Temperature", value: "98.6°F" },
+    { key: "spo2", label: "Oxygen Saturation (SpO2)", value: "98%" },
+  ]);
+  expect(describeVitals(null)).toEqual([]);
+});
@@ -0,0 +1,210 @@
+import {
+  createDecipheriv,
+  createECDH,
+  createPublicKey,
+  hkdfSync,
+  verify,
+} from "crypto";
+import {
+  createVapidAuthorization,
+  encryptWebPushPayload,
+  pushUserNotification,
+} from "@/lib/webPush";
+
+jest.mock("@/lib/supabaseClient", () => ({ supabase: {} }));
+
+// A VAPID key pair, as scripts/generate-vapid-keys.mjs makes them
+const vapid = createECDH("prime256v1");
+vapid.generateKeys();
+const keys = {
+  publicKey: vapid.getPublicKey().toString("base64url"),
+  privateKey: Buffer.concat([
+    Buffer.alloc(32 - vapid.getPrivateKey().length),
+    vapid.getPrivateKey(),
+  ]).toString("base64url"),
+  subject: "mailto:test@example.com",
+};
+
+// The browser's side of a push subscription
+const browser = createECDH("prime256v1");
+browser.generateKeys();
+const authSecret = Buffer.from("0123456789abcdef");
+const subscription = {
+  endpoint: "https://push.example.com/send/abc",
+  p256dh: browser.getPublicKey().toString("base64url"),
+  auth: authSecret.toString("base64url"),
+};
+
+/**
+ * Decrypts an aes128gcm body the way the browser does (RFC 8291)
+ */
+function decrypt(body) {
+  const salt = body.subarray(0, 16);
+  const keyLength = body[20];
+  const serverPublicKey = body.subarray(21, 21 + keyLength);
+  const ciphertext = body.subarray(21 + keyLength);
+
+  const sharedSecret = browser.computeSecret(serverPublicKey);
+  const keyInfo = Buffer.concat([
+    Buffer.from("WebPush: info\0"),
+    browser.getPublicKey(),
+    serverPublicKey,
+  ]);
+  const ikm = Buffer.from(
+    hkdfSync("sha256", sharedSecret, authSecret, keyInfo, 32),
+  );
+  const key = Buffer.from(
+    hkdfSync("sha256", ikm, salt, "Content-Encoding: aes128gcm\0", 16),
+  );
+  const nonce = Buffer.from(
+    hkdfSync("sha256", ikm, salt, "Content-Encoding: nonce\0", 12),
+  );
+
+  const decipher = createDecipheriv("aes-128-gcm", key, nonce);
+  decipher.setAuthTag(ciphertext.subarray(ciphertext.length - 16));
+  const padded = Buffer.concat([
+    decipher.update(ciphertext.subarray(0, ciphertext.length - 16)),
+    decipher.final(),
+  ]);
+  // Strip the record delimiter
+  return padded.subarray(0, padded.lastIndexOf(2)).toString();
+}
+
+describe("Web Push", () => {
+  test("encrypts payloads the browser can decrypt", () => {
+    const payload = JSON.stringify({ title: "💊 Time to take Ibuprofen" });
+    const body = encryptWebPushPayload(subscription, payload);
+    expect(body.readUInt32BE(16)).toBe(4096);
+    expect(decrypt(body)).toBe(payload);
+  });
+
+  test("signs a VAPID token for the push service's origin", () => {
+    const now = new Date("2025-01-01T00:00:00.000Z");
+    const header = createVapidAuthorization(subscription.endpoint, keys, now);
+    const [, token, publicKey] = header.match(/^vapid t=(\S+), k=(\S+)$/);
+    expect(publicKey).toBe(keys.publicKey);
+
+    const [encodedHeader, encodedClaims, signature] = token.split(".");
+    expect(
+      JSON.parse(Buffer.from(encodedClaims, "base64url").toString()),
+    ).toEqual({
+      aud: "https://push.example.com",
+      exp: now.getTime() / 1000 + 12 * 60 * 60,
+      sub: "mailto:test@example.com",
+    });
+
+    const raw = vapid.getPublicKey();
+    const verifyKey = createPublicKey({
+      key: {
+        kty: "EC",
+        crv: "P-256",
+        x: raw.subarray(1, 33).toString("base64url"),
+        y: raw.subarray(33, 65).toString("base64url"),
+      },
+      format: "jwk",
+    });
+    expect(
+      verify(
+        "sha256",
+        Buffer.from(`${encodedHeader}.${encodedClaims}`),
+        { key: verifyKey, dsaEncoding: "ieee-p1363" },
+        Buffer.from(signature, "base64url"),
+      ),
+    ).toBe(true);
+  });
+
+  describe("pushUserNotification", () => {
+    const originalFetch = global.fetch;
+    const deleteEq = jest.fn(async () => ({ error: null }));
+    let preferences = null;
+    const client = {
+      from: (table) =>
+        table === "notification_preferences"
+          ? {
+              select: () => ({
+                eq: () => ({
+                  maybeSingle: async () => ({ data: preferences, error: null }),
+                }),
+              }),
+            }
+          : {
+              select: () => ({
+                eq: async () => ({
+                  data: [
+                    subscription,
+                    {
+                      ...subscription,
+                      endpoint: "https://push.example.com/gone",
+                    },
+                  ],
+                  error: null,
+                }),
+              }),
+              delete: () => ({ eq: deleteEq }),
+            },
+    };
+
+    const notification = {
+      user_profile_id: "u1",
+      title: "💊 Time to take Ibuprofen",
+      body: "Take 200 mg of Ibuprofen.",
+      medication_id: "m1",
+      scheduled_for: "2025-01-06T01:00:00.000Z",
+    };
+
+    beforeEach(() => {
+      preferences = null;
+      process.env.NEXT_PUBLIC_VAPID_PUBLIC_KEY = keys.publicKey;
+      process.env.VAPID_PRIVATE_KEY = keys.privateKey;
+      global.fetch = jest.fn(async (url) => ({
+        status: url.endsWith("/gone") ? 410 : 201,
+      }));
+    });
+
+    afterEach(() => {
+      global.fetch = originalFetch;
+      delete process.env.NEXT_PUBLIC_VAPID_PUBLIC_KEY;
+      delete process.env.VAPID_PRIVATE_KEY;
+    });
+
+    test("pushes to every device and forgets expired subscriptions", async () => {
+      const delivered = await pushUserNotification(client, notification);
+
+      expect(delivered).toBe(1);
+      expect(deleteEq).toHaveBeenCalledWith(
+        "endpoint",
+        "https://push.example.com/gone",
+      );
+
+      const [url, request] = global.fetch.mock.calls[0];
+      expect(url).toBe(subscription.endpoint);
+      expect(request.headers["Content-Encoding"]).toBe("aes128gcm");
+      expect(JSON.parse(decrypt(Buffer.from(request.body)))).toEqual({
+        title: "💊 Time to take Ibuprofen",
+        body: "Take 200 mg of Ibuprofen.",
+        tag: "💊 Time to take Ibuprofen:Take 200 mg of Ibuprofen.",
+        url: "/reminder",
+        medicationId: "m1",
+        scheduledFor: "2025-01-06T01:00:00.000Z",
+        snoozeMinutes: 10,
+      });
+    });
+
+    test("doesn't push reminders the user turned push off for", async () => {
+      preferences = {
+        user_profile_id: "u1",
+        time_zone: "UTC",
+        medication_channels: ["in_app", "browser"],
+        appointment_channels: ["in_app", "browser", "push"],
+        appointment_lead_minutes: [60],
+        quiet_hours_start: null,
+        quiet_hours_end: null,
+        snooze_minutes: 10,
+        escalation_minutes: 30,
+        updated_at: "2025-01-01T00:00:00.000Z",
+      };
+      expect(await pushUserNotification(client, notification)).toBe(0);
+      expect(global.fetch).not.toHaveBeenCalled();
+    });
+  });
+});
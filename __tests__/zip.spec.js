@@ -0,0 +1,31 @@
+import { crc32, createZip } from "@/lib/zip";
+
+const encode = (text) => new TextEncoder().encode(text);
+
+test("crc32 matches the standard checksum", () => {
+  expect(crc32(encode("123456789"))).toBe(0xcbf43926);
+  expect(crc32(new Uint8Array())).toBe(0);
+});
+
+test("createZip stores each entry with a central directory", () => {
+  const date = new Date(2025, 5, 2, 13, 30, 10);
+  const zip = createZip([
+    { name: "README.txt", data: "hello", date },
+    { name: "documents/scan.bin", data: new Uint8Array([0, 1, 2]), date },
+  ]);
+  const view = new DataView(zip.buffer);
+
+  // The first local header, followed by its name and the stored bytes
+  expect(view.getUint32(0, true)).toBe(0x04034b50);
+  expect(view.getUint32(14, true)).toBe(crc32(encode("hello")));
+  expect(view.getUint32(18, true)).toBe(5);
+  expect(new TextDecoder().decode(zip.slice(30, 45))).toBe("README.txthello");
+
+  // The end record points at a central directory with both entries
+  const end = zip.length - 22;
+  expect(view.getUint32(end, true)).toBe(0x06054b50);
+  expect(view.getUint16(end + 10, true)).toBe(2);
+  const central = view.getUint32(end + 16, true);
+  expect(view.getUint32(central, true)).toBe(0x02014b50);
+  expect(central + view.getUint32(end + 12, true)).toBe(end);
+});
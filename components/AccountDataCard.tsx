@@ -0,0 +1,212 @@
+import React, { useEffect, useState } from "react";
+import { useRouter } from "next/router";
+import { format } from "date-fns";
+import { Archive, Download, Loader2, Trash2, Undo2 } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  ACCOUNT_DELETION_GRACE_DAYS,
+  AccountDeletion,
+  cancelAccountDeletion,
+  exportAccountData,
+  getAccountDeletion,
+  requestAccountDeletion,
+} from "@/lib/accountData";
+import { signOut } from "@/lib/auth";
+
+interface AccountDataCardProps {
+  userId: string;
+}
+
+// What the user types to confirm they want their account deleted
+const CONFIRMATION_TEXT = "DELETE";
+
+/**
+ * Lets the user download everything SymptomSync stores about them as a ZIP, and delete their
+ * account after a grace period they can cancel during.
+ */
+export function AccountDataCard({ userId }: AccountDataCardProps) {
+  const router = useRouter();
+  const [deletion, setDeletion] = useState<AccountDeletion | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [exporting, setExporting] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [confirmOpen, setConfirmOpen] = useState(false);
+  const [confirmation, setConfirmation] = useState("");
+
+  useEffect(() => {
+    getAccountDeletion(userId)
+      .then(setDeletion)
+      .catch((err) => {
+        console.error("Error loading account deletion:", err);
+      })
+      .finally(() => setLoading(false));
+  }, [userId]);
+
+  async function handleExport() {
+    setExporting(true);
+    try {
+      const zip = await exportAccountData(userId);
+      const blob = new Blob([zip], { type: "application/zip" });
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement("a");
+      a.href = url;
+      a.download = `SymptomSync_Data_${format(new Date(), "yyyy-MM-dd")}.zip`;
+      document.body.appendChild(a);
+      a.click();
+      document.body.removeChild(a);
+      URL.revokeObjectURL(url);
+    } catch (err) {
+      console.error("Error exporting account data:", err);
+      toast.error("Error exporting your data.");
+    } finally {
+      setExporting(false);
+    }
+  }
+
+  async function handleDelete() {
+    setSaving(true);
+    try {
+      const scheduled = await requestAccountDeletion(userId);
+      setConfirmOpen(false);
+      toast.success(
+        `Your account will be deleted on ${format(new Date(scheduled.scheduled_for), "PPP")}. To cancel, sign in and go to your profile before then.`,
+      );
+      await signOut();
+      router.push("/auth/login");
+    } catch (err) {
+      console.error("Error requesting account deletion:", err);
+      toast.error("Error deleting your account.");
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function handleCancel() {
+    setSaving(true);
+    try {
+      await cancelAccountDeletion(userId);
+      setDeletion(null);
+      toast.success("Account deletion cancelled.");
+    } catch (err) {
+      console.error("Error cancelling account deletion:", err);
+      toast.error("Error cancelling account deletion.");
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  return (
+    <Card className="p-6 shadow-2xl rounded-xl bg-background gap-3">
+      <h3 className="text-xl font-semibold flex items-center">
+        <Archive className="w-5 h-5 mr-2" /> Your Data
+      </h3>
+      <p className="text-sm text-foreground">
+        Download a ZIP of everything SymptomSync stores about you: your profile,
+        health logs, reminders, notifications and chat history as JSON and CSV,
+        along with the documents and profile picture you uploaded.
+      </p>
+      <div>
+        <Button
+          variant="outline"
+          onClick={handleExport}
+          disabled={exporting}
+          className="cursor-pointer"
+        >
+          {exporting ? (
+            <Loader2 className="mr-1 w-4 h-4 animate-spin" />
+          ) : (
+            <Download className="mr-1 w-4 h-4" />
+          )}
+          Export My Data
+        </Button>
+      </div>
+      {loading ? (
+        <Loader2 className="animate-spin h-5 w-5 text-gray-400" />
+      ) : deletion ? (
+        <div className="rounded-lg border border-destructive p-4 space-y-2">
+          <p className="text-sm text-foreground">
+            Your account is scheduled to be deleted on{" "}
+            <strong>{format(new Date(deletion.scheduled_for), "PPP")}</strong>.
+            Everything above will be removed then and can&apos;t be recovered.
+          </p>
+          <Button
+            onClick={handleCancel}
+            disabled={saving}
+            className="cursor-pointer"
+          >
+            <Undo2 className="mr-1 w-4 h-4" /> Cancel Deletion
+          </Button>
+        </div>
+      ) : (
+        <div>
+          <Button
+            variant="destructive"
+            onClick={() => {
+              setConfirmation("");
+              setConfirmOpen(true);
+            }}
+            className="cursor-pointer"
+          >
+            <Trash2 className="mr-1 w-4 h-4" /> Delete My Account
+          </Button>
+        </div>
+      )}
+
+      <Dialog open={confirmOpen} onOpenChange={setConfirmOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Delete your account?</DialogTitle>
+            <DialogDescription>
+              You will be signed out, and your account will be deleted in{" "}
+              {ACCOUNT_DELETION_GRACE_DAYS} days along with your health logs,
+              reminders, notifications, chat history and documents. To cancel,
+              sign in and go to your profile before then. Export your data first
+              if you want to keep a copy.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="delete-confirmation">
+              Type {CONFIRMATION_TEXT} to confirm
+            </Label>
+            <Input
+              id="delete-confirmation"
+              value={confirmation}
+              onChange={(e) => setConfirmation(e.target.value)}
+              autoComplete="off"
+            />
+          </div>
+          <DialogFooter>
+            <Button
+              variant="outline"
+              onClick={() => setConfirmOpen(false)}
+              className="cursor-pointer"
+            >
+              Keep Account
+            </Button>
+            <Button
+              variant="destructive"
+              onClick={handleDelete}
+              disabled={saving || confirmation.trim() !== CONFIRMATION_TEXT}
+              className="cursor-pointer"
+            >
+              {saving && <Loader2 className="mr-1 w-4 h-4 animate-spin" />}
+              Delete Account
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -0,0 +1,113 @@
+import { useEffect } from "react";
+import { toast } from "sonner";
+import {
+  fetchDeployedBuildId,
+  getBuildId,
+  getWorkerBuildId,
+  registerServiceWorker,
+} from "@/lib/serviceWorker";
+
+// How often an open (or installed) app checks whether a new build was deployed
+const UPDATE_CHECK_INTERVAL_MS = 30 * 60 * 1000;
+
+const UPDATE_TOAST_ID = "app-update";
+
+/**
+ * Registers the service worker and, when a new build of SymptomSync has been installed in the
+ * background, offers to reload into it. Renders nothing.
+ */
+export function AppUpdatePrompt() {
+  useEffect(() => {
+    if (typeof window === "undefined" || !("serviceWorker" in navigator)) {
+      return;
+    }
+
+    const buildId = getBuildId();
+    let registration: ServiceWorkerRegistration | null = null;
+    let reloadOnChange = false;
+
+    const promptToReload = (onReload: () => void) => {
+      toast.info("A new version of SymptomSync is available.", {
+        id: UPDATE_TOAST_ID,
+        duration: Infinity,
+        action: { label: "Reload", onClick: onReload },
+      });
+    };
+
+    // A worker that finished installing while another one still controls the page
+    const onWaiting = (worker: ServiceWorker) => {
+      if (!navigator.serviceWorker.controller) return;
+      const activate = () => worker.postMessage({ type: "skip-waiting" });
+      if (getWorkerBuildId(worker) === buildId) {
+        // This page already runs the new build; only the worker is behind
+        activate();
+        return;
+      }
+      promptToReload(() => {
+        reloadOnChange = true;
+        activate();
+      });
+    };
+
+    const watchInstalling = () => {
+      const worker = registration?.installing;
+      worker?.addEventListener("statechange", () => {
+        if (worker.state === "installed") onWaiting(worker);
+      });
+    };
+
+    // Another tab switched every tab to a new build
+    const onControllerChange = () => {
+      if (reloadOnChange) {
+        window.location.reload();
+        return;
+      }
+      const controller = navigator.serviceWorker.controller;
+      if (controller && getWorkerBuildId(controller) !== buildId) {
+        promptToReload(() => window.location.reload());
+      }
+    };
+
+    const checkForUpdate = async () => {
+      if (!buildId || document.visibilityState !== "visible") return;
+      const deployed = await fetchDeployedBuildId();
+      if (deployed && deployed !== buildId) {
+        // Installs the new build's worker, which then shows up as waiting
+        await registerServiceWorker(deployed).catch((err) =>
+          console.error("Failed to install the new version:", err),
+        );
+      }
+    };
+
+    const register = async () => {
+      try {
+        registration = await registerServiceWorker(buildId);
+        if (!registration) return;
+        if (registration.waiting) onWaiting(registration.waiting);
+        registration.addEventListener("updatefound", watchInstalling);
+      } catch (err) {
+        console.error("Service worker registration failed:", err);
+      }
+    };
+
+    register();
+    navigator.serviceWorker.addEventListener(
+      "controllerchange",
+      onControllerChange,
+    );
+    document.addEventListener("visibilitychange", checkForUpdate);
+    const interval = setInterval(checkForUpdate, UPDATE_CHECK_INTERVAL_MS);
+
+    return () => {
+      registration?.removeEventListener("updatefound", watchInstalling);
+      navigator.serviceWorker.removeEventListener(
+        "controllerchange",
+        onControllerChange,
+      );
+      document.removeEventListener("visibilitychange", checkForUpdate);
+      clearInterval(interval);
+    };
+  }, []);
+
+  return null;
+}
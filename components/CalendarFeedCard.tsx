@@ -0,0 +1,156 @@
+import React, { useEffect, useState } from "react";
+import { Copy, Link2, Loader2, RefreshCw, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import {
+  CalendarFeed,
+  createCalendarFeed,
+  getCalendarFeed,
+  getCalendarFeedUrl,
+  revokeCalendarFeed,
+} from "@/lib/calendarFeed";
+
+interface CalendarFeedCardProps {
+  userId: string;
+}
+
+/**
+ * Lets the user create, copy, replace and revoke the secret URL that calendar apps
+ * subscribe to for their appointments and medications.
+ */
+export function CalendarFeedCard({ userId }: CalendarFeedCardProps) {
+  const [feed, setFeed] = useState<CalendarFeed | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    getCalendarFeed(userId)
+      .then(setFeed)
+      .catch((err) => {
+        console.error("Error loading calendar feed:", err);
+      })
+      .finally(() => setLoading(false));
+  }, [userId]);
+
+  const feedUrl = feed
+    ? getCalendarFeedUrl(feed.token, window.location.origin)
+    : "";
+
+  async function handleCreate() {
+    // A new URL stops the old one from working, so make sure that's intended
+    if (
+      feed &&
+      !window.confirm(
+        "Calendars subscribed to your current link will stop updating. Create a new link?",
+      )
+    ) {
+      return;
+    }
+    setSaving(true);
+    try {
+      setFeed(await createCalendarFeed(userId));
+      toast.success(
+        feed ? "Calendar link replaced." : "Calendar link created.",
+      );
+    } catch (err) {
+      console.error("Error creating calendar feed:", err);
+      toast.error("Error creating calendar link.");
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function handleRevoke() {
+    setSaving(true);
+    try {
+      await revokeCalendarFeed(userId);
+      setFeed(null);
+      toast.success("Calendar link revoked.");
+    } catch (err) {
+      console.error("Error revoking calendar feed:", err);
+      toast.error("Error revoking calendar link.");
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function handleCopy() {
+    try {
+      await navigator.clipboard.writeText(feedUrl);
+      toast.success("Calendar link copied.");
+    } catch {
+      toast.error("Could not copy the link. Select it and copy it instead.");
+    }
+  }
+
+  return (
+    <Card className="p-6 shadow-2xl rounded-xl bg-background gap-3">
+      <h3 className="text-xl font-semibold flex items-center">
+        <Link2 className="w-5 h-5 mr-2" /> Calendar Subscription
+      </h3>
+      <p className="text-sm text-foreground">
+        Subscribe to this link in Google Calendar (&quot;Other calendars&quot;
+        &gt; &quot;From URL&quot;), Apple Calendar (&quot;File&quot; &gt;
+        &quot;New Calendar Subscription&quot;) or Outlook (&quot;Add
+        calendar&quot; &gt; &quot;Subscribe from web&quot;) to see your
+        appointments and medications there. It stays up to date as you make
+        changes here. Anyone with the link can see these events, so keep it
+        private.
+      </p>
+      {loading ? (
+        <Loader2 className="animate-spin h-5 w-5 text-gray-400" />
+      ) : (
+        <>
+          {feed && (
+            <div className="flex gap-2">
+              <Input
+                readOnly
+                value={feedUrl}
+                aria-label="Calendar subscription link"
+                onFocus={(e) => e.target.select()}
+                className="flex-1"
+              />
+              <Button
+                variant="outline"
+                onClick={handleCopy}
+                className="cursor-pointer"
+              >
+                <Copy className="mr-1 w-4 h-4" /> Copy
+              </Button>
+            </div>
+          )}
+          <div className="flex flex-wrap gap-2">
+            <Button
+              variant={feed ? "outline" : "default"}
+              onClick={handleCreate}
+              disabled={saving}
+              className="cursor-pointer"
+            >
+              {feed ? (
+                <>
+                  <RefreshCw className="mr-1 w-4 h-4" /> Replace Link
+                </>
+              ) : (
+                <>
+                  <Link2 className="mr-1 w-4 h-4" /> Create Link
+                </>
+              )}
+            </Button>
+            {feed && (
+              <Button
+                variant="destructive"
+                onClick={handleRevoke}
+                disabled={saving}
+                className="cursor-pointer"
+              >
+                <Trash2 className="mr-1 w-4 h-4" /> Revoke Link
+              </Button>
+            )}
+          </div>
+        </>
+      )}
+    </Card>
+  );
+}
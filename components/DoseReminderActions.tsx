@@ -0,0 +1,43 @@
+import React from "react";
+import { AlarmClock, Check } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { SNOOZE_OPTIONS } from "@/lib/notificationPreferences";
+
+interface DoseReminderActionsProps {
+  message?: string;
+  onTaken: () => void;
+  onSnooze: (minutes: number) => void;
+}
+
+/**
+ * The body of a medication reminder toast: the reminder text with buttons to mark the dose as
+ * taken or snooze it for 10, 30 or 60 minutes.
+ */
+export function DoseReminderActions({
+  message,
+  onTaken,
+  onSnooze,
+}: DoseReminderActionsProps) {
+  return (
+    <div className="space-y-2">
+      {message && <p>{message}</p>}
+      <div className="flex flex-wrap gap-1">
+        <Button size="sm" onClick={onTaken} className="cursor-pointer">
+          <Check className="w-4 h-4" /> Taken
+        </Button>
+        {SNOOZE_OPTIONS.map((minutes) => (
+          <Button
+            key={minutes}
+            size="sm"
+            variant="outline"
+            onClick={() => onSnooze(minutes)}
+            title={`Snooze for ${minutes} minutes`}
+            className="cursor-pointer"
+          >
+            <AlarmClock className="w-4 h-4" /> {minutes}m
+          </Button>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,166 @@
+import React, { ChangeEvent, useRef, useState } from "react";
+import { format } from "date-fns";
+import { Download, FileJson, Loader2, Upload } from "lucide-react";
+import { toast } from "sonner";
+import { useQueryClient } from "@tanstack/react-query";
+import { ZodError } from "zod";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import {
+  FhirImportResult,
+  exportFhirBundle,
+  importFhirBundle,
+} from "@/lib/fhir";
+
+interface FhirDataCardProps {
+  userId: string;
+}
+
+const plural = (n: number, word: string) => `${n} ${word}${n === 1 ? "" : "s"}`;
+
+/**
+ * Describes what an import saved, e.g. "Imported 2 medications, 14 health logs and 1
+ * appointment."
+ */
+function describeImport(result: FhirImportResult): string {
+  const parts = [
+    plural(result.medications, "medication"),
+    plural(result.logs, "health log"),
+    plural(result.appointments, "appointment"),
+    result.conditionTags > 0 && plural(result.conditionTags, "condition tag"),
+  ].filter((part): part is string => !!part);
+  return `Imported ${parts.slice(0, -1).join(", ")} and ${parts.at(-1)}.`;
+}
+
+/**
+ * Lets the user download their record as a FHIR R4 Bundle, to share with a clinician's system
+ * or another app, and import a Bundle from one.
+ */
+export function FhirDataCard({ userId }: FhirDataCardProps) {
+  const queryClient = useQueryClient();
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [exporting, setExporting] = useState(false);
+  const [importing, setImporting] = useState(false);
+
+  async function handleExport() {
+    setExporting(true);
+    try {
+      const bundle = await exportFhirBundle(userId);
+      const blob = new Blob([JSON.stringify(bundle, null, 2)], {
+        type: "application/fhir+json",
+      });
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement("a");
+      a.href = url;
+      a.download = `SymptomSync_FHIR_${format(new Date(), "yyyy-MM-dd")}.json`;
+      document.body.appendChild(a);
+      a.click();
+      document.body.removeChild(a);
+      URL.revokeObjectURL(url);
+    } catch (err) {
+      console.error("Error exporting FHIR bundle:", err);
+      toast.error("Error exporting your health record.");
+    } finally {
+      setExporting(false);
+    }
+  }
+
+  async function handleImport(e: ChangeEvent<HTMLInputElement>) {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+
+    setImporting(true);
+    try {
+      let json: unknown;
+      try {
+        json = JSON.parse(await file.text());
+      } catch {
+        toast.error("That file isn't valid JSON.");
+        return;
+      }
+      const result = await importFhirBundle(userId, json);
+      queryClient.invalidateQueries();
+
+      if (result.failure) {
+        toast.error(
+          `${describeImport(result)} The rest couldn't be saved: ${result.failure}`,
+        );
+      } else {
+        toast.success(describeImport(result));
+      }
+      const skipped = Object.entries(result.skipped)
+        .map(([type, n]) => `${n} ${type}`)
+        .join(", ");
+      if (skipped) {
+        toast.info(`Skipped resources SymptomSync doesn't import: ${skipped}.`);
+      }
+      if (result.errors.length > 0) {
+        console.warn("Invalid FHIR resources:", result.errors);
+        toast.warning(
+          `${plural(result.errors.length, "resource")} could not be read and ${
+            result.errors.length === 1 ? "was" : "were"
+          } left out: ${result.errors[0]}${result.errors.length > 1 ? ", …" : ""}`,
+        );
+      }
+    } catch (err) {
+      console.error("Error importing FHIR bundle:", err);
+      toast.error(
+        err instanceof ZodError
+          ? "That file isn't a FHIR Bundle."
+          : "Error importing your health record.",
+      );
+    } finally {
+      setImporting(false);
+    }
+  }
+
+  return (
+    <Card className="p-6 shadow-2xl rounded-xl bg-background gap-3">
+      <h3 className="text-xl font-semibold flex items-center">
+        <FileJson className="w-5 h-5 mr-2" /> Health Record (FHIR)
+      </h3>
+      <p className="text-sm text-foreground">
+        Download your profile, medications, health logs, appointments and
+        documents as a FHIR R4 Bundle, the format clinician portals and other
+        health apps exchange records in. You can also import a Bundle from one
+        of them; importing the same file again updates what it added instead of
+        duplicating it.
+      </p>
+      <div className="flex flex-wrap gap-2">
+        <Button
+          onClick={handleExport}
+          disabled={exporting}
+          className="cursor-pointer"
+        >
+          {exporting ? (
+            <Loader2 className="mr-1 w-4 h-4 animate-spin" />
+          ) : (
+            <Download className="mr-1 w-4 h-4" />
+          )}
+          Export Record
+        </Button>
+        <Button
+          variant="outline"
+          onClick={() => inputRef.current?.click()}
+          disabled={importing}
+          className="cursor-pointer"
+        >
+          {importing ? (
+            <Loader2 className="mr-1 w-4 h-4 animate-spin" />
+          ) : (
+            <Upload className="mr-1 w-4 h-4" />
+          )}
+          Import Record
+        </Button>
+        <input
+          ref={inputRef}
+          type="file"
+          accept=".json,application/json,application/fhir+json"
+          className="hidden"
+          onChange={handleImport}
+        />
+      </div>
+    </Card>
+  );
+}
@@ -0,0 +1,105 @@
+import React, { useMemo } from "react";
+import {
+  CalendarDays,
+  Clock,
+  Lightbulb,
+  Link2,
+  LucideIcon,
+  Pill,
+  Smile,
+} from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { HealthLog } from "@/lib/healthLogs";
+import { MedicationReminder } from "@/lib/medications";
+import {
+  InsightConfidence,
+  InsightKind,
+  MIN_GROUP_SIZE,
+  computeInsights,
+} from "@/lib/insights";
+
+type InsightsCardProps = {
+  logs: HealthLog[];
+  medications: MedicationReminder[];
+};
+
+// The most findings shown at once, the most confident first
+const MAX_INSIGHTS = 6;
+
+const KIND_ICONS: Record<InsightKind, LucideIcon> = {
+  medication: Pill,
+  "co-occurrence": Link2,
+  "day-of-week": CalendarDays,
+  "time-of-day": Clock,
+  mood: Smile,
+};
+
+const CONFIDENCE_BADGES: Record<
+  InsightConfidence,
+  { label: string; variant: "default" | "secondary" | "outline" }
+> = {
+  high: { label: "High confidence", variant: "default" },
+  medium: { label: "Medium confidence", variant: "secondary" },
+  low: { label: "Low confidence", variant: "outline" },
+};
+
+/**
+ * The Insights section of the dashboard: patterns lib/insights.ts finds between the user's
+ * medications, symptoms, moods and severity, each explained in plain language with how much data
+ * backs it.
+ */
+export function InsightsCard({ logs, medications }: InsightsCardProps) {
+  const insights = useMemo(
+    () => computeInsights(logs, medications).slice(0, MAX_INSIGHTS),
+    [logs, medications],
+  );
+
+  return (
+    <Card className="bg-card border border-border rounded-lg min-w-[280px] w-full pt-4 transition-all hover:shadow-xl h-auto">
+      <CardHeader>
+        <CardTitle className="text-lg md:text-xl flex items-center gap-2">
+          <Lightbulb className="w-5 h-5" /> Insights
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {insights.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            No patterns yet. Insights appear once there are at least{" "}
+            {MIN_GROUP_SIZE} logs on each side of a comparison, so keep logging
+            your symptoms, severity and mood.
+          </p>
+        ) : (
+          <ul className="grid gap-4 md:grid-cols-2">
+            {insights.map((insight) => {
+              const Icon = KIND_ICONS[insight.kind];
+              const badge = CONFIDENCE_BADGES[insight.confidence];
+              return (
+                <li
+                  key={insight.id}
+                  className="rounded-lg border border-border p-4 space-y-2"
+                >
+                  <div className="flex items-start gap-2">
+                    <Icon className="w-5 h-5 mt-0.5 shrink-0" />
+                    <h4 className="font-semibold flex-1">{insight.title}</h4>
+                    <Badge variant={badge.variant}>{badge.label}</Badge>
+                  </div>
+                  <p className="text-sm text-foreground">
+                    {insight.description}
+                  </p>
+                  <p className="text-xs text-muted-foreground">
+                    {insight.basis}
+                  </p>
+                </li>
+              );
+            })}
+          </ul>
+        )}
+        <p className="text-xs text-muted-foreground">
+          Insights show what tends to happen together in your logs, not what
+          causes what. Talk to your clinician before changing a medication.
+        </p>
+      </CardContent>
+    </Card>
+  );
+}
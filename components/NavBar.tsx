@@ -22,6 +22,7 @@ if (!supabase) {
 
 import { signOut } from "@/lib/auth";
 import { ModeToggle } from "@/components/ModeToggle";
+import { OfflineIndicator } from "@/components/OfflineIndicator";
 
 type NavItemProps = {
   href: string;
@@ -226,6 +227,7 @@ export default function NavBar({
               />
             )}
             <ModeToggle isExpanded={isExpanded} />
+            <OfflineIndicator isExpanded={isExpanded} />
           </div>
         </div>
         <div className="p-0 border-t border-white/20">
@@ -248,4 +250,4 @@ export default function NavBar({
       </nav>
     </>
   );
-}
\ No newline at end of file
+}
@@ -0,0 +1,334 @@
+import React, { useEffect, useState } from "react";
+import { Loader2, MoonStar, Settings2 } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  APPOINTMENT_LEAD_OPTIONS,
+  DEFAULT_NOTIFICATION_SETTINGS,
+  ESCALATION_OPTIONS,
+  NOTIFICATION_CHANNELS,
+  NotificationChannel,
+  NotificationSettings,
+  SNOOZE_OPTIONS,
+  getNotificationPreferences,
+  updateNotificationPreferences,
+} from "@/lib/notificationPreferences";
+
+interface NotificationSettingsCardProps {
+  userId: string;
+}
+
+const CHANNEL_LABELS: Record<NotificationChannel, string> = {
+  in_app: "In-app",
+  browser: "Browser",
+  push: "Push",
+};
+
+const REMINDER_TYPES = [
+  { key: "medication_channels", label: "Medication reminders" },
+  { key: "appointment_channels", label: "Appointment reminders" },
+] as const;
+
+// Quiet hours suggested when they are first turned on
+const DEFAULT_QUIET_HOURS = { start: "22:00", end: "07:00" };
+
+/**
+ * Describes an appointment lead time, e.g. "1 hour before"
+ */
+function describeLeadTime(minutes: number) {
+  if (minutes === 0) return "When it starts";
+  if (minutes % 1440 === 0) {
+    const days = minutes / 1440;
+    return `${days} day${days === 1 ? "" : "s"} before`;
+  }
+  if (minutes % 60 === 0) {
+    const hours = minutes / 60;
+    return `${hours} hour${hours === 1 ? "" : "s"} before`;
+  }
+  return `${minutes} minutes before`;
+}
+
+/**
+ * Lets the user choose where medication and appointment reminders are delivered, how long
+ * before appointments to be reminded, quiet hours, how long "Snooze" lasts and when doses nobody
+ * confirmed are followed up and counted as missed.
+ */
+export function NotificationSettingsCard({
+  userId,
+}: NotificationSettingsCardProps) {
+  const [settings, setSettings] = useState<NotificationSettings>({
+    ...DEFAULT_NOTIFICATION_SETTINGS,
+    time_zone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+  });
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    getNotificationPreferences(userId)
+      .then((preferences) => {
+        if (preferences) setSettings(preferences);
+      })
+      .catch((err) => {
+        console.error("Error loading notification settings:", err);
+      })
+      .finally(() => setLoading(false));
+  }, [userId]);
+
+  function toggleChannel(
+    type: (typeof REMINDER_TYPES)[number]["key"],
+    channel: NotificationChannel,
+    checked: boolean,
+  ) {
+    setSettings((prev) => ({
+      ...prev,
+      [type]: checked
+        ? NOTIFICATION_CHANNELS.filter(
+            (c) => c === channel || prev[type].includes(c),
+          )
+        : prev[type].filter((c) => c !== channel),
+    }));
+  }
+
+  function toggleLeadTime(minutes: number, checked: boolean) {
+    setSettings((prev) => ({
+      ...prev,
+      appointment_lead_minutes: checked
+        ? [...prev.appointment_lead_minutes, minutes].sort((a, b) => b - a)
+        : prev.appointment_lead_minutes.filter((m) => m !== minutes),
+    }));
+  }
+
+  function toggleQuietHours(checked: boolean) {
+    setSettings((prev) => ({
+      ...prev,
+      quiet_hours_start: checked ? DEFAULT_QUIET_HOURS.start : null,
+      quiet_hours_end: checked ? DEFAULT_QUIET_HOURS.end : null,
+    }));
+  }
+
+  async function handleSave() {
+    setSaving(true);
+    try {
+      // The time zone follows the device (see syncNotificationTimeZone), so it isn't saved here
+      const saved = await updateNotificationPreferences(userId, {
+        medication_channels: settings.medication_channels,
+        appointment_channels: settings.appointment_channels,
+        appointment_lead_minutes: settings.appointment_lead_minutes,
+        quiet_hours_start: settings.quiet_hours_start,
+        quiet_hours_end: settings.quiet_hours_end,
+        snooze_minutes: settings.snooze_minutes,
+        escalation_minutes: settings.escalation_minutes,
+      });
+      setSettings(saved);
+      toast.success("Notification settings saved.");
+    } catch (err) {
+      console.error("Error saving notification settings:", err);
+      toast.error("Error saving notification settings.");
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  const quietHoursOn = !!settings.quiet_hours_start;
+
+  return (
+    <Card className="p-6 shadow-2xl rounded-xl bg-background gap-4">
+      <h3 className="text-xl font-semibold flex items-center">
+        <Settings2 className="w-5 h-5 mr-2" /> Notification Settings
+      </h3>
+      {loading ? (
+        <Loader2 className="animate-spin h-5 w-5 text-gray-400" />
+      ) : (
+        <>
+          <div className="space-y-2">
+            <p className="text-sm text-foreground">
+              Choose how you&apos;re reminded. In-app notifications appear while
+              SymptomSync is open; push notifications also arrive when it&apos;s
+              closed, on devices where they&apos;re turned on.
+            </p>
+            <div className="grid grid-cols-[1fr_repeat(3,4.5rem)] gap-y-2 items-center text-sm">
+              <span />
+              {NOTIFICATION_CHANNELS.map((channel) => (
+                <span key={channel} className="text-center font-medium">
+                  {CHANNEL_LABELS[channel]}
+                </span>
+              ))}
+              {REMINDER_TYPES.map(({ key, label }) => (
+                <React.Fragment key={key}>
+                  <span>{label}</span>
+                  {NOTIFICATION_CHANNELS.map((channel) => (
+                    <div key={channel} className="flex justify-center">
+                      <Checkbox
+                        aria-label={`${label}: ${CHANNEL_LABELS[channel]}`}
+                        checked={settings[key].includes(channel)}
+                        onCheckedChange={(checked) =>
+                          toggleChannel(key, channel, checked === true)
+                        }
+                        className="cursor-pointer"
+                      />
+                    </div>
+                  ))}
+                </React.Fragment>
+              ))}
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Remind me about appointments</Label>
+            <div className="flex flex-wrap gap-x-4 gap-y-2">
+              {APPOINTMENT_LEAD_OPTIONS.map((minutes) => (
+                <div key={minutes} className="flex items-center gap-2">
+                  <Checkbox
+                    id={`appointment-lead-${minutes}`}
+                    checked={settings.appointment_lead_minutes.includes(
+                      minutes,
+                    )}
+                    onCheckedChange={(checked) =>
+                      toggleLeadTime(minutes, checked === true)
+                    }
+                    className="cursor-pointer"
+                  />
+                  <Label
+                    htmlFor={`appointment-lead-${minutes}`}
+                    className="text-sm font-normal"
+                  >
+                    {describeLeadTime(minutes)}
+                  </Label>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <div className="flex items-center justify-between gap-4">
+              <Label htmlFor="quiet-hours" className="flex items-center">
+                <MoonStar className="w-4 h-4 mr-1" /> Quiet hours
+              </Label>
+              <Switch
+                id="quiet-hours"
+                checked={quietHoursOn}
+                onCheckedChange={toggleQuietHours}
+                className="cursor-pointer"
+              />
+            </div>
+            {quietHoursOn && (
+              <div className="flex items-center gap-2">
+                <Input
+                  type="time"
+                  aria-label="Quiet hours start"
+                  value={settings.quiet_hours_start?.slice(0, 5) ?? ""}
+                  onChange={(e) =>
+                    setSettings((prev) => ({
+                      ...prev,
+                      quiet_hours_start: e.target.value || null,
+                    }))
+                  }
+                  className="w-32"
+                />
+                <span className="text-sm">to</span>
+                <Input
+                  type="time"
+                  aria-label="Quiet hours end"
+                  value={settings.quiet_hours_end?.slice(0, 5) ?? ""}
+                  onChange={(e) =>
+                    setSettings((prev) => ({
+                      ...prev,
+                      quiet_hours_end: e.target.value || null,
+                    }))
+                  }
+                  className="w-32"
+                />
+              </div>
+            )}
+            <p className="text-xs text-muted-foreground">
+              No browser or push notifications during quiet hours (
+              {settings.time_zone}). Reminders still appear in the app.
+            </p>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Snooze medication reminders for</Label>
+            <Select
+              value={String(settings.snooze_minutes)}
+              onValueChange={(value) =>
+                setSettings((prev) => ({
+                  ...prev,
+                  snooze_minutes: Number(value),
+                }))
+              }
+            >
+              <SelectTrigger className="w-40">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {SNOOZE_OPTIONS.map((minutes) => (
+                  <SelectItem key={minutes} value={String(minutes)}>
+                    {minutes} minutes
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Follow up on unconfirmed doses</Label>
+            <Select
+              value={String(settings.escalation_minutes ?? "off")}
+              onValueChange={(value) =>
+                setSettings((prev) => ({
+                  ...prev,
+                  escalation_minutes: value === "off" ? null : Number(value),
+                }))
+              }
+            >
+              <SelectTrigger className="w-40">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {ESCALATION_OPTIONS.map((minutes) => (
+                  <SelectItem key={minutes} value={String(minutes)}>
+                    After {minutes} minutes
+                  </SelectItem>
+                ))}
+                <SelectItem value="off">Never</SelectItem>
+              </SelectContent>
+            </Select>
+            <p className="text-xs text-muted-foreground">
+              If you don&apos;t mark a dose as taken or skipped by then, you get
+              one more reminder and the dose counts as missed.
+            </p>
+          </div>
+
+          <div>
+            <Button
+              onClick={handleSave}
+              disabled={
+                saving ||
+                (quietHoursOn &&
+                  (!settings.quiet_hours_start || !settings.quiet_hours_end))
+              }
+              className="cursor-pointer"
+            >
+              {saving ? (
+                <Loader2 className="mr-1 w-4 h-4 animate-spin" />
+              ) : null}
+              Save Settings
+            </Button>
+          </div>
+        </>
+      )}
+    </Card>
+  );
+}
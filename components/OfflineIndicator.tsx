@@ -0,0 +1,119 @@
+import React, { useEffect, useState } from "react";
+import { CloudUpload, Loader2, WifiOff } from "lucide-react";
+import { toast } from "sonner";
+import { getOutbox, isOffline, onOutboxChange } from "@/lib/offlineStore";
+import { syncOfflineChanges } from "@/lib/offlineSync";
+
+type OfflineIndicatorProps = {
+  isExpanded?: boolean;
+};
+
+const plural = (count: number, word: string) =>
+  `${count} ${word}${count === 1 ? "" : "s"}`;
+
+/**
+ * Sends the changes made offline and tells the user how it went.
+ */
+export async function syncOfflineChangesWithToast() {
+  try {
+    const { synced, conflicts } = await syncOfflineChanges();
+    if (synced > 0) {
+      toast.success(`Synced ${plural(synced, "change")} made offline.`);
+    }
+    const rejected = conflicts.filter((c) => c.reason === "rejected");
+    const superseded = conflicts.length - rejected.length;
+    if (superseded > 0) {
+      toast.warning(
+        `${plural(superseded, "change")} made offline couldn't be applied because the record was changed or deleted on another device.`,
+      );
+    }
+    if (rejected.length > 0) {
+      console.warn("Offline changes rejected by Supabase:", rejected);
+      toast.error(
+        `${plural(rejected.length, "change")} made offline ${
+          rejected.length === 1 ? "was" : "were"
+        } rejected by the server and discarded. Please enter ${
+          rejected.length === 1 ? "it" : "them"
+        } again.`,
+      );
+    }
+  } catch (err) {
+    console.error("Failed to sync offline changes:", err);
+  }
+}
+
+/**
+ * Shows in the nav bar when the device is offline and how many changes are waiting to be
+ * synced. Once back online, waiting changes can be synced right away.
+ */
+export function OfflineIndicator({ isExpanded = true }: OfflineIndicatorProps) {
+  const [offline, setOffline] = useState(false);
+  const [pending, setPending] = useState(0);
+  const [syncing, setSyncing] = useState(false);
+
+  useEffect(() => {
+    const update = () => setOffline(isOffline());
+    update();
+    window.addEventListener("online", update);
+    window.addEventListener("offline", update);
+
+    getOutbox()
+      .then((outbox) => setPending(outbox.length))
+      .catch((err) => console.error("Failed to read the outbox:", err));
+    const stopListening = onOutboxChange(setPending);
+
+    return () => {
+      window.removeEventListener("online", update);
+      window.removeEventListener("offline", update);
+      stopListening();
+    };
+  }, []);
+
+  if (!offline && pending === 0) return null;
+
+  const label = offline
+    ? pending > 0
+      ? `Offline · ${pending} waiting`
+      : "Offline"
+    : `Sync ${plural(pending, "change")}`;
+
+  async function handleSync() {
+    setSyncing(true);
+    await syncOfflineChangesWithToast();
+    setSyncing(false);
+  }
+
+  return (
+    <button
+      onClick={(e) => {
+        e.stopPropagation();
+        handleSync();
+      }}
+      disabled={offline || syncing}
+      title={
+        offline
+          ? "You're offline. Changes are saved on this device and synced when you're back online."
+          : "Sync the changes made offline"
+      }
+      className={`w-full flex items-center transition-colors rounded text-amber-300 ${
+        isExpanded ? "gap-3 px-4 py-3" : "justify-center p-3"
+      } ${offline ? "cursor-default" : "cursor-pointer hover:bg-white/10"}`}
+      aria-live="polite"
+    >
+      <div className="flex-shrink-0 flex justify-center items-center w-5 h-5">
+        {syncing ? (
+          <Loader2 className="w-5 h-5 animate-spin" />
+        ) : offline ? (
+          <WifiOff className="w-5 h-5" />
+        ) : (
+          <CloudUpload className="w-5 h-5" />
+        )}
+      </div>
+      {isExpanded && (
+        <span className="whitespace-nowrap block text-base font-medium">
+          {label}
+        </span>
+      )}
+    </button>
+  );
+}
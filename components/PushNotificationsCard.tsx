@@ -0,0 +1,82 @@
+import React, { useEffect, useState } from "react";
+import { BellRing } from "lucide-react";
+import { toast } from "sonner";
+import { Card } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import {
+  getPushSubscription,
+  isPushSupported,
+  subscribeToPush,
+  unsubscribeFromPush,
+} from "@/lib/pushSubscriptions";
+
+/**
+ * Turns push notifications on or off for this browser, so medication and appointment
+ * reminders arrive even when SymptomSync isn't open.
+ */
+export function PushNotificationsCard() {
+  const [supported, setSupported] = useState(false);
+  const [enabled, setEnabled] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!isPushSupported()) return;
+    setSupported(true);
+    getPushSubscription()
+      .then((subscription) => setEnabled(!!subscription))
+      .catch((err) => console.error("Error loading push subscription:", err));
+  }, []);
+
+  async function handleToggle(checked: boolean) {
+    setSaving(true);
+    try {
+      if (checked) {
+        await subscribeToPush();
+        toast.success("Push notifications turned on for this device.");
+      } else {
+        await unsubscribeFromPush();
+        toast.success("Push notifications turned off for this device.");
+      }
+      setEnabled(checked);
+    } catch (err) {
+      console.error("Error updating push subscription:", err);
+      toast.error(
+        err instanceof Error && err.message.includes("permission")
+          ? "Allow notifications for this site in your browser settings first."
+          : "Error updating push notifications.",
+      );
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  return (
+    <Card className="p-6 shadow-2xl rounded-xl bg-background gap-3">
+      <h3 className="text-xl font-semibold flex items-center">
+        <BellRing className="w-5 h-5 mr-2" /> Push Notifications
+      </h3>
+      {supported ? (
+        <div className="flex items-center justify-between gap-4">
+          <Label htmlFor="push-notifications" className="text-sm font-normal">
+            Get medication and appointment reminders on this device, even when
+            SymptomSync is closed. Medication reminders let you mark a dose as
+            taken or snooze it right from the notification.
+          </Label>
+          <Switch
+            id="push-notifications"
+            checked={enabled}
+            disabled={saving}
+            onCheckedChange={handleToggle}
+            className="cursor-pointer"
+          />
+        </div>
+      ) : (
+        <p className="text-sm text-foreground">
+          This browser doesn&apos;t support push notifications. On iPhone and
+          iPad, add SymptomSync to your Home Screen first.
+        </p>
+      )}
+    </Card>
+  );
+}
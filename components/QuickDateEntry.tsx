@@ -0,0 +1,70 @@
+import React, { useState } from "react";
+import { format } from "date-fns";
+import { Wand2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { ParsedDateTime, parseNaturalDateTime } from "@/lib/dateParsing";
+
+interface QuickDateEntryProps {
+  onResolve: (parsed: ParsedDateTime) => void;
+  placeholder?: string;
+  showRecurrence?: boolean;
+}
+
+/**
+ * A text box that lets users type a date/time in plain English (e.g. "next Tuesday at 9")
+ * and fills in the date and time pickers of the surrounding dialog.
+ */
+export function QuickDateEntry({
+  onResolve,
+  placeholder = 'e.g. "tomorrow at 9am"',
+  showRecurrence = false,
+}: QuickDateEntryProps) {
+  const [text, setText] = useState("");
+  const parsed = text.trim() ? parseNaturalDateTime(text) : null;
+
+  const apply = () => {
+    if (!parsed) return;
+    onResolve(parsed);
+    setText("");
+  };
+
+  return (
+    <div className="space-y-1">
+      <div className="flex items-center gap-2">
+        <Input
+          value={text}
+          onChange={(e) => setText(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === "Enter") {
+              e.preventDefault();
+              apply();
+            }
+          }}
+          placeholder={placeholder}
+        />
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={apply}
+          disabled={!parsed}
+          className="cursor-pointer"
+        >
+          <Wand2 className="w-4 h-4" /> Set
+        </Button>
+      </div>
+      {text.trim() && (
+        <p className="text-xs text-muted-foreground">
+          {parsed
+            ? `${format(parsed.date, "PPP, h:mm a")}${
+                showRecurrence && parsed.recurrence
+                  ? ` · ${parsed.recurrence}`
+                  : ""
+              }`
+            : "Couldn't understand that date."}
+        </p>
+      )}
+    </div>
+  );
+}
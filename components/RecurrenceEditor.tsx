@@ -0,0 +1,245 @@
+import React, { useState } from "react";
+import { addDays, endOfDay } from "date-fns";
+import { X } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { DatePicker } from "@/components/ui/date-picker";
+import { CustomTimePicker } from "@/components/ui/time-picker";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  RecurrenceRule,
+  RecurrenceRuleSchema,
+  WEEKDAYS,
+  Weekday,
+  describeRecurrence,
+  hasRepresentableTimes,
+} from "@/lib/recurrence";
+
+interface RecurrenceEditorProps {
+  // null means the medication doesn't repeat (taken as needed)
+  value: RecurrenceRule | null;
+  onChange: (rule: RecurrenceRule | null) => void;
+}
+
+const FREQUENCY_UNITS: Record<RecurrenceRule["freq"], string> = {
+  HOURLY: "hour(s)",
+  DAILY: "day(s)",
+  WEEKLY: "week(s)",
+  MONTHLY: "month(s)",
+};
+
+const WEEKDAY_LETTERS: Record<Weekday, string> = {
+  MO: "M",
+  TU: "T",
+  WE: "W",
+  TH: "T",
+  FR: "F",
+  SA: "S",
+  SU: "S",
+};
+
+/**
+ * Edits the recurrence of a medication reminder: how often it repeats, on which days of the
+ * week, at which times of day, and when it ends.
+ */
+export function RecurrenceEditor({ value, onChange }: RecurrenceEditorProps) {
+  const [newTime, setNewTime] = useState("08:00");
+
+  const update = (changes: Partial<RecurrenceRule>) => {
+    if (!value) return;
+    onChange(RecurrenceRuleSchema.parse({ ...value, ...changes }));
+  };
+
+  const toggleDay = (day: Weekday) => {
+    if (!value) return;
+    update({
+      byDay: value.byDay.includes(day)
+        ? value.byDay.filter((d) => d !== day)
+        : [...value.byDay, day],
+    });
+  };
+
+  const addTime = () => {
+    if (!value || value.times.includes(newTime)) return;
+    const times = [...value.times, newTime].sort();
+    if (!hasRepresentableTimes(times)) {
+      toast.error(
+        "All times of day need the same minutes past the hour, e.g. 8:00 and 20:00.",
+      );
+      return;
+    }
+    update({ times });
+  };
+
+  const endType = value?.until ? "until" : value?.count ? "count" : "never";
+
+  return (
+    <div className="space-y-3">
+      <Select
+        value={value?.freq ?? "NONE"}
+        onValueChange={(freq) =>
+          onChange(
+            freq === "NONE"
+              ? null
+              : RecurrenceRuleSchema.parse({
+                  ...(value ?? {}),
+                  freq,
+                }),
+          )
+        }
+      >
+        <SelectTrigger className="w-full border border-input rounded px-2 py-1">
+          <SelectValue placeholder="Select recurrence" />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value="NONE">As Needed (does not repeat)</SelectItem>
+          <SelectItem value="HOURLY">Every few hours</SelectItem>
+          <SelectItem value="DAILY">Daily</SelectItem>
+          <SelectItem value="WEEKLY">Weekly</SelectItem>
+          <SelectItem value="MONTHLY">Monthly</SelectItem>
+        </SelectContent>
+      </Select>
+
+      {value && (
+        <>
+          <div className="flex items-center gap-2">
+            <Label className="text-xs">Every</Label>
+            <Input
+              type="number"
+              min={1}
+              value={value.interval}
+              onChange={(e) =>
+                update({ interval: Math.max(1, Number(e.target.value) || 1) })
+              }
+              className="w-20"
+            />
+            <span className="text-sm">{FREQUENCY_UNITS[value.freq]}</span>
+          </div>
+
+          <div className="space-y-1">
+            <Label className="text-xs">
+              {value.freq === "WEEKLY" ? "On" : "Only on (optional)"}
+            </Label>
+            <div className="flex gap-1">
+              {WEEKDAYS.map((day) => (
+                <Button
+                  key={day}
+                  type="button"
+                  size="sm"
+                  variant={value.byDay.includes(day) ? "default" : "outline"}
+                  onClick={() => toggleDay(day)}
+                  className="w-8 px-0 cursor-pointer"
+                  title={day}
+                >
+                  {WEEKDAY_LETTERS[day]}
+                </Button>
+              ))}
+            </div>
+          </div>
+
+          {value.freq !== "HOURLY" && (
+            <div className="space-y-1">
+              <Label className="text-xs">
+                Times of day (defaults to the scheduled time)
+              </Label>
+              <div className="flex flex-wrap gap-1">
+                {value.times.map((time) => (
+                  <span
+                    key={time}
+                    className="inline-flex items-center gap-1 rounded border px-2 py-0.5 text-sm"
+                  >
+                    {time}
+                    <button
+                      type="button"
+                      aria-label={`Remove ${time}`}
+                      onClick={() =>
+                        update({
+                          times: value.times.filter((t) => t !== time),
+                        })
+                      }
+                      className="cursor-pointer"
+                    >
+                      <X className="w-3 h-3" />
+                    </button>
+                  </span>
+                ))}
+              </div>
+              <div className="flex items-end gap-2">
+                <CustomTimePicker value={newTime} onChange={setNewTime} />
+                <Button
+                  type="button"
+                  size="sm"
+                  variant="outline"
+                  onClick={addTime}
+                  className="cursor-pointer"
+                >
+                  Add time
+                </Button>
+              </div>
+            </div>
+          )}
+
+          <div className="space-y-1">
+            <Label className="text-xs">Ends</Label>
+            <Select
+              value={endType}
+              onValueChange={(type) =>
+                update({
+                  until:
+                    type === "until"
+                      ? endOfDay(addDays(new Date(), 30)).toISOString()
+                      : null,
+                  count: type === "count" ? 10 : null,
+                })
+              }
+            >
+              <SelectTrigger className="w-full border border-input rounded px-2 py-1">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="never">Never</SelectItem>
+                <SelectItem value="until">On a date</SelectItem>
+                <SelectItem value="count">After a number of doses</SelectItem>
+              </SelectContent>
+            </Select>
+            {endType === "until" && value.until && (
+              <DatePicker
+                value={new Date(value.until)}
+                onChange={(date) =>
+                  update({ until: endOfDay(date).toISOString() })
+                }
+                className="w-full"
+              />
+            )}
+            {endType === "count" && (
+              <div className="flex items-center gap-2">
+                <Input
+                  type="number"
+                  min={1}
+                  value={value.count ?? 1}
+                  onChange={(e) =>
+                    update({ count: Math.max(1, Number(e.target.value) || 1) })
+                  }
+                  className="w-20"
+                />
+                <span className="text-sm">doses</span>
+              </div>
+            )}
+          </div>
+        </>
+      )}
+
+      <p className="text-xs text-muted-foreground">
+        {describeRecurrence(value)}
+      </p>
+    </div>
+  );
+}
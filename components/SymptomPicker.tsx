@@ -0,0 +1,162 @@
+import React, { useMemo, useState } from "react";
+import { Plus, X } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Command,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+} from "@/components/ui/command";
+import { Slider } from "@/components/ui/slider";
+import {
+  SYMPTOMS_BY_ID,
+  SymptomEntry,
+  dedupeSymptoms,
+  findSymptom,
+  normalizeSymptomText,
+  searchSymptoms,
+  toSymptomEntry,
+} from "@/lib/symptoms";
+
+interface SymptomPickerProps {
+  value: SymptomEntry[];
+  onChange: (value: SymptomEntry[]) => void;
+}
+
+// The severity a newly added symptom starts at
+const DEFAULT_SEVERITY = 5;
+
+/**
+ * The symptoms of the create and edit health log dialogs: an autocomplete over the symptom
+ * catalogue (lib/symptoms.ts) that also takes symptoms it doesn't know, and a severity slider
+ * for each picked symptom.
+ */
+export function SymptomPicker({ value, onChange }: SymptomPickerProps) {
+  const [query, setQuery] = useState("");
+
+  const picked = useMemo(
+    () =>
+      new Set(value.map((e) => e.symptom_id ?? normalizeSymptomText(e.name))),
+    [value],
+  );
+  const suggestions = useMemo(
+    () => searchSymptoms(query, 12).filter((s) => !picked.has(s.id)),
+    [query, picked],
+  );
+  // Offer the text itself when it names nothing in the catalogue
+  const custom =
+    query.trim() && !findSymptom(query) ? toSymptomEntry(query, 0) : null;
+
+  function add(text: string) {
+    const entry = toSymptomEntry(text, DEFAULT_SEVERITY);
+    if (!entry) return;
+    onChange(dedupeSymptoms([...value, entry]));
+    setQuery("");
+  }
+
+  function remove(index: number) {
+    onChange(value.filter((_, i) => i !== index));
+  }
+
+  function setSeverity(index: number, severity: number) {
+    onChange(value.map((e, i) => (i === index ? { ...e, severity } : e)));
+  }
+
+  return (
+    <div className="space-y-3">
+      <Command shouldFilter={false} className="border rounded-md h-auto">
+        <CommandInput
+          value={query}
+          onValueChange={setQuery}
+          placeholder="Search symptoms, e.g. headache"
+        />
+        {query.trim() ? (
+          <CommandList className="max-h-48">
+            {suggestions.length > 0 ? (
+              <CommandGroup>
+                {suggestions.map((s) => (
+                  <CommandItem
+                    key={s.id}
+                    value={s.id}
+                    onSelect={() => add(s.name)}
+                    className="cursor-pointer"
+                  >
+                    <span>{s.name}</span>
+                    <span className="ml-auto text-xs text-muted-foreground">
+                      {s.bodySystem}
+                    </span>
+                  </CommandItem>
+                ))}
+              </CommandGroup>
+            ) : null}
+            {custom && !picked.has(normalizeSymptomText(custom.name)) ? (
+              <CommandGroup>
+                <CommandItem
+                  value={`custom:${custom.name}`}
+                  onSelect={() => add(query)}
+                  className="cursor-pointer"
+                >
+                  <Plus className="w-4 h-4" />
+                  Add &quot;{custom.name}&quot;
+                </CommandItem>
+              </CommandGroup>
+            ) : null}
+          </CommandList>
+        ) : null}
+      </Command>
+
+      {value.length === 0 ? (
+        <p className="text-xs text-muted-foreground">
+          Add at least one symptom.
+        </p>
+      ) : (
+        <ul className="space-y-3">
+          {value.map((entry, i) => {
+            const symptom = entry.symptom_id
+              ? SYMPTOMS_BY_ID.get(entry.symptom_id)
+              : undefined;
+            return (
+              <li
+                key={entry.symptom_id ?? entry.name}
+                className="space-y-2 rounded-md border p-3"
+              >
+                <div className="flex items-center gap-2">
+                  <span className="font-medium">{entry.name}</span>
+                  {symptom ? (
+                    <Badge variant="secondary">{symptom.bodySystem}</Badge>
+                  ) : null}
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    className="ml-auto h-7 w-7 cursor-pointer"
+                    onClick={() => remove(i)}
+                    aria-label={`Remove ${entry.name}`}
+                  >
+                    <X className="w-4 h-4" />
+                  </Button>
+                </div>
+                <div className="flex items-center gap-3">
+                  <Slider
+                    value={[entry.severity]}
+                    onValueChange={(v) => setSeverity(i, v[0])}
+                    min={0}
+                    max={10}
+                    step={1}
+                    className="w-full"
+                    aria-label={`${entry.name} severity`}
+                  />
+                  <span className="text-xs whitespace-nowrap">
+                    Severity: {entry.severity}
+                  </span>
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+}
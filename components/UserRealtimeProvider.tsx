@@ -0,0 +1,184 @@
+import React, {
+  createContext,
+  useCallback,
+  useContext,
+  useEffect,
+  useRef,
+  useState,
+} from "react";
+import type { RealtimeChannel } from "@supabase/supabase-js";
+import { toast } from "sonner";
+import { supabase } from "@/lib/supabaseClient";
+import {
+  PostgresChangePayload,
+  REALTIME_TABLES,
+  RealtimeEntity,
+  UserRealtimeEvent,
+  toUserRealtimeEvent,
+} from "@/lib/userRealtime";
+
+export type UserRealtimeStatus = "connecting" | "connected" | "disconnected";
+
+type UserRealtimeListener = (event: UserRealtimeEvent) => void;
+
+type UserRealtimeContextValue = {
+  userId: string | null;
+  status: UserRealtimeStatus;
+  /**
+   * Tells the user's other devices and tabs about a change; they show it as a toast.
+   */
+  broadcast: (event: string, message: string) => void;
+  /**
+   * Calls the listener with every change to the user's records.
+   *
+   * @returns A function that stops listening.
+   */
+  subscribe: (listener: UserRealtimeListener) => () => void;
+};
+
+const UserRealtimeContext = createContext<UserRealtimeContextValue>({
+  userId: null,
+  status: "disconnected",
+  broadcast: () => {},
+  subscribe: () => () => {},
+});
+
+/**
+ * Owns the signed-in user's realtime channel: broadcasts between their devices and tabs, and
+ * changes to their medications, appointments, health logs, files, doses and notifications.
+ * Pages use it through useUserRealtime instead of opening channels of their own.
+ */
+export function UserRealtimeProvider({
+  children,
+}: {
+  children: React.ReactNode;
+}) {
+  const [userId, setUserId] = useState<string | null>(null);
+  const [status, setStatus] = useState<UserRealtimeStatus>("disconnected");
+  const channelRef = useRef<RealtimeChannel | null>(null);
+  const listenersRef = useRef(new Set<UserRealtimeListener>());
+
+  useEffect(() => {
+    let isMounted = true;
+
+    supabase.auth.getUser().then(({ data: { user } }) => {
+      if (isMounted) setUserId(user?.id ?? null);
+    });
+
+    const {
+      data: { subscription },
+    } = supabase.auth.onAuthStateChange((_event, session) => {
+      setUserId(session?.user?.id ?? null);
+    });
+
+    return () => {
+      isMounted = false;
+      subscription.unsubscribe();
+    };
+  }, []);
+
+  useEffect(() => {
+    if (!userId) return;
+
+    const emit = (entity: RealtimeEntity, payload: PostgresChangePayload) => {
+      const event = toUserRealtimeEvent(entity, payload);
+      if (!event) return;
+      listenersRef.current.forEach((listener) => listener(event));
+    };
+
+    const channel = supabase
+      .channel(`user-channel-${userId}`, {
+        config: { broadcast: { self: false } },
+      })
+      .on("broadcast", { event: "*" }, ({ payload }) => {
+        if (payload?.message) {
+          toast.success(
+            `Notification: ${String(payload.message).replace(/\.$/, "")} from another device or tab.`,
+          );
+        }
+      });
+
+    (Object.keys(REALTIME_TABLES) as RealtimeEntity[]).forEach((entity) => {
+      const table = REALTIME_TABLES[entity];
+      const filter = `user_profile_id=eq.${userId}`;
+      const handler = (payload: PostgresChangePayload) => emit(entity, payload);
+
+      channel.on(
+        "postgres_changes",
+        { event: "INSERT", schema: "public", table, filter },
+        handler,
+      );
+      if (entity === "notification") return;
+      channel.on(
+        "postgres_changes",
+        { event: "UPDATE", schema: "public", table, filter },
+        handler,
+      );
+      // Deleted rows only carry their id, so deletes can't be filtered by user. Listeners
+      // ignore ids they don't have.
+      channel.on(
+        "postgres_changes",
+        { event: "DELETE", schema: "public", table },
+        handler,
+      );
+    });
+
+    setStatus("connecting");
+    channel.subscribe((channelStatus) => {
+      setStatus(channelStatus === "SUBSCRIBED" ? "connected" : "disconnected");
+    });
+    channelRef.current = channel;
+
+    return () => {
+      channelRef.current = null;
+      setStatus("disconnected");
+      supabase.removeChannel(channel);
+    };
+  }, [userId]);
+
+  const broadcast = useCallback((event: string, message: string) => {
+    channelRef.current
+      ?.send({ type: "broadcast", event, payload: { message } })
+      .catch((err) => console.error("Broadcast failed:", err));
+  }, []);
+
+  const subscribe = useCallback((listener: UserRealtimeListener) => {
+    listenersRef.current.add(listener);
+    return () => {
+      listenersRef.current.delete(listener);
+    };
+  }, []);
+
+  return (
+    <UserRealtimeContext.Provider
+      value={{ userId, status, broadcast, subscribe }}
+    >
+      {children}
+    </UserRealtimeContext.Provider>
+  );
+}
+
+/**
+ * Gives access to the user's realtime channel.
+ *
+ * @param listener - (optional) Called with every change to the user's records, e.g. to update
+ * the page's state or React Query cache. It may change between renders.
+ * @returns The user id, the channel status and broadcast.
+ */
+export function useUserRealtime(listener?: UserRealtimeListener) {
+  const { userId, status, broadcast, subscribe } =
+    useContext(UserRealtimeContext);
+  const listenerRef = useRef(listener);
+
+  useEffect(() => {
+    listenerRef.current = listener;
+  });
+
+  const hasListener = !!listener;
+  useEffect(() => {
+    if (!hasListener) return;
+    return subscribe((event) => listenerRef.current?.(event));
+  }, [hasListener, subscribe]);
+
+  return { userId, status, broadcast };
+}
@@ -0,0 +1,160 @@
+import React, { useEffect, useState } from "react";
+import { Activity, Loader2 } from "lucide-react";
+import { toast } from "sonner";
+import { useQueryClient } from "@tanstack/react-query";
+import { z } from "zod";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { VITAL_FIELDS, VITAL_KEYS, VitalKey } from "@/lib/vitals";
+import {
+  DEFAULT_VITAL_THRESHOLDS,
+  VitalThresholds,
+  getVitalThresholds,
+  updateVitalThresholds,
+} from "@/lib/vitalThresholds";
+
+interface VitalThresholdsCardProps {
+  userId: string;
+}
+
+// The inputs hold text so a bound can be left empty (no limit)
+type ThresholdInputs = Record<VitalKey, { low: string; high: string }>;
+
+const toInputs = (thresholds: VitalThresholds) =>
+  Object.fromEntries(
+    VITAL_KEYS.map((key) => [
+      key,
+      {
+        low: thresholds[key].low?.toString() ?? "",
+        high: thresholds[key].high?.toString() ?? "",
+      },
+    ]),
+  ) as ThresholdInputs;
+
+const toThresholds = (inputs: ThresholdInputs) =>
+  Object.fromEntries(
+    VITAL_KEYS.map((key) => [
+      key,
+      {
+        low: inputs[key].low.trim() ? Number(inputs[key].low) : null,
+        high: inputs[key].high.trim() ? Number(inputs[key].high) : null,
+      },
+    ]),
+  ) as VitalThresholds;
+
+/**
+ * Lets the user set the normal range of each vital. The dashboard's vitals chart shades it and
+ * health logs with a vital outside it are flagged.
+ */
+export function VitalThresholdsCard({ userId }: VitalThresholdsCardProps) {
+  const queryClient = useQueryClient();
+  const [inputs, setInputs] = useState<ThresholdInputs>(
+    toInputs(DEFAULT_VITAL_THRESHOLDS),
+  );
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    getVitalThresholds(userId)
+      .then((thresholds) => setInputs(toInputs(thresholds)))
+      .catch((err) => {
+        console.error("Error loading vital thresholds:", err);
+      })
+      .finally(() => setLoading(false));
+  }, [userId]);
+
+  function setBound(key: VitalKey, bound: "low" | "high", value: string) {
+    setInputs((prev) => ({ ...prev, [key]: { ...prev[key], [bound]: value } }));
+  }
+
+  async function handleSave() {
+    setSaving(true);
+    try {
+      const saved = await updateVitalThresholds(userId, toThresholds(inputs));
+      setInputs(toInputs(saved));
+      queryClient.setQueryData(["vitalThresholds", userId], saved);
+      toast.success("Vital ranges saved.");
+    } catch (err) {
+      console.error("Error saving vital thresholds:", err);
+      if (err instanceof z.ZodError) {
+        const issue = err.issues[0];
+        const field = VITAL_FIELDS[issue.path[0] as VitalKey];
+        toast.error(field ? `${field.label}: ${issue.message}` : issue.message);
+      } else {
+        toast.error("Error saving vital ranges.");
+      }
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  return (
+    <Card className="p-6 shadow-2xl rounded-xl bg-background gap-4">
+      <h3 className="text-xl font-semibold flex items-center">
+        <Activity className="w-5 h-5 mr-2" /> Vital Ranges
+      </h3>
+      {loading ? (
+        <Loader2 className="animate-spin h-5 w-5 text-gray-400" />
+      ) : (
+        <>
+          <p className="text-sm text-foreground">
+            Logs with a vital outside its range are flagged on your dashboard.
+            Leave a bound empty for no limit, and check the ranges that are
+            right for you with your clinician.
+          </p>
+          <div className="grid grid-cols-[1fr_6rem_6rem_auto] gap-2 items-center text-sm">
+            <span />
+            <span className="font-medium">Low</span>
+            <span className="font-medium">High</span>
+            <span />
+            {VITAL_KEYS.map((key) => {
+              const { label, unit, min, max, step } = VITAL_FIELDS[key];
+              return (
+                <React.Fragment key={key}>
+                  <span>{label}</span>
+                  {(["low", "high"] as const).map((bound) => (
+                    <Input
+                      key={bound}
+                      type="number"
+                      inputMode="decimal"
+                      min={min}
+                      max={max}
+                      step={step}
+                      value={inputs[key][bound]}
+                      onChange={(e) => setBound(key, bound, e.target.value)}
+                      aria-label={`${label}: ${bound}`}
+                    />
+                  ))}
+                  <span className="text-muted-foreground whitespace-nowrap">
+                    {unit}
+                  </span>
+                </React.Fragment>
+              );
+            })}
+          </div>
+          <div className="flex flex-wrap gap-2">
+            <Button
+              onClick={handleSave}
+              disabled={saving}
+              className="cursor-pointer"
+            >
+              {saving ? (
+                <Loader2 className="mr-1 w-4 h-4 animate-spin" />
+              ) : null}
+              Save Ranges
+            </Button>
+            <Button
+              variant="outline"
+              onClick={() => setInputs(toInputs(DEFAULT_VITAL_THRESHOLDS))}
+              disabled={saving}
+              className="cursor-pointer"
+            >
+              Reset to Defaults
+            </Button>
+          </div>
+        </>
+      )}
+    </Card>
+  );
+}
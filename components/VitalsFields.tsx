@@ -0,0 +1,71 @@
+import React from "react";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { VITAL_FIELDS, VitalKey, VitalsFormValues } from "@/lib/vitals";
+
+interface VitalsFieldsProps {
+  values: VitalsFormValues;
+  onChange: (values: VitalsFormValues) => void;
+}
+
+// Shown after heart rate and blood pressure, one per row
+const OTHER_VITALS: VitalKey[] = [
+  "temperature",
+  "spo2",
+  "respiratoryRate",
+  "weight",
+  "glucose",
+];
+
+/**
+ * The vitals inputs of the create and edit health log dialogs, each with its unit and the
+ * range lib/vitals.ts accepts.
+ */
+export function VitalsFields({ values, onChange }: VitalsFieldsProps) {
+  const vitalInput = (key: VitalKey) => {
+    const { min, max, step, placeholder, label } = VITAL_FIELDS[key];
+    return (
+      <Input
+        type="number"
+        inputMode="decimal"
+        min={min}
+        max={max}
+        step={step}
+        value={values[key]}
+        onChange={(e) => onChange({ ...values, [key]: e.target.value })}
+        placeholder={placeholder}
+        aria-label={label}
+      />
+    );
+  };
+
+  const vitalRow = (key: VitalKey) => (
+    <div key={key} className="space-y-2">
+      <Label>{VITAL_FIELDS[key].label}</Label>
+      <div className="flex items-center gap-2">
+        {vitalInput(key)}
+        <span className="text-sm whitespace-nowrap">
+          {VITAL_FIELDS[key].unit}
+        </span>
+      </div>
+    </div>
+  );
+
+  return (
+    <>
+      {vitalRow("heartRate")}
+
+      <div className="space-y-2">
+        <Label>Blood Pressure</Label>
+        <div className="flex items-center gap-2">
+          {vitalInput("systolic")}
+          <span>/</span>
+          {vitalInput("diastolic")}
+          <span className="text-sm">{VITAL_FIELDS.systolic.unit}</span>
+        </div>
+      </div>
+
+      {OTHER_VITALS.map(vitalRow)}
+    </>
+  );
+}
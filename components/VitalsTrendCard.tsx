@@ -0,0 +1,213 @@
+import React, { useMemo, useState } from "react";
+import { format, subDays } from "date-fns";
+import {
+  Chart as ChartJS,
+  CategoryScale,
+  LinearScale,
+  PointElement,
+  LineElement,
+  Filler,
+  Tooltip,
+  Legend,
+  ChartDataset,
+  ChartOptions,
+} from "chart.js";
+import { Line } from "react-chartjs-2";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { HealthLog } from "@/lib/healthLogs";
+import { VITAL_FIELDS, VitalKey, getVitalReadings } from "@/lib/vitals";
+import { VitalThreshold, VitalThresholds } from "@/lib/vitalThresholds";
+
+ChartJS.register(
+  CategoryScale,
+  LinearScale,
+  PointElement,
+  LineElement,
+  Filler,
+  Tooltip,
+  Legend,
+);
+
+// The charts to pick from; blood pressure plots systolic and diastolic together
+type VitalChart = Exclude<VitalKey, "systolic" | "diastolic"> | "bloodPressure";
+
+const VITAL_CHARTS: { value: VitalChart; label: string }[] = [
+  { value: "heartRate", label: "Heart Rate" },
+  { value: "bloodPressure", label: "Blood Pressure" },
+  { value: "temperature", label: "Temperature" },
+  { value: "spo2", label: "Oxygen Saturation" },
+  { value: "respiratoryRate", label: "Respiratory Rate" },
+  { value: "weight", label: "Weight" },
+  { value: "glucose", label: "Blood Glucose" },
+];
+
+const DATE_RANGES = [
+  { value: "7", label: "Last 7 days" },
+  { value: "30", label: "Last 30 days" },
+  { value: "90", label: "Last 90 days" },
+  { value: "365", label: "Last year" },
+  { value: "all", label: "All time" },
+];
+
+const OUT_OF_RANGE_COLOR = "#E11D48";
+
+type VitalsTrendCardProps = {
+  logs: HealthLog[];
+  thresholds: VitalThresholds;
+  // The dashboard's chart options, so the colors follow the theme
+  chartOptions: ChartOptions<"line">;
+  colors: string[];
+};
+
+/**
+ * A line chart of one vital over time, with the user's normal range shaded behind it and
+ * readings outside it in red.
+ */
+export function VitalsTrendCard({
+  logs,
+  thresholds,
+  chartOptions,
+  colors,
+}: VitalsTrendCardProps) {
+  const [chart, setChart] = useState<VitalChart>("heartRate");
+  const [range, setRange] = useState("30");
+
+  const data = useMemo(() => {
+    const since = range === "all" ? undefined : subDays(new Date(), +range);
+    const keys: VitalKey[] =
+      chart === "bloodPressure" ? ["systolic", "diastolic"] : [chart];
+    const series = keys.map((key) => getVitalReadings(logs, key, since));
+    const labels = series[0].map((r) => format(new Date(r.date), "MMM d"));
+
+    // The normal range as two invisible lines with the area between them filled
+    const band = (
+      key: VitalKey,
+      threshold: VitalThreshold,
+      color: string,
+    ): ChartDataset<"line">[] => {
+      if (threshold.low == null && threshold.high == null) return [];
+      const { min, max, label } = VITAL_FIELDS[key];
+      const flat = (value: number) => labels.map(() => value);
+      return [
+        {
+          label: "",
+          data: flat(threshold.low ?? min),
+          borderWidth: 0,
+          pointRadius: 0,
+          pointHitRadius: 0,
+          fill: false,
+        },
+        {
+          label: `Normal ${label.toLowerCase()}`,
+          data: flat(threshold.high ?? max),
+          borderWidth: 0,
+          pointRadius: 0,
+          pointHitRadius: 0,
+          backgroundColor: `${color}26`,
+          fill: "-1",
+        },
+      ];
+    };
+
+    const datasets = keys.flatMap((key, i): ChartDataset<"line">[] => {
+      const threshold = thresholds[key];
+      const color = colors[i % colors.length];
+      const outOfRange = series[i].map(
+        (r) =>
+          (threshold.low != null && r.value < threshold.low) ||
+          (threshold.high != null && r.value > threshold.high),
+      );
+      return [
+        ...band(key, threshold, color),
+        {
+          label: `${VITAL_FIELDS[key].label} (${VITAL_FIELDS[key].unit})`,
+          data: series[i].map((r) => r.value),
+          borderColor: color,
+          backgroundColor: color,
+          pointBackgroundColor: outOfRange.map((out) =>
+            out ? OUT_OF_RANGE_COLOR : color,
+          ),
+          pointBorderColor: outOfRange.map((out) =>
+            out ? OUT_OF_RANGE_COLOR : color,
+          ),
+          pointRadius: outOfRange.map((out) => (out ? 5 : 3)),
+          tension: 0.2,
+          fill: false,
+        },
+      ];
+    });
+
+    return { labels, datasets };
+  }, [logs, thresholds, chart, range, colors]);
+
+  const options: ChartOptions<"line"> = {
+    ...chartOptions,
+    plugins: {
+      ...chartOptions.plugins,
+      legend: {
+        ...chartOptions.plugins?.legend,
+        labels: {
+          ...chartOptions.plugins?.legend?.labels,
+          // The lower edge of each normal range has no legend entry
+          filter: (item) => !!item.text,
+        },
+      },
+    },
+  };
+
+  return (
+    <Card className="bg-card border border-border rounded-lg min-w-[280px] w-full pt-4 transition-all hover:shadow-xl h-auto min-h-[450px]">
+      <CardHeader className="flex flex-col gap-3 sm:flex-row sm:items-center sm:justify-between">
+        <CardTitle className="text-lg md:text-xl">Vitals Trend</CardTitle>
+        <div className="flex flex-wrap gap-2">
+          <Select
+            value={chart}
+            onValueChange={(value) => setChart(value as VitalChart)}
+          >
+            <SelectTrigger className="w-[180px]" aria-label="Vital">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {VITAL_CHARTS.map((option) => (
+                <SelectItem key={option.value} value={option.value}>
+                  {option.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={range} onValueChange={setRange}>
+            <SelectTrigger className="w-[150px]" aria-label="Date range">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {DATE_RANGES.map((option) => (
+                <SelectItem key={option.value} value={option.value}>
+                  {option.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </CardHeader>
+      <CardContent className="relative w-full h-full">
+        {data.labels.length === 0 ? (
+          <p className="text-sm text-muted-foreground mt-2">
+            No readings in this period. Add vitals to a health log to see them
+            here.
+          </p>
+        ) : (
+          <div className="w-full h-[380px]">
+            <Line data={data} options={options} />
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
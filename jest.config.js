@@ -1,3 +1,6 @@
+// Run in a zone with DST so local-time date math is tested across DST changes.
+process.env.TZ = "America/New_York";
+
 /** @type {import('jest').Config} */
 module.exports = {
   preset: "ts-jest",
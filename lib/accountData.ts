@@ -0,0 +1,293 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { z } from "zod";
+import { supabase } from "./supabaseClient";
+import { createZip, ZipEntry } from "./zip";
+
+/**
+ * This file contains functions for the user's rights over their data: exporting everything
+ * SymptomSync stores about them as a ZIP, and asking for their account to be deleted. A deletion
+ * only happens once its grace period has passed (see lib/accountDeletion.ts), so the user can
+ * change their mind until then.
+ */
+
+// Days between asking for an account to be deleted and it being deleted
+export const ACCOUNT_DELETION_GRACE_DAYS = 30;
+
+// Every table with rows that belong to a user, and the column that says which user. Children
+// come before their parents, which is the order they are deleted in.
+export const ACCOUNT_TABLES = [
+  { table: "chat_messages", column: "user_profile_id" },
+  { table: "chat_threads", column: "user_profile_id" },
+  { table: "user_notifications", column: "user_profile_id" },
+  { table: "medication_doses", column: "user_profile_id" },
+  { table: "medication_reminders", column: "user_profile_id" },
+  { table: "appointment_reminders", column: "user_profile_id" },
+  { table: "health_logs", column: "user_profile_id" },
+  { table: "files", column: "user_profile_id" },
+  { table: "vital_thresholds", column: "user_profile_id" },
+  { table: "notification_preferences", column: "user_profile_id" },
+  { table: "push_subscriptions", column: "user_profile_id" },
+  { table: "calendar_feeds", column: "user_profile_id" },
+  { table: "account_deletion_requests", column: "user_profile_id" },
+  { table: "user_profiles", column: "id" },
+] as const;
+
+// Uploaded documents are kept under "<user id>/" in this bucket
+export const DOCUMENTS_BUCKET = "documents";
+// Profile pictures are kept as "<user id>.<extension>" in this bucket (see uploadAvatar)
+export const AVATARS_BUCKET = "avatars";
+
+const PAGE_SIZE = 1000;
+
+export const AccountDeletionSchema = z.object({
+  user_profile_id: z.string(),
+  requested_at: z.string(),
+  scheduled_for: z.string(),
+});
+
+export type AccountDeletion = z.infer<typeof AccountDeletionSchema>;
+
+/**
+ * Writes rows as CSV, with a column for every key any row has. Objects and arrays (e.g. vitals
+ * or symptoms) are written as JSON.
+ *
+ * @param rows - The rows.
+ * @returns The CSV text, or an empty string if there are no rows.
+ */
+export function toCsv(rows: Record<string, unknown>[]): string {
+  const columns = [...new Set(rows.flatMap((row) => Object.keys(row)))];
+  if (columns.length === 0) return "";
+
+  const cell = (value: unknown) => {
+    if (value === null || value === undefined) return "";
+    const text =
+      typeof value === "object" ? JSON.stringify(value) : String(value);
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  };
+  return [
+    columns.map(cell).join(","),
+    ...rows.map((row) => columns.map((c) => cell(row[c])).join(",")),
+  ].join("\r\n");
+}
+
+/**
+ * Retrieves every row of a user in a table, a page at a time.
+ */
+async function fetchAllRows(
+  client: SupabaseClient,
+  table: string,
+  column: string,
+  userId: string,
+): Promise<Record<string, unknown>[]> {
+  const rows: Record<string, unknown>[] = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await client
+      .from(table)
+      .select("*")
+      .eq(column, userId)
+      .range(from, from + PAGE_SIZE - 1);
+    if (error) throw error;
+    rows.push(...(data ?? []));
+    if (!data || data.length < PAGE_SIZE) return rows;
+  }
+}
+
+/**
+ * Lists the paths of a user's uploaded documents in storage.
+ *
+ * @param client - A Supabase client that can read the user's documents.
+ * @param userId - The id of the user.
+ * @returns The paths, e.g. "<user id>/1718000000000.pdf".
+ * @throws An error if the bucket can't be listed.
+ */
+export async function listUserDocuments(
+  client: SupabaseClient,
+  userId: string,
+): Promise<string[]> {
+  const paths: string[] = [];
+  for (let offset = 0; ; offset += PAGE_SIZE) {
+    const { data, error } = await client.storage
+      .from(DOCUMENTS_BUCKET)
+      .list(userId, { limit: PAGE_SIZE, offset });
+    if (error) throw error;
+    // Folders have no id; uploads are never nested
+    paths.push(
+      ...(data ?? []).filter((f) => f.id).map((f) => `${userId}/${f.name}`),
+    );
+    if (!data || data.length < PAGE_SIZE) return paths;
+  }
+}
+
+/**
+ * Lists the paths of a user's profile pictures in storage. There is normally one, but a picture
+ * uploaded with a different extension doesn't replace the last one.
+ *
+ * @param client - A Supabase client that can read the user's profile pictures.
+ * @param userId - The id of the user.
+ * @returns The paths, e.g. "<user id>.png".
+ * @throws An error if the bucket can't be listed.
+ */
+export async function listUserAvatars(
+  client: SupabaseClient,
+  userId: string,
+): Promise<string[]> {
+  const { data, error } = await client.storage
+    .from(AVATARS_BUCKET)
+    .list("", { search: userId });
+  if (error) throw error;
+  // The search also matches names that merely contain the id
+  return (data ?? [])
+    .filter((f) => f.id && f.name.startsWith(`${userId}.`))
+    .map((f) => f.name);
+}
+
+/**
+ * Builds a ZIP of everything stored about the current user: each table's rows as JSON and CSV
+ * under data/, the original uploaded files under documents/ and their profile picture.
+ * Note: Supabase RLS will block this operation if the user is not the owner of the record.
+ *
+ * @param userId - The id of the user.
+ * @param now - When the export is made.
+ * @returns The ZIP's bytes.
+ * @throws An error if any table or document can't be read.
+ */
+export async function exportAccountData(
+  userId: string,
+  now = new Date(),
+): Promise<Uint8Array> {
+  const entries: ZipEntry[] = [];
+  const counts: string[] = [];
+
+  for (const { table, column } of ACCOUNT_TABLES) {
+    const rows = await fetchAllRows(supabase, table, column, userId);
+    entries.push(
+      {
+        name: `data/${table}.json`,
+        data: JSON.stringify(rows, null, 2),
+        date: now,
+      },
+      { name: `data/${table}.csv`, data: toCsv(rows), date: now },
+    );
+    counts.push(`  ${table}: ${rows.length}`);
+  }
+
+  const documents = await listUserDocuments(supabase, userId);
+  for (const path of documents) {
+    const { data, error } = await supabase.storage
+      .from(DOCUMENTS_BUCKET)
+      .download(path);
+    if (error) throw error;
+    entries.push({
+      name: `documents/${path.slice(userId.length + 1)}`,
+      data: new Uint8Array(await data.arrayBuffer()),
+      date: now,
+    });
+  }
+
+  const avatars = await listUserAvatars(supabase, userId);
+  for (const path of avatars) {
+    const { data, error } = await supabase.storage
+      .from(AVATARS_BUCKET)
+      .download(path);
+    if (error) throw error;
+    entries.push({
+      name: `profile-picture${path.slice(userId.length)}`,
+      data: new Uint8Array(await data.arrayBuffer()),
+      date: now,
+    });
+  }
+
+  const readme = [
+    `SymptomSync data export, ${now.toISOString()}`,
+    "",
+    "data/ has every record stored about you, one table per file, as JSON and as CSV.",
+    "Rows per table:",
+    ...counts,
+    "",
+    `documents/ has the ${documents.length} file(s) you uploaded, as you uploaded them. The files`,
+    "table lists their original names.",
+    ...(avatars.length > 0
+      ? ["", "profile-picture.* is the profile picture you uploaded."]
+      : []),
+  ].join("\n");
+
+  return createZip([
+    { name: "README.txt", data: readme, date: now },
+    ...entries,
+  ]);
+}
+
+/**
+ * Retrieves the user's pending account deletion, if they asked for one.
+ * Note: Supabase RLS will block this operation if the user is not the owner of the record.
+ *
+ * @param userId - The id of the user.
+ * @returns The deletion, or null if none is pending.
+ * @throws An error if there is an issue retrieving it.
+ */
+export async function getAccountDeletion(
+  userId: string,
+): Promise<AccountDeletion | null> {
+  const { data, error } = await supabase
+    .from("account_deletion_requests")
+    .select("*")
+    .eq("user_profile_id", userId)
+    .maybeSingle();
+
+  if (error) {
+    throw error;
+  }
+
+  return data ? AccountDeletionSchema.parse(data) : null;
+}
+
+/**
+ * Asks for the user's account to be deleted once the grace period has passed. The database sets
+ * the date, ACCOUNT_DELETION_GRACE_DAYS from now. Asking again keeps the original date.
+ * Note: Supabase RLS will block this operation if the user is not the owner of the record.
+ *
+ * @param userId - The id of the user.
+ * @returns The pending deletion.
+ * @throws An error if there is an issue saving it.
+ */
+export async function requestAccountDeletion(
+  userId: string,
+): Promise<AccountDeletion> {
+  const existing = await getAccountDeletion(userId);
+  if (existing) return existing;
+
+  const { data, error } = await supabase
+    .from("account_deletion_requests")
+    .insert({ user_profile_id: userId })
+    .select("*")
+    .single();
+
+  if (error) {
+    throw error;
+  }
+
+  return AccountDeletionSchema.parse(data);
+}
+
+/**
+ * Cancels the user's pending account deletion.
+ * Note: Supabase RLS will block this operation if the user is not the owner of the record.
+ *
+ * @param userId - The id of the user.
+ * @throws An error if there is an issue cancelling it.
+ */
+export async function cancelAccountDeletion(userId: string): Promise<void> {
+  const { error } = await supabase
+    .from("account_deletion_requests")
+    .delete()
+    .eq("user_profile_id", userId);
+
+  if (error) {
+    throw error;
+  }
+}
+
+// Supabase RLS Policy: Only allow authenticated users to export their own data and to ask for
+// or cancel the deletion of their own account.
+// A trigger sets the deletion date, so it can't be moved sooner than the grace period.
+// See supabase/migrations/20261019110000_account_deletion.sql
@@ -0,0 +1,98 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import {
+  ACCOUNT_TABLES,
+  AVATARS_BUCKET,
+  AccountDeletionSchema,
+  DOCUMENTS_BUCKET,
+  listUserAvatars,
+  listUserDocuments,
+} from "./accountData";
+
+/**
+ * This file contains the server-side job that deletes accounts whose grace period has passed
+ * (see requestAccountDeletion in lib/accountData.ts). For each one it removes the user's
+ * uploaded documents and avatar from storage, every row they own and finally their sign-in.
+ *
+ * Runs are meant to happen every hour (pages/api/cron/account-deletions.ts). An account that
+ * fails to delete keeps its request, so the next run tries it again.
+ */
+
+/**
+ * Deletes everything stored about a user: their documents and avatar, their rows in every table
+ * and their auth user.
+ *
+ * @param client - A service role Supabase client.
+ * @param userId - The id of the user.
+ * @throws An error if anything can't be deleted; what was deleted before it stays deleted.
+ */
+export async function deleteAccount(
+  client: SupabaseClient,
+  userId: string,
+): Promise<void> {
+  const documents = await listUserDocuments(client, userId);
+  if (documents.length > 0) {
+    const { error } = await client.storage
+      .from(DOCUMENTS_BUCKET)
+      .remove(documents);
+    if (error) throw error;
+  }
+  const avatars = await listUserAvatars(client, userId);
+  if (avatars.length > 0) {
+    const { error } = await client.storage.from(AVATARS_BUCKET).remove(avatars);
+    if (error) throw error;
+  }
+
+  // The request and the profile go last, so a failed run is retried
+  for (const { table, column } of ACCOUNT_TABLES) {
+    if (table === "account_deletion_requests" || table === "user_profiles") {
+      continue;
+    }
+    const { error } = await client.from(table).delete().eq(column, userId);
+    if (error) throw error;
+  }
+
+  const { error: authError } = await client.auth.admin.deleteUser(userId);
+  if (authError && authError.status !== 404) throw authError;
+
+  for (const table of ["user_profiles", "account_deletion_requests"]) {
+    const column = table === "user_profiles" ? "id" : "user_profile_id";
+    const { error } = await client.from(table).delete().eq(column, userId);
+    if (error) throw error;
+  }
+}
+
+/**
+ * Runs the job once: deletes every account whose deletion is due. Needs a client that can read
+ * every user's records and delete auth users, i.e. one created with `createServiceSupabaseClient`.
+ *
+ * @param client - A service role Supabase client.
+ * @param now - (optional) The time of the run.
+ * @returns The ids of the deleted accounts, and the ones that failed with why.
+ * @throws An error if the due deletions can't be loaded.
+ */
+export async function runAccountDeletions(
+  client: SupabaseClient,
+  now = new Date(),
+): Promise<{ deleted: string[]; failed: { userId: string; error: string }[] }> {
+  const { data, error } = await client
+    .from("account_deletion_requests")
+    .select("*")
+    .lte("scheduled_for", now.toISOString());
+  if (error) throw error;
+
+  const deleted: string[] = [];
+  const failed: { userId: string; error: string }[] = [];
+  for (const request of AccountDeletionSchema.array().parse(data)) {
+    try {
+      await deleteAccount(client, request.user_profile_id);
+      deleted.push(request.user_profile_id);
+    } catch (err) {
+      console.error(`Deleting account ${request.user_profile_id} failed:`, err);
+      failed.push({
+        userId: request.user_profile_id,
+        error: err instanceof Error ? err.message : String(err),
+      });
+    }
+  }
+  return { deleted, failed };
+}
@@ -1,9 +1,17 @@
 import { supabase } from "./supabaseClient";
 import { z } from "zod";
+import {
+  createWithOfflineQueue,
+  deleteWithOfflineQueue,
+  readPageWithOfflineCache,
+  readWithOfflineCache,
+  updateWithOfflineQueue,
+} from "./offlineStore";
 
 /**
  * This file contains functions to manage appointment reminders in a Supabase database.
  * It includes functions to retrieve, create, update, and delete appointment reminders.
+ * They work offline too (see lib/offlineStore.ts).
  */
 
 // Zod schema for an appointment reminder.
@@ -27,13 +35,15 @@ export type AppointmentReminder = z.infer<typeof AppointmentReminderSchema>;
 export async function getAppointmentRemindersByUser(
   userId: string,
 ): Promise<AppointmentReminder[]> {
-  const { data, error } = await supabase
-    .from("appointment_reminders")
-    .select("*")
-    .eq("user_profile_id", userId);
-
-  if (error) throw error;
-  return AppointmentReminderSchema.array().parse(data);
+  return readWithOfflineCache("appointment_reminders", userId, async () => {
+    const { data, error } = await supabase
+      .from("appointment_reminders")
+      .select("*")
+      .eq("user_profile_id", userId);
+
+    if (error) throw error;
+    return AppointmentReminderSchema.array().parse(data);
+  });
 }
 
 /**
@@ -54,18 +64,27 @@ export async function getPaginatedAppointmentRemindersByUser(
   const from = (page - 1) * pageSize;
   const to = page * pageSize - 1;
 
-  const { data, error, count } = await supabase
-    .from("appointment_reminders")
-    .select("*", { count: "exact" })
-    .eq("user_profile_id", userId)
-    .order("date", { ascending: true })
-    .range(from, to);
-
-  if (error) throw error;
-  return {
-    data: AppointmentReminderSchema.array().parse(data || []),
-    count: count ?? 0,
-  };
+  return readPageWithOfflineCache(
+    "appointment_reminders",
+    userId,
+    page,
+    pageSize,
+    (a, b) => Date.parse(a.date) - Date.parse(b.date),
+    async () => {
+      const { data, error, count } = await supabase
+        .from("appointment_reminders")
+        .select("*", { count: "exact" })
+        .eq("user_profile_id", userId)
+        .order("date", { ascending: true })
+        .range(from, to);
+
+      if (error) throw error;
+      return {
+        data: AppointmentReminderSchema.array().parse(data || []),
+        count: count ?? 0,
+      };
+    },
+  );
 }
 
 /**
@@ -82,19 +101,27 @@ export async function createAppointmentReminder(params: {
   date?: string;
 }): Promise<AppointmentReminder> {
   const insertPayload = {
+    // Generated here so an appointment created offline keeps its id once synced
+    id: crypto.randomUUID(),
     user_profile_id: params.user_profile_id,
     appointment_name: params.appointment_name,
-    date: params.date,
+    date: params.date ?? new Date().toISOString(),
   };
 
-  const { data, error } = await supabase
-    .from("appointment_reminders")
-    .insert(insertPayload)
-    .select("*")
-    .single();
-
-  if (error) throw error;
-  return AppointmentReminderSchema.parse(data);
+  return createWithOfflineQueue(
+    "appointment_reminders",
+    AppointmentReminderSchema.parse(insertPayload),
+    async () => {
+      const { data, error } = await supabase
+        .from("appointment_reminders")
+        .insert(insertPayload)
+        .select("*")
+        .single();
+
+      if (error) throw error;
+      return AppointmentReminderSchema.parse(data);
+    },
+  );
 }
 
 /**
@@ -110,15 +137,22 @@ export async function updateAppointmentReminder(
   id: string,
   updatePayload: Partial<{ appointment_name: string; date: string }>,
 ): Promise<AppointmentReminder> {
-  const { data, error } = await supabase
-    .from("appointment_reminders")
-    .update(updatePayload)
-    .eq("id", id)
-    .select("*")
-    .single();
-
-  if (error) throw error;
-  return AppointmentReminderSchema.parse(data);
+  return updateWithOfflineQueue(
+    "appointment_reminders",
+    id,
+    updatePayload,
+    async () => {
+      const { data, error } = await supabase
+        .from("appointment_reminders")
+        .update(updatePayload)
+        .eq("id", id)
+        .select("*")
+        .single();
+
+      if (error) throw error;
+      return AppointmentReminderSchema.parse(data);
+    },
+  );
 }
 
 /**
@@ -132,17 +166,19 @@ export async function updateAppointmentReminder(
 export async function deleteAppointmentReminder(
   id: string,
 ): Promise<AppointmentReminder> {
-  const { data, error } = await supabase
-    .from("appointment_reminders")
-    .delete()
-    .eq("id", id)
-    .select("*")
-    .single();
-
-  if (error) throw error;
-  return AppointmentReminderSchema.parse(data);
+  return deleteWithOfflineQueue("appointment_reminders", id, async () => {
+    const { data, error } = await supabase
+      .from("appointment_reminders")
+      .delete()
+      .eq("id", id)
+      .select("*")
+      .single();
+
+    if (error) throw error;
+    return AppointmentReminderSchema.parse(data);
+  });
 }
 
 // Supabase RLS Policy: Table is only accessible to authenticated users.
 // Only the user who created the reminder can access, update, or delete it.
-// They cannot access, update, or delete reminders created by other users.
\ No newline at end of file
+// They cannot access, update, or delete reminders created by other users.
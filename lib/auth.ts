@@ -1,4 +1,5 @@
 import { supabase } from "./supabaseClient";
+import { clearOfflineStore, isNetworkError, isOffline } from "./offlineStore";
 
 /**
  * This function is used to sign up a new user with email and password.
@@ -45,4 +46,26 @@ export async function signOut() {
   const { error } = await supabase.auth.signOut();
 
   if (error) throw error;
+
+  // Don't leave the user's health data on a shared device
+  await clearOfflineStore();
+}
+
+/**
+ * This function returns the signed-in user. Offline, when Supabase can't confirm the session,
+ * it falls back to the session saved on the device so the app keeps working.
+ */
+export async function getCurrentUser() {
+  if (!supabase) throw new Error("Supabase not configured");
+
+  const {
+    data: { user },
+    error,
+  } = await supabase.auth.getUser();
+  if (user || !error || !(isOffline() || isNetworkError(error))) return user;
+
+  const {
+    data: { session },
+  } = await supabase.auth.getSession();
+  return session?.user ?? null;
 }
@@ -0,0 +1,166 @@
+import { supabase } from "./supabaseClient";
+import { z } from "zod";
+import { MedicationReminderSchema } from "./medications";
+import { AppointmentReminderSchema } from "./appointmentReminders";
+
+/**
+ * This file contains functions to manage the user's subscribable calendar feed: a secret URL
+ * that calendar apps (Google Calendar, Apple Calendar, Outlook) poll for the user's appointments
+ * and medications, so reminders stay in sync without downloading ICS files by hand.
+ *
+ * The token in the URL is also stored in `calendar_sync_token` on every medication published in
+ * the feed, so a new token (or revoking the feed) takes the medications with it.
+ */
+
+// Zod schema for a calendar feed.
+export const CalendarFeedSchema = z.object({
+  user_profile_id: z.string(),
+  token: z.string(),
+  time_zone: z.string(),
+  created_at: z.string(),
+});
+
+export type CalendarFeed = z.infer<typeof CalendarFeedSchema>;
+
+// The records a feed serves, as returned by the get_calendar_feed database function
+export const CalendarFeedRecordsSchema = z.object({
+  time_zone: z.string(),
+  medications: MedicationReminderSchema.array(),
+  appointments: AppointmentReminderSchema.array(),
+});
+
+export type CalendarFeedRecords = z.infer<typeof CalendarFeedRecordsSchema>;
+
+// Tokens are 32 random bytes, written as URL-safe base64
+const TOKEN_BYTES = 32;
+
+/**
+ * Generates a random, URL-safe feed token
+ */
+function generateFeedToken(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(TOKEN_BYTES));
+  return btoa(String.fromCharCode(...bytes))
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "");
+}
+
+/**
+ * The URL calendar apps subscribe to for a feed.
+ *
+ * @param token - The feed token.
+ * @param origin - The origin the app is served from, e.g. "https://symptomsync.com".
+ * @returns The feed URL.
+ */
+export function getCalendarFeedUrl(token: string, origin: string): string {
+  return `${origin}/api/calendar/${encodeURIComponent(token)}.ics`;
+}
+
+/**
+ * Retrieves the user's calendar feed.
+ * Note: Supabase RLS will block this operation if the user is not the owner of the record.
+ *
+ * @param userId - The id of the user.
+ * @returns The user's calendar feed, or null if they don't have one.
+ * @throws An error if the query fails.
+ */
+export async function getCalendarFeed(
+  userId: string,
+): Promise<CalendarFeed | null> {
+  const { data, error } = await supabase
+    .from("calendar_feeds")
+    .select("*")
+    .eq("user_profile_id", userId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data ? CalendarFeedSchema.parse(data) : null;
+}
+
+/**
+ * Creates a calendar feed for the user and publishes all of their medications in it.
+ * If the user already has a feed, its token is replaced, so the old URL stops working.
+ * Note: Supabase RLS will block this operation if the user is not the owner of the record.
+ *
+ * @param userId - The id of the user.
+ * @param timeZone - (optional) The IANA time zone medication times are in. Defaults to the browser's.
+ * @returns The new calendar feed.
+ * @throws An error if the feed can't be saved.
+ */
+export async function createCalendarFeed(
+  userId: string,
+  timeZone: string = Intl.DateTimeFormat().resolvedOptions().timeZone,
+): Promise<CalendarFeed> {
+  const { data, error } = await supabase
+    .from("calendar_feeds")
+    .upsert(
+      {
+        user_profile_id: userId,
+        token: generateFeedToken(),
+        time_zone: timeZone,
+      },
+      { onConflict: "user_profile_id" },
+    )
+    .select("*")
+    .single();
+
+  if (error) throw error;
+  const feed = CalendarFeedSchema.parse(data);
+
+  const { error: medsError } = await supabase
+    .from("medication_reminders")
+    .update({ calendar_sync_token: feed.token })
+    .eq("user_profile_id", userId);
+
+  if (medsError) throw medsError;
+  return feed;
+}
+
+/**
+ * Deletes the user's calendar feed and takes their medications out of it.
+ * Calendar apps subscribed to the feed stop receiving updates.
+ * Note: Supabase RLS will block this operation if the user is not the owner of the record.
+ *
+ * @param userId - The id of the user.
+ * @throws An error if the deletion fails.
+ */
+export async function revokeCalendarFeed(userId: string): Promise<void> {
+  const { error } = await supabase
+    .from("calendar_feeds")
+    .delete()
+    .eq("user_profile_id", userId);
+
+  if (error) throw error;
+
+  const { error: medsError } = await supabase
+    .from("medication_reminders")
+    .update({ calendar_sync_token: null })
+    .eq("user_profile_id", userId);
+
+  if (medsError) throw medsError;
+}
+
+/**
+ * Retrieves the records served by a feed. Works without a signed-in user, since calendar apps
+ * fetch feeds anonymously; the token itself is the credential.
+ *
+ * @param token - The feed token from the URL.
+ * @returns The feed's medications, appointments and time zone, or null if no feed has this token.
+ * @throws An error if the query fails.
+ */
+export async function getCalendarFeedRecords(
+  token: string,
+): Promise<CalendarFeedRecords | null> {
+  const { data, error } = await supabase.rpc("get_calendar_feed", {
+    feed_token: token,
+  });
+
+  if (error) throw error;
+  return data ? CalendarFeedRecordsSchema.parse(data) : null;
+}
+
+// Supabase RLS Policy: Only allow authenticated users to access their own calendar feed.
+// Feeds are read anonymously through the get_calendar_feed security definer function,
+// which only returns the records of the feed token's owner.
+// New medications are added to their owner's feed by a trigger.
+// See supabase/migrations/20261019030000_calendar_feeds.sql
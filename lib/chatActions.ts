@@ -0,0 +1,442 @@
+import { z } from "zod";
+import {
+  MedicationReminder,
+  createMedicationReminder,
+  updateMedicationReminder,
+  deleteMedicationReminder,
+} from "./medications";
+import {
+  AppointmentReminder,
+  createAppointmentReminder,
+  updateAppointmentReminder,
+  deleteAppointmentReminder,
+} from "./appointmentReminders";
+import {
+  HealthLog,
+  createHealthLog,
+  updateHealthLog,
+  deleteHealthLog,
+} from "./healthLogs";
+import { parseNaturalDateTime } from "./dateParsing";
+
+/**
+ * This file contains helpers to parse and apply the `symptomsync-action` blocks
+ * that the AI assistant emits when the user asks to add, update, or delete an
+ * appointment, medication, or health log. Nothing is written to the database
+ * until the user confirms the action in the chat.
+ */
+
+const ACTION_BLOCK_REGEX = /```symptomsync-action\s*([\s\S]*?)```/i;
+
+// Dates may be ISO strings or natural language such as "tomorrow at 9". They are resolved
+// against the time the suggesting message was sent, so they don't move if the user only
+// confirms the action later.
+const dateString = (now: Date) =>
+  z
+    .string()
+    .trim()
+    .refine((value) => parseNaturalDateTime(value, now) !== null, {
+      message: "Invalid date/time",
+    })
+    .transform((value) => parseNaturalDateTime(value, now)!.iso);
+
+// Zod schema for the data of an appointment action.
+const appointmentActionDataSchema = (now: Date) =>
+  z.object({
+    id: z.string().optional(),
+    appointment_name: z.string().trim().min(1).optional(),
+    date: dateString(now).optional(),
+  });
+
+// Zod schema for the data of a medication action. A recurrence mentioned in the
+// reminder time (e.g. "every morning at 8") is used when none is given explicitly.
+const medicationActionDataSchema = (now: Date) =>
+  z.preprocess(
+    (raw) => {
+      if (!raw || typeof raw !== "object") return raw;
+      const data = raw as Record<string, unknown>;
+      if (typeof data.reminder_time !== "string" || data.recurrence) {
+        return data;
+      }
+      const parsed = parseNaturalDateTime(data.reminder_time, now);
+      return parsed?.recurrence
+        ? { ...data, recurrence: parsed.recurrence }
+        : data;
+    },
+    z.object({
+      id: z.string().optional(),
+      medication_name: z.string().trim().min(1).optional(),
+      reminder_time: dateString(now).optional(),
+      dosage: z.string().nullable().optional(),
+      recurrence: z.string().nullable().optional(),
+    }),
+  );
+
+// Zod schema for the data of a health log action.
+const healthLogActionDataSchema = (now: Date) =>
+  z.object({
+    id: z.string().optional(),
+    symptom_type: z.string().trim().min(1).optional(),
+    severity: z.coerce.number().int().min(0).max(10).optional(),
+    start_date: dateString(now).optional(),
+    end_date: dateString(now).optional(),
+    notes: z.string().nullable().optional(),
+    mood: z.string().nullable().optional(),
+    medication_intake: z.string().nullable().optional(),
+  });
+
+const ACTION_NAME_FIELDS = {
+  appointment: "appointment_name",
+  medication: "medication_name",
+  health_log: "symptom_type",
+} as const;
+
+const ACTION_REQUIRED_FIELDS: Record<
+  keyof typeof ACTION_NAME_FIELDS,
+  string[]
+> = {
+  appointment: ["appointment_name", "date"],
+  medication: ["medication_name", "reminder_time"],
+  health_log: ["symptom_type"],
+};
+
+const ActionIntentSchema = z.enum(["create", "update", "delete"]);
+
+/**
+ * The Zod schema for a complete action block, validated per entity and intent.
+ *
+ * @param now - The time relative dates such as "tomorrow at 9" are resolved against.
+ * @returns The schema.
+ */
+export const chatActionSchema = (now: Date = new Date()) =>
+  z
+    .discriminatedUnion("entity", [
+      z.object({
+        entity: z.literal("appointment"),
+        intent: ActionIntentSchema,
+        data: appointmentActionDataSchema(now),
+      }),
+      z.object({
+        entity: z.literal("medication"),
+        intent: ActionIntentSchema,
+        data: medicationActionDataSchema(now),
+      }),
+      z.object({
+        entity: z.literal("health_log"),
+        intent: ActionIntentSchema,
+        data: healthLogActionDataSchema(now),
+      }),
+    ])
+    .superRefine((action, ctx) => {
+      const data = action.data as Record<string, unknown>;
+      const nameField = ACTION_NAME_FIELDS[action.entity];
+      const required =
+        action.intent === "create"
+          ? ACTION_REQUIRED_FIELDS[action.entity]
+          : data.id
+            ? []
+            : [nameField];
+
+      for (const field of required) {
+        if (data[field] === undefined || data[field] === null) {
+          ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            path: ["data", field],
+            message: `Missing required field "${field}"`,
+          });
+        }
+      }
+    });
+
+export type ChatAction = z.infer<ReturnType<typeof chatActionSchema>>;
+export type ChatActionEntity = ChatAction["entity"];
+export type ChatActionIntent = ChatAction["intent"];
+
+export const ACTION_ENTITY_LABELS: Record<ChatActionEntity, string> = {
+  appointment: "Appointment",
+  medication: "Medication",
+  health_log: "Health Log",
+};
+
+/**
+ * The user's current records, used to resolve the target of update/delete
+ * actions and to show what will change.
+ */
+export type ChatActionRecords = {
+  medications: MedicationReminder[];
+  appointments: AppointmentReminder[];
+  logs: HealthLog[];
+};
+
+export type ChatActionDiffRow = {
+  field: string;
+  before: string | null;
+  after: string | null;
+};
+
+/**
+ * Extracts the `symptomsync-action` block from an AI response.
+ *
+ * @param text - The raw response text from the assistant.
+ * @param sentAt - When the response was sent, which relative dates in the action are resolved
+ * against (defaults to the current time).
+ * @returns The response without the action block, the validated action (if any),
+ * and a validation error message if a block was present but invalid.
+ */
+export function extractChatAction(
+  text: string,
+  sentAt: Date = new Date(),
+): {
+  content: string;
+  action: ChatAction | null;
+  error: string | null;
+} {
+  const match = ACTION_BLOCK_REGEX.exec(text);
+  if (!match) {
+    // Hide a block that hasn't been closed yet, e.g. while the response is still streaming in
+    const openIndex = text.search(/```symptomsync-action/i);
+    const content = openIndex === -1 ? text : text.slice(0, openIndex).trim();
+    return { content, action: null, error: null };
+  }
+
+  const content = text.replace(ACTION_BLOCK_REGEX, "").trim();
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(match[1].trim());
+  } catch {
+    return {
+      content,
+      action: null,
+      error: "The assistant suggested a change, but it could not be read.",
+    };
+  }
+
+  const parsed = chatActionSchema(sentAt).safeParse(raw);
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0];
+    return {
+      content,
+      action: null,
+      error: issue?.message ?? "The suggested change is incomplete.",
+    };
+  }
+
+  return { content, action: parsed.data, error: null };
+}
+
+/**
+ * Finds the record an update/delete action refers to, by id first and then by
+ * a case-insensitive match on its name.
+ *
+ * @param action - The validated action.
+ * @param records - The user's current records.
+ * @returns The matching record, or null if none could be found.
+ */
+export function resolveActionTarget(
+  action: ChatAction,
+  records: ChatActionRecords,
+): MedicationReminder | AppointmentReminder | HealthLog | null {
+  if (action.intent === "create") return null;
+
+  const normalize = (value: string | null | undefined) =>
+    (value ?? "").trim().toLowerCase();
+
+  switch (action.entity) {
+    case "appointment": {
+      const { id, appointment_name } = action.data;
+      return (
+        records.appointments.find((a) => id && a.id === id) ??
+        records.appointments.find(
+          (a) =>
+            !!appointment_name &&
+            normalize(a.appointment_name) === normalize(appointment_name),
+        ) ??
+        null
+      );
+    }
+    case "medication": {
+      const { id, medication_name } = action.data;
+      return (
+        records.medications.find((m) => id && m.id === id) ??
+        records.medications.find(
+          (m) =>
+            !!medication_name &&
+            normalize(m.medication_name) === normalize(medication_name),
+        ) ??
+        null
+      );
+    }
+    case "health_log": {
+      const { id, symptom_type } = action.data;
+      const candidates = records.logs
+        .filter(
+          (l) =>
+            !!symptom_type &&
+            normalize(l.symptom_type) === normalize(symptom_type),
+        )
+        .sort(
+          (a, b) =>
+            new Date(b.start_date).getTime() - new Date(a.start_date).getTime(),
+        );
+      return (
+        records.logs.find((l) => id && l.id === id) ?? candidates[0] ?? null
+      );
+    }
+  }
+}
+
+/**
+ * Lists the fields an action will change, with their current and new values.
+ *
+ * @param action - The validated action.
+ * @param records - The user's current records.
+ * @returns One row per affected field.
+ */
+export function describeChatAction(
+  action: ChatAction,
+  records: ChatActionRecords,
+): ChatActionDiffRow[] {
+  const target = resolveActionTarget(action, records) as Record<
+    string,
+    unknown
+  > | null;
+  const data = action.data as Record<string, unknown>;
+  const fields = Object.keys(data).filter(
+    (field) => field !== "id" && data[field] !== undefined,
+  );
+
+  const display = (value: unknown) =>
+    value === undefined || value === null || value === ""
+      ? null
+      : String(value);
+
+  if (action.intent === "delete") {
+    const nameField = ACTION_NAME_FIELDS[action.entity];
+    return [
+      {
+        field: nameField,
+        before: display(target?.[nameField] ?? data[nameField]),
+        after: null,
+      },
+    ];
+  }
+
+  return fields.map((field) => ({
+    field,
+    before: action.intent === "update" ? display(target?.[field]) : null,
+    after: display(data[field]),
+  }));
+}
+
+/**
+ * Executes a confirmed action against the database.
+ * Note: Supabase RLS will block this operation if the user is not the owner of the record.
+ *
+ * @param action - The validated action.
+ * @param userId - The id of the current user.
+ * @param records - The user's current records, used to resolve update/delete targets.
+ * @returns The broadcast event name and a human readable message describing the change.
+ * @throws An error if the target record cannot be found or the mutation fails.
+ */
+export async function applyChatAction(
+  action: ChatAction,
+  userId: string,
+  records: ChatActionRecords,
+): Promise<{ event: string; message: string }> {
+  const target = resolveActionTarget(action, records);
+  if (action.intent !== "create" && !target) {
+    throw new Error(
+      `Could not find the ${ACTION_ENTITY_LABELS[action.entity].toLowerCase()} to ${action.intent}.`,
+    );
+  }
+
+  switch (action.entity) {
+    case "appointment": {
+      const { appointment_name, date } = action.data;
+      if (action.intent === "create") {
+        const created = await createAppointmentReminder({
+          user_profile_id: userId,
+          appointment_name: appointment_name!,
+          date,
+        });
+        return {
+          event: "appt-add",
+          message: `New appointment reminder "${created.appointment_name}" added.`,
+        };
+      }
+      if (action.intent === "update") {
+        const updated = await updateAppointmentReminder(target!.id, {
+          ...(appointment_name !== undefined && { appointment_name }),
+          ...(date !== undefined && { date }),
+        });
+        return {
+          event: "appt-update",
+          message: `Appointment reminder "${updated.appointment_name}" updated successfully.`,
+        };
+      }
+      await deleteAppointmentReminder(target!.id);
+      return {
+        event: "appt-delete",
+        message: `Appointment reminder deleted successfully.`,
+      };
+    }
+    case "medication": {
+      const { medication_name, reminder_time, dosage, recurrence } =
+        action.data;
+      if (action.intent === "create") {
+        const created = await createMedicationReminder({
+          user_profile_id: userId,
+          medication_name: medication_name!,
+          reminder_time: reminder_time!,
+          dosage: dosage ?? null,
+          recurrence: recurrence ?? null,
+        });
+        return {
+          event: "med-add",
+          message: `New medication reminder "${created.medication_name}" added.`,
+        };
+      }
+      if (action.intent === "update") {
+        const updated = await updateMedicationReminder(target!.id, {
+          ...(medication_name !== undefined && { medication_name }),
+          ...(reminder_time !== undefined && { reminder_time }),
+          ...(dosage !== undefined && { dosage }),
+          ...(recurrence !== undefined && { recurrence }),
+        });
+        return {
+          event: "med-update",
+          message: `Medication reminder "${updated.medication_name}" updated successfully.`,
+        };
+      }
+      await deleteMedicationReminder(target!.id);
+      return {
+        event: "med-delete",
+        message: `Medication reminder deleted successfully.`,
+      };
+    }
+    case "health_log": {
+      // eslint-disable-next-line @typescript-eslint/no-unused-vars
+      const { id: _id, ...fields } = action.data;
+      if (action.intent === "create") {
+        await createHealthLog({ user_profile_id: userId, ...fields });
+        return {
+          event: "log-add",
+          message: `New health log added successfully.`,
+        };
+      }
+      if (action.intent === "update") {
+        await updateHealthLog(target!.id, fields);
+        return {
+          event: "log-update",
+          message: `Health log updated successfully.`,
+        };
+      }
+      await deleteHealthLog(target!.id);
+      return {
+        event: "log-delete",
+        message: `Health log deleted successfully.`,
+      };
+    }
+  }
+}
@@ -0,0 +1,135 @@
+import { supabase } from "./supabaseClient";
+
+/**
+ * This file contains the browser-side helper for talking to the AI assistant.
+ * The model itself is only ever called from pages/api/chat.ts so the API key stays on the server.
+ */
+
+// Written into a streamed reply, followed by the error message, when the model fails after the
+// reply has started. The reply before it is incomplete.
+export const CHAT_STREAM_ERROR_MARKER = "\u0000";
+
+/**
+ * Thrown by streamChatReply when the reply stopped partway through because the model failed.
+ * The text passed to `onText` so far is what arrived before it stopped.
+ */
+export class ChatStreamInterruptedError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ChatStreamInterruptedError";
+  }
+}
+
+export type ChatHistoryMessage = {
+  role: "user" | "model";
+  text: string;
+};
+
+/**
+ * POSTs a chat request to the API route with the current Supabase session's access token.
+ *
+ * @throws An error if the user is not logged in or the route responds with an error.
+ */
+async function postChatRequest(
+  body: { history: ChatHistoryMessage[]; message: string; stream?: boolean },
+  signal?: AbortSignal,
+): Promise<Response> {
+  const {
+    data: { session },
+  } = await supabase.auth.getSession();
+  if (!session) throw new Error("User not logged in");
+
+  const response = await fetch("/api/chat", {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      Authorization: `Bearer ${session.access_token}`,
+    },
+    body: JSON.stringify({
+      ...body,
+      timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+    }),
+    signal,
+  });
+
+  if (!response.ok) {
+    const errorBody = await response.json().catch(() => null);
+    throw new Error(
+      errorBody?.error ??
+        `AI request failed: ${response.status} ${response.statusText}`,
+    );
+  }
+
+  return response;
+}
+
+/**
+ * Sends a message to the assistant through the chat API route, authenticated with the
+ * current Supabase session. The route builds the user's health context on the server.
+ *
+ * @param history - The earlier messages of the conversation (not including `message`).
+ * @param message - The latest user message.
+ * @returns The assistant's reply text.
+ * @throws An error if the user is not logged in or the request fails.
+ */
+export async function requestChatReply(
+  history: ChatHistoryMessage[],
+  message: string,
+): Promise<string> {
+  const response = await postChatRequest({ history, message });
+  const body = await response.json();
+  return body.text;
+}
+
+/**
+ * Streaming variant of requestChatReply. Calls `onText` with the reply so far every time
+ * a new piece arrives. Aborting `signal` stops the request (the promise then rejects with
+ * an AbortError, and the text passed to `onText` so far is all there is).
+ *
+ * @param history - The earlier messages of the conversation (not including `message`).
+ * @param message - The latest user message.
+ * @param onText - Called with the full reply text received so far.
+ * @param signal - (Optional) Aborts the request when triggered.
+ * @returns The complete reply text.
+ * @throws An error if the user is not logged in or the request fails, or a
+ * ChatStreamInterruptedError if the model failed after the reply had started.
+ */
+export async function streamChatReply(
+  history: ChatHistoryMessage[],
+  message: string,
+  onText: (textSoFar: string) => void,
+  signal?: AbortSignal,
+): Promise<string> {
+  const response = await postChatRequest(
+    { history, message, stream: true },
+    signal,
+  );
+
+  if (!response.body) {
+    const text = await response.text();
+    onText(text);
+    return text;
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let text = "";
+  let markerIndex = -1;
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    text += decoder.decode(value, { stream: true });
+    markerIndex = text.indexOf(CHAT_STREAM_ERROR_MARKER);
+    onText(markerIndex === -1 ? text : text.slice(0, markerIndex));
+  }
+
+  text += decoder.decode();
+  markerIndex = text.indexOf(CHAT_STREAM_ERROR_MARKER);
+  if (markerIndex !== -1) {
+    throw new ChatStreamInterruptedError(
+      text.slice(markerIndex + 1) || "The reply was interrupted.",
+    );
+  }
+  return text;
+}
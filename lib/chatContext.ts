@@ -0,0 +1,324 @@
+import type { MedicationReminder } from "./medications";
+import type { AppointmentReminder } from "./appointmentReminders";
+import type { HealthLog } from "./healthLogs";
+import type { Profile } from "./profile";
+import { getLogSymptoms } from "./symptoms";
+
+/**
+ * This file builds the summary of the user's data that the AI assistant receives with every message.
+ * Records are ranked by how relevant they are right now (upcoming appointments, active medications,
+ * recent and severe health logs, symptom trends) and the summary is cut down to fit a token budget,
+ * so users with thousands of records still get a short, useful summary.
+ */
+
+export type ChatContextFile = {
+  filename?: string | null;
+  file_type?: string | null;
+  tags?: string[] | null;
+};
+
+export type ChatContextRecords = {
+  meds: MedicationReminder[];
+  appts: AppointmentReminder[];
+  logs: HealthLog[];
+  profile: Profile | null;
+  files: ChatContextFile[];
+};
+
+export type ChatContextOptions = {
+  // The maximum size of the summary, in estimated tokens
+  maxTokens?: number;
+  // The user's IANA time zone, so dates read the way the user sees them
+  timeZone?: string;
+  now?: Date;
+};
+
+export const DEFAULT_CONTEXT_TOKEN_BUDGET = 1500;
+
+// How many of the latest health logs are always listed before the most severe ones
+const RECENT_LOG_COUNT = 5;
+// The window that symptom trends are computed over, compared with the window before it
+const TREND_WINDOW_DAYS = 30;
+// One-off medications whose time passed longer ago than this are no longer considered active
+const INACTIVE_MED_DAYS = 7;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+type ContextSection = {
+  title: string;
+  // Ranked from most to least relevant
+  lines: string[];
+  empty: string;
+};
+
+/**
+ * Estimates how many tokens a piece of text uses. Roughly 4 characters per token for English text,
+ * which is close enough for both Gemini and OpenAI-style tokenizers.
+ *
+ * @param text - The text to measure.
+ * @returns The estimated number of tokens.
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+const formatDate = (value: string, timeZone?: string) => {
+  try {
+    return new Date(value).toLocaleString("en-US", { timeZone });
+  } catch {
+    return new Date(value).toLocaleString("en-US");
+  }
+};
+
+const isRecurring = (med: MedicationReminder) => {
+  const recurrence = med.recurrence?.trim().toLowerCase();
+  return Boolean(recurrence) && recurrence !== "as needed";
+};
+
+/**
+ * Upcoming appointments soonest first, then past appointments most recent first
+ */
+function rankAppointments(
+  appts: AppointmentReminder[],
+  now: Date,
+  timeZone?: string,
+): string[] {
+  const time = (a: AppointmentReminder) => new Date(a.date).getTime();
+  const upcoming = appts
+    .filter((a) => time(a) >= now.getTime())
+    .sort((a, b) => time(a) - time(b));
+  const past = appts
+    .filter((a) => time(a) < now.getTime())
+    .sort((a, b) => time(b) - time(a));
+
+  return [
+    ...upcoming.map(
+      (a) =>
+        `- ${a.appointment_name} on ${formatDate(a.date, timeZone)} (id: ${a.id})`,
+    ),
+    ...past.map(
+      (a) =>
+        `- ${a.appointment_name} on ${formatDate(a.date, timeZone)} (past, id: ${a.id})`,
+    ),
+  ];
+}
+
+/**
+ * Recurring medications and one-off medications that are due or were due recently come first
+ */
+function rankMedications(
+  meds: MedicationReminder[],
+  now: Date,
+  timeZone?: string,
+): string[] {
+  const time = (m: MedicationReminder) => new Date(m.reminder_time).getTime();
+  const isActive = (m: MedicationReminder) =>
+    isRecurring(m) || time(m) >= now.getTime() - INACTIVE_MED_DAYS * DAY_MS;
+
+  const describe = (m: MedicationReminder, active: boolean) =>
+    `- ${m.medication_name}, dosage: ${m.dosage ?? "N/A"}, ${
+      active ? "next time" : "last time"
+    }: ${formatDate(m.reminder_time, timeZone)}, recurrence: ${
+      m.recurrence ?? "N/A"
+    }${active ? "" : " (inactive)"} (id: ${m.id})`;
+
+  const active = meds.filter(isActive).sort((a, b) => time(a) - time(b));
+  const inactive = meds
+    .filter((m) => !isActive(m))
+    .sort((a, b) => time(b) - time(a));
+
+  return [
+    ...active.map((m) => describe(m, true)),
+    ...inactive.map((m) => describe(m, false)),
+  ];
+}
+
+/**
+ * The latest few logs, then the rest by severity (most severe first) and recency
+ */
+function rankHealthLogs(logs: HealthLog[], timeZone?: string): string[] {
+  const time = (l: HealthLog) => new Date(l.start_date).getTime();
+  const byRecency = [...logs].sort((a, b) => time(b) - time(a));
+  const recent = byRecency.slice(0, RECENT_LOG_COUNT);
+  const rest = byRecency
+    .slice(RECENT_LOG_COUNT)
+    .sort((a, b) => (b.severity ?? 0) - (a.severity ?? 0) || time(b) - time(a));
+
+  return [...recent, ...rest].map(
+    (l) =>
+      `- Symptom: ${l.symptom_type ?? "N/A"}, severity: ${
+        l.severity ?? 0
+      }, start: ${formatDate(l.start_date, timeZone)}${
+        l.mood ? `, mood: ${l.mood}` : ""
+      } (id: ${l.id})`,
+  );
+}
+
+/**
+ * Compares how often and how severely each symptom was logged in the last TREND_WINDOW_DAYS
+ * with the window before it. The most frequently logged symptoms come first.
+ */
+function summarizeTrends(logs: HealthLog[], now: Date): string[] {
+  const windowMs = TREND_WINDOW_DAYS * DAY_MS;
+  const stats = new Map<
+    string,
+    {
+      count: number;
+      total: number;
+      previousCount: number;
+      previousTotal: number;
+    }
+  >();
+
+  for (const log of logs) {
+    const age = now.getTime() - new Date(log.start_date).getTime();
+    if (age < 0 || age >= windowMs * 2) continue;
+
+    // Each symptom of a log counts on its own, with its own severity
+    for (const symptom of getLogSymptoms(log)) {
+      const key = symptom.name.toLowerCase();
+      const entry = stats.get(key) ?? {
+        count: 0,
+        total: 0,
+        previousCount: 0,
+        previousTotal: 0,
+      };
+      if (age < windowMs) {
+        entry.count += 1;
+        entry.total += symptom.severity;
+      } else {
+        entry.previousCount += 1;
+        entry.previousTotal += symptom.severity;
+      }
+      stats.set(key, entry);
+    }
+  }
+
+  return [...stats.entries()]
+    .filter(([, s]) => s.count > 0)
+    .sort(([, a], [, b]) => b.count - a.count)
+    .map(([symptom, s]) => {
+      const average = s.total / s.count;
+      let trend = "new this month";
+      if (s.previousCount > 0) {
+        const change = average - s.previousTotal / s.previousCount;
+        trend =
+          change >= 1 ? "worsening" : change <= -1 ? "improving" : "stable";
+      }
+      return `- ${symptom}: logged ${s.count} time${
+        s.count === 1 ? "" : "s"
+      } in the last ${TREND_WINDOW_DAYS} days, average severity ${average.toFixed(
+        1,
+      )} (${trend})`;
+    });
+}
+
+function describeProfile(profile: Profile | null): string[] {
+  if (!profile) return [];
+  return [
+    `- Name: ${profile.full_name ?? "N/A"}`,
+    `- Conditions: ${profile.condition_tags?.join(", ") || "None"}`,
+  ];
+}
+
+function describeFiles(files: ChatContextFile[]): string[] {
+  return files.map((f) => {
+    const tags =
+      Array.isArray(f.tags) && f.tags.length > 0
+        ? f.tags.join(", ")
+        : "no tags";
+    return `- ${f.filename ?? "unknown"} (${f.file_type ?? "unknown"}, ${tags})`;
+  });
+}
+
+/**
+ * Builds the plain-text summary of the user's data that is passed to the assistant.
+ * Every section gets room for its most relevant record first; the remaining budget is then
+ * shared out one record at a time across the sections, and whatever doesn't fit is counted
+ * in an "…and N more" line.
+ *
+ * @param records - The user's records.
+ * @param options - The token budget, the user's time zone, and the current time.
+ * @returns The summary text.
+ */
+export function buildChatContext(
+  records: ChatContextRecords,
+  {
+    maxTokens = DEFAULT_CONTEXT_TOKEN_BUDGET,
+    timeZone,
+    now = new Date(),
+  }: ChatContextOptions = {},
+): string {
+  const sections: ContextSection[] = [
+    {
+      title: "Profile",
+      lines: describeProfile(records.profile),
+      empty: "No profile found.",
+    },
+    {
+      title: "Appointments",
+      lines: rankAppointments(records.appts, now, timeZone),
+      empty: "None",
+    },
+    {
+      title: "Medications",
+      lines: rankMedications(records.meds, now, timeZone),
+      empty: "None",
+    },
+    {
+      title: "Health Logs",
+      lines: rankHealthLogs(records.logs, timeZone),
+      empty: "None",
+    },
+    {
+      title: "Symptom Trends",
+      lines: summarizeTrends(records.logs, now),
+      empty: "Not enough recent logs.",
+    },
+    {
+      title: "Recent Documents",
+      lines: describeFiles(records.files),
+      empty: "None",
+    },
+  ];
+
+  const lineCost = (line: string) => estimateTokens(`${line}\n`);
+  const moreLine = (count: number) => `- …and ${count} more`;
+
+  // Headers, empty-section notes and a worst-case "…and N more" line are always paid for
+  let used = 0;
+  for (const section of sections) {
+    used += lineCost(`\n${section.title}:`);
+    used +=
+      section.lines.length === 0
+        ? lineCost(`- ${section.empty}`)
+        : lineCost(moreLine(section.lines.length));
+  }
+
+  const included = sections.map(() => 0);
+  let added = true;
+  while (added) {
+    added = false;
+    sections.forEach((section, i) => {
+      const next = section.lines[included[i]];
+      if (next === undefined) return;
+      const cost = lineCost(next);
+      if (used + cost > maxTokens) return;
+      used += cost;
+      included[i] += 1;
+      added = true;
+    });
+  }
+
+  return sections
+    .map((section, i) => {
+      const lines =
+        section.lines.length === 0
+          ? [`- ${section.empty}`]
+          : section.lines.slice(0, included[i]);
+      const omitted = section.lines.length - included[i];
+      if (omitted > 0) lines.push(moreLine(omitted));
+      return `${section.title}:\n${lines.join("\n")}\n`;
+    })
+    .join("\n");
+}
@@ -0,0 +1,85 @@
+import { createGeminiProvider } from "./geminiProvider";
+import { createOpenAICompatibleProvider } from "./openAICompatibleProvider";
+
+/**
+ * This file defines the interface every LLM backend of the assistant implements,
+ * and picks the backend to use from the server's environment variables:
+ *
+ * - CHAT_PROVIDER: "gemini" (default) or "openai-compatible"
+ * - GOOGLE_AI_API_KEY: the Gemini API key (gemini only)
+ * - OPENAI_COMPATIBLE_BASE_URL: e.g. "http://localhost:11434/v1" for Ollama or
+ *   "http://localhost:8080/v1" for llama.cpp (openai-compatible only)
+ * - OPENAI_COMPATIBLE_API_KEY: (optional) sent as a bearer token
+ * - OPENAI_COMPATIBLE_MODEL: (optional) the model to use, defaults to the first one the server lists
+ */
+
+export type ChatProviderMessage = {
+  role: "user" | "model";
+  text: string;
+};
+
+export type ChatProviderRequest = {
+  // The conversation so far, not including `message`
+  history: ChatProviderMessage[];
+  message: string;
+  systemInstruction: string;
+  signal?: AbortSignal;
+};
+
+export interface ChatProvider {
+  // A short name for logs and error messages, e.g. "gemini"
+  name: string;
+  /**
+   * Sends the message and resolves to the complete reply text.
+   */
+  send(request: ChatProviderRequest): Promise<string>;
+  /**
+   * Sends the message and yields the reply text piece by piece as it is generated.
+   * Errors that happen before anything is generated must be thrown before the first piece.
+   */
+  stream(request: ChatProviderRequest): AsyncGenerator<string>;
+  /**
+   * Lists the names of the models this provider can use.
+   */
+  listModels(): Promise<string[]>;
+}
+
+/**
+ * Returns the chat provider selected by the CHAT_PROVIDER environment variable.
+ * Must only be called on the server since the providers read private API keys.
+ *
+ * @returns The configured chat provider.
+ * @throws An error if the provider is unknown or misconfigured.
+ */
+export function getChatProvider(): ChatProvider {
+  const providerName = (process.env.CHAT_PROVIDER || "gemini").toLowerCase();
+
+  if (providerName === "gemini") {
+    const apiKey = process.env.GOOGLE_AI_API_KEY;
+    if (!apiKey) {
+      // The key used to be read in the browser, under a public name
+      throw new Error(
+        process.env.NEXT_PUBLIC_GOOGLE_AI_API_KEY
+          ? "NEXT_PUBLIC_GOOGLE_AI_API_KEY was renamed to GOOGLE_AI_API_KEY; rename it in your environment variables"
+          : "Missing GOOGLE_AI_API_KEY in environment variables",
+      );
+    }
+    return createGeminiProvider(apiKey);
+  }
+
+  if (providerName === "openai-compatible") {
+    const baseUrl = process.env.OPENAI_COMPATIBLE_BASE_URL;
+    if (!baseUrl) {
+      throw new Error(
+        "Missing OPENAI_COMPATIBLE_BASE_URL in environment variables",
+      );
+    }
+    return createOpenAICompatibleProvider({
+      baseUrl,
+      apiKey: process.env.OPENAI_COMPATIBLE_API_KEY,
+      model: process.env.OPENAI_COMPATIBLE_MODEL,
+    });
+  }
+
+  throw new Error(`Unknown CHAT_PROVIDER "${providerName}"`);
+}
@@ -0,0 +1,249 @@
+import { supabase } from "./supabaseClient";
+import { z } from "zod";
+
+/**
+ * This file contains functions to manage the user's conversations with the AI assistant in a Supabase database.
+ * It includes functions to retrieve, create, rename, and delete chat threads, and to retrieve, add, and update
+ * the messages in a thread.
+ */
+
+// Zod schema for a chat thread.
+export const ChatThreadSchema = z.object({
+  id: z.string(),
+  user_profile_id: z.string(),
+  title: z.string(),
+  created_at: z.string(),
+  updated_at: z.string(),
+});
+
+export type ChatThread = z.infer<typeof ChatThreadSchema>;
+
+// Zod schema for a message in a chat thread.
+export const ChatMessageRecordSchema = z.object({
+  id: z.string(),
+  thread_id: z.string(),
+  user_profile_id: z.string(),
+  role: z.enum(["user", "model"]),
+  text: z.string(),
+  action_status: z.enum(["applied", "dismissed"]).nullable(),
+  created_at: z.string(),
+});
+
+export type ChatMessageRecord = z.infer<typeof ChatMessageRecordSchema>;
+
+/**
+ * Retrieves all chat threads for a given user, most recently used first.
+ * Note: Supabase RLS will block this operation if the user is not the owner of the record.
+ *
+ * @param userId - The id of the user.
+ * @returns An array of chat threads.
+ * @throws An error if the query fails.
+ */
+export async function getChatThreadsByUser(
+  userId: string,
+): Promise<ChatThread[]> {
+  const { data, error } = await supabase
+    .from("chat_threads")
+    .select("*")
+    .eq("user_profile_id", userId)
+    .order("updated_at", { ascending: false });
+
+  if (error) throw error;
+  return ChatThreadSchema.array().parse(data);
+}
+
+/**
+ * Creates a new chat thread.
+ * Note: Supabase RLS will block this operation if the user is not the owner of the record.
+ *
+ * @param params - The user who owns the thread and its title.
+ * @returns The newly created chat thread.
+ * @throws An error if the insertion fails.
+ */
+export async function createChatThread({
+  user_profile_id,
+  title,
+}: {
+  user_profile_id: string;
+  title: string;
+}): Promise<ChatThread> {
+  const { data, error } = await supabase
+    .from("chat_threads")
+    .insert([{ user_profile_id, title }])
+    .select("*")
+    .single();
+
+  if (error) throw error;
+  return ChatThreadSchema.parse(data);
+}
+
+/**
+ * Renames a chat thread.
+ * Note: Supabase RLS will block this operation if the user is not the owner of the record.
+ *
+ * @param id - The id of the chat thread.
+ * @param title - The new title.
+ * @returns The updated chat thread.
+ * @throws An error if the update fails.
+ */
+export async function renameChatThread(
+  id: string,
+  title: string,
+): Promise<ChatThread> {
+  const { data, error } = await supabase
+    .from("chat_threads")
+    .update({ title })
+    .eq("id", id)
+    .select("*")
+    .single();
+
+  if (error) throw error;
+  return ChatThreadSchema.parse(data);
+}
+
+/**
+ * Deletes a chat thread along with all of its messages.
+ * Note: Supabase RLS will block this operation if the user is not the owner of the record.
+ *
+ * @param id - The id of the chat thread to delete.
+ * @returns The deleted chat thread.
+ * @throws An error if the deletion fails.
+ */
+export async function deleteChatThread(id: string): Promise<ChatThread> {
+  const { data, error } = await supabase
+    .from("chat_threads")
+    .delete()
+    .eq("id", id)
+    .select("*")
+    .single();
+
+  if (error) throw error;
+  return ChatThreadSchema.parse(data);
+}
+
+/**
+ * Retrieves all messages of a chat thread, oldest first.
+ * Note: Supabase RLS will block this operation if the user is not the owner of the record.
+ *
+ * @param threadId - The id of the chat thread.
+ * @returns An array of chat messages.
+ * @throws An error if the query fails.
+ */
+export async function getChatMessagesByThread(
+  threadId: string,
+): Promise<ChatMessageRecord[]> {
+  const { data, error } = await supabase
+    .from("chat_messages")
+    .select("*")
+    .eq("thread_id", threadId)
+    .order("created_at", { ascending: true });
+
+  if (error) throw error;
+  return ChatMessageRecordSchema.array().parse(data);
+}
+
+/**
+ * Adds messages to a chat thread. Messages are stored in the order given.
+ * Note: Supabase RLS will block this operation if the user is not the owner of the record.
+ *
+ * @param threadId - The id of the chat thread.
+ * @param userId - The id of the user who owns the thread.
+ * @param messages - The messages to add.
+ * @returns The newly created chat messages.
+ * @throws An error if the insertion fails.
+ */
+export async function addChatMessages(
+  threadId: string,
+  userId: string,
+  messages: Array<{
+    role: "user" | "model";
+    text: string;
+    action_status?: "applied" | "dismissed" | null;
+  }>,
+): Promise<ChatMessageRecord[]> {
+  if (messages.length === 0) return [];
+
+  // Spread the timestamps out by a millisecond so the order survives a bulk insert
+  const start = Date.now();
+  const { data, error } = await supabase
+    .from("chat_messages")
+    .insert(
+      messages.map((m, i) => ({
+        thread_id: threadId,
+        user_profile_id: userId,
+        role: m.role,
+        text: m.text,
+        action_status: m.action_status ?? null,
+        created_at: new Date(start + i).toISOString(),
+      })),
+    )
+    .select("*");
+
+  if (error) throw error;
+  return ChatMessageRecordSchema.array()
+    .parse(data)
+    .sort((a, b) => a.created_at.localeCompare(b.created_at));
+}
+
+/**
+ * Records whether the action suggested in a chat message was applied or dismissed.
+ * Note: Supabase RLS will block this operation if the user is not the owner of the record.
+ *
+ * @param id - The id of the chat message.
+ * @param actionStatus - The new action status.
+ * @returns The updated chat message.
+ * @throws An error if the update fails.
+ */
+export async function updateChatMessageActionStatus(
+  id: string,
+  actionStatus: "applied" | "dismissed",
+): Promise<ChatMessageRecord> {
+  const { data, error } = await supabase
+    .from("chat_messages")
+    .update({ action_status: actionStatus })
+    .eq("id", id)
+    .select("*")
+    .single();
+
+  if (error) throw error;
+  return ChatMessageRecordSchema.parse(data);
+}
+
+/**
+ * Moves a conversation saved by older versions of the chat page (in localStorage) into a new thread.
+ *
+ * @param userId - The id of the user.
+ * @param messages - The messages read from localStorage.
+ * @returns The new chat thread.
+ * @throws An error if the thread or its messages could not be saved.
+ */
+export async function importChatHistory(
+  userId: string,
+  messages: Array<{
+    role: "user" | "model";
+    text: string;
+    actionStatus?: "applied" | "dismissed";
+  }>,
+): Promise<ChatThread> {
+  const thread = await createChatThread({
+    user_profile_id: userId,
+    title: "Previous conversation",
+  });
+
+  await addChatMessages(
+    thread.id,
+    userId,
+    messages.map((m) => ({
+      role: m.role,
+      text: m.text,
+      action_status: m.actionStatus ?? null,
+    })),
+  );
+
+  return thread;
+}
+
+// Supabase RLS Policy: Only allow authenticated users to access their own chat threads and messages.
+// Only the user who created a thread can read, add messages to, rename, or delete it.
+// Deleting a thread also deletes its messages (on delete cascade).
+// See supabase/migrations/20261019000000_chat_threads.sql
@@ -0,0 +1,461 @@
+import {
+  addDays,
+  addHours,
+  addMinutes,
+  addMonths,
+  addWeeks,
+  isValid,
+  nextDay,
+  startOfDay,
+  Day,
+} from "date-fns";
+
+/**
+ * This file contains a small natural-language date/time resolver. It turns phrases
+ * such as "tomorrow at 9", "next Tuesday at 9am", "in 3 hours" or "every other morning"
+ * into a concrete date plus an optional recurrence, so that we don't have to trust
+ * the AI model (or the user) to hand us an ISO timestamp.
+ *
+ * Recurrence values use the same labels as the medication dialogs ("Daily", "Weekly",
+ * "Biweekly", "Monthly", "As Needed"), plus "Every N Days" / "Every N Hours" /
+ * "Every N Months".
+ */
+
+export type ParsedDateTime = {
+  date: Date;
+  iso: string;
+  hasTime: boolean;
+  recurrence: string | null;
+};
+
+const WEEKDAYS: Record<string, Day> = {
+  sunday: 0,
+  sun: 0,
+  monday: 1,
+  mon: 1,
+  tuesday: 2,
+  tue: 2,
+  tues: 2,
+  wednesday: 3,
+  wed: 3,
+  thursday: 4,
+  thu: 4,
+  thur: 4,
+  thurs: 4,
+  friday: 5,
+  fri: 5,
+  saturday: 6,
+  sat: 6,
+};
+
+const MONTHS: Record<string, number> = {
+  january: 0,
+  jan: 0,
+  february: 1,
+  feb: 1,
+  march: 2,
+  mar: 2,
+  april: 3,
+  apr: 3,
+  may: 4,
+  june: 5,
+  jun: 5,
+  july: 6,
+  jul: 6,
+  august: 7,
+  aug: 7,
+  september: 8,
+  sep: 8,
+  sept: 8,
+  october: 9,
+  oct: 9,
+  november: 10,
+  nov: 10,
+  december: 11,
+  dec: 11,
+};
+
+const NUMBER_WORDS: Record<string, number> = {
+  a: 1,
+  an: 1,
+  one: 1,
+  two: 2,
+  three: 3,
+  four: 4,
+  five: 5,
+  six: 6,
+  seven: 7,
+  eight: 8,
+  nine: 9,
+  ten: 10,
+  eleven: 11,
+  twelve: 12,
+};
+
+// Default clock times for parts of the day.
+const PERIODS: Record<string, [number, number]> = {
+  morning: [8, 0],
+  noon: [12, 0],
+  midday: [12, 0],
+  afternoon: [15, 0],
+  evening: [18, 0],
+  tonight: [21, 0],
+  night: [21, 0],
+  bedtime: [22, 0],
+  midnight: [0, 0],
+};
+
+const WEEKDAY_PATTERN = Object.keys(WEEKDAYS)
+  .sort((a, b) => b.length - a.length)
+  .join("|");
+const MONTH_PATTERN = Object.keys(MONTHS)
+  .sort((a, b) => b.length - a.length)
+  .join("|");
+const PERIOD_PATTERN = Object.keys(PERIODS).join("|");
+const NUMBER_PATTERN = `\\d+|${Object.keys(NUMBER_WORDS).join("|")}`;
+
+const toNumber = (value: string) => NUMBER_WORDS[value] ?? parseInt(value, 10);
+
+/**
+ * Removes the first match of `regex` from `text` and returns the match.
+ */
+function take(state: { text: string }, regex: RegExp): RegExpExecArray | null {
+  const match = regex.exec(state.text);
+  if (match) {
+    state.text = (
+      state.text.slice(0, match.index) +
+      " " +
+      state.text.slice(match.index + match[0].length)
+    )
+      .replace(/\s+/g, " ")
+      .trim();
+  }
+  return match;
+}
+
+/**
+ * Pulls a recurrence phrase out of the text.
+ */
+function takeRecurrence(state: { text: string }): {
+  recurrence: string | null;
+  weekday: Day | null;
+} {
+  if (take(state, /\b(as needed|when needed|prn)\b/)) {
+    return { recurrence: "As Needed", weekday: null };
+  }
+
+  const everyN = take(
+    state,
+    new RegExp(`\\bevery (${NUMBER_PATTERN}) (hour|day|week|month)s?\\b`),
+  );
+  if (everyN) {
+    const n = toNumber(everyN[1]);
+    const unit = everyN[2];
+    if (unit === "hour")
+      return { recurrence: `Every ${n} Hours`, weekday: null };
+    if (unit === "day") {
+      return {
+        recurrence: n === 1 ? "Daily" : `Every ${n} Days`,
+        weekday: null,
+      };
+    }
+    if (unit === "week") {
+      return {
+        recurrence:
+          n === 1 ? "Weekly" : n === 2 ? "Biweekly" : `Every ${n * 7} Days`,
+        weekday: null,
+      };
+    }
+    return {
+      recurrence: n === 1 ? "Monthly" : `Every ${n} Months`,
+      weekday: null,
+    };
+  }
+
+  if (take(state, /\b(every other week|biweekly|fortnightly)\b/)) {
+    return { recurrence: "Biweekly", weekday: null };
+  }
+
+  const otherPeriod = take(
+    state,
+    new RegExp(`\\bevery other (day|${PERIOD_PATTERN})\\b`),
+  );
+  if (otherPeriod) {
+    if (otherPeriod[1] !== "day") state.text += ` ${otherPeriod[1]}`;
+    return { recurrence: "Every 2 Days", weekday: null };
+  }
+
+  const everyWeekday = take(
+    state,
+    new RegExp(`\\b(?:every|each) (${WEEKDAY_PATTERN})\\b`),
+  );
+  if (everyWeekday) {
+    return { recurrence: "Weekly", weekday: WEEKDAYS[everyWeekday[1]] };
+  }
+
+  const everyPeriod = take(
+    state,
+    new RegExp(`\\b(?:every|each) (day|${PERIOD_PATTERN})\\b`),
+  );
+  if (everyPeriod) {
+    if (everyPeriod[1] !== "day") state.text += ` ${everyPeriod[1]}`;
+    return { recurrence: "Daily", weekday: null };
+  }
+
+  if (take(state, /\b(daily|nightly)\b/)) {
+    return { recurrence: "Daily", weekday: null };
+  }
+  if (take(state, /\b(every week|weekly)\b/)) {
+    return { recurrence: "Weekly", weekday: null };
+  }
+  if (take(state, /\b(every month|monthly)\b/)) {
+    return { recurrence: "Monthly", weekday: null };
+  }
+
+  return { recurrence: null, weekday: null };
+}
+
+// Parts of the day that make a bare hour ("tonight at 9") an afternoon or evening one
+const PM_PERIODS = new Set([
+  "afternoon",
+  "evening",
+  "tonight",
+  "night",
+  "bedtime",
+]);
+
+/**
+ * Pulls a clock time ("9", "9am", "9:30 pm", "21:00", "noon", "tonight", "this evening at 7")
+ * out of the text.
+ */
+function takeTime(state: { text: string }): [number, number] | null {
+  // The part of the day is read first, since it decides what a bare hour means
+  const period = take(
+    state,
+    new RegExp(`\\b(this |in the |at )?(${PERIOD_PATTERN})\\b`),
+  );
+  // "tonight" and "this evening" also imply today, so leave a marker behind for the day parser.
+  if (period && (period[2] === "tonight" || period[1] === "this ")) {
+    state.text += " today";
+  }
+
+  const clock = take(
+    state,
+    /\b(?:at |@ ?)?(\d{1,2})(?::(\d{2}))? ?(am|pm|a\.m\.|p\.m\.)(?=\s|$)/,
+  );
+  if (clock) {
+    let hour = parseInt(clock[1], 10) % 12;
+    if (clock[3].startsWith("p")) hour += 12;
+    return [hour, parseInt(clock[2] ?? "0", 10)];
+  }
+
+  const twentyFour = take(state, /\b(?:at |@ ?)?([01]?\d|2[0-3]):([0-5]\d)\b/);
+  if (twentyFour) {
+    return [parseInt(twentyFour[1], 10), parseInt(twentyFour[2], 10)];
+  }
+
+  const bare = take(state, /\b(?:at|@) ?(\d{1,2})\b/);
+  if (bare) {
+    let hour = parseInt(bare[1], 10);
+    if (hour <= 23) {
+      if (period && PM_PERIODS.has(period[2]) && hour < 12) hour += 12;
+      if (period?.[2] === "morning" && hour === 12) hour = 0;
+      return [hour, 0];
+    }
+  }
+
+  return period ? PERIODS[period[2]] : null;
+}
+
+/**
+ * Pulls a day reference ("today", "next tuesday", "march 5", "3/5") out of the text.
+ */
+function takeDay(
+  state: { text: string },
+  now: Date,
+): { date: Date; weekday: boolean } | null {
+  const today = startOfDay(now);
+
+  const day = (date: Date) => ({ date, weekday: false });
+
+  if (take(state, /\b(?:the )?day after tomorrow\b/)) {
+    return day(addDays(today, 2));
+  }
+  if (take(state, /\btomorrow\b/)) return day(addDays(today, 1));
+  if (take(state, /\byesterday\b/)) return day(addDays(today, -1));
+  if (take(state, /\btoday\b/)) return day(today);
+
+  const weekday = take(
+    state,
+    new RegExp(`\\b(next|this|on)? ?(${WEEKDAY_PATTERN})\\b`),
+  );
+  if (weekday) {
+    const target = WEEKDAYS[weekday[2]];
+    // Today's weekday means today, unless the time has passed (see parseNaturalDateTime)
+    if (weekday[1] !== "next" && today.getDay() === target) {
+      return { date: today, weekday: true };
+    }
+    return { date: nextDay(today, target), weekday: false };
+  }
+
+  const monthDay = take(
+    state,
+    new RegExp(
+      `\\b(?:on )?(${MONTH_PATTERN})\\.? (\\d{1,2})(?:st|nd|rd|th)?(?:,? (\\d{4}))?\\b`,
+    ),
+  );
+  const dayMonth = monthDay
+    ? null
+    : take(
+        state,
+        new RegExp(
+          `\\b(?:on )?(?:the )?(\\d{1,2})(?:st|nd|rd|th)? (?:of )?(${MONTH_PATTERN})(?:,? (\\d{4}))?\\b`,
+        ),
+      );
+  if (monthDay || dayMonth) {
+    const month = MONTHS[monthDay ? monthDay[1] : dayMonth![2]];
+    const day = parseInt(monthDay ? monthDay[2] : dayMonth![1], 10);
+    const yearText = monthDay ? monthDay[3] : dayMonth![3];
+    const year = yearText ? parseInt(yearText, 10) : now.getFullYear();
+    let result = new Date(year, month, day);
+    if (!yearText && result < today) result = new Date(year + 1, month, day);
+    return { date: result, weekday: false };
+  }
+
+  const numeric = take(
+    state,
+    /\b(?:on )?(\d{1,2})\/(\d{1,2})(?:\/(\d{2,4}))?\b/,
+  );
+  if (numeric) {
+    const month = parseInt(numeric[1], 10) - 1;
+    const day = parseInt(numeric[2], 10);
+    let year = numeric[3] ? parseInt(numeric[3], 10) : now.getFullYear();
+    if (year < 100) year += 2000;
+    let result = new Date(year, month, day);
+    if (!numeric[3] && result < today) {
+      result = new Date(year + 1, month, day);
+    }
+    return { date: result, weekday: false };
+  }
+
+  return null;
+}
+
+/**
+ * Resolves a natural-language date/time phrase against the current time.
+ *
+ * @param input - The phrase to resolve, e.g. "next Tuesday at 9" or an ISO timestamp.
+ * @param now - The reference time (defaults to the current time).
+ * @returns The resolved date and recurrence, or null if nothing could be understood.
+ */
+export function parseNaturalDateTime(
+  input: string,
+  now: Date = new Date(),
+): ParsedDateTime | null {
+  const raw = input.trim();
+  if (!raw) return null;
+
+  // ISO (or ISO-like) timestamps are passed straight through.
+  if (/^\d{4}-\d{2}-\d{2}/.test(raw)) {
+    const date = new Date(raw);
+    if (!isValid(date)) return null;
+    return {
+      date,
+      iso: date.toISOString(),
+      hasTime: /\d{2}:\d{2}/.test(raw),
+      recurrence: null,
+    };
+  }
+
+  const state = {
+    text: raw
+      .toLowerCase()
+      .replace(/[,.!?]+$/g, "")
+      .replace(/\s+/g, " "),
+  };
+
+  const { recurrence, weekday } = takeRecurrence(state);
+
+  const relative = take(
+    state,
+    new RegExp(
+      `\\bin (${NUMBER_PATTERN}|half an) (minute|min|hour|hr|day|week|month)s?\\b`,
+    ),
+  );
+  if (relative) {
+    const amount = relative[1] === "half an" ? 0.5 : toNumber(relative[1]);
+    const unit = relative[2];
+    let date: Date;
+    if (unit.startsWith("min")) date = addMinutes(now, amount);
+    else if (unit.startsWith("h")) date = addMinutes(now, amount * 60);
+    else if (unit === "day") date = addDays(now, amount);
+    else if (unit === "week") date = addWeeks(now, amount);
+    else date = addMonths(now, amount);
+
+    const time = takeTime(state);
+    if (time) {
+      date = new Date(
+        date.getFullYear(),
+        date.getMonth(),
+        date.getDate(),
+        time[0],
+        time[1],
+      );
+    }
+
+    return {
+      date,
+      iso: date.toISOString(),
+      hasTime: unit.startsWith("min") || unit.startsWith("h") || !!time,
+      recurrence,
+    };
+  }
+
+  const time = takeTime(state);
+  const parsedDay = takeDay(state, now);
+  let day = parsedDay?.date ?? null;
+  // Whether the day is a weekday named on that same weekday, e.g. "monday" said on a Monday
+  let weekdayIsToday = parsedDay?.weekday ?? false;
+
+  if (!day && weekday !== null) {
+    weekdayIsToday = startOfDay(now).getDay() === weekday;
+    day = weekdayIsToday ? startOfDay(now) : nextDay(startOfDay(now), weekday);
+  }
+
+  if (!day && !time && !recurrence) return null;
+
+  // "Every 8 hours" without a time starts from now.
+  if (!day && !time && recurrence?.endsWith("Hours")) {
+    const hours = parseInt(recurrence.split(" ")[1], 10);
+    const date = addHours(now, hours);
+    return { date, iso: date.toISOString(), hasTime: true, recurrence };
+  }
+
+  const explicitDay = !!day;
+  let date = day ?? startOfDay(now);
+  const [hour, minute] =
+    time ?? (explicitDay ? [9, 0] : [now.getHours(), now.getMinutes()]);
+  date = new Date(
+    date.getFullYear(),
+    date.getMonth(),
+    date.getDate(),
+    hour,
+    minute,
+  );
+
+  // A bare time such as "at 9" means the next time the clock shows 9.
+  if (!explicitDay && time && date < now) {
+    date = addDays(date, 1);
+  }
+  // "Monday at 8" said on a Monday after 8 means next Monday
+  if (weekdayIsToday && date < now) {
+    date = addWeeks(date, 1);
+  }
+
+  return {
+    date,
+    iso: date.toISOString(),
+    hasTime: !!time || (!explicitDay && !!recurrence),
+    recurrence,
+  };
+}
@@ -0,0 +1,1197 @@
+import { supabase } from "./supabaseClient";
+import { z } from "zod";
+import { Profile, getCurrentProfile, updateProfile } from "./profile";
+import {
+  MedicationReminder,
+  getMedicationRemindersByUser,
+} from "./medications";
+import { HealthLog, getHealthLogsByUser } from "./healthLogs";
+import {
+  AppointmentReminder,
+  getAppointmentRemindersByUser,
+} from "./appointmentReminders";
+import { FileRow, FileRowSchema } from "./fileDetails";
+import {
+  getMedicationRecurrenceRule,
+  parseRRule,
+  recurrenceRuleFromLabel,
+  toMedicationRecurrence,
+} from "./recurrence";
+import {
+  SYMPTOMS_BY_ID,
+  SYMPTOM_CATALOGUE,
+  SymptomEntry,
+  dedupeSymptoms,
+  getLogSymptoms,
+  summarizeSymptoms,
+  toSymptomEntry,
+} from "./symptoms";
+import { VitalKey, parseVitals } from "./vitals";
+
+/**
+ * This file maps a user's record to and from HL7 FHIR R4, so it can be moved in or out of
+ * SymptomSync as a Bundle:
+ * - Profile: Patient, and each condition tag a problem-list Condition
+ * - MedicationReminder: MedicationRequest (MedicationStatement is read too)
+ * - HealthLog: a Condition per symptom, a vital-signs Observation per vital and one Observation
+ *   with the log's severity, mood, medication intake and notes, all sharing the log's identifier
+ * - AppointmentReminder: Appointment
+ * - Files: DocumentReference (exported only; the files themselves stay in storage)
+ */
+
+export const FHIR_BASE = "https://symptomsync.app/fhir";
+const HEALTH_LOG_SYSTEM = `${FHIR_BASE}/health-log`;
+const CONDITION_TAG_SYSTEM = `${FHIR_BASE}/condition-tag`;
+const OBSERVATION_SYSTEM = `${FHIR_BASE}/observation`;
+const RECURRENCE_RULE_EXTENSION = `${FHIR_BASE}/StructureDefinition/recurrence-rule`;
+const SEVERITY_SCORE_EXTENSION = `${FHIR_BASE}/StructureDefinition/severity-score`;
+
+const SNOMED = "http://snomed.info/sct";
+const ICD10 = "http://hl7.org/fhir/sid/icd-10-cm";
+const LOINC = "http://loinc.org";
+const UCUM = "http://unitsofmeasure.org";
+const OBSERVATION_CATEGORY =
+  "http://terminology.hl7.org/CodeSystem/observation-category";
+const CONDITION_CATEGORY =
+  "http://terminology.hl7.org/CodeSystem/condition-category";
+const CONDITION_CLINICAL =
+  "http://terminology.hl7.org/CodeSystem/condition-clinical";
+
+export type FhirResource = {
+  resourceType: string;
+  id?: string;
+  [key: string]: unknown;
+};
+
+export type FhirBundle = {
+  resourceType: "Bundle";
+  type: string;
+  timestamp?: string;
+  entry?: { fullUrl?: string; resource: FhirResource }[];
+};
+
+type Coding = { system?: string; code?: string; display?: string };
+
+// The LOINC code and UCUM unit of each vital; blood pressure is one panel with two components
+const VITAL_CODES: Record<
+  Exclude<VitalKey, "systolic" | "diastolic">,
+  { code: string; display: string; unit: string }
+> = {
+  heartRate: { code: "8867-4", display: "Heart rate", unit: "/min" },
+  temperature: { code: "8310-5", display: "Body temperature", unit: "[degF]" },
+  spo2: {
+    code: "59408-5",
+    display: "Oxygen saturation in Arterial blood by Pulse oximetry",
+    unit: "%",
+  },
+  respiratoryRate: {
+    code: "9279-1",
+    display: "Respiratory rate",
+    unit: "/min",
+  },
+  weight: { code: "29463-7", display: "Body weight", unit: "[lb_av]" },
+  glucose: {
+    code: "2339-0",
+    display: "Glucose [Mass/volume] in Blood",
+    unit: "mg/dL",
+  },
+};
+const BLOOD_PRESSURE = {
+  panel: "85354-9",
+  systolic: "8480-6",
+  diastolic: "8462-4",
+  unit: "mm[Hg]",
+};
+// Other codes for the same vitals that imported Observations may use
+const VITAL_CODE_ALIASES: Record<string, VitalKey> = {
+  "2708-6": "spo2",
+  "8310-5": "temperature",
+  "3141-9": "weight",
+  "2345-7": "glucose",
+};
+
+// Readings in another unit are converted to the one SymptomSync stores
+const UNIT_CONVERSIONS: Record<string, (value: number) => number> = {
+  Cel: (c) => Math.round(((c * 9) / 5 + 32) * 10) / 10,
+  kg: (kg) => Math.round(kg * 2.20462 * 10) / 10,
+  "mmol/L": (mmol) => Math.round(mmol * 18),
+};
+
+// SNOMED CT severity values, with the 0-10 score each one is read as on import
+const SEVERITY_CODES = [
+  { code: "255604002", display: "Mild", max: 3, score: 3 },
+  { code: "6736007", display: "Moderate", max: 6, score: 5 },
+  { code: "24484000", display: "Severe", max: 10, score: 8 },
+];
+
+const identifier = (system: string, value: string) => [{ system, value }];
+const patientRef = (profile: Profile) => ({
+  reference: `Patient/${profile.id}`,
+});
+
+/**
+ * The Patient resource for a profile, and a problem-list Condition for each condition tag.
+ */
+export function profileToFhir(profile: Profile): FhirResource[] {
+  const patient: FhirResource = {
+    resourceType: "Patient",
+    id: profile.id,
+    ...(profile.full_name && { name: [{ text: profile.full_name }] }),
+    telecom: [{ system: "email", value: profile.email }],
+  };
+  const tags = profile.condition_tags.map(
+    (tag): FhirResource => ({
+      resourceType: "Condition",
+      id: stableId(`condition-tag/${profile.id}/${tag.toLowerCase()}`),
+      identifier: identifier(CONDITION_TAG_SYSTEM, tag),
+      clinicalStatus: {
+        coding: [{ system: CONDITION_CLINICAL, code: "active" }],
+      },
+      category: [
+        {
+          coding: [{ system: CONDITION_CATEGORY, code: "problem-list-item" }],
+        },
+      ],
+      code: { text: tag },
+      subject: patientRef(profile),
+    }),
+  );
+  return [patient, ...tags];
+}
+
+/**
+ * The MedicationRequest for a medication reminder. The schedule keeps its RRULE in an extension
+ * so it reads back unchanged.
+ */
+export function medicationToFhir(
+  med: MedicationReminder,
+  profile: Profile,
+): FhirResource {
+  const rule = getMedicationRecurrenceRule(med);
+  return {
+    resourceType: "MedicationRequest",
+    id: med.id,
+    status: "active",
+    intent: "plan",
+    medicationCodeableConcept: { text: med.medication_name },
+    subject: patientRef(profile),
+    authoredOn: med.created_at,
+    dosageInstruction: [
+      {
+        ...(med.dosage && { text: med.dosage }),
+        ...(rule === null && { asNeededBoolean: true }),
+        timing: {
+          event: [med.reminder_time],
+          ...(med.recurrence && { code: { text: med.recurrence } }),
+          ...(med.recurrence_rule && {
+            extension: [
+              {
+                url: RECURRENCE_RULE_EXTENSION,
+                valueString: med.recurrence_rule,
+              },
+            ],
+          }),
+        },
+      },
+    ],
+  };
+}
+
+const symptomCode = (entry: SymptomEntry) => {
+  const symptom = entry.symptom_id
+    ? SYMPTOMS_BY_ID.get(entry.symptom_id)
+    : undefined;
+  const coding: Coding[] = [];
+  if (symptom?.snomed) {
+    coding.push({ system: SNOMED, code: symptom.snomed, display: entry.name });
+  }
+  if (symptom?.icd10) {
+    coding.push({ system: ICD10, code: symptom.icd10, display: entry.name });
+  }
+  return { ...(coding.length > 0 && { coding }), text: entry.name };
+};
+
+const severityConcept = (score: number) => {
+  const { code, display } =
+    SEVERITY_CODES.find((s) => score <= s.max) ?? SEVERITY_CODES[2];
+  return { coding: [{ system: SNOMED, code, display }] };
+};
+
+const quantity = (value: number, unit: string) => ({
+  value,
+  unit,
+  system: UCUM,
+  code: unit,
+});
+
+/**
+ * The resources for a health log: a Condition per symptom, an Observation per vital (blood
+ * pressure as one panel) and an Observation with the log's severity, mood, medication intake and
+ * notes. They all carry the log's id as their identifier, which is how the importer groups them.
+ */
+export function healthLogToFhir(
+  log: HealthLog,
+  profile: Profile,
+): FhirResource[] {
+  const logIdentifier = identifier(HEALTH_LOG_SYSTEM, log.id);
+  const subject = patientRef(profile);
+  const effective = log.end_date
+    ? { effectivePeriod: { start: log.start_date, end: log.end_date } }
+    : { effectiveDateTime: log.start_date };
+
+  const conditions = getLogSymptoms(log).map(
+    (entry, i): FhirResource => ({
+      resourceType: "Condition",
+      id: `${log.id}-s${i + 1}`,
+      identifier: logIdentifier,
+      clinicalStatus: {
+        coding: [
+          {
+            system: CONDITION_CLINICAL,
+            code: log.end_date ? "resolved" : "active",
+          },
+        ],
+      },
+      category: [
+        {
+          coding: [
+            {
+              system:
+                "http://hl7.org/fhir/us/core/CodeSystem/condition-category",
+              code: "health-concern",
+            },
+          ],
+        },
+      ],
+      code: symptomCode(entry),
+      severity: severityConcept(entry.severity),
+      extension: [
+        { url: SEVERITY_SCORE_EXTENSION, valueInteger: entry.severity },
+      ],
+      subject,
+      onsetDateTime: log.start_date,
+      ...(log.end_date && { abatementDateTime: log.end_date }),
+    }),
+  );
+
+  const vitalSigns = {
+    category: [
+      { coding: [{ system: OBSERVATION_CATEGORY, code: "vital-signs" }] },
+    ],
+  };
+  const vitals: FhirResource[] = [];
+  const v = log.vitals ?? {};
+  if (v.systolic != null && v.diastolic != null) {
+    vitals.push({
+      resourceType: "Observation",
+      id: `${log.id}-bp`,
+      identifier: logIdentifier,
+      status: "final",
+      ...vitalSigns,
+      code: {
+        coding: [{ system: LOINC, code: BLOOD_PRESSURE.panel }],
+        text: "Blood pressure",
+      },
+      subject,
+      ...effective,
+      component: (["systolic", "diastolic"] as const).map((key) => ({
+        code: { coding: [{ system: LOINC, code: BLOOD_PRESSURE[key] }] },
+        valueQuantity: quantity(v[key]!, BLOOD_PRESSURE.unit),
+      })),
+    });
+  }
+  for (const [key, { code, display, unit }] of Object.entries(VITAL_CODES)) {
+    const value = v[key as VitalKey];
+    if (value == null) continue;
+    vitals.push({
+      resourceType: "Observation",
+      id: `${log.id}-${key}`,
+      identifier: logIdentifier,
+      status: "final",
+      ...vitalSigns,
+      code: { coding: [{ system: LOINC, code, display }], text: display },
+      subject,
+      ...effective,
+      valueQuantity: quantity(value, unit),
+    });
+  }
+
+  const summary: FhirResource = {
+    resourceType: "Observation",
+    id: `${log.id}-log`,
+    identifier: logIdentifier,
+    status: "final",
+    category: [{ coding: [{ system: OBSERVATION_CATEGORY, code: "survey" }] }],
+    code: {
+      coding: [{ system: OBSERVATION_SYSTEM, code: "health-log" }],
+      text: "SymptomSync health log",
+    },
+    subject,
+    ...effective,
+    component: [
+      log.severity != null && {
+        code: { coding: [{ system: OBSERVATION_SYSTEM, code: "severity" }] },
+        valueInteger: log.severity,
+      },
+      log.mood && {
+        code: { coding: [{ system: OBSERVATION_SYSTEM, code: "mood" }] },
+        valueString: log.mood,
+      },
+      log.medication_intake && {
+        code: {
+          coding: [{ system: OBSERVATION_SYSTEM, code: "medication-intake" }],
+        },
+        valueString: log.medication_intake,
+      },
+    ].filter(Boolean),
+    ...(log.notes && { note: [{ text: log.notes }] }),
+  };
+
+  return [...conditions, ...vitals, summary];
+}
+
+/**
+ * The Appointment for an appointment reminder.
+ */
+export function appointmentToFhir(
+  appt: AppointmentReminder,
+  profile: Profile,
+): FhirResource {
+  return {
+    resourceType: "Appointment",
+    id: appt.id,
+    status: "booked",
+    description: appt.appointment_name,
+    start: appt.date,
+    participant: [{ actor: patientRef(profile), status: "accepted" }],
+  };
+}
+
+/**
+ * The DocumentReference for an uploaded file, pointing at where it is stored.
+ */
+export function fileToFhir(file: FileRow, profile: Profile): FhirResource {
+  return {
+    resourceType: "DocumentReference",
+    id: file.id,
+    status: "current",
+    subject: patientRef(profile),
+    date: file.uploaded_at,
+    description: file.filename,
+    ...(file.tags?.length && {
+      category: file.tags.map((tag) => ({ text: tag })),
+    }),
+    content: [
+      {
+        attachment: {
+          contentType: file.file_type,
+          url: file.url,
+          title: file.filename,
+          creation: file.uploaded_at,
+        },
+      },
+    ],
+  };
+}
+
+/**
+ * Puts a user's whole record in a FHIR collection Bundle.
+ *
+ * @param record - The user's profile, medications, health logs, appointments and files.
+ * @param now - When the Bundle is made.
+ * @returns The Bundle.
+ */
+export function buildFhirBundle(
+  record: {
+    profile: Profile;
+    medications: MedicationReminder[];
+    logs: HealthLog[];
+    appointments: AppointmentReminder[];
+    files: FileRow[];
+  },
+  now = new Date(),
+): FhirBundle {
+  const { profile } = record;
+  const resources = [
+    ...profileToFhir(profile),
+    ...record.medications.map((m) => medicationToFhir(m, profile)),
+    ...record.logs.flatMap((l) => healthLogToFhir(l, profile)),
+    ...record.appointments.map((a) => appointmentToFhir(a, profile)),
+    ...record.files.map((f) => fileToFhir(f, profile)),
+  ];
+  return {
+    resourceType: "Bundle",
+    type: "collection",
+    timestamp: now.toISOString(),
+    entry: resources.map((resource) => ({
+      fullUrl: `${FHIR_BASE}/${resource.resourceType}/${resource.id}`,
+      resource,
+    })),
+  };
+}
+
+/**
+ * Retrieves the current user's whole record as a FHIR Bundle.
+ * Note: Supabase RLS will block this operation if the user is not the owner of the record.
+ *
+ * @param userId - The id of the user.
+ * @returns The Bundle.
+ * @throws An error if any of the user's data can't be read.
+ */
+export async function exportFhirBundle(userId: string): Promise<FhirBundle> {
+  const [profile, medications, logs, appointments, filesRes] =
+    await Promise.all([
+      getCurrentProfile(),
+      getMedicationRemindersByUser(userId),
+      getHealthLogsByUser(userId),
+      getAppointmentRemindersByUser(userId),
+      supabase.from("files").select("*").eq("user_profile_id", userId),
+    ]);
+  if (!profile) throw new Error("No user found");
+  if (filesRes.error) throw filesRes.error;
+
+  return buildFhirBundle({
+    profile,
+    medications,
+    logs,
+    appointments,
+    files: FileRowSchema.array().parse(filesRes.data),
+  });
+}
+
+// Import
+
+const CodingSchema = z
+  .object({
+    system: z.string().optional(),
+    code: z.string().optional(),
+    display: z.string().optional(),
+  })
+  .passthrough();
+const CodeableConceptSchema = z
+  .object({
+    coding: z.array(CodingSchema).optional(),
+    text: z.string().optional(),
+  })
+  .passthrough();
+const IdentifierSchema = z
+  .object({ system: z.string().optional(), value: z.string().optional() })
+  .passthrough();
+const ExtensionSchema = z
+  .object({
+    url: z.string(),
+    valueString: z.string().optional(),
+    valueInteger: z.number().int().optional(),
+  })
+  .passthrough();
+const QuantitySchema = z
+  .object({
+    value: z.number(),
+    unit: z.string().optional(),
+    code: z.string().optional(),
+  })
+  .passthrough();
+const dateTime = z.string().refine((s) => !Number.isNaN(Date.parse(s)), {
+  message: "Invalid date",
+});
+const PeriodSchema = z
+  .object({ start: dateTime.optional(), end: dateTime.optional() })
+  .passthrough();
+const base = {
+  id: z.string().optional(),
+  identifier: z.array(IdentifierSchema).optional(),
+  extension: z.array(ExtensionSchema).optional(),
+};
+
+const PatientSchema = z
+  .object({
+    ...base,
+    resourceType: z.literal("Patient"),
+    name: z
+      .array(
+        z
+          .object({
+            text: z.string().optional(),
+            given: z.array(z.string()).optional(),
+            family: z.string().optional(),
+          })
+          .passthrough(),
+      )
+      .optional(),
+  })
+  .passthrough();
+
+const ConditionSchema = z
+  .object({
+    ...base,
+    resourceType: z.literal("Condition"),
+    category: z.array(CodeableConceptSchema).optional(),
+    code: CodeableConceptSchema,
+    severity: CodeableConceptSchema.optional(),
+    onsetDateTime: dateTime.optional(),
+    abatementDateTime: dateTime.optional(),
+    recordedDate: dateTime.optional(),
+  })
+  .passthrough();
+
+const ObservationSchema = z
+  .object({
+    ...base,
+    resourceType: z.literal("Observation"),
+    code: CodeableConceptSchema,
+    effectiveDateTime: dateTime.optional(),
+    effectivePeriod: PeriodSchema.optional(),
+    valueQuantity: QuantitySchema.optional(),
+    valueInteger: z.number().int().optional(),
+    valueString: z.string().optional(),
+    component: z
+      .array(
+        z
+          .object({
+            code: CodeableConceptSchema,
+            valueQuantity: QuantitySchema.optional(),
+            valueInteger: z.number().int().optional(),
+            valueString: z.string().optional(),
+          })
+          .passthrough(),
+      )
+      .optional(),
+    note: z.array(z.object({ text: z.string() }).passthrough()).optional(),
+  })
+  .passthrough();
+
+const DosageSchema = z
+  .object({
+    text: z.string().optional(),
+    timing: z
+      .object({
+        event: z.array(dateTime).optional(),
+        repeat: z
+          .object({ boundsPeriod: PeriodSchema.optional() })
+          .passthrough()
+          .optional(),
+        code: CodeableConceptSchema.optional(),
+        extension: z.array(ExtensionSchema).optional(),
+      })
+      .passthrough()
+      .optional(),
+  })
+  .passthrough();
+
+const MedicationSchema = z
+  .object({
+    ...base,
+    resourceType: z.enum(["MedicationRequest", "MedicationStatement"]),
+    medicationCodeableConcept: CodeableConceptSchema,
+    authoredOn: dateTime.optional(),
+    effectiveDateTime: dateTime.optional(),
+    effectivePeriod: PeriodSchema.optional(),
+    dosageInstruction: z.array(DosageSchema).optional(),
+    dosage: z.array(DosageSchema).optional(),
+  })
+  .passthrough();
+
+const AppointmentSchema = z
+  .object({
+    ...base,
+    resourceType: z.literal("Appointment"),
+    description: z.string().optional(),
+    serviceType: z.array(CodeableConceptSchema).optional(),
+    start: dateTime,
+  })
+  .passthrough();
+
+const IMPORTABLE_SCHEMAS = {
+  Patient: PatientSchema,
+  Condition: ConditionSchema,
+  Observation: ObservationSchema,
+  MedicationRequest: MedicationSchema,
+  MedicationStatement: MedicationSchema,
+  Appointment: AppointmentSchema,
+};
+
+type ImportableType = keyof typeof IMPORTABLE_SCHEMAS;
+type Condition = z.infer<typeof ConditionSchema>;
+type Observation = z.infer<typeof ObservationSchema>;
+type Medication = z.infer<typeof MedicationSchema>;
+type Appointment = z.infer<typeof AppointmentSchema>;
+
+export const FhirBundleSchema = z.object({
+  resourceType: z.literal("Bundle"),
+  type: z.enum([
+    "collection",
+    "document",
+    "transaction",
+    "batch",
+    "searchset",
+    "history",
+  ]),
+  entry: z
+    .array(
+      z
+        .object({
+          resource: z.object({ resourceType: z.string() }).passthrough(),
+        })
+        .passthrough(),
+    )
+    .default([]),
+});
+
+export type FhirImportPlan = {
+  profile: { full_name: string | null; condition_tags: string[] };
+  medications: Omit<MedicationReminder, "calendar_sync_token">[];
+  logs: HealthLog[];
+  appointments: AppointmentReminder[];
+  // Resources that were left out, by resourceType
+  skipped: Record<string, number>;
+  // Resources that failed validation, e.g. "Observation/abc: code: Required"
+  errors: string[];
+};
+
+const UUID_PATTERN =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * A UUID that is always the same for the same text, so importing a Bundle from another system
+ * twice updates the records from the first import instead of duplicating them.
+ */
+export function stableId(text: string): string {
+  // cyrb128: four 32-bit hashes of the text
+  let h1 = 1779033703,
+    h2 = 3144134277,
+    h3 = 1013904242,
+    h4 = 2773480762;
+  for (let i = 0; i < text.length; i++) {
+    const k = text.charCodeAt(i);
+    h1 = h2 ^ Math.imul(h1 ^ k, 597399067);
+    h2 = h3 ^ Math.imul(h2 ^ k, 2869860233);
+    h3 = h4 ^ Math.imul(h3 ^ k, 951274213);
+    h4 = h1 ^ Math.imul(h4 ^ k, 2716044179);
+  }
+  h1 = Math.imul(h3 ^ (h1 >>> 18), 597399067);
+  h2 = Math.imul(h4 ^ (h2 >>> 22), 2869860233);
+  h3 = Math.imul(h1 ^ (h3 >>> 17), 951274213);
+  h4 = Math.imul(h2 ^ (h4 >>> 19), 2716044179);
+  const hex = [h1 ^ h2 ^ h3 ^ h4, h2 ^ h1, h3 ^ h1, h4 ^ h1]
+    .map((h) => (h >>> 0).toString(16).padStart(8, "0"))
+    .join("");
+  return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-5${hex.slice(13, 16)}-${(
+    (parseInt(hex[16], 16) & 0x3) |
+    0x8
+  ).toString(16)}${hex.slice(17, 20)}-${hex.slice(20, 32)}`;
+}
+
+type RecordIdFn = (resource: { resourceType: string; id?: string }) => string;
+
+/**
+ * Picks the id each imported resource is saved under. Ids of the user's own records are kept,
+ * so re-importing their export updates the same records. Any other id is turned into one only
+ * this user gets for it, so importing someone else's export, or a Bundle whose ids are taken,
+ * never touches rows the user doesn't own.
+ */
+const recordIdsFor =
+  (userId: string, ownIds: ReadonlySet<string>): RecordIdFn =>
+  (resource) =>
+    !resource.id
+      ? crypto.randomUUID()
+      : ownIds.has(resource.id)
+        ? resource.id
+        : stableId(`${userId}/${resource.resourceType}/${resource.id}`);
+
+const ownIdentifier = (
+  resource: { identifier?: z.infer<typeof IdentifierSchema>[] },
+  system: string,
+) => resource.identifier?.find((i) => i.system === system)?.value;
+
+const hasCode = (
+  concept: z.infer<typeof CodeableConceptSchema> | undefined,
+  system: string,
+  code: string,
+) => !!concept?.coding?.some((c) => c.system === system && c.code === code);
+
+const conceptText = (concept: z.infer<typeof CodeableConceptSchema>) =>
+  concept.text?.trim() ||
+  concept.coding?.find((c) => c.display)?.display?.trim() ||
+  "";
+
+const extensionValue = (
+  extensions: z.infer<typeof ExtensionSchema>[] | undefined,
+  url: string,
+) => extensions?.find((e) => e.url === url);
+
+/**
+ * The vital an Observation (or one of its components) records, from its LOINC code.
+ */
+function vitalKeyOf(
+  code: z.infer<typeof CodeableConceptSchema>,
+): VitalKey | null {
+  for (const coding of code.coding ?? []) {
+    if (coding.system !== LOINC || !coding.code) continue;
+    if (coding.code === BLOOD_PRESSURE.systolic) return "systolic";
+    if (coding.code === BLOOD_PRESSURE.diastolic) return "diastolic";
+    const key = Object.entries(VITAL_CODES).find(
+      ([, v]) => v.code === coding.code,
+    )?.[0];
+    if (key) return key as VitalKey;
+    if (VITAL_CODE_ALIASES[coding.code]) return VITAL_CODE_ALIASES[coding.code];
+  }
+  return null;
+}
+
+const quantityValue = (q: z.infer<typeof QuantitySchema>) => {
+  const unit = q.code ?? q.unit ?? "";
+  return UNIT_CONVERSIONS[unit] ? UNIT_CONVERSIONS[unit](q.value) : q.value;
+};
+
+/**
+ * The 0-10 score of an imported Condition: our own score extension, or its SNOMED severity.
+ */
+function conditionSeverity(condition: Condition): number {
+  const score = extensionValue(
+    condition.extension,
+    SEVERITY_SCORE_EXTENSION,
+  )?.valueInteger;
+  if (score != null) return Math.min(Math.max(score, 0), 10);
+  const coded = SEVERITY_CODES.find((s) =>
+    hasCode(condition.severity, SNOMED, s.code),
+  );
+  return coded?.score ?? 0;
+}
+
+/**
+ * The symptom entry for an imported Condition, matched to the catalogue by its SNOMED or ICD-10
+ * code when it has one and by its name otherwise.
+ */
+function toConditionSymptom(condition: Condition): SymptomEntry | null {
+  const severity = conditionSeverity(condition);
+  const symptom = SYMPTOM_CATALOGUE.find(
+    (s) =>
+      (s.snomed && hasCode(condition.code, SNOMED, s.snomed)) ||
+      (s.icd10 && hasCode(condition.code, ICD10, s.icd10)),
+  );
+  if (symptom) {
+    return { symptom_id: symptom.id, name: symptom.name, severity };
+  }
+  return toSymptomEntry(conceptText(condition.code), severity);
+}
+
+const observationStart = (o: Observation) =>
+  o.effectiveDateTime ?? o.effectivePeriod?.start;
+
+/**
+ * Validates a FHIR Bundle and works out what importing it would save, without saving anything.
+ * Resources of other types (and DocumentReferences, whose files can't be fetched) are skipped;
+ * resources that fail validation are reported and left out.
+ *
+ * @param json - The parsed Bundle JSON.
+ * @param userId - The id of the user importing it.
+ * @param ownIds - (optional) The ids in the Bundle of records the user already has, which are
+ * kept (see findOwnIds).
+ * @param now - The current time, for records without one.
+ * @returns The records to save.
+ * @throws A ZodError if the JSON isn't a FHIR Bundle.
+ */
+export function planFhirImport(
+  json: unknown,
+  userId: string,
+  ownIds: ReadonlySet<string> = new Set(),
+  now = new Date(),
+): FhirImportPlan {
+  const bundle = FhirBundleSchema.parse(json);
+  const recordId = recordIdsFor(userId, ownIds);
+  const plan: FhirImportPlan = {
+    profile: { full_name: null, condition_tags: [] },
+    medications: [],
+    logs: [],
+    appointments: [],
+    skipped: {},
+    errors: [],
+  };
+
+  const conditions: Condition[] = [];
+  const observations: Observation[] = [];
+
+  bundle.entry.forEach(({ resource }, index) => {
+    const type = resource.resourceType;
+    const schema = IMPORTABLE_SCHEMAS[type as ImportableType];
+    if (!schema) {
+      plan.skipped[type] = (plan.skipped[type] ?? 0) + 1;
+      return;
+    }
+    const parsed = schema.safeParse(resource);
+    if (!parsed.success) {
+      const issue = parsed.error.issues[0];
+      plan.errors.push(
+        `${type}/${resource.id ?? `#${index + 1}`}: ${issue.path.join(".") || "resource"}: ${issue.message}`,
+      );
+      return;
+    }
+    const data = parsed.data;
+    switch (data.resourceType) {
+      case "Patient": {
+        const name = data.name?.[0];
+        plan.profile.full_name =
+          name?.text?.trim() ||
+          [...(name?.given ?? []), name?.family].filter(Boolean).join(" ") ||
+          null;
+        break;
+      }
+      case "Condition":
+        conditions.push(data);
+        break;
+      case "Observation":
+        observations.push(data);
+        break;
+      case "MedicationRequest":
+      case "MedicationStatement": {
+        const med = toMedication(data, userId, recordId, now);
+        if (med) plan.medications.push(med);
+        else {
+          plan.errors.push(
+            `${type}/${data.id ?? `#${index + 1}`}: no medication name or start time`,
+          );
+        }
+        break;
+      }
+      case "Appointment":
+        plan.appointments.push(toAppointment(data, userId, recordId));
+        break;
+    }
+  });
+
+  // Problem-list Conditions are the profile's condition tags; the rest are logged symptoms
+  const symptoms: Condition[] = [];
+  for (const condition of conditions) {
+    const isTag =
+      ownIdentifier(condition, CONDITION_TAG_SYSTEM) !== undefined ||
+      (!condition.onsetDateTime &&
+        condition.category?.some((c) =>
+          hasCode(c, CONDITION_CATEGORY, "problem-list-item"),
+        ));
+    const text = conceptText(condition.code);
+    if (isTag && text) plan.profile.condition_tags.push(text);
+    else if (!isTag) symptoms.push(condition);
+  }
+  plan.profile.condition_tags = [...new Set(plan.profile.condition_tags)];
+
+  plan.logs = toHealthLogs(
+    symptoms,
+    observations,
+    userId,
+    recordId,
+    now,
+    plan.errors,
+  );
+  return plan;
+}
+
+function toMedication(
+  data: Medication,
+  userId: string,
+  recordId: RecordIdFn,
+  now: Date,
+): FhirImportPlan["medications"][number] | null {
+  const name = conceptText(data.medicationCodeableConcept);
+  const dosage = (data.dosageInstruction ?? data.dosage)?.[0];
+  const start =
+    dosage?.timing?.event?.[0] ??
+    dosage?.timing?.repeat?.boundsPeriod?.start ??
+    data.effectiveDateTime ??
+    data.effectivePeriod?.start ??
+    data.authoredOn;
+  if (!name || !start) return null;
+
+  const rrule = extensionValue(
+    dosage?.timing?.extension,
+    RECURRENCE_RULE_EXTENSION,
+  )?.valueString;
+  const label = dosage?.timing?.code?.text ?? null;
+  const rule = rrule ? parseRRule(rrule) : recurrenceRuleFromLabel(label);
+  const recurrence = toMedicationRecurrence(rule);
+
+  return {
+    id: recordId(data),
+    user_profile_id: userId,
+    medication_name: name,
+    dosage: dosage?.text?.trim() || null,
+    reminder_time: new Date(start).toISOString(),
+    recurrence: label ?? recurrence.recurrence,
+    recurrence_rule: recurrence.recurrence_rule,
+    created_at: data.authoredOn ?? now.toISOString(),
+  };
+}
+
+function toAppointment(
+  data: Appointment,
+  userId: string,
+  recordId: RecordIdFn,
+): AppointmentReminder {
+  return {
+    id: recordId(data),
+    user_profile_id: userId,
+    appointment_name:
+      data.description?.trim() ||
+      (data.serviceType?.[0] && conceptText(data.serviceType[0])) ||
+      "Appointment",
+    date: new Date(data.start).toISOString(),
+  };
+}
+
+/**
+ * Rebuilds health logs from symptom Conditions and Observations. Resources exported by
+ * SymptomSync are grouped by their health log identifier; others make a log per Condition, and
+ * a log per time for Observations.
+ */
+function toHealthLogs(
+  conditions: Condition[],
+  observations: Observation[],
+  userId: string,
+  recordId: RecordIdFn,
+  now: Date,
+  errors: string[],
+): HealthLog[] {
+  type Draft = {
+    id: string;
+    start: string;
+    end: string | null;
+    symptoms: SymptomEntry[];
+    severity: number | null;
+    mood: string | null;
+    medicationIntake: string | null;
+    notes: string | null;
+    vitals: Record<string, number>;
+  };
+  const drafts = new Map<string, Draft>();
+  const draft = (key: string, id: string, start: string | undefined) => {
+    let d = drafts.get(key);
+    if (!d) {
+      d = {
+        id,
+        start: new Date(start ?? now).toISOString(),
+        end: null,
+        symptoms: [],
+        severity: null,
+        mood: null,
+        medicationIntake: null,
+        notes: null,
+        vitals: {},
+      };
+      drafts.set(key, d);
+    }
+    return d;
+  };
+
+  for (const condition of conditions) {
+    const logId = ownIdentifier(condition, HEALTH_LOG_SYSTEM);
+    const start = condition.onsetDateTime ?? condition.recordedDate;
+    const d = logId
+      ? draft(
+          `log:${logId}`,
+          recordId({ resourceType: "HealthLog", id: logId }),
+          start,
+        )
+      : draft(
+          `condition:${condition.id ?? drafts.size}`,
+          recordId(condition),
+          start,
+        );
+    const entry = toConditionSymptom(condition);
+    if (!entry) {
+      errors.push(`Condition/${condition.id ?? "?"}: no symptom name`);
+      continue;
+    }
+    d.symptoms.push(entry);
+    if (condition.abatementDateTime) {
+      d.end = new Date(condition.abatementDateTime).toISOString();
+    }
+  }
+
+  for (const obs of observations) {
+    const logId = ownIdentifier(obs, HEALTH_LOG_SYSTEM);
+    const start = observationStart(obs);
+    if (!logId && !start) {
+      errors.push(`Observation/${obs.id ?? "?"}: no effective time`);
+      continue;
+    }
+    const d = logId
+      ? draft(
+          `log:${logId}`,
+          recordId({ resourceType: "HealthLog", id: logId }),
+          start,
+        )
+      : draft(
+          `observation:${new Date(start!).toISOString()}`,
+          stableId(`${userId}/Observation/${new Date(start!).toISOString()}`),
+          start,
+        );
+    if (obs.effectivePeriod?.end) {
+      d.end = new Date(obs.effectivePeriod.end).toISOString();
+    }
+
+    if (hasCode(obs.code, OBSERVATION_SYSTEM, "health-log")) {
+      for (const c of obs.component ?? []) {
+        if (hasCode(c.code, OBSERVATION_SYSTEM, "severity")) {
+          d.severity = c.valueInteger ?? null;
+        } else if (hasCode(c.code, OBSERVATION_SYSTEM, "mood")) {
+          d.mood = c.valueString ?? null;
+        } else if (hasCode(c.code, OBSERVATION_SYSTEM, "medication-intake")) {
+          d.medicationIntake = c.valueString ?? null;
+        }
+      }
+      d.notes = obs.note?.map((n) => n.text).join("\n") || null;
+      continue;
+    }
+
+    const readings = [
+      { code: obs.code, valueQuantity: obs.valueQuantity },
+      ...(obs.component ?? []),
+    ];
+    for (const reading of readings) {
+      const key = vitalKeyOf(reading.code);
+      if (key && reading.valueQuantity) {
+        d.vitals[key] = quantityValue(reading.valueQuantity);
+      }
+    }
+  }
+
+  return [...drafts.values()].map((d) => {
+    const symptoms = dedupeSymptoms(d.symptoms);
+    const summary = summarizeSymptoms(symptoms);
+    return {
+      id: d.id,
+      user_profile_id: userId,
+      symptoms,
+      symptom_type: summary.symptom_type,
+      severity: d.severity ?? summary.severity,
+      mood: d.mood,
+      // Out-of-range readings are dropped, as they are when logged in the app
+      vitals: parseVitals(d.vitals),
+      medication_intake: d.medicationIntake,
+      notes: d.notes,
+      start_date: d.start,
+      end_date: d.end,
+    };
+  });
+}
+
+export type FhirImportResult = {
+  medications: number;
+  logs: number;
+  appointments: number;
+  conditionTags: number;
+  skipped: Record<string, number>;
+  errors: string[];
+  // Why the import stopped partway, if it did; the counts are what was saved before then
+  failure: string | null;
+};
+
+// The tables an import writes to, in the order it writes them
+const IMPORT_TABLES = [
+  { table: "medication_reminders", key: "medications" },
+  { table: "health_logs", key: "logs" },
+  { table: "appointment_reminders", key: "appointments" },
+] as const;
+
+// How many ids are looked up per request, to keep the URL short
+const ID_LOOKUP_CHUNK = 100;
+
+/**
+ * Finds the ids in a Bundle that belong to records the user already has: resource ids and
+ * SymptomSync's own health log identifiers.
+ *
+ * @param json - The parsed Bundle JSON.
+ * @param userId - The id of the user.
+ * @returns The ids of the user's existing records.
+ * @throws A ZodError if the JSON isn't a FHIR Bundle, or an error if the lookup fails.
+ */
+async function findOwnIds(userId: string, json: unknown): Promise<Set<string>> {
+  const candidates = new Set<string>();
+  for (const { resource } of FhirBundleSchema.parse(json).entry) {
+    const identifiers = IdentifierSchema.array()
+      .catch([])
+      .parse(resource.identifier ?? []);
+    for (const id of [resource.id, ...identifiers.map((i) => i.value)]) {
+      if (typeof id === "string" && UUID_PATTERN.test(id)) candidates.add(id);
+    }
+  }
+
+  const ids = [...candidates];
+  const own = new Set<string>();
+  for (const { table } of IMPORT_TABLES) {
+    for (let i = 0; i < ids.length; i += ID_LOOKUP_CHUNK) {
+      const { data, error } = await supabase
+        .from(table)
+        .select("id")
+        .eq("user_profile_id", userId)
+        .in("id", ids.slice(i, i + ID_LOOKUP_CHUNK));
+      if (error) throw error;
+      for (const row of data ?? []) own.add(row.id);
+    }
+  }
+  return own;
+}
+
+/**
+ * Imports a FHIR Bundle into the current user's record. Records are upserted by id, so
+ * importing the same Bundle again updates what the first import saved. Condition tags are
+ * added to the profile's, and the name is only taken from the Patient if the profile has none.
+ * The tables are written one after another; if one fails, what was already saved stays and the
+ * result says where it stopped.
+ * Note: Supabase RLS will block this operation if the user is not the owner of the record.
+ *
+ * @param userId - The id of the user.
+ * @param json - The parsed Bundle JSON.
+ * @returns How many of each record were saved, with what was skipped or invalid.
+ * @throws A ZodError if the JSON isn't a FHIR Bundle, or an error if nothing could be saved.
+ */
+export async function importFhirBundle(
+  userId: string,
+  json: unknown,
+): Promise<FhirImportResult> {
+  const plan = planFhirImport(json, userId, await findOwnIds(userId, json));
+  const result: FhirImportResult = {
+    medications: 0,
+    logs: 0,
+    appointments: 0,
+    conditionTags: 0,
+    skipped: plan.skipped,
+    errors: plan.errors,
+    failure: null,
+  };
+
+  for (const { table, key } of IMPORT_TABLES) {
+    const rows = plan[key];
+    if (rows.length === 0) continue;
+    const { error } = await supabase
+      .from(table)
+      .upsert(rows, { onConflict: "id" });
+    if (error) {
+      if (IMPORT_TABLES.every(({ key }) => result[key] === 0)) throw error;
+      console.error(`Error importing ${table}:`, error);
+      return { ...result, failure: error.message };
+    }
+    result[key] = rows.length;
+  }
+
+  const profile = await getCurrentProfile();
+  const newTags = plan.profile.condition_tags.filter(
+    (tag) =>
+      !profile?.condition_tags.some(
+        (t) => t.toLowerCase() === tag.toLowerCase(),
+      ),
+  );
+  if (
+    profile &&
+    (newTags.length > 0 || (!profile.full_name && plan.profile.full_name))
+  ) {
+    await updateProfile({
+      full_name: profile.full_name || plan.profile.full_name || "",
+      condition_tags: [...profile.condition_tags, ...newTags],
+    });
+  }
+
+  return { ...result, conditionTags: newTags.length };
+}
+
+// Supabase RLS Policy: Only allow authenticated users to export and import their own record.
+// Every table the importer writes to only lets the user insert or update their own rows.
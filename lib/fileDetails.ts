@@ -1,13 +1,17 @@
 import { supabase } from "@/lib/supabaseClient";
+import { z } from "zod";
 
-export type FileRow = {
-  id: string;
-  filename: string;
-  url: string;
-  file_type: string;
-  uploaded_at: string;
-  tags?: string[];
-};
+// Zod schema for a file record.
+export const FileRowSchema = z.object({
+  id: z.string(),
+  filename: z.string(),
+  url: z.string(),
+  file_type: z.string(),
+  uploaded_at: z.string(),
+  tags: z.array(z.string()).nullish(),
+});
+
+export type FileRow = z.infer<typeof FileRowSchema>;
 
 /**
  * Fetches the file details for a given file ID.
@@ -39,4 +43,4 @@ export async function fetchFileDetails(
 
 // Supabase RLS Policy: Table is only accessible to authenticated users.
 // Only the user who uploaded the file can access, update, or delete it.
-// They cannot access, update, or delete files uploaded by other users.
\ No newline at end of file
+// They cannot access, update, or delete files uploaded by other users.
@@ -0,0 +1,247 @@
+import {
+  GoogleGenerativeAI,
+  HarmCategory,
+  HarmBlockThreshold,
+  GenerationConfig,
+  ChatSession,
+} from "@google/generative-ai";
+import type { ChatProvider, ChatProviderRequest } from "./chatProvider";
+
+/**
+ * This file contains the Gemini implementation of the ChatProvider interface.
+ * Each message is tried against the available Gemini models in turn, starting after
+ * the last model that worked, so that rate limits on one model don't take the assistant down.
+ */
+
+type GeminiModelInfo = {
+  name?: string;
+  supportedGenerationMethods?: string[];
+};
+
+type GeminiModelListResponse = {
+  models?: GeminiModelInfo[];
+};
+
+const DEFAULT_GEMINI_MODELS = [
+  "gemini-2.5-flash-lite",
+  "gemini-2.5-flash",
+  "gemini-2.0-flash",
+  "gemini-2.0-flash-001",
+  "gemini-2.0-flash-lite",
+  "gemini-2.0-flash-lite-001",
+];
+
+// How long the model list returned by the Gemini API is reused before being fetched again
+const MODEL_CACHE_TTL_MS = 10 * 60 * 1000;
+
+let geminiModelCursor = 0;
+let cachedGeminiModels: { models: string[]; expiresAt: number } | null = null;
+
+const getRotatedModels = (models: string[], startIndex: number) => {
+  if (models.length === 0) return [];
+  const normalizedIndex =
+    ((startIndex % models.length) + models.length) % models.length;
+  return [
+    ...models.slice(normalizedIndex),
+    ...models.slice(0, normalizedIndex),
+  ];
+};
+
+const fetchGeminiModels = async (apiKey: string): Promise<string[]> => {
+  const url = new URL("https://generativelanguage.googleapis.com/v1/models");
+  url.searchParams.set("key", apiKey);
+
+  const response = await fetch(url.toString());
+  if (!response.ok) {
+    throw new Error(
+      `Failed to list Gemini models: ${response.status} ${response.statusText}`,
+    );
+  }
+
+  const data = (await response.json()) as GeminiModelListResponse;
+  if (!Array.isArray(data.models)) return [];
+
+  const seen = new Set<string>();
+  const models: string[] = [];
+
+  for (const model of data.models) {
+    const name = model.name;
+    if (!name || !name.startsWith("models/gemini-")) continue;
+
+    const lowerName = name.toLowerCase();
+    if (lowerName.includes("embedding") || lowerName.includes("-pro")) continue;
+
+    const methods = Array.isArray(model.supportedGenerationMethods)
+      ? model.supportedGenerationMethods
+      : [];
+    if (!methods.includes("generateContent")) continue;
+
+    const cleanedName = name.replace(/^models\//, "");
+    if (seen.has(cleanedName)) continue;
+    seen.add(cleanedName);
+    models.push(cleanedName);
+  }
+
+  return models;
+};
+
+/**
+ * Returns the Gemini models available to this API key, reusing the last successful
+ * model list for MODEL_CACHE_TTL_MS so we don't hit the list endpoint on every message.
+ * Falls back to DEFAULT_GEMINI_MODELS if the list can't be fetched.
+ *
+ * @param apiKey - The Gemini API key.
+ * @returns The names of the models to try, in order.
+ */
+async function getGeminiModels(apiKey: string): Promise<string[]> {
+  if (cachedGeminiModels && cachedGeminiModels.expiresAt > Date.now()) {
+    return cachedGeminiModels.models;
+  }
+
+  let models: string[] = [];
+  try {
+    models = await fetchGeminiModels(apiKey);
+  } catch {
+    models = [];
+  }
+
+  if (models.length === 0) {
+    return DEFAULT_GEMINI_MODELS;
+  }
+
+  cachedGeminiModels = { models, expiresAt: Date.now() + MODEL_CACHE_TTL_MS };
+  return models;
+}
+
+const generationConfig: GenerationConfig = {
+  temperature: 1,
+  topP: 0.95,
+  topK: 64,
+  maxOutputTokens: 8192,
+};
+
+const safetySettings = [
+  {
+    category: HarmCategory.HARM_CATEGORY_HARASSMENT,
+    threshold: HarmBlockThreshold.BLOCK_NONE,
+  },
+  {
+    category: HarmCategory.HARM_CATEGORY_HATE_SPEECH,
+    threshold: HarmBlockThreshold.BLOCK_NONE,
+  },
+  {
+    category: HarmCategory.HARM_CATEGORY_SEXUALLY_EXPLICIT,
+    threshold: HarmBlockThreshold.BLOCK_NONE,
+  },
+  {
+    category: HarmCategory.HARM_CATEGORY_DANGEROUS_CONTENT,
+    threshold: HarmBlockThreshold.BLOCK_NONE,
+  },
+];
+
+/**
+ * Starts a Gemini chat session for the request and hands it to `send`, trying each available
+ * model in turn (starting after the last one that worked) until one succeeds.
+ *
+ * @param apiKey - The Gemini API key.
+ * @param request - The chat request.
+ * @param send - Sends the latest message on the session and resolves once the model has accepted it.
+ * @returns Whatever `send` resolves to for the first model that succeeds.
+ */
+async function runWithModelFallback<T>(
+  apiKey: string,
+  { history, systemInstruction }: ChatProviderRequest,
+  send: (chatSession: ChatSession) => Promise<T>,
+): Promise<T> {
+  const genAI = new GoogleGenerativeAI(apiKey);
+
+  const modelsToTry = await getGeminiModels(apiKey);
+  if (modelsToTry.length === 0) {
+    throw new Error("No Gemini models available to handle the request.");
+  }
+
+  const startIndex = geminiModelCursor % modelsToTry.length;
+  const orderedModels = getRotatedModels(modelsToTry, startIndex);
+  let lastError: unknown = null;
+
+  for (let i = 0; i < orderedModels.length; i += 1) {
+    const modelName = orderedModels[i];
+    try {
+      const model = genAI.getGenerativeModel({
+        model: modelName,
+        systemInstruction,
+      });
+
+      const chatSession = model.startChat({
+        generationConfig,
+        safetySettings,
+        history: history.map((m) => ({
+          role: m.role,
+          parts: [{ text: m.text }],
+        })),
+      });
+
+      const result = await send(chatSession);
+
+      geminiModelCursor = (startIndex + i + 1) % modelsToTry.length;
+
+      return result;
+    } catch (err) {
+      // Don't fall back to another model if the caller gave up on the request
+      if (err instanceof Error && err.name === "AbortError") throw err;
+      lastError = err;
+    }
+  }
+
+  if (lastError instanceof Error) {
+    throw lastError;
+  }
+
+  throw new Error("Failed to get text response from the AI.");
+}
+
+/**
+ * Creates a chat provider backed by the Gemini API.
+ *
+ * @param apiKey - The Gemini API key.
+ * @returns The Gemini chat provider.
+ */
+export function createGeminiProvider(apiKey: string): ChatProvider {
+  return {
+    name: "gemini",
+
+    async send(request) {
+      return runWithModelFallback(apiKey, request, async (chatSession) => {
+        const result = await chatSession.sendMessage(request.message, {
+          signal: request.signal,
+        });
+
+        if (!result.response || !result.response.text) {
+          throw new Error("Failed to get text response from the AI.");
+        }
+
+        return result.response.text();
+      });
+    },
+
+    async *stream(request) {
+      const result = await runWithModelFallback(
+        apiKey,
+        request,
+        (chatSession) =>
+          chatSession.sendMessageStream(request.message, {
+            signal: request.signal,
+          }),
+      );
+
+      for await (const chunk of result.stream) {
+        const text = chunk.text();
+        if (text) yield text;
+      }
+    },
+
+    listModels() {
+      return getGeminiModels(apiKey);
+    },
+  };
+}
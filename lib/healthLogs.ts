@@ -1,19 +1,40 @@
 import { supabase } from "./supabaseClient";
 import { z } from "zod";
+import {
+  createWithOfflineQueue,
+  deleteWithOfflineQueue,
+  readPageWithOfflineCache,
+  readWithOfflineCache,
+  updateWithOfflineQueue,
+} from "./offlineStore";
+import { StoredVitalsSchema, Vitals } from "./vitals";
+import {
+  SymptomEntry,
+  SymptomEntrySchema,
+  parseSymptomList,
+  summarizeSymptoms,
+} from "./symptoms";
 
 /**
  * This file contains functions to manage health logs in a Supabase database.
  * It includes functions to retrieve, create, update, and delete health log records.
+ * They work offline too: reads fall back to the offline store and writes are queued until the
+ * device is back online (see lib/offlineStore.ts).
  */
 
 // Zod schema for a health log record.
 export const HealthLogSchema = z.object({
   id: z.string(),
   user_profile_id: z.string(),
+  // The log's symptoms joined with commas, and the worst of their severities
   symptom_type: z.string().nullable(),
   severity: z.number().nullable(),
+  // Each symptom with its own severity (see lib/symptoms.ts). Empty for logs saved before the
+  // catalogue; read those with getLogSymptoms.
+  symptoms: SymptomEntrySchema.array().default([]),
   mood: z.string().nullable(),
-  vitals: z.any().nullable(),
+  // Structured vitals (see lib/vitals.ts); older string vitals are read into the same shape
+  vitals: StoredVitalsSchema,
   medication_intake: z.string().nullable(),
   notes: z.string().nullable(),
   start_date: z.string(),
@@ -33,13 +54,15 @@ export type HealthLog = z.infer<typeof HealthLogSchema>;
 export async function getHealthLogsByUser(
   userId: string,
 ): Promise<HealthLog[]> {
-  const { data, error } = await supabase
-    .from("health_logs")
-    .select("*")
-    .eq("user_profile_id", userId);
+  return readWithOfflineCache("health_logs", userId, async () => {
+    const { data, error } = await supabase
+      .from("health_logs")
+      .select("*")
+      .eq("user_profile_id", userId);
 
-  if (error) throw error;
-  return HealthLogSchema.array().parse(data);
+    if (error) throw error;
+    return HealthLogSchema.array().parse(data);
+  });
 }
 
 /**
@@ -57,44 +80,60 @@ export async function getPaginatedHealthLogsByUser(
 ): Promise<{ data: HealthLog[]; count: number }> {
   const from = (page - 1) * pageSize;
   const to = page * pageSize - 1;
-  const { data, error, count } = await supabase
-    .from("health_logs")
-    .select("*", { count: "exact" })
-    .eq("user_profile_id", userId)
-    .order("start_date", { ascending: false })
-    .range(from, to);
-
-  if (error) throw error;
-  return {
-    data: HealthLogSchema.array().parse(data),
-    count: count ?? 0,
-  };
+  return readPageWithOfflineCache(
+    "health_logs",
+    userId,
+    page,
+    pageSize,
+    (a, b) => Date.parse(b.start_date) - Date.parse(a.start_date),
+    async () => {
+      const { data, error, count } = await supabase
+        .from("health_logs")
+        .select("*", { count: "exact" })
+        .eq("user_profile_id", userId)
+        .order("start_date", { ascending: false })
+        .range(from, to);
+
+      if (error) throw error;
+      return {
+        data: HealthLogSchema.array().parse(data),
+        count: count ?? 0,
+      };
+    },
+  );
 }
 
 /**
  * Creates a new health log record.
  * Note: Supabase RLS will block this operation if the user is not the owner of the record.
  *
- * @param params - The health log details.
+ * @param params - The health log details. Given symptoms, symptom_type and severity are derived
+ * from them; otherwise the symptoms are read from symptom_type.
  * @returns The created health log.
  * @throws An error if the insert fails.
  */
 export async function createHealthLog(params: {
   user_profile_id: string;
+  symptoms?: SymptomEntry[];
   symptom_type?: string | null;
   severity?: number | null;
   mood?: string | null;
-  // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  vitals?: any;
+  vitals?: Vitals | null;
   medication_intake?: string | null;
   notes?: string | null;
   start_date?: string;
   end_date?: string | null;
 }): Promise<HealthLog> {
+  const symptoms =
+    params.symptoms ?? parseSymptomList(params.symptom_type, params.severity);
+  const summary = summarizeSymptoms(symptoms);
   const insertPayload = {
+    // Generated here so a log created offline keeps its id once synced
+    id: crypto.randomUUID(),
     user_profile_id: params.user_profile_id,
-    symptom_type: params.symptom_type ?? null,
-    severity: params.severity ?? null,
+    symptoms,
+    symptom_type: summary.symptom_type ?? params.symptom_type ?? null,
+    severity: summary.severity ?? params.severity ?? null,
     mood: params.mood ?? null,
     vitals: params.vitals ?? null,
     medication_intake: params.medication_intake ?? null,
@@ -103,14 +142,20 @@ export async function createHealthLog(params: {
     end_date: params.end_date ?? new Date().toISOString(),
   };
 
-  const { data, error } = await supabase
-    .from("health_logs")
-    .insert(insertPayload)
-    .select("*")
-    .single();
+  return createWithOfflineQueue(
+    "health_logs",
+    HealthLogSchema.parse(insertPayload),
+    async () => {
+      const { data, error } = await supabase
+        .from("health_logs")
+        .insert(insertPayload)
+        .select("*")
+        .single();
 
-  if (error) throw error;
-  return HealthLogSchema.parse(data);
+      if (error) throw error;
+      return HealthLogSchema.parse(data);
+    },
+  );
 }
 
 /**
@@ -118,33 +163,48 @@ export async function createHealthLog(params: {
  * Note: Supabase RLS will block this operation if the user is not the owner of the record.
  *
  * @param id - The id of the health log to update.
- * @param updatePayload - The fields to update.
+ * @param fields - The fields to update. Given symptoms, symptom_type and severity are
+ * derived from them.
  * @returns The updated health log.
  * @throws An error if the update fails.
  */
 export async function updateHealthLog(
   id: string,
-  updatePayload: Partial<{
+  fields: Partial<{
+    symptoms: SymptomEntry[];
     symptom_type: string | null;
     severity: number | null;
     mood: string | null;
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    vitals: any;
+    vitals: Vitals | null;
     medication_intake: string | null;
     notes: string | null;
     start_date: string;
     end_date: string | null;
   }>,
 ): Promise<HealthLog> {
-  const { data, error } = await supabase
-    .from("health_logs")
-    .update(updatePayload)
-    .eq("id", id)
-    .select("*")
-    .single();
-
-  if (error) throw error;
-  return HealthLogSchema.parse(data);
+  let updatePayload = fields;
+  if (fields.symptoms) {
+    updatePayload = { ...fields, ...summarizeSymptoms(fields.symptoms) };
+  } else if (
+    fields.symptom_type !== undefined ||
+    fields.severity !== undefined
+  ) {
+    // The stored per-symptom severities no longer match, so the symptoms are read from
+    // symptom_type and severity again (see getLogSymptoms)
+    updatePayload = { ...fields, symptoms: [] };
+  }
+
+  return updateWithOfflineQueue("health_logs", id, updatePayload, async () => {
+    const { data, error } = await supabase
+      .from("health_logs")
+      .update(updatePayload)
+      .eq("id", id)
+      .select("*")
+      .single();
+
+    if (error) throw error;
+    return HealthLogSchema.parse(data);
+  });
 }
 
 /**
@@ -156,18 +216,20 @@ export async function updateHealthLog(
  * @throws An error if the deletion fails.
  */
 export async function deleteHealthLog(id: string): Promise<HealthLog> {
-  const { data, error } = await supabase
-    .from("health_logs")
-    .delete()
-    .eq("id", id)
-    .select("*")
-    .single();
-
-  if (error) throw error;
-  return HealthLogSchema.parse(data);
+  return deleteWithOfflineQueue("health_logs", id, async () => {
+    const { data, error } = await supabase
+      .from("health_logs")
+      .delete()
+      .eq("id", id)
+      .select("*")
+      .single();
+
+    if (error) throw error;
+    return HealthLogSchema.parse(data);
+  });
 }
 
 // Supabase RLS Policy: Only allow authenticated users to access their own health logs.
 // Only the user who created the health log can access, update, or delete it.
 // They cannot access, update, or delete health logs created by other users.
-// Ensure that the user is authenticated before performing any operations.
\ No newline at end of file
+// Ensure that the user is authenticated before performing any operations.
@@ -0,0 +1,561 @@
+import { addHours, format } from "date-fns";
+import type { MedicationReminder } from "./medications";
+import type { AppointmentReminder } from "./appointmentReminders";
+import { formatRRule, getMedicationRecurrenceRule } from "./recurrence";
+import {
+  getTimeZoneOffset,
+  isValidTimeZone,
+  toZonedWallClock,
+  wallClockToInstant,
+} from "./timeZone";
+
+/**
+ * This file reads and writes iCalendar (RFC 5545) files for the calendar page's import and export.
+ *
+ * Exports contain one VEVENT per appointment and one per medication, with an RRULE for recurring
+ * medications instead of one event per dose. Every event gets a UID derived from the record id
+ * (e.g. "med-<id>@symptomsync.com"), so importing an export again updates the existing records
+ * instead of creating duplicates.
+ */
+
+export type IcsEvent = {
+  uid: string | null;
+  summary: string;
+  description: string | null;
+  start: Date;
+  // Events without DTEND or DURATION end when they start
+  end: Date;
+  // VALUE=DATE events, which start at local midnight
+  allDay: boolean;
+  rrule: string | null;
+};
+
+// What an event should become in SymptomSync when it is imported
+export type IcsImportItem = {
+  type: "medication" | "appointment";
+  // The id of the record the event was exported from, if it came from SymptomSync
+  id: string | null;
+  name: string;
+  dosage: string | null;
+  start: Date;
+  rrule: string | null;
+};
+
+const UID_DOMAIN = "symptomsync.com";
+const MED_PREFIX = "💊 Med: ";
+const APPT_PREFIX = "🗓️ Appt: ";
+// Lines longer than this many bytes are folded (RFC 5545 section 3.1)
+const MAX_LINE_OCTETS = 75;
+// Years after the export whose offset changes are written into a VTIMEZONE. Subscribed feeds
+// are rebuilt on every refresh, so only a downloaded file ever gets this far.
+const VTIMEZONE_YEARS = 10;
+
+// Outlook and Exchange write Windows time zone names instead of IANA ones
+const WINDOWS_TIME_ZONES: Record<string, string> = {
+  "Eastern Standard Time": "America/New_York",
+  "Central Standard Time": "America/Chicago",
+  "Mountain Standard Time": "America/Denver",
+  "US Mountain Standard Time": "America/Phoenix",
+  "Pacific Standard Time": "America/Los_Angeles",
+  "Alaskan Standard Time": "America/Anchorage",
+  "Hawaiian Standard Time": "Pacific/Honolulu",
+  "GMT Standard Time": "Europe/London",
+  "W. Europe Standard Time": "Europe/Berlin",
+  "Romance Standard Time": "Europe/Paris",
+  "Central Europe Standard Time": "Europe/Budapest",
+  "India Standard Time": "Asia/Kolkata",
+  "China Standard Time": "Asia/Shanghai",
+  "Tokyo Standard Time": "Asia/Tokyo",
+  "AUS Eastern Standard Time": "Australia/Sydney",
+  UTC: "UTC",
+};
+
+type ContentLine = {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+};
+
+/**
+ * Escapes a TEXT value (RFC 5545 section 3.3.11).
+ *
+ * @param text - The raw text.
+ * @returns The escaped text.
+ */
+export function escapeIcsText(text: string): string {
+  return text
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r?\n/g, "\\n");
+}
+
+/**
+ * Reverses `escapeIcsText`.
+ *
+ * @param text - The escaped text.
+ * @returns The raw text.
+ */
+export function unescapeIcsText(text: string): string {
+  return text.replace(/\\([\\;,nN])/g, (_, char: string) =>
+    char === "n" || char === "N" ? "\n" : char,
+  );
+}
+
+/**
+ * Folds a content line into lines of at most 75 bytes, continued with a leading space.
+ * Never splits a multi-byte character.
+ *
+ * @param line - The content line.
+ * @returns The folded line, using CRLF line breaks.
+ */
+export function foldIcsLine(line: string): string {
+  const encoder = new TextEncoder();
+  const chunks: string[] = [];
+  let current = "";
+  let currentOctets = 0;
+
+  for (const char of line) {
+    const octets = encoder.encode(char).length;
+    // Continuation lines lose one byte to the leading space
+    const limit = chunks.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+    if (currentOctets + octets > limit) {
+      chunks.push(current);
+      current = "";
+      currentOctets = 0;
+    }
+    current += char;
+    currentOctets += octets;
+  }
+  chunks.push(current);
+
+  return chunks.join("\r\n ");
+}
+
+/**
+ * Joins folded lines back together and drops empty lines
+ */
+function unfoldLines(text: string): string[] {
+  const lines: string[] = [];
+  for (const line of text.split(/\r\n|\n|\r/)) {
+    if ((line.startsWith(" ") || line.startsWith("\t")) && lines.length > 0) {
+      lines[lines.length - 1] += line.slice(1);
+    } else if (line.trim()) {
+      lines.push(line);
+    }
+  }
+  return lines;
+}
+
+/**
+ * Splits a content line into its name, parameters and value. Parameter values may be quoted,
+ * in which case they can contain ":", ";" and ",".
+ */
+function parseContentLine(line: string): ContentLine | null {
+  let i = 0;
+  let inQuotes = false;
+  const segments: string[] = [];
+  let segmentStart = 0;
+
+  for (; i < line.length; i++) {
+    const char = line[i];
+    if (char === '"') inQuotes = !inQuotes;
+    if (inQuotes) continue;
+    if (char === ";") {
+      segments.push(line.slice(segmentStart, i));
+      segmentStart = i + 1;
+    } else if (char === ":") {
+      break;
+    }
+  }
+  if (i >= line.length) return null;
+  segments.push(line.slice(segmentStart, i));
+
+  const [name, ...paramSegments] = segments;
+  const params: Record<string, string> = {};
+  for (const segment of paramSegments) {
+    const eq = segment.indexOf("=");
+    if (eq === -1) continue;
+    params[segment.slice(0, eq).toUpperCase()] = segment
+      .slice(eq + 1)
+      .replace(/^"(.*)"$/, "$1");
+  }
+
+  return { name: name.toUpperCase(), params, value: line.slice(i + 1) };
+}
+
+/**
+ * Resolves a TZID parameter to an IANA time zone name, or null if it isn't one we know
+ */
+function resolveTimeZone(tzid: string): string | null {
+  // Some producers prefix the zone with a path, e.g. "/mozilla.org/20050126_1/America/New_York"
+  const name =
+    WINDOWS_TIME_ZONES[tzid] ?? tzid.replace(/^\/[^/]+\/[^/]+\//, "");
+  return isValidTimeZone(name) ? name : null;
+}
+
+/**
+ * Parses a DATE or DATE-TIME value. UTC ("Z") and TZID times are converted to the exact
+ * instant; floating times, unknown time zones and dates are read as local time.
+ *
+ * @param value - The value, e.g. "20250105T083000Z" or "20250105".
+ * @param params - The parameters of the property (VALUE and TZID are used).
+ * @returns The date and whether it is a date without a time, or null if it can't be read.
+ */
+export function parseIcsDate(
+  value: string,
+  params: Record<string, string> = {},
+): { date: Date; allDay: boolean } | null {
+  const match = value
+    .trim()
+    .match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})?(Z)?)?$/);
+  if (!match) return null;
+
+  const [, y, mo, d, h, mi, s = "00", utc] = match;
+  if (h === undefined || params.VALUE === "DATE") {
+    return { date: new Date(+y, +mo - 1, +d), allDay: true };
+  }
+
+  const fields = [+y, +mo - 1, +d, +h, +mi, +s] as const;
+  if (utc) return { date: new Date(Date.UTC(...fields)), allDay: false };
+
+  const timeZone = params.TZID ? resolveTimeZone(params.TZID) : null;
+  if (!timeZone) return { date: new Date(...fields), allDay: false };
+
+  return {
+    date: wallClockToInstant(Date.UTC(...fields), timeZone),
+    allDay: false,
+  };
+}
+
+/**
+ * Adds an RFC 5545 DURATION (e.g. "PT1H30M" or "P1D") to a date
+ */
+function addIcsDuration(date: Date, duration: string): Date {
+  const match = duration.match(
+    /^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/,
+  );
+  if (!match) return date;
+  const [, sign, w = 0, d = 0, h = 0, m = 0, s = 0] = match;
+  const seconds = (((+w * 7 + +d) * 24 + +h) * 60 + +m) * 60 + +s;
+  return new Date(date.getTime() + (sign === "-" ? -1 : 1) * seconds * 1000);
+}
+
+/**
+ * Parses the events of an iCalendar file. Events of any age are kept, and properties of
+ * nested components (e.g. VALARM reminders) don't leak into their event.
+ *
+ * @param text - The contents of the .ics file.
+ * @returns The events that have a start time, in file order.
+ */
+export function parseIcs(text: string): IcsEvent[] {
+  const events: IcsEvent[] = [];
+  // The components we are inside of, innermost last
+  const stack: string[] = [];
+  let current: Partial<IcsEvent> & { duration?: string } = {};
+
+  for (const line of unfoldLines(text)) {
+    const content = parseContentLine(line);
+    if (!content) continue;
+    const { name, params, value } = content;
+
+    if (name === "BEGIN") {
+      stack.push(value.toUpperCase());
+      if (value.toUpperCase() === "VEVENT") current = {};
+      continue;
+    }
+    if (name === "END") {
+      const component = stack.pop();
+      if (component === "VEVENT" && current.start) {
+        events.push({
+          uid: current.uid ?? null,
+          summary: current.summary ?? "",
+          description: current.description ?? null,
+          start: current.start,
+          end:
+            current.end ??
+            (current.duration
+              ? addIcsDuration(current.start, current.duration)
+              : current.start),
+          allDay: current.allDay ?? false,
+          rrule: current.rrule ?? null,
+        });
+      }
+      continue;
+    }
+    if (stack[stack.length - 1] !== "VEVENT") continue;
+
+    switch (name) {
+      case "UID":
+        current.uid = value.trim();
+        break;
+      case "SUMMARY":
+        current.summary = unescapeIcsText(value).trim();
+        break;
+      case "DESCRIPTION":
+        current.description = unescapeIcsText(value).trim();
+        break;
+      case "DTSTART": {
+        const parsed = parseIcsDate(value, params);
+        if (parsed) {
+          current.start = parsed.date;
+          current.allDay = parsed.allDay;
+        }
+        break;
+      }
+      case "DTEND": {
+        const parsed = parseIcsDate(value, params);
+        if (parsed) current.end = parsed.date;
+        break;
+      }
+      case "DURATION":
+        current.duration = value.trim();
+        break;
+      case "RRULE":
+        current.rrule = value.trim();
+        break;
+    }
+  }
+
+  return events;
+}
+
+/**
+ * Works out what an imported event is. Events exported by SymptomSync are recognized by their
+ * UID; other events count as medications when their title starts with "Med:" or "Medication:".
+ *
+ * @param event - The parsed event.
+ * @returns The medication or appointment to create or update.
+ */
+export function classifyIcsEvent(event: IcsEvent): IcsImportItem {
+  const uid = event.uid?.match(
+    new RegExp(`^(med|appt)-(.+)@${UID_DOMAIN.replace(".", "\\.")}$`),
+  );
+  const title = event.summary.replace(/^[^\p{L}\p{N}]+/u, "");
+  const medTitle = title.match(/^(?:Med|Medication):\s*(.*)$/i);
+  const apptTitle = title.match(/^Appt:\s*(.*)$/i);
+
+  const type =
+    uid?.[1] === "med" || (!uid && medTitle) ? "medication" : "appointment";
+  const name =
+    (type === "medication" ? medTitle?.[1] : apptTitle?.[1])?.trim() ||
+    title ||
+    "Untitled event";
+  const dosage =
+    event.description?.match(/^Dosage:\s*(.+)$/im)?.[1].trim() ?? null;
+
+  return {
+    type,
+    id: uid ? uid[2] : null,
+    name,
+    dosage: type === "medication" ? dosage : null,
+    start: event.start,
+    rrule: event.rrule,
+  };
+}
+
+const formatUtc = (date: Date) =>
+  date.toISOString().replace(/[-:]|\.\d{3}/g, "");
+
+const formatFloating = (date: Date) => format(date, "yyyyMMdd'T'HHmmss");
+
+// The wall-clock time of a date in a time zone, in the same form as `formatFloating`
+const formatInTimeZone = (date: Date, timeZone: string) =>
+  formatFloating(toZonedWallClock(date, timeZone));
+
+// A UTC offset in milliseconds as TZOFFSETFROM/TZOFFSETTO write it, e.g. "-0500"
+const formatUtcOffset = (offset: number) => {
+  const minutes = Math.abs(offset) / 60000;
+  const hh = String(Math.floor(minutes / 60)).padStart(2, "0");
+  const mm = String(minutes % 60).padStart(2, "0");
+  return `${offset < 0 ? "-" : "+"}${hh}${mm}`;
+};
+
+/**
+ * Builds the VTIMEZONE that defines a TZID, with one observance per change of its UTC offset
+ * between two dates. Calendar apps that don't know IANA names, such as Outlook, only have this
+ * to go on.
+ */
+function vtimezoneLines(timeZone: string, from: Date, to: Date): string[] {
+  const offsetAt = (time: number) => getTimeZoneOffset(time, timeZone);
+  const transitions: { time: number; from: number; to: number }[] = [];
+  const week = 7 * 24 * 60 * 60 * 1000;
+
+  // Offsets change at most a few times a year, so look a week at a time and then narrow
+  // each change down to the minute
+  for (let time = from.getTime(); time < to.getTime(); time += week) {
+    let before = time;
+    let after = Math.min(time + week, to.getTime());
+    const offsetBefore = offsetAt(before);
+    const offsetAfter = offsetAt(after);
+    if (offsetBefore === offsetAfter) continue;
+    while (after - before > 60000) {
+      const middle =
+        before + Math.max(1, Math.floor((after - before) / 120000)) * 60000;
+      if (offsetAt(middle) === offsetBefore) before = middle;
+      else after = middle;
+    }
+    transitions.push({ time: after, from: offsetBefore, to: offsetAfter });
+  }
+
+  const observance = (
+    kind: "STANDARD" | "DAYLIGHT",
+    start: string,
+    offsetFrom: number,
+    offsetTo: number,
+  ) => [
+    `BEGIN:${kind}`,
+    `DTSTART:${start}`,
+    `TZOFFSETFROM:${formatUtcOffset(offsetFrom)}`,
+    `TZOFFSETTO:${formatUtcOffset(offsetTo)}`,
+    `END:${kind}`,
+  ];
+  // Changes to a larger offset start daylight saving time. The offset before the first change
+  // applies from the start of the range.
+  const kindOf = (t: { from: number; to: number }) =>
+    t.to > t.from ? "DAYLIGHT" : "STANDARD";
+  const initial = offsetAt(from.getTime());
+  const lines = [
+    "BEGIN:VTIMEZONE",
+    `TZID:${timeZone}`,
+    ...observance(
+      transitions.length > 0 && kindOf(transitions[0]) === "STANDARD"
+        ? "DAYLIGHT"
+        : "STANDARD",
+      formatFloating(toZonedWallClock(from, timeZone)),
+      initial,
+      initial,
+    ),
+  ];
+  for (const t of transitions) {
+    // DTSTART is the wall-clock time the change happens at, before the clocks move
+    lines.push(
+      ...observance(
+        kindOf(t),
+        formatUtc(new Date(t.time + t.from)).replace("Z", ""),
+        t.from,
+        t.to,
+      ),
+    );
+  }
+  lines.push("END:VTIMEZONE");
+  return lines;
+}
+
+/**
+ * Builds an iCalendar file of the user's appointments and medications.
+ *
+ * Recurring medications are written with floating (local) times, because their times of day are
+ * local times wherever the user is; everything else is written in UTC. When the file is built on
+ * the server, where local time isn't the user's, pass the user's `timeZone` so recurring
+ * medications are written in that zone instead, along with a VTIMEZONE defining it.
+ *
+ * @param records - The medications and appointments to export.
+ * @param options - (optional) The calendar name, the time the export was made, and for subscribed
+ * feeds how often calendar apps should refresh (an RFC 5545 duration such as "PT1H") and the
+ * user's IANA time zone.
+ * @returns The contents of the .ics file.
+ */
+export function generateIcs(
+  {
+    medications,
+    appointments,
+  }: {
+    medications: MedicationReminder[];
+    appointments: AppointmentReminder[];
+  },
+  {
+    calendarName = "SymptomSync Calendar",
+    now = new Date(),
+    refreshInterval,
+    timeZone,
+  }: {
+    calendarName?: string;
+    now?: Date;
+    refreshInterval?: string;
+    timeZone?: string;
+  } = {},
+): string {
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//SymptomSync//EN",
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    `X-WR-CALNAME:${escapeIcsText(calendarName)}`,
+  ];
+  if (refreshInterval) {
+    // RFC 7986, plus the older property Outlook reads
+    lines.push(
+      `REFRESH-INTERVAL;VALUE=DURATION:${refreshInterval}`,
+      `X-PUBLISHED-TTL:${refreshInterval}`,
+    );
+  }
+  const stamp = formatUtc(now);
+  const zone = timeZone ? resolveTimeZone(timeZone) : null;
+
+  // The TZID of recurring medications needs a VTIMEZONE covering every dose
+  const recurring = medications.filter((med) =>
+    getMedicationRecurrenceRule(med),
+  );
+  if (zone && recurring.length > 0) {
+    const earliest = Math.min(
+      now.getTime(),
+      ...recurring.map((med) => new Date(med.reminder_time).getTime()),
+    );
+    lines.push(
+      ...vtimezoneLines(
+        zone,
+        new Date(Date.UTC(new Date(earliest).getUTCFullYear(), 0, 1)),
+        new Date(Date.UTC(now.getUTCFullYear() + VTIMEZONE_YEARS + 1, 0, 1)),
+      ),
+    );
+  }
+
+  for (const appt of appointments) {
+    const start = new Date(appt.date);
+    lines.push(
+      "BEGIN:VEVENT",
+      `UID:appt-${appt.id}@${UID_DOMAIN}`,
+      `DTSTAMP:${stamp}`,
+      `DTSTART:${formatUtc(start)}`,
+      `DTEND:${formatUtc(addHours(start, 1))}`,
+      `SUMMARY:${escapeIcsText(`${APPT_PREFIX}${appt.appointment_name}`)}`,
+      "END:VEVENT",
+    );
+  }
+
+  for (const med of medications) {
+    const start = new Date(med.reminder_time);
+    const rule = getMedicationRecurrenceRule(med);
+    lines.push(
+      "BEGIN:VEVENT",
+      `UID:med-${med.id}@${UID_DOMAIN}`,
+      `DTSTAMP:${stamp}`,
+    );
+    if (!rule) {
+      lines.push(`DTSTART:${formatUtc(start)}`);
+    } else if (zone) {
+      // UNTIL has to be in UTC when DTSTART has a time zone
+      lines.push(
+        `DTSTART;TZID=${zone}:${formatInTimeZone(start, zone)}`,
+        `RRULE:${formatRRule(rule)}`,
+      );
+    } else {
+      lines.push(
+        `DTSTART:${formatFloating(start)}`,
+        `RRULE:${formatRRule(rule, { floating: true })}`,
+      );
+    }
+    lines.push(
+      `SUMMARY:${escapeIcsText(`${MED_PREFIX}${med.medication_name}`)}`,
+    );
+    if (med.dosage) {
+      lines.push(`DESCRIPTION:${escapeIcsText(`Dosage: ${med.dosage}`)}`);
+    }
+    lines.push("END:VEVENT");
+  }
+
+  lines.push("END:VCALENDAR");
+  return lines.map(foldIcsLine).join("\r\n") + "\r\n";
+}
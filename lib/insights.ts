@@ -0,0 +1,378 @@
+import type { HealthLog } from "./healthLogs";
+import type { MedicationReminder } from "./medications";
+import { getLogSymptoms } from "./symptoms";
+
+/**
+ * This file finds patterns in a user's health logs for the Insights section of the dashboard:
+ * how severity changed after starting a medication, which symptoms are logged together, and
+ * which days, times of day and moods come with worse symptoms. Each finding is a correlation in
+ * the user's own data, rated by how much data backs it, never a claim about cause.
+ */
+
+export type InsightKind =
+  | "medication"
+  | "co-occurrence"
+  | "day-of-week"
+  | "time-of-day"
+  | "mood";
+
+export type InsightConfidence = "low" | "medium" | "high";
+
+export type Insight = {
+  id: string;
+  kind: InsightKind;
+  title: string;
+  // The finding in plain language
+  description: string;
+  confidence: InsightConfidence;
+  // What the finding rests on, e.g. "Based on 12 logs before and 9 after"
+  basis: string;
+  // The size of the effect, used to order findings of the same confidence
+  strength: number;
+};
+
+// How many days of logs before and after starting a medication are compared
+export const MEDICATION_WINDOW_DAYS = 30;
+// The smallest difference in average severity worth reporting, in points out of 10
+export const MIN_SEVERITY_DIFFERENCE = 1;
+// The fewest logs each side of a comparison needs
+export const MIN_GROUP_SIZE = 3;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const WEEKDAYS = [
+  "Sundays",
+  "Mondays",
+  "Tuesdays",
+  "Wednesdays",
+  "Thursdays",
+  "Fridays",
+  "Saturdays",
+];
+const TIMES_OF_DAY = [
+  { label: "at night", from: 22, to: 5 },
+  { label: "in the morning", from: 5, to: 12 },
+  { label: "in the afternoon", from: 12, to: 17 },
+  { label: "in the evening", from: 17, to: 22 },
+];
+const CONFIDENCE_RANK: Record<InsightConfidence, number> = {
+  high: 0,
+  medium: 1,
+  low: 2,
+};
+
+export type GroupComparison = {
+  meanIn: number;
+  meanRest: number;
+  difference: number;
+  confidence: InsightConfidence;
+};
+
+const mean = (values: number[]) =>
+  values.reduce((sum, v) => sum + v, 0) / values.length;
+
+const variance = (values: number[]) => {
+  const m = mean(values);
+  return (
+    values.reduce((sum, v) => sum + (v - m) ** 2, 0) /
+    Math.max(values.length - 1, 1)
+  );
+};
+
+const round1 = (value: number) => Math.round(value * 10) / 10;
+
+const plural = (count: number, word: string) =>
+  `${count} ${word}${count === 1 ? "" : "s"}`;
+
+/**
+ * Compares the severities of one group of logs with the rest. Confidence comes from the size of
+ * the smaller group and Welch's t statistic, so a large difference over a handful of logs still
+ * rates low.
+ *
+ * @param group - The severities in the group.
+ * @param rest - The severities outside it.
+ * @returns The comparison, or null if either side has fewer than MIN_GROUP_SIZE logs.
+ */
+export function compareSeverities(
+  group: number[],
+  rest: number[],
+): GroupComparison | null {
+  if (group.length < MIN_GROUP_SIZE || rest.length < MIN_GROUP_SIZE) {
+    return null;
+  }
+  const meanIn = mean(group);
+  const meanRest = mean(rest);
+  const difference = meanIn - meanRest;
+  const standardError = Math.sqrt(
+    variance(group) / group.length + variance(rest) / rest.length,
+  );
+  const t =
+    standardError === 0
+      ? difference === 0
+        ? 0
+        : Infinity
+      : Math.abs(difference) / standardError;
+  const smaller = Math.min(group.length, rest.length);
+
+  let confidence: InsightConfidence = "low";
+  if (smaller >= 10 && t >= 3) confidence = "high";
+  else if (smaller >= 5 && t >= 2) confidence = "medium";
+
+  return { meanIn, meanRest, difference, confidence };
+}
+
+const severityOf = (log: HealthLog) => log.severity ?? 0;
+const hasSeverity = (log: HealthLog) => log.severity != null;
+
+/**
+ * Compares the average severity in the MEDICATION_WINDOW_DAYS before and after each medication's
+ * first reminder.
+ *
+ * @param logs - The user's health logs.
+ * @param medications - The user's medication reminders.
+ * @param now - The current time; medications started in the future are skipped.
+ * @returns One insight per medication with a large enough change.
+ */
+export function findMedicationInsights(
+  logs: HealthLog[],
+  medications: MedicationReminder[],
+  now = new Date(),
+): Insight[] {
+  const windowMs = MEDICATION_WINDOW_DAYS * DAY_MS;
+  const insights: Insight[] = [];
+
+  for (const med of medications) {
+    const start = new Date(med.reminder_time).getTime();
+    if (Number.isNaN(start) || start > now.getTime()) continue;
+
+    const before: number[] = [];
+    const after: number[] = [];
+    for (const log of logs.filter(hasSeverity)) {
+      const offset = new Date(log.start_date).getTime() - start;
+      if (offset >= -windowMs && offset < 0) before.push(severityOf(log));
+      else if (offset >= 0 && offset < windowMs) after.push(severityOf(log));
+    }
+
+    const comparison = compareSeverities(after, before);
+    if (
+      !comparison ||
+      Math.abs(comparison.difference) < MIN_SEVERITY_DIFFERENCE
+    ) {
+      continue;
+    }
+    const change = comparison.difference < 0 ? "lower" : "higher";
+    insights.push({
+      id: `medication:${med.id}`,
+      kind: "medication",
+      title: `Severity ${change} since starting ${med.medication_name}`,
+      description: `Your average severity was ${round1(comparison.meanRest)} in the ${MEDICATION_WINDOW_DAYS} days before you started ${med.medication_name} and ${round1(comparison.meanIn)} in the ${MEDICATION_WINDOW_DAYS} days after, ${round1(Math.abs(comparison.difference))} points ${change}.`,
+      confidence: comparison.confidence,
+      basis: `Based on ${plural(before.length, "log")} before and ${after.length} after`,
+      strength: Math.abs(comparison.difference),
+    });
+  }
+  return insights;
+}
+
+/**
+ * Finds symptoms that are logged together more often than chance: at least MIN_GROUP_SIZE
+ * times, in at least half the logs of the rarer symptom.
+ *
+ * @param logs - The user's health logs.
+ * @returns One insight per pair of symptoms.
+ */
+export function findCoOccurrenceInsights(logs: HealthLog[]): Insight[] {
+  const counts = new Map<string, number>();
+  const pairs = new Map<string, number>();
+
+  for (const log of logs) {
+    const names = [...new Set(getLogSymptoms(log).map((s) => s.name))].sort();
+    for (const name of names) counts.set(name, (counts.get(name) ?? 0) + 1);
+    names.forEach((a, i) =>
+      names.slice(i + 1).forEach((b) => {
+        const key = `${a}\u0000${b}`;
+        pairs.set(key, (pairs.get(key) ?? 0) + 1);
+      }),
+    );
+  }
+
+  const insights: Insight[] = [];
+  for (const [key, together] of pairs) {
+    if (together < MIN_GROUP_SIZE) continue;
+    const [a, b] = key.split("\u0000");
+    const countA = counts.get(a)!;
+    const countB = counts.get(b)!;
+    const [rarer, rarerCount] = countA <= countB ? [a, countA] : [b, countB];
+    const other = rarer === a ? b : a;
+    const share = together / rarerCount;
+    // How much more often they come together than if they were logged independently
+    const lift = (together * logs.length) / (countA * countB);
+    if (share < 0.5 || lift <= 1) continue;
+
+    let confidence: InsightConfidence = "low";
+    if (together >= 10 && lift >= 1.5) confidence = "high";
+    else if (together >= 5) confidence = "medium";
+
+    insights.push({
+      id: `co-occurrence:${a}:${b}`,
+      kind: "co-occurrence",
+      title: `${a} and ${b} often come together`,
+      description: `${other} was logged alongside ${rarer} in ${together} of the ${rarerCount} logs with ${rarer} (${Math.round(share * 100)}%).`,
+      confidence,
+      basis: `Based on ${plural(together, "log")} with both`,
+      strength: share,
+    });
+  }
+  return insights;
+}
+
+/**
+ * Finds the group of logs (e.g. the ones on Mondays) with the most different average severity
+ * from the rest, and describes it if the difference is large enough.
+ */
+function findWorstGroup(
+  logs: HealthLog[],
+  groupOf: (log: HealthLog) => number,
+  labels: string[],
+): { index: number; size: number; comparison: GroupComparison } | null {
+  const rated = logs.filter(hasSeverity);
+  let worst: {
+    index: number;
+    size: number;
+    comparison: GroupComparison;
+  } | null = null;
+
+  for (let index = 0; index < labels.length; index++) {
+    const group = rated.filter((l) => groupOf(l) === index).map(severityOf);
+    const rest = rated.filter((l) => groupOf(l) !== index).map(severityOf);
+    const comparison = compareSeverities(group, rest);
+    if (
+      comparison &&
+      comparison.difference >= MIN_SEVERITY_DIFFERENCE &&
+      (!worst || comparison.difference > worst.comparison.difference)
+    ) {
+      worst = { index, size: group.length, comparison };
+    }
+  }
+  return worst;
+}
+
+/**
+ * Finds the day of the week whose logs are the most severe compared with the other days.
+ *
+ * @param logs - The user's health logs.
+ * @returns The insight, if a day stands out.
+ */
+export function findDayOfWeekInsights(logs: HealthLog[]): Insight[] {
+  const worst = findWorstGroup(
+    logs,
+    (l) => new Date(l.start_date).getDay(),
+    WEEKDAYS,
+  );
+  if (!worst) return [];
+  const day = WEEKDAYS[worst.index];
+  return [
+    {
+      id: `day-of-week:${worst.index}`,
+      kind: "day-of-week",
+      title: `Symptoms are worse on ${day}`,
+      description: `Your average severity on ${day} is ${round1(worst.comparison.meanIn)}, compared with ${round1(worst.comparison.meanRest)} on other days.`,
+      confidence: worst.comparison.confidence,
+      basis: `Based on ${plural(worst.size, "log")} on ${day}`,
+      strength: worst.comparison.difference,
+    },
+  ];
+}
+
+/**
+ * Finds the time of day (morning, afternoon, evening or night) whose logs are the most severe
+ * compared with the rest.
+ *
+ * @param logs - The user's health logs.
+ * @returns The insight, if a time of day stands out.
+ */
+export function findTimeOfDayInsights(logs: HealthLog[]): Insight[] {
+  const timeOfDay = (log: HealthLog) => {
+    const hour = new Date(log.start_date).getHours();
+    return TIMES_OF_DAY.findIndex(({ from, to }) =>
+      from < to ? hour >= from && hour < to : hour >= from || hour < to,
+    );
+  };
+  const labels = TIMES_OF_DAY.map((t) => t.label);
+  const worst = findWorstGroup(logs, timeOfDay, labels);
+  if (!worst) return [];
+  const when = labels[worst.index];
+  return [
+    {
+      id: `time-of-day:${worst.index}`,
+      kind: "time-of-day",
+      title: `Symptoms are worse ${when}`,
+      description: `Logs you start ${when} have an average severity of ${round1(worst.comparison.meanIn)}, compared with ${round1(worst.comparison.meanRest)} at other times.`,
+      confidence: worst.comparison.confidence,
+      basis: `Based on ${plural(worst.size, "log")} ${when}`,
+      strength: worst.comparison.difference,
+    },
+  ];
+}
+
+/**
+ * Compares the severity of the logs with each mood against the logs with other moods.
+ *
+ * @param logs - The user's health logs.
+ * @returns One insight per mood that comes with notably higher or lower severity.
+ */
+export function findMoodInsights(logs: HealthLog[]): Insight[] {
+  const withMood = logs.filter((l) => hasSeverity(l) && l.mood?.trim());
+  const moodOf = (l: HealthLog) => l.mood!.trim().toLowerCase();
+  const moods = [...new Set(withMood.map(moodOf))];
+
+  return moods.flatMap((mood): Insight[] => {
+    const group = withMood.filter((l) => moodOf(l) === mood).map(severityOf);
+    const rest = withMood.filter((l) => moodOf(l) !== mood).map(severityOf);
+    const comparison = compareSeverities(group, rest);
+    if (
+      !comparison ||
+      Math.abs(comparison.difference) < MIN_SEVERITY_DIFFERENCE
+    ) {
+      return [];
+    }
+    const label = mood.charAt(0).toUpperCase() + mood.slice(1);
+    const change = comparison.difference > 0 ? "higher" : "lower";
+    return [
+      {
+        id: `mood:${mood}`,
+        kind: "mood",
+        title: `Severity is ${change} when you feel ${label}`,
+        description: `When you logged feeling ${label}, your average severity was ${round1(comparison.meanIn)}, compared with ${round1(comparison.meanRest)} with other moods.`,
+        confidence: comparison.confidence,
+        basis: `Based on ${plural(group.length, "log")} with this mood`,
+        strength: Math.abs(comparison.difference),
+      },
+    ];
+  });
+}
+
+/**
+ * Finds every insight in a user's data, the most confident and strongest first.
+ *
+ * @param logs - The user's health logs.
+ * @param medications - The user's medication reminders.
+ * @param now - The current time.
+ * @returns The insights.
+ */
+export function computeInsights(
+  logs: HealthLog[],
+  medications: MedicationReminder[],
+  now = new Date(),
+): Insight[] {
+  return [
+    ...findMedicationInsights(logs, medications, now),
+    ...findCoOccurrenceInsights(logs),
+    ...findDayOfWeekInsights(logs),
+    ...findTimeOfDayInsights(logs),
+    ...findMoodInsights(logs),
+  ].sort(
+    (a, b) =>
+      CONFIDENCE_RANK[a.confidence] - CONFIDENCE_RANK[b.confidence] ||
+      b.strength - a.strength,
+  );
+}
@@ -0,0 +1,255 @@
+import { supabase } from "./supabaseClient";
+import { z } from "zod";
+import { addMinutes, differenceInMinutes } from "date-fns";
+import type { MedicationReminder } from "./medications";
+import { getLatestOccurrence, getMedicationRecurrenceRule } from "./recurrence";
+
+/**
+ * This file contains functions to track whether each scheduled dose of a medication was taken,
+ * skipped, snoozed or missed, and to work out how well the user is sticking to their medications.
+ * Doses nobody confirms are marked missed by the reminder scheduler (lib/reminderScheduler.ts).
+ */
+
+// Zod schema for a medication dose.
+export const MedicationDoseSchema = z.object({
+  id: z.string(),
+  medication_id: z.string(),
+  user_profile_id: z.string(),
+  scheduled_for: z.string(),
+  status: z.enum(["taken", "skipped", "snoozed", "missed"]),
+  taken_at: z.string().nullable(),
+  snoozed_until: z.string().nullable(),
+  created_at: z.string(),
+});
+
+export type MedicationDose = z.infer<typeof MedicationDoseSchema>;
+export type MedicationDoseStatus = MedicationDose["status"];
+
+// A dose taken more than this long after it was scheduled counts as late
+export const LATE_DOSE_MINUTES = 60;
+// How long "Snooze" puts a dose off for, unless the user picked another length
+export const SNOOZE_MINUTES = 10;
+// A dose coming up within this window can already be marked
+const UPCOMING_DOSE_MINUTES = 60;
+// Notification actions that snooze for a given length look like "snooze-30"
+const SNOOZE_ACTION_PREFIX = "snooze-";
+
+/**
+ * Retrieves the doses recorded for a given user, most recently scheduled first.
+ * Note: Supabase RLS will block this operation if the user is not the owner of the record.
+ *
+ * @param userId - The id of the user.
+ * @param since - (optional) Only return doses scheduled at or after this ISO timestamp.
+ * @returns An array of medication doses.
+ * @throws An error if the query fails.
+ */
+export async function getMedicationDosesByUser(
+  userId: string,
+  since?: string,
+): Promise<MedicationDose[]> {
+  let query = supabase
+    .from("medication_doses")
+    .select("*")
+    .eq("user_profile_id", userId);
+
+  if (since) query = query.gte("scheduled_for", since);
+
+  const { data, error } = await query.order("scheduled_for", {
+    ascending: false,
+  });
+
+  if (error) throw error;
+  return MedicationDoseSchema.array().parse(data);
+}
+
+/**
+ * Marks a scheduled dose as taken, skipped or snoozed. Marking a dose that was already
+ * marked replaces its status, so a snoozed dose can later be taken.
+ * Note: Supabase RLS will block this operation if the user is not the owner of the record.
+ *
+ * @param params - The medication, its owner, the time the dose was scheduled for and the new
+ * status, and for snoozes (optionally) how many minutes to snooze for.
+ * @returns The created or updated medication dose.
+ * @throws An error if the upsert fails.
+ */
+export async function recordMedicationDose({
+  medication_id,
+  user_profile_id,
+  scheduled_for,
+  status,
+  snoozeMinutes = SNOOZE_MINUTES,
+}: {
+  medication_id: string;
+  user_profile_id: string;
+  scheduled_for: string;
+  status: MedicationDoseStatus;
+  snoozeMinutes?: number;
+}): Promise<MedicationDose> {
+  const now = new Date();
+  const { data, error } = await supabase
+    .from("medication_doses")
+    .upsert(
+      [
+        {
+          medication_id,
+          user_profile_id,
+          scheduled_for: new Date(scheduled_for).toISOString(),
+          status,
+          taken_at: status === "taken" ? now.toISOString() : null,
+          snoozed_until:
+            status === "snoozed"
+              ? new Date(
+                  now.getTime() + snoozeMinutes * 60 * 1000,
+                ).toISOString()
+              : null,
+        },
+      ],
+      { onConflict: "medication_id,scheduled_for" },
+    )
+    .select("*")
+    .single();
+
+  if (error) throw error;
+  return MedicationDoseSchema.parse(data);
+}
+
+/**
+ * Updates a recorded dose, e.g. to correct the time it was taken at.
+ * Note: Supabase RLS will block this operation if the user is not the owner of the record.
+ *
+ * @param id - The id of the medication dose.
+ * @param updates - The fields to update.
+ * @returns The updated medication dose.
+ * @throws An error if the update fails.
+ */
+export async function updateMedicationDose(
+  id: string,
+  updates: Partial<
+    Pick<MedicationDose, "status" | "taken_at" | "snoozed_until">
+  >,
+): Promise<MedicationDose> {
+  const { data, error } = await supabase
+    .from("medication_doses")
+    .update(updates)
+    .eq("id", id)
+    .select("*")
+    .single();
+
+  if (error) throw error;
+  return MedicationDoseSchema.parse(data);
+}
+
+/**
+ * Works out which dose of a medication the user is being reminded about right now: the latest
+ * scheduled dose, or the next one if it is less than an hour away. Medications that haven't
+ * started yet, and one-off and "As Needed" medications, have the dose at their reminder time.
+ *
+ * @param med - The medication reminder.
+ * @param now - The current time.
+ * @returns The time the current dose is scheduled for.
+ */
+export function getCurrentDoseTime(
+  med: Pick<
+    MedicationReminder,
+    "reminder_time" | "recurrence" | "recurrence_rule"
+  >,
+  now: Date = new Date(),
+): Date {
+  const start = new Date(med.reminder_time);
+  return (
+    getLatestOccurrence(
+      getMedicationRecurrenceRule(med),
+      start,
+      addMinutes(now, UPCOMING_DOSE_MINUTES),
+    ) ?? start
+  );
+}
+
+/**
+ * Whether a dose was taken more than LATE_DOSE_MINUTES after it was scheduled.
+ *
+ * @param dose - The medication dose.
+ * @returns True if the dose was taken late.
+ */
+export function isLateDose(
+  dose: Pick<MedicationDose, "status" | "scheduled_for" | "taken_at">,
+): boolean {
+  if (dose.status !== "taken" || !dose.taken_at) return false;
+  return (
+    differenceInMinutes(new Date(dose.taken_at), new Date(dose.scheduled_for)) >
+    LATE_DOSE_MINUTES
+  );
+}
+
+/**
+ * Builds the notification action that snoozes a dose for some minutes.
+ *
+ * @param minutes - How long to snooze for.
+ * @returns The action, e.g. "snooze-30".
+ */
+export function getSnoozeAction(minutes: number): string {
+  return `${SNOOZE_ACTION_PREFIX}${minutes}`;
+}
+
+/**
+ * Reads the action the user picked on a medication notification: "taken", "skipped",
+ * "snoozed" (for the default length) or a snooze action from `getSnoozeAction`.
+ *
+ * @param action - The action.
+ * @param defaultSnoozeMinutes - (optional) How long "snoozed" snoozes for.
+ * @returns The dose status to record and, for snoozes, for how long; or null if the action isn't one.
+ */
+export function parseDoseAction(
+  action: string,
+  defaultSnoozeMinutes: number = SNOOZE_MINUTES,
+): { status: "taken" | "skipped" | "snoozed"; snoozeMinutes?: number } | null {
+  if (action === "taken" || action === "skipped") return { status: action };
+  if (action === "snoozed") {
+    return { status: "snoozed", snoozeMinutes: defaultSnoozeMinutes };
+  }
+  if (action.startsWith(SNOOZE_ACTION_PREFIX)) {
+    const minutes = Number(action.slice(SNOOZE_ACTION_PREFIX.length));
+    if (Number.isInteger(minutes) && minutes > 0) {
+      return { status: "snoozed", snoozeMinutes: minutes };
+    }
+  }
+  return null;
+}
+
+export type AdherenceSummary = {
+  taken: number;
+  late: number;
+  skipped: number;
+  missed: number;
+  // The share of marked doses that were taken, from 0 to 100, or null if no dose was marked yet
+  percentage: number | null;
+};
+
+/**
+ * Summarizes how many doses were taken (and how many of those late), skipped or missed.
+ * Snoozed doses are still pending, so they don't count either way.
+ *
+ * @param doses - The doses of one medication.
+ * @returns The adherence summary.
+ */
+export function calculateAdherence(
+  doses: Array<Pick<MedicationDose, "status" | "scheduled_for" | "taken_at">>,
+): AdherenceSummary {
+  const taken = doses.filter((d) => d.status === "taken");
+  const skipped = doses.filter((d) => d.status === "skipped").length;
+  const missed = doses.filter((d) => d.status === "missed").length;
+  const marked = taken.length + skipped + missed;
+
+  return {
+    taken: taken.length,
+    late: taken.filter(isLateDose).length,
+    skipped,
+    missed,
+    percentage: marked === 0 ? null : Math.round((taken.length / marked) * 100),
+  };
+}
+
+// Supabase RLS Policy: Only allow authenticated users to access their own medication doses.
+// A dose can only be recorded for a medication reminder the user owns.
+// Deleting a medication reminder also deletes its doses (on delete cascade).
+// See supabase/migrations/20261019010000_medication_doses.sql
@@ -1,9 +1,18 @@
 import { supabase } from "./supabaseClient";
 import { z } from "zod";
+import { recurrenceRuleFromLabel, formatRRule } from "./recurrence";
+import {
+  createWithOfflineQueue,
+  deleteWithOfflineQueue,
+  readPageWithOfflineCache,
+  readWithOfflineCache,
+  updateWithOfflineQueue,
+} from "./offlineStore";
 
 /**
  * This file contains functions to manage medication reminders in a Supabase database.
  * It includes functions to retrieve, create, update, and delete medication reminder records.
+ * They work offline too (see lib/offlineStore.ts).
  */
 
 // Zod schema for a medication reminder.
@@ -13,7 +22,10 @@ export const MedicationReminderSchema = z.object({
   medication_name: z.string(),
   dosage: z.string().nullable(),
   reminder_time: z.string(),
+  // A plain-English description of the recurrence, e.g. "Daily at 8:00 AM"
   recurrence: z.string().nullable(),
+  // The recurrence as an RFC 5545 RRULE (see lib/recurrence.ts). Older reminders only have `recurrence`.
+  recurrence_rule: z.string().nullable().default(null),
   calendar_sync_token: z.string().nullable(),
   created_at: z.string(),
 });
@@ -31,13 +43,15 @@ export type MedicationReminder = z.infer<typeof MedicationReminderSchema>;
 export async function getMedicationRemindersByUser(
   userId: string,
 ): Promise<MedicationReminder[]> {
-  const { data, error } = await supabase
-    .from("medication_reminders")
-    .select("*")
-    .eq("user_profile_id", userId);
-
-  if (error) throw error;
-  return MedicationReminderSchema.array().parse(data);
+  return readWithOfflineCache("medication_reminders", userId, async () => {
+    const { data, error } = await supabase
+      .from("medication_reminders")
+      .select("*")
+      .eq("user_profile_id", userId);
+
+    if (error) throw error;
+    return MedicationReminderSchema.array().parse(data);
+  });
 }
 
 /**
@@ -58,22 +72,40 @@ export async function getPaginatedMedicationRemindersByUser(
   const from = (page - 1) * pageSize;
   const to = page * pageSize - 1;
 
-  const { data, error, count } = await supabase
-    .from("medication_reminders")
-    .select("*", { count: "exact" })
-    .eq("user_profile_id", userId)
-    .order("reminder_time", { ascending: true })
-    .range(from, to);
-
-  if (error) throw error;
-  return {
-    data: MedicationReminderSchema.array().parse(data || []),
-    count: count ?? 0,
-  };
+  return readPageWithOfflineCache(
+    "medication_reminders",
+    userId,
+    page,
+    pageSize,
+    (a, b) => Date.parse(a.reminder_time) - Date.parse(b.reminder_time),
+    async () => {
+      const { data, error, count } = await supabase
+        .from("medication_reminders")
+        .select("*", { count: "exact" })
+        .eq("user_profile_id", userId)
+        .order("reminder_time", { ascending: true })
+        .range(from, to);
+
+      if (error) throw error;
+      return {
+        data: MedicationReminderSchema.array().parse(data || []),
+        count: count ?? 0,
+      };
+    },
+  );
 }
 
+/**
+ * The RRULE for a recurrence label, for callers that only know the label (e.g. the AI assistant)
+ */
+const ruleFromLabel = (recurrence: string | null | undefined) => {
+  const rule = recurrenceRuleFromLabel(recurrence);
+  return rule ? formatRRule(rule) : null;
+};
+
 /**
  * Creates a new medication reminder.
+ * When only a recurrence label is given, the matching recurrence rule is saved with it.
  * Note: Supabase RLS will block this operation if the user is not the owner of the record.
  *
  * @param params - The medication reminder details.
@@ -86,29 +118,46 @@ export async function createMedicationReminder(params: {
   dosage?: string | null;
   reminder_time: string;
   recurrence?: string | null;
+  recurrence_rule?: string | null;
   calendar_sync_token?: string | null;
 }): Promise<MedicationReminder> {
   const insertPayload = {
+    // Generated here so a reminder created offline keeps its id once synced
+    id: crypto.randomUUID(),
     user_profile_id: params.user_profile_id,
     medication_name: params.medication_name,
     dosage: params.dosage ?? null,
     reminder_time: params.reminder_time,
     recurrence: params.recurrence ?? null,
+    recurrence_rule:
+      params.recurrence_rule !== undefined
+        ? params.recurrence_rule
+        : ruleFromLabel(params.recurrence),
     calendar_sync_token: params.calendar_sync_token ?? null,
   };
 
-  const { data, error } = await supabase
-    .from("medication_reminders")
-    .insert(insertPayload)
-    .select("*")
-    .single();
-
-  if (error) throw error;
-  return MedicationReminderSchema.parse(data);
+  return createWithOfflineQueue(
+    "medication_reminders",
+    MedicationReminderSchema.parse({
+      ...insertPayload,
+      created_at: new Date().toISOString(),
+    }),
+    async () => {
+      const { data, error } = await supabase
+        .from("medication_reminders")
+        .insert(insertPayload)
+        .select("*")
+        .single();
+
+      if (error) throw error;
+      return MedicationReminderSchema.parse(data);
+    },
+  );
 }
 
 /**
  * Updates an existing medication reminder.
+ * When the recurrence label changes without a recurrence rule, the rule is replaced by the one matching the label.
  * Note: Supabase RLS will block this operation if the user is not the owner of the record.
  *
  * @param id - The id of the medication reminder.
@@ -123,18 +172,35 @@ export async function updateMedicationReminder(
     dosage: string | null;
     reminder_time: string;
     recurrence: string | null;
+    recurrence_rule: string | null;
     calendar_sync_token: string | null;
   }>,
 ): Promise<MedicationReminder> {
-  const { data, error } = await supabase
-    .from("medication_reminders")
-    .update(updatePayload)
-    .eq("id", id)
-    .select("*")
-    .single();
-
-  if (error) throw error;
-  return MedicationReminderSchema.parse(data);
+  const payload =
+    updatePayload.recurrence !== undefined &&
+    updatePayload.recurrence_rule === undefined
+      ? {
+          ...updatePayload,
+          recurrence_rule: ruleFromLabel(updatePayload.recurrence),
+        }
+      : updatePayload;
+
+  return updateWithOfflineQueue(
+    "medication_reminders",
+    id,
+    payload,
+    async () => {
+      const { data, error } = await supabase
+        .from("medication_reminders")
+        .update(payload)
+        .eq("id", id)
+        .select("*")
+        .single();
+
+      if (error) throw error;
+      return MedicationReminderSchema.parse(data);
+    },
+  );
 }
 
 /**
@@ -148,17 +214,19 @@ export async function updateMedicationReminder(
 export async function deleteMedicationReminder(
   id: string,
 ): Promise<MedicationReminder> {
-  const { data, error } = await supabase
-    .from("medication_reminders")
-    .delete()
-    .eq("id", id)
-    .select("*")
-    .single();
-
-  if (error) throw error;
-  return MedicationReminderSchema.parse(data);
+  return deleteWithOfflineQueue("medication_reminders", id, async () => {
+    const { data, error } = await supabase
+      .from("medication_reminders")
+      .delete()
+      .eq("id", id)
+      .select("*")
+      .single();
+
+    if (error) throw error;
+    return MedicationReminderSchema.parse(data);
+  });
 }
 
 // Supabase RLS Policy: Table is only accessible to authenticated users.
 // Only the user who created the reminder can access, update, or delete it.
-// They cannot access, update, or delete reminders created by other users.
\ No newline at end of file
+// They cannot access, update, or delete reminders created by other users.
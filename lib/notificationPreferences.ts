@@ -0,0 +1,256 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { supabase } from "./supabaseClient";
+import { z } from "zod";
+import { isValidTimeZone, toZonedWallClock } from "./timeZone";
+
+/**
+ * This file contains functions to manage the user's notification preferences: where each kind
+ * of reminder is delivered, how long before appointments, quiet hours, the snooze length and
+ * when unconfirmed doses are followed up.
+ * The in-app notifier (pages/_app.tsx), Web Push (lib/webPush.ts) and the server-side reminder
+ * scheduler (lib/reminderScheduler.ts) all honor them.
+ */
+
+// Where a notification can be shown: as a toast, as a browser notification while the app is
+// open, or as a Web Push notification (also when it's closed)
+export const NOTIFICATION_CHANNELS = ["in_app", "browser", "push"] as const;
+export type NotificationChannel = (typeof NOTIFICATION_CHANNELS)[number];
+
+// The lead times the user can pick for appointment reminders, in minutes
+export const APPOINTMENT_LEAD_OPTIONS = [0, 15, 30, 60, 120, 1440, 2880];
+// The snooze lengths offered on medication reminders and in settings, in minutes
+export const SNOOZE_OPTIONS = [10, 30, 60];
+// How long after a dose the user can wait before an unconfirmed dose is followed up, in minutes
+export const ESCALATION_OPTIONS = [15, 30, 60, 120];
+
+// Quiet hours are wall-clock times like "22:00", or "22:00:00" as Postgres returns them
+const TimeOfDaySchema = z.string().regex(/^\d{2}:\d{2}(:\d{2})?$/);
+
+// Zod schema for a user's notification preferences.
+export const NotificationPreferencesSchema = z.object({
+  user_profile_id: z.string(),
+  time_zone: z.string(),
+  medication_channels: z.array(z.enum(NOTIFICATION_CHANNELS)),
+  appointment_channels: z.array(z.enum(NOTIFICATION_CHANNELS)),
+  appointment_lead_minutes: z.array(z.number().int().min(0)),
+  quiet_hours_start: TimeOfDaySchema.nullable(),
+  quiet_hours_end: TimeOfDaySchema.nullable(),
+  snooze_minutes: z.number().int().min(1).max(240),
+  escalation_minutes: z.number().int().min(5).max(720).nullable(),
+  updated_at: z.string(),
+});
+
+export type NotificationPreferences = z.infer<
+  typeof NotificationPreferencesSchema
+>;
+
+export type NotificationSettings = Omit<
+  NotificationPreferences,
+  "user_profile_id" | "updated_at"
+>;
+
+// What users get before they change anything (matches the column defaults)
+export const DEFAULT_NOTIFICATION_SETTINGS: NotificationSettings = {
+  time_zone: "UTC",
+  medication_channels: ["in_app", "browser", "push"],
+  appointment_channels: ["in_app", "browser", "push"],
+  appointment_lead_minutes: [1440, 60],
+  quiet_hours_start: null,
+  quiet_hours_end: null,
+  snooze_minutes: 10,
+  escalation_minutes: 30,
+};
+
+// The parts of a user_notifications row that decide how it's delivered
+export type NotificationTarget = {
+  medication_id?: string | null;
+  appointment_id?: string | null;
+};
+
+type PreferencesListener = (preferences: NotificationPreferences) => void;
+const listeners = new Set<PreferencesListener>();
+
+/**
+ * Calls `listener` whenever this tab saves the user's notification preferences, so the
+ * notifier picks up changes without a reload.
+ *
+ * @param listener - Called with the saved preferences.
+ * @returns A function that removes the listener.
+ */
+export function onNotificationPreferencesChange(
+  listener: PreferencesListener,
+): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+function notifyListeners(preferences: NotificationPreferences) {
+  listeners.forEach((listener) => listener(preferences));
+}
+
+const toMinutes = (timeOfDay: string) => {
+  const [hours, minutes] = timeOfDay.split(":").map(Number);
+  return hours * 60 + minutes;
+};
+
+/**
+ * Whether a time falls within the user's quiet hours, in the user's time zone. Quiet hours
+ * that end earlier than they start run overnight.
+ *
+ * @param settings - The user's settings.
+ * @param at - (optional) The time to check. Defaults to now.
+ * @returns True if browser and push notifications should be held back.
+ */
+export function isWithinQuietHours(
+  settings: Pick<
+    NotificationSettings,
+    "time_zone" | "quiet_hours_start" | "quiet_hours_end"
+  >,
+  at: Date = new Date(),
+): boolean {
+  const { quiet_hours_start: start, quiet_hours_end: end } = settings;
+  if (!start || !end) return false;
+
+  const timeZone = isValidTimeZone(settings.time_zone)
+    ? settings.time_zone
+    : "UTC";
+  const wallClock = toZonedWallClock(at, timeZone);
+  const now = wallClock.getHours() * 60 + wallClock.getMinutes();
+  const [from, to] = [toMinutes(start), toMinutes(end)];
+
+  if (from === to) return false;
+  return from < to ? now >= from && now < to : now >= from || now < to;
+}
+
+/**
+ * Whether a notification should be delivered through a channel. Medication and appointment
+ * reminders go to the channels the user picked for them; other notifications go everywhere.
+ * Browser and push notifications are held back during quiet hours; toasts are silent, so they
+ * are still shown.
+ *
+ * @param settings - The user's settings, or null to use the defaults.
+ * @param notification - The notification.
+ * @param channel - The channel to deliver through.
+ * @param at - (optional) The time of delivery. Defaults to now.
+ * @returns True if the notification should be delivered through the channel.
+ */
+export function shouldDeliverNotification(
+  settings: NotificationSettings | null,
+  notification: NotificationTarget,
+  channel: NotificationChannel,
+  at: Date = new Date(),
+): boolean {
+  const current = settings ?? DEFAULT_NOTIFICATION_SETTINGS;
+  const channels = notification.medication_id
+    ? current.medication_channels
+    : notification.appointment_id
+      ? current.appointment_channels
+      : NOTIFICATION_CHANNELS;
+
+  if (!channels.includes(channel)) return false;
+  return channel === "in_app" || !isWithinQuietHours(current, at);
+}
+
+/**
+ * Retrieves the notification preferences of a given user.
+ * Note: Supabase RLS will block this operation if the user is not the owner of the record.
+ *
+ * @param userId - The id of the user.
+ * @param client - (optional) The Supabase client to use, e.g. a service role client on the server.
+ * @returns The user's preferences, or null if they have never been saved.
+ * @throws An error if the query fails.
+ */
+export async function getNotificationPreferences(
+  userId: string,
+  client: SupabaseClient = supabase,
+): Promise<NotificationPreferences | null> {
+  const { data, error } = await client
+    .from("notification_preferences")
+    .select("*")
+    .eq("user_profile_id", userId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data ? NotificationPreferencesSchema.parse(data) : null;
+}
+
+/**
+ * Saves the browser's time zone as the user's, so reminders are scheduled in the time zone the
+ * user is in. Only writes when the time zone changed.
+ * Note: Supabase RLS will block this operation if the user is not the owner of the record.
+ *
+ * @param userId - The id of the user.
+ * @param timeZone - (optional) The IANA time zone. Defaults to the browser's.
+ * @returns The user's preferences.
+ * @throws An error if the preferences can't be read or saved.
+ */
+export async function syncNotificationTimeZone(
+  userId: string,
+  timeZone: string = Intl.DateTimeFormat().resolvedOptions().timeZone,
+): Promise<NotificationPreferences> {
+  const current = await getNotificationPreferences(userId);
+  if (current?.time_zone === timeZone) return current;
+
+  const { data, error } = await supabase
+    .from("notification_preferences")
+    .upsert(
+      {
+        user_profile_id: userId,
+        time_zone: timeZone,
+        updated_at: new Date().toISOString(),
+      },
+      { onConflict: "user_profile_id" },
+    )
+    .select("*")
+    .single();
+
+  if (error) throw error;
+  const preferences = NotificationPreferencesSchema.parse(data);
+  notifyListeners(preferences);
+  return preferences;
+}
+
+/**
+ * Saves changes to the user's notification settings.
+ * Note: Supabase RLS will block this operation if the user is not the owner of the record.
+ *
+ * @param userId - The id of the user.
+ * @param updates - The settings to change.
+ * @returns The user's preferences.
+ * @throws An error if the settings are invalid or can't be saved.
+ */
+export async function updateNotificationPreferences(
+  userId: string,
+  updates: Partial<NotificationSettings>,
+): Promise<NotificationPreferences> {
+  const validated = NotificationPreferencesSchema.omit({
+    user_profile_id: true,
+    updated_at: true,
+  })
+    .partial()
+    .parse(updates);
+
+  const { data, error } = await supabase
+    .from("notification_preferences")
+    .upsert(
+      {
+        ...validated,
+        user_profile_id: userId,
+        updated_at: new Date().toISOString(),
+      },
+      { onConflict: "user_profile_id" },
+    )
+    .select("*")
+    .single();
+
+  if (error) throw error;
+  const preferences = NotificationPreferencesSchema.parse(data);
+  notifyListeners(preferences);
+  return preferences;
+}
+
+// Supabase RLS Policy: Only allow authenticated users to access their own notification preferences.
+// The reminder scheduler and Web Push read everyone's preferences with the service role.
+// See supabase/migrations/20261019040000_reminder_scheduler.sql and 20261019060000_notification_settings.sql
@@ -0,0 +1,519 @@
+/**
+ * This file contains the offline store: an IndexedDB copy of the user's medication reminders,
+ * appointment reminders and health logs, and an outbox of the changes made while offline. Reads
+ * fall back to the copy and writes are queued when Supabase can't be reached; lib/offlineSync.ts
+ * replays the outbox once the device is back online.
+ */
+
+export const OFFLINE_TABLES = [
+  "medication_reminders",
+  "appointment_reminders",
+  "health_logs",
+] as const;
+
+export type OfflineTable = (typeof OFFLINE_TABLES)[number];
+
+// Every cached row belongs to a user and has an id
+export type OfflineRecord = { id: string; user_profile_id: string };
+
+export type OutboxEntry = {
+  seq?: number;
+  table: OfflineTable;
+  op: "create" | "update" | "delete";
+  id: string;
+  user_profile_id: string;
+  // The new row (create) or the changed fields (update)
+  payload: Record<string, unknown>;
+  // The row as it was when the change was made, to detect changes made elsewhere in the meantime
+  base: Record<string, unknown> | null;
+  queued_at: string;
+};
+
+const DB_NAME = "symptomsync-offline";
+const DB_VERSION = 1;
+const OUTBOX = "outbox";
+
+let dbPromise: Promise<IDBDatabase | null> | null = null;
+
+/**
+ * Opens the offline database, creating its stores the first time.
+ *
+ * @returns The database, or null where IndexedDB isn't available (e.g. on the server).
+ */
+export function openOfflineDb(): Promise<IDBDatabase | null> {
+  if (typeof indexedDB === "undefined") return Promise.resolve(null);
+  if (!dbPromise) {
+    dbPromise = new Promise<IDBDatabase | null>((resolve) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        OFFLINE_TABLES.forEach((table) => {
+          if (!db.objectStoreNames.contains(table)) {
+            db.createObjectStore(table, { keyPath: "id" }).createIndex(
+              "user_profile_id",
+              "user_profile_id",
+            );
+          }
+        });
+        if (!db.objectStoreNames.contains(OUTBOX)) {
+          db.createObjectStore(OUTBOX, { keyPath: "seq", autoIncrement: true });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        console.error("Failed to open the offline store:", request.error);
+        resolve(null);
+      };
+    });
+  }
+  return dbPromise;
+}
+
+/**
+ * Runs a function in a transaction over the given stores.
+ *
+ * @returns What the function returns once the transaction is complete, or the fallback if
+ * IndexedDB isn't available.
+ */
+async function withStores<T>(
+  stores: string[],
+  mode: IDBTransactionMode,
+  fn: (tx: IDBTransaction) => Promise<T> | T,
+  fallback: T,
+): Promise<T> {
+  const db = await openOfflineDb();
+  if (!db) return fallback;
+
+  const tx = db.transaction(stores, mode);
+  const done = new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+  const result = await fn(tx);
+  await done;
+  return result;
+}
+
+function requestResult<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+const outboxListeners = new Set<(pending: number) => void>();
+
+/**
+ * Calls the listener with the number of changes waiting to be synced whenever it changes in
+ * this tab.
+ *
+ * @returns A function that stops listening.
+ */
+export function onOutboxChange(listener: (pending: number) => void) {
+  outboxListeners.add(listener);
+  return () => {
+    outboxListeners.delete(listener);
+  };
+}
+
+async function notifyOutboxChange() {
+  const pending = (await getOutbox()).length;
+  outboxListeners.forEach((listener) => listener(pending));
+}
+
+/**
+ * Whether the browser knows it has no connection
+ */
+export function isOffline() {
+  return typeof navigator !== "undefined" && navigator.onLine === false;
+}
+
+/**
+ * Whether an error means Supabase couldn't be reached, as opposed to rejecting the request.
+ */
+export function isNetworkError(err: unknown) {
+  const message =
+    err instanceof Error
+      ? err.message
+      : typeof err === "object" && err !== null && "message" in err
+        ? String((err as { message: unknown }).message)
+        : "";
+  return /failed to fetch|fetch failed|networkerror|network request failed|load failed/i.test(
+    message,
+  );
+}
+
+/**
+ * Replaces the cached copy of a user's rows in a table.
+ *
+ * @param table - The table the rows come from.
+ * @param userId - The id of the user.
+ * @param records - All of the user's rows.
+ */
+export async function cacheRecords<T extends OfflineRecord>(
+  table: OfflineTable,
+  userId: string,
+  records: T[],
+) {
+  await withStores(
+    [table],
+    "readwrite",
+    async (tx) => {
+      const store = tx.objectStore(table);
+      const keys = await requestResult(
+        store.index("user_profile_id").getAllKeys(userId),
+      );
+      keys.forEach((key) => store.delete(key));
+      records.forEach((record) => store.put(record));
+    },
+    undefined,
+  );
+}
+
+/**
+ * Adds or replaces cached rows without touching the user's other rows, e.g. for one page.
+ */
+export async function putCachedRecords<T extends OfflineRecord>(
+  table: OfflineTable,
+  records: T[],
+) {
+  await withStores(
+    [table],
+    "readwrite",
+    (tx) => {
+      const store = tx.objectStore(table);
+      records.forEach((record) => store.put(record));
+    },
+    undefined,
+  );
+}
+
+/**
+ * Retrieves the cached copy of a user's rows in a table.
+ */
+export async function getCachedRecords<T extends OfflineRecord>(
+  table: OfflineTable,
+  userId: string,
+): Promise<T[]> {
+  return withStores(
+    [table],
+    "readonly",
+    (tx) =>
+      requestResult(
+        tx.objectStore(table).index("user_profile_id").getAll(userId),
+      ) as Promise<T[]>,
+    [],
+  );
+}
+
+/**
+ * Retrieves one cached row.
+ */
+export async function getCachedRecord<T extends OfflineRecord>(
+  table: OfflineTable,
+  id: string,
+): Promise<T | null> {
+  return withStores(
+    [table],
+    "readonly",
+    async (tx) =>
+      ((await requestResult(tx.objectStore(table).get(id))) as T | undefined) ??
+      null,
+    null,
+  );
+}
+
+/**
+ * Removes one cached row.
+ */
+export async function removeCachedRecord(table: OfflineTable, id: string) {
+  await withStores(
+    [table],
+    "readwrite",
+    (tx) => {
+      tx.objectStore(table).delete(id);
+    },
+    undefined,
+  );
+}
+
+/**
+ * Retrieves the changes waiting to be synced, oldest first.
+ */
+export async function getOutbox(): Promise<OutboxEntry[]> {
+  return withStores(
+    [OUTBOX],
+    "readonly",
+    (tx) =>
+      requestResult(tx.objectStore(OUTBOX).getAll()) as Promise<OutboxEntry[]>,
+    [],
+  );
+}
+
+/**
+ * Removes a change from the outbox once it was synced (or given up on).
+ */
+export async function removeOutboxEntry(seq: number) {
+  await withStores(
+    [OUTBOX],
+    "readwrite",
+    (tx) => {
+      tx.objectStore(OUTBOX).delete(seq);
+    },
+    undefined,
+  );
+  await notifyOutboxChange();
+}
+
+/**
+ * Queues a change for when the device is back online. Changes to a row that is still waiting
+ * to be created or updated are folded into that entry, so each row is synced at most once.
+ *
+ * @param change - The change to queue.
+ */
+export async function enqueueChange(
+  change: Omit<OutboxEntry, "seq" | "queued_at">,
+) {
+  await withStores(
+    [OUTBOX],
+    "readwrite",
+    async (tx) => {
+      const store = tx.objectStore(OUTBOX);
+      const entries = (await requestResult(store.getAll())) as OutboxEntry[];
+      const pending = entries.find(
+        (e) => e.table === change.table && e.id === change.id,
+      );
+
+      if (!pending || pending.op === "delete") {
+        store.add({ ...change, queued_at: new Date().toISOString() });
+      } else if (change.op === "delete") {
+        // A row created offline never has to reach Supabase; an updated one is deleted
+        // against the row as it was before the update
+        store.delete(pending.seq!);
+        if (pending.op === "update") {
+          store.add({
+            ...change,
+            base: pending.base,
+            queued_at: new Date().toISOString(),
+          });
+        }
+      } else {
+        store.put({
+          ...pending,
+          payload: { ...pending.payload, ...change.payload },
+        });
+      }
+    },
+    undefined,
+  );
+  await notifyOutboxChange();
+}
+
+/**
+ * Reads a user's rows, keeping the offline copy up to date. Falls back to the copy when offline.
+ *
+ * @param table - The table to read.
+ * @param userId - The id of the user.
+ * @param fetchRecords - Fetches all of the user's rows from Supabase.
+ * @returns The rows.
+ * @throws The error from fetchRecords, unless Supabase couldn't be reached.
+ */
+export async function readWithOfflineCache<T extends OfflineRecord>(
+  table: OfflineTable,
+  userId: string,
+  fetchRecords: () => Promise<T[]>,
+): Promise<T[]> {
+  if (isOffline()) return getCachedRecords<T>(table, userId);
+  try {
+    const records = await fetchRecords();
+    // The cache is only a fallback, so failing to write it mustn't fail the read
+    cacheRecords(table, userId, records).catch((err) =>
+      console.error("Failed to update the offline store:", err),
+    );
+    return records;
+  } catch (err) {
+    if (!isNetworkError(err)) throw err;
+    return getCachedRecords<T>(table, userId);
+  }
+}
+
+/**
+ * Reads one page of a user's rows, keeping the offline copy up to date. Falls back to a page of
+ * the copy when offline.
+ *
+ * @param table - The table to read.
+ * @param userId - The id of the user.
+ * @param page - 1-based page number.
+ * @param pageSize - Number of items per page.
+ * @param compare - Sorts the cached rows the way Supabase does.
+ * @param fetchPage - Fetches the page and the total count from Supabase.
+ * @returns The page and the total count.
+ * @throws The error from fetchPage, unless Supabase couldn't be reached.
+ */
+export async function readPageWithOfflineCache<T extends OfflineRecord>(
+  table: OfflineTable,
+  userId: string,
+  page: number,
+  pageSize: number,
+  compare: (a: T, b: T) => number,
+  fetchPage: () => Promise<{ data: T[]; count: number }>,
+): Promise<{ data: T[]; count: number }> {
+  const cachedPage = async () => {
+    const records = (await getCachedRecords<T>(table, userId)).sort(compare);
+    return {
+      data: records.slice((page - 1) * pageSize, page * pageSize),
+      count: records.length,
+    };
+  };
+
+  if (isOffline()) return cachedPage();
+  try {
+    const result = await fetchPage();
+    putCachedRecords(table, result.data).catch((err) =>
+      console.error("Failed to update the offline store:", err),
+    );
+    return result;
+  } catch (err) {
+    if (!isNetworkError(err)) throw err;
+    return cachedPage();
+  }
+}
+
+/**
+ * Creates a row, or saves it locally and queues it when Supabase can't be reached.
+ *
+ * @param table - The table to insert into.
+ * @param record - The new row, with an id generated on the device.
+ * @param insert - Inserts the row into Supabase.
+ * @returns The created row.
+ * @throws The error from insert, unless Supabase couldn't be reached.
+ */
+export async function createWithOfflineQueue<T extends OfflineRecord>(
+  table: OfflineTable,
+  record: T,
+  insert: () => Promise<T>,
+): Promise<T> {
+  if (!isOffline()) {
+    try {
+      const created = await insert();
+      await putCachedRecords(table, [created]);
+      return created;
+    } catch (err) {
+      if (!isNetworkError(err)) throw err;
+    }
+  }
+
+  await putCachedRecords(table, [record]);
+  await enqueueChange({
+    table,
+    op: "create",
+    id: record.id,
+    user_profile_id: record.user_profile_id,
+    payload: record,
+    base: null,
+  });
+  return record;
+}
+
+/**
+ * Updates a row, or updates the local copy and queues the change when Supabase can't be
+ * reached.
+ *
+ * @param table - The table to update.
+ * @param id - The id of the row.
+ * @param changes - The fields to change.
+ * @param update - Updates the row in Supabase.
+ * @returns The updated row.
+ * @throws The error from update, unless Supabase couldn't be reached. An error if the row
+ * isn't available offline.
+ */
+export async function updateWithOfflineQueue<T extends OfflineRecord>(
+  table: OfflineTable,
+  id: string,
+  changes: Partial<NoInfer<T>>,
+  update: () => Promise<T>,
+): Promise<T> {
+  if (!isOffline()) {
+    try {
+      const updated = await update();
+      await putCachedRecords(table, [updated]);
+      return updated;
+    } catch (err) {
+      if (!isNetworkError(err)) throw err;
+    }
+  }
+
+  const cached = await getCachedRecord<T>(table, id);
+  if (!cached) throw new Error("This record isn't available offline");
+
+  const updated = { ...cached, ...changes };
+  await putCachedRecords(table, [updated]);
+  await enqueueChange({
+    table,
+    op: "update",
+    id,
+    user_profile_id: cached.user_profile_id,
+    payload: changes,
+    base: cached,
+  });
+  return updated;
+}
+
+/**
+ * Deletes a row, or removes the local copy and queues the deletion when Supabase can't be
+ * reached.
+ *
+ * @param table - The table to delete from.
+ * @param id - The id of the row.
+ * @param remove - Deletes the row in Supabase.
+ * @returns The deleted row.
+ * @throws The error from remove, unless Supabase couldn't be reached. An error if the row
+ * isn't available offline.
+ */
+export async function deleteWithOfflineQueue<T extends OfflineRecord>(
+  table: OfflineTable,
+  id: string,
+  remove: () => Promise<T>,
+): Promise<T> {
+  if (!isOffline()) {
+    try {
+      const deleted = await remove();
+      await removeCachedRecord(table, id);
+      return deleted;
+    } catch (err) {
+      if (!isNetworkError(err)) throw err;
+    }
+  }
+
+  const cached = await getCachedRecord<T>(table, id);
+  if (!cached) throw new Error("This record isn't available offline");
+
+  await removeCachedRecord(table, id);
+  await enqueueChange({
+    table,
+    op: "delete",
+    id,
+    user_profile_id: cached.user_profile_id,
+    payload: {},
+    base: cached,
+  });
+  return cached;
+}
+
+/**
+ * Deletes the offline copy and any unsynced changes, e.g. when the user signs out.
+ */
+export async function clearOfflineStore() {
+  await withStores(
+    [...OFFLINE_TABLES, OUTBOX],
+    "readwrite",
+    (tx) => {
+      [...OFFLINE_TABLES, OUTBOX].forEach((store) =>
+        tx.objectStore(store).clear(),
+      );
+    },
+    undefined,
+  );
+  await notifyOutboxChange();
+}
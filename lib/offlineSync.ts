@@ -0,0 +1,238 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { supabase } from "./supabaseClient";
+import {
+  OfflineTable,
+  OutboxEntry,
+  getOutbox,
+  isNetworkError,
+  isOffline,
+  putCachedRecords,
+  removeCachedRecord,
+  removeOutboxEntry,
+} from "./offlineStore";
+
+/**
+ * This file contains the replay of the offline outbox (see lib/offlineStore.ts): the changes
+ * made while offline are sent to Supabase in the order they were made, unless the row was
+ * changed elsewhere in the meantime.
+ */
+
+export type OfflineConflict = {
+  table: OfflineTable;
+  op: OutboxEntry["op"];
+  id: string;
+  reason: "changed" | "deleted" | "rejected";
+};
+
+export type OfflineSyncResult = {
+  synced: number;
+  conflicts: OfflineConflict[];
+  // Changes still waiting because Supabase couldn't be reached
+  pending: number;
+};
+
+// Postgres unique_violation: the row was already created by an earlier, interrupted sync
+const UNIQUE_VIOLATION = "23505";
+
+/**
+ * Whether a failed request may succeed later, so its change should wait rather than be dropped:
+ * Supabase couldn't be reached, the session expired (requests then run without the user, and
+ * RLS answers 401) or the server failed. Only other errors, such as a row that doesn't pass
+ * validation or RLS, are rejections.
+ */
+export function isTemporaryError(error: unknown, status?: number): boolean {
+  if (isNetworkError(error)) return true;
+  if (status === 401 || (status !== undefined && status >= 500)) return true;
+  const { code = "", message = "" } = (error ?? {}) as {
+    code?: string;
+    message?: string;
+  };
+  return (
+    // PostgREST connection (PGRST00x) and JWT (PGRST30x) errors, and Postgres connection,
+    // resource and internal errors
+    /^PGRST(00|30)\d$/.test(code) ||
+    /^(08|53|57|58|XX)/.test(code) ||
+    /jwt|session|refresh token|not authenticated/i.test(message)
+  );
+}
+
+const sameValue = (a: unknown, b: unknown) =>
+  JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+
+/**
+ * Finds the fields of an offline update that were also changed elsewhere to something else.
+ *
+ * @param entry - The queued update.
+ * @param current - The row as it is in Supabase now.
+ * @returns The names of the conflicting fields.
+ */
+export function findConflictingFields(
+  entry: Pick<OutboxEntry, "payload" | "base">,
+  current: Record<string, unknown>,
+): string[] {
+  if (!entry.base) return [];
+  return Object.keys(entry.payload).filter(
+    (key) =>
+      !sameValue(current[key], entry.base![key]) &&
+      !sameValue(current[key], entry.payload[key]),
+  );
+}
+
+/**
+ * Whether a row was changed elsewhere since the offline change was made.
+ */
+function changedSince(
+  base: Record<string, unknown> | null,
+  current: Record<string, unknown>,
+) {
+  return (
+    !!base &&
+    Object.keys(base).some((key) => !sameValue(current[key], base[key]))
+  );
+}
+
+/**
+ * Sends one queued change to Supabase.
+ *
+ * @returns The conflict, if the change wasn't applied.
+ * @throws An error if the change may still go through later (see isTemporaryError).
+ */
+async function replayChange(
+  entry: OutboxEntry,
+  client: SupabaseClient,
+): Promise<OfflineConflict | null> {
+  const conflict = (reason: OfflineConflict["reason"]): OfflineConflict => ({
+    table: entry.table,
+    op: entry.op,
+    id: entry.id,
+    reason,
+  });
+
+  if (entry.op === "create") {
+    const { data, error, status } = await client
+      .from(entry.table)
+      .insert(entry.payload)
+      .select("*")
+      .single();
+    if (error && error.code !== UNIQUE_VIOLATION) {
+      if (isTemporaryError(error, status)) throw error;
+      await removeCachedRecord(entry.table, entry.id);
+      return conflict("rejected");
+    }
+    if (data) await putCachedRecords(entry.table, [data]);
+    return null;
+  }
+
+  const {
+    data: current,
+    error: fetchError,
+    status: fetchStatus,
+  } = await client
+    .from(entry.table)
+    .select("*")
+    .eq("id", entry.id)
+    .maybeSingle();
+  if (fetchError) {
+    if (isTemporaryError(fetchError, fetchStatus)) throw fetchError;
+    return conflict("rejected");
+  }
+
+  if (!current) {
+    // Already gone: nothing to delete, and an update can't be applied
+    await removeCachedRecord(entry.table, entry.id);
+    return entry.op === "delete" ? null : conflict("deleted");
+  }
+
+  if (entry.op === "delete") {
+    if (changedSince(entry.base, current)) {
+      // Keep the row the user's other device changed
+      await putCachedRecords(entry.table, [current]);
+      return conflict("changed");
+    }
+    const { error, status } = await client
+      .from(entry.table)
+      .delete()
+      .eq("id", entry.id);
+    if (error) {
+      if (isTemporaryError(error, status)) throw error;
+      await putCachedRecords(entry.table, [current]);
+      return conflict("rejected");
+    }
+    return null;
+  }
+
+  if (findConflictingFields(entry, current).length > 0) {
+    // The change made elsewhere wins; the offline one is dropped
+    await putCachedRecords(entry.table, [current]);
+    return conflict("changed");
+  }
+
+  const { data, error, status } = await client
+    .from(entry.table)
+    .update(entry.payload)
+    .eq("id", entry.id)
+    .select("*")
+    .single();
+  if (error) {
+    if (isTemporaryError(error, status)) throw error;
+    await putCachedRecords(entry.table, [current]);
+    return conflict("rejected");
+  }
+  await putCachedRecords(entry.table, [data]);
+  return null;
+}
+
+let syncing: Promise<OfflineSyncResult> | null = null;
+
+/**
+ * Sends the changes made offline to Supabase, oldest first. Stops at the first change that
+ * can't be sent yet, because Supabase can't be reached, the session expired or the server
+ * failed, so later changes never overtake it. Changes Supabase rejects are dropped and
+ * reported as conflicts.
+ * Note: Supabase RLS will block this operation if the user is not the owner of the record.
+ *
+ * @param client - (optional) The Supabase client to use.
+ * @returns How many changes were synced, the ones that conflicted and how many are still waiting.
+ */
+export function syncOfflineChanges(
+  client: SupabaseClient = supabase,
+): Promise<OfflineSyncResult> {
+  // Only one sync at a time, or changes could be sent twice
+  if (!syncing) {
+    syncing = (async () => {
+      const outbox = await getOutbox();
+      const result: OfflineSyncResult = {
+        synced: 0,
+        conflicts: [],
+        pending: outbox.length,
+      };
+      if (isOffline()) return result;
+
+      for (const entry of outbox) {
+        try {
+          const conflict = await replayChange(entry, client);
+          if (conflict) {
+            result.conflicts.push(conflict);
+          } else {
+            result.synced++;
+          }
+        } catch (err) {
+          // Keep this change and the ones after it for the next sync
+          if (!isNetworkError(err)) {
+            console.error("Failed to sync offline change:", err);
+          }
+          break;
+        }
+        await removeOutboxEntry(entry.seq!);
+        result.pending--;
+      }
+      return result;
+    })().finally(() => {
+      syncing = null;
+    });
+  }
+  return syncing;
+}
+
+// Supabase RLS Policy: The outbox only holds the signed-in user's own changes, which are
+// replayed as that user. RLS rejects changes to rows they don't own.
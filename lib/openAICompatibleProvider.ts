@@ -0,0 +1,167 @@
+import type { ChatProvider, ChatProviderRequest } from "./chatProvider";
+
+/**
+ * This file contains a ChatProvider that talks to any server implementing the OpenAI
+ * chat completions HTTP API, e.g. a local llama.cpp server or Ollama.
+ */
+
+type OpenAICompatibleOptions = {
+  // The API root including the version, e.g. "http://localhost:11434/v1"
+  baseUrl: string;
+  apiKey?: string;
+  // Defaults to the first model listed by the server
+  model?: string;
+};
+
+type ChatCompletionResponse = {
+  choices?: Array<{ message?: { content?: string | null } }>;
+};
+
+type ChatCompletionChunk = {
+  choices?: Array<{ delta?: { content?: string | null } }>;
+};
+
+type ModelListResponse = {
+  data?: Array<{ id?: string }>;
+};
+
+// How long a server's model list is reused before being fetched again
+const MODEL_CACHE_TTL_MS = 10 * 60 * 1000;
+
+// A provider is created per request, so the lists are kept per server rather than per provider
+const cachedModels = new Map<string, { models: string[]; expiresAt: number }>();
+
+/**
+ * Creates a chat provider that talks to an OpenAI-compatible HTTP server.
+ *
+ * @param options - The server's base URL, an optional API key and an optional model name.
+ * @returns The OpenAI-compatible chat provider.
+ */
+export function createOpenAICompatibleProvider({
+  baseUrl,
+  apiKey,
+  model,
+}: OpenAICompatibleOptions): ChatProvider {
+  const root = baseUrl.replace(/\/+$/, "");
+  const headers: Record<string, string> = {
+    "Content-Type": "application/json",
+  };
+  if (apiKey) headers.Authorization = `Bearer ${apiKey}`;
+
+  const fetchModels = async (): Promise<string[]> => {
+    const response = await fetch(`${root}/models`, { headers });
+    if (!response.ok) {
+      throw new Error(
+        `Failed to list models: ${response.status} ${response.statusText}`,
+      );
+    }
+
+    const data = (await response.json()) as ModelListResponse;
+    if (!Array.isArray(data.data)) return [];
+    return data.data.map((m) => m.id).filter((id): id is string => Boolean(id));
+  };
+
+  // Reuses the last non-empty list for MODEL_CACHE_TTL_MS instead of asking on every message
+  const listModels = async (): Promise<string[]> => {
+    const cached = cachedModels.get(root);
+    if (cached && cached.expiresAt > Date.now()) return cached.models;
+
+    const models = await fetchModels();
+    if (models.length > 0) {
+      cachedModels.set(root, {
+        models,
+        expiresAt: Date.now() + MODEL_CACHE_TTL_MS,
+      });
+    }
+    return models;
+  };
+
+  const resolveModel = async (): Promise<string> => {
+    if (model) return model;
+    const [first] = await listModels();
+    if (!first) {
+      throw new Error("No models available to handle the request.");
+    }
+    return first;
+  };
+
+  const postCompletion = async (
+    { history, message, systemInstruction, signal }: ChatProviderRequest,
+    stream: boolean,
+  ): Promise<Response> => {
+    const response = await fetch(`${root}/chat/completions`, {
+      method: "POST",
+      headers,
+      body: JSON.stringify({
+        model: await resolveModel(),
+        stream,
+        messages: [
+          { role: "system", content: systemInstruction },
+          ...history.map((m) => ({
+            role: m.role === "model" ? "assistant" : "user",
+            content: m.text,
+          })),
+          { role: "user", content: message },
+        ],
+      }),
+      signal,
+    });
+
+    if (!response.ok) {
+      throw new Error(
+        `Chat completion failed: ${response.status} ${response.statusText}`,
+      );
+    }
+
+    return response;
+  };
+
+  return {
+    name: "openai-compatible",
+
+    async send(request) {
+      const response = await postCompletion(request, false);
+      const data = (await response.json()) as ChatCompletionResponse;
+      const text = data.choices?.[0]?.message?.content;
+      if (!text) {
+        throw new Error("Failed to get text response from the AI.");
+      }
+      return text;
+    },
+
+    async *stream(request) {
+      const response = await postCompletion(request, true);
+      if (!response.body) {
+        throw new Error("Failed to get text response from the AI.");
+      }
+
+      // The reply arrives as server-sent events: "data: {json}" lines, ending with "data: [DONE]"
+      const reader = response.body.getReader();
+      const decoder = new TextDecoder();
+      let buffered = "";
+
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        buffered += decoder.decode(value, { stream: true });
+
+        const lines = buffered.split("\n");
+        buffered = lines.pop() ?? "";
+
+        for (const line of lines) {
+          const trimmed = line.trim();
+          if (!trimmed.startsWith("data:")) continue;
+
+          const payload = trimmed.slice("data:".length).trim();
+          if (payload === "[DONE]") return;
+
+          const chunk = JSON.parse(payload) as ChatCompletionChunk;
+          const text = chunk.choices?.[0]?.delta?.content;
+          if (text) yield text;
+        }
+      }
+    },
+
+    listModels,
+  };
+}
@@ -0,0 +1,113 @@
+import { supabase } from "./supabaseClient";
+
+/**
+ * This file contains the browser side of Web Push: subscribing this browser to push messages
+ * through the service worker and saving the subscription, so the server (lib/webPush.ts) can
+ * deliver reminders while no SymptomSync tab is open.
+ */
+
+const VAPID_PUBLIC_KEY = process.env.NEXT_PUBLIC_VAPID_PUBLIC_KEY;
+
+/**
+ * Whether this browser supports Web Push and the app has a VAPID key to subscribe with.
+ *
+ * @returns True if push notifications can be turned on.
+ */
+export function isPushSupported(): boolean {
+  return (
+    typeof window !== "undefined" &&
+    "serviceWorker" in navigator &&
+    "PushManager" in window &&
+    "Notification" in window &&
+    !!VAPID_PUBLIC_KEY
+  );
+}
+
+/**
+ * Turns a URL-safe base64 string into the bytes PushManager.subscribe expects
+ */
+function urlBase64ToUint8Array(base64: string): Uint8Array<ArrayBuffer> {
+  const padded = (base64 + "=".repeat((4 - (base64.length % 4)) % 4))
+    .replace(/-/g, "+")
+    .replace(/_/g, "/");
+  const raw = atob(padded);
+  const bytes = new Uint8Array(new ArrayBuffer(raw.length));
+  for (let i = 0; i < raw.length; i++) bytes[i] = raw.charCodeAt(i);
+  return bytes;
+}
+
+/**
+ * Retrieves this browser's current push subscription.
+ *
+ * @returns The subscription, or null if push is off or unsupported.
+ */
+export async function getPushSubscription(): Promise<PushSubscription | null> {
+  if (!isPushSupported()) return null;
+  const registration = await navigator.serviceWorker.ready;
+  return registration.pushManager.getSubscription();
+}
+
+/**
+ * Asks for notification permission, subscribes this browser to push messages and saves the
+ * subscription for the signed-in user.
+ *
+ * @returns The subscription.
+ * @throws An error if push is unsupported, permission is denied, or saving fails.
+ */
+export async function subscribeToPush(): Promise<PushSubscription> {
+  if (!isPushSupported() || !VAPID_PUBLIC_KEY) {
+    throw new Error("Push notifications are not supported in this browser");
+  }
+
+  const permission = await Notification.requestPermission();
+  if (permission !== "granted") {
+    throw new Error("Notification permission was not granted");
+  }
+
+  const registration = await navigator.serviceWorker.ready;
+  const subscription =
+    (await registration.pushManager.getSubscription()) ??
+    (await registration.pushManager.subscribe({
+      userVisibleOnly: true,
+      applicationServerKey: urlBase64ToUint8Array(VAPID_PUBLIC_KEY),
+    }));
+
+  const { endpoint, keys } = subscription.toJSON();
+  if (!endpoint || !keys?.p256dh || !keys?.auth) {
+    throw new Error("The browser returned an incomplete push subscription");
+  }
+
+  const { error } = await supabase.rpc("save_push_subscription", {
+    sub_endpoint: endpoint,
+    sub_p256dh: keys.p256dh,
+    sub_auth: keys.auth,
+    sub_user_agent: navigator.userAgent,
+  });
+
+  if (error) throw error;
+  return subscription;
+}
+
+/**
+ * Unsubscribes this browser from push messages and deletes its saved subscription.
+ * Note: Supabase RLS will block this operation if the user is not the owner of the record.
+ *
+ * @throws An error if the deletion fails.
+ */
+export async function unsubscribeFromPush(): Promise<void> {
+  const subscription = await getPushSubscription();
+  if (!subscription) return;
+
+  const { error } = await supabase
+    .from("push_subscriptions")
+    .delete()
+    .eq("endpoint", subscription.endpoint);
+
+  if (error) throw error;
+  await subscription.unsubscribe();
+}
+
+// Supabase RLS Policy: Only allow authenticated users to access their own push subscriptions.
+// Subscriptions are saved through the save_push_subscription function, which moves a browser's
+// subscription to whoever is signed in on it.
+// See supabase/migrations/20261019050000_push_subscriptions.sql
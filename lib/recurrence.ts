@@ -0,0 +1,475 @@
+import { z } from "zod";
+import {
+  addDays,
+  addHours,
+  addMonths,
+  addWeeks,
+  format,
+  getDaysInMonth,
+  startOfDay,
+  startOfMonth,
+  startOfWeek,
+} from "date-fns";
+import type { MedicationReminder } from "./medications";
+import { fromZonedWallClock, toZonedWallClock } from "./timeZone";
+
+/**
+ * This file contains the recurrence model of medication reminders: a subset of RFC 5545 RRULEs
+ * (FREQ=HOURLY/DAILY/WEEKLY/MONTHLY with INTERVAL, BYDAY, BYHOUR, BYMINUTE, UNTIL and COUNT),
+ * and the one function that expands a reminder into its dose times, which the calendar, the
+ * reminder page and adherence tracking all use.
+ *
+ * Times of day (BYHOUR/BYMINUTE) are in the local time of whoever expands the rule, the same
+ * way `reminder_time` is shown in the user's local time, unless a time zone is given.
+ */
+
+export const WEEKDAYS = ["MO", "TU", "WE", "TH", "FR", "SA", "SU"] as const;
+export type Weekday = (typeof WEEKDAYS)[number];
+
+export const RecurrenceRuleSchema = z
+  .object({
+    freq: z.enum(["HOURLY", "DAILY", "WEEKLY", "MONTHLY"]),
+    interval: z.number().int().min(1).default(1),
+    // Only repeat on these days of the week
+    byDay: z.array(z.enum(WEEKDAYS)).default([]),
+    // Times of day as "HH:mm". Empty means the time of the reminder itself. Ignored for HOURLY.
+    times: z.array(z.string().regex(/^\d{2}:\d{2}$/)).default([]),
+    // The last moment a dose can be scheduled, as an ISO timestamp
+    until: z.string().nullable().default(null),
+    // The total number of doses
+    count: z.number().int().min(1).nullable().default(null),
+  })
+  .refine((rule) => !(rule.until && rule.count), {
+    message:
+      "A recurrence can end on a date or after a number of doses, not both",
+  });
+
+export type RecurrenceRule = z.infer<typeof RecurrenceRuleSchema>;
+
+// Stops runaway expansion, e.g. an hourly rule asked for a range of several years
+const MAX_OCCURRENCES = 5000;
+
+const WEEKDAY_NAMES: Record<Weekday, string> = {
+  MO: "Mon",
+  TU: "Tue",
+  WE: "Wed",
+  TH: "Thu",
+  FR: "Fri",
+  SA: "Sat",
+  SU: "Sun",
+};
+
+// Date#getDay() numbers the days from Sunday
+const weekdayOf = (date: Date): Weekday => WEEKDAYS[(date.getDay() + 6) % 7];
+
+const sortTimes = (times: string[]) => [...new Set(times)].sort();
+
+/**
+ * Parses an RRULE string (with or without the "RRULE:" prefix) into a recurrence rule.
+ *
+ * @param text - The RRULE, e.g. "FREQ=WEEKLY;BYDAY=MO,WE;BYHOUR=8,20;BYMINUTE=0".
+ * @returns The recurrence rule, or null if the RRULE is invalid or uses unsupported parts.
+ */
+export function parseRRule(text: string): RecurrenceRule | null {
+  const parts = new Map<string, string>();
+  for (const part of text
+    .trim()
+    .replace(/^RRULE:/i, "")
+    .split(";")) {
+    if (!part) continue;
+    const [key, value] = part.split("=");
+    if (!key || value === undefined) return null;
+    parts.set(key.toUpperCase(), value.toUpperCase());
+  }
+
+  const numbers = (value: string | undefined) =>
+    value ? value.split(",").map(Number) : [];
+
+  const hours = numbers(parts.get("BYHOUR"));
+  const minutes = numbers(parts.get("BYMINUTE"));
+  if ([...hours, ...minutes].some((n) => !Number.isInteger(n))) return null;
+  // BYHOUR and BYMINUTE combine into every hour at every minute
+  const times =
+    hours.length === 0
+      ? []
+      : hours.flatMap((h) =>
+          (minutes.length ? minutes : [0]).map(
+            (m) =>
+              `${String(h).padStart(2, "0")}:${String(m).padStart(2, "0")}`,
+          ),
+        );
+
+  let until: string | null = null;
+  const untilValue = parts.get("UNTIL");
+  if (untilValue) {
+    const match = untilValue.match(
+      /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z?))?$/,
+    );
+    if (!match) return null;
+    const [, y, mo, d, h = "23", mi = "59", s = "59", z] = match;
+    const local = new Date(+y, +mo - 1, +d, +h, +mi, +s);
+    until = (
+      z ? new Date(Date.UTC(+y, +mo - 1, +d, +h, +mi, +s)) : local
+    ).toISOString();
+  }
+
+  const result = RecurrenceRuleSchema.safeParse({
+    freq: parts.get("FREQ"),
+    interval: parts.has("INTERVAL") ? Number(parts.get("INTERVAL")) : 1,
+    byDay: parts.get("BYDAY")?.split(",") ?? [],
+    times: sortTimes(times),
+    until,
+    count: parts.has("COUNT") ? Number(parts.get("COUNT")) : null,
+  });
+  return result.success ? result.data : null;
+}
+
+/**
+ * Formats a recurrence rule as an RRULE string. Times of day are written as BYHOUR/BYMINUTE,
+ * so all times of a rule should share the same minutes (see `hasRepresentableTimes`).
+ *
+ * @param rule - The recurrence rule.
+ * @param options - (optional) Write UNTIL as a local ("floating") time instead of UTC, as RFC 5545
+ * requires when the DTSTART it goes with is floating.
+ * @returns The RRULE, without the "RRULE:" prefix.
+ */
+export function formatRRule(
+  rule: RecurrenceRule,
+  { floating = false }: { floating?: boolean } = {},
+): string {
+  const parts = [`FREQ=${rule.freq}`];
+  if (rule.interval > 1) parts.push(`INTERVAL=${rule.interval}`);
+  if (rule.byDay.length > 0) {
+    const days = WEEKDAYS.filter((d) => rule.byDay.includes(d));
+    parts.push(`BYDAY=${days.join(",")}`);
+  }
+  if (rule.freq !== "HOURLY" && rule.times.length > 0) {
+    const hours = [...new Set(rule.times.map((t) => Number(t.slice(0, 2))))];
+    const minutes = [...new Set(rule.times.map((t) => Number(t.slice(3))))];
+    parts.push(`BYHOUR=${hours.sort((a, b) => a - b).join(",")}`);
+    parts.push(`BYMINUTE=${minutes.sort((a, b) => a - b).join(",")}`);
+  }
+  if (rule.until) {
+    const until = new Date(rule.until);
+    parts.push(
+      `UNTIL=${
+        floating
+          ? format(until, "yyyyMMdd'T'HHmmss")
+          : until.toISOString().replace(/[-:]|\.\d{3}/g, "")
+      }`,
+    );
+  }
+  if (rule.count) parts.push(`COUNT=${rule.count}`);
+  return parts.join(";");
+}
+
+/**
+ * Whether the times of a rule survive the round trip through BYHOUR/BYMINUTE, which always
+ * combine every listed hour with every listed minute.
+ *
+ * @param times - Times of day as "HH:mm".
+ * @returns True if the times can be stored as they are.
+ */
+export function hasRepresentableTimes(times: string[]): boolean {
+  const hours = new Set(times.map((t) => t.slice(0, 2)));
+  const minutes = new Set(times.map((t) => t.slice(3)));
+  return hours.size * minutes.size === new Set(times).size;
+}
+
+/**
+ * Converts the recurrence labels used before recurrence rules existed ("Daily", "Weekly",
+ * "Biweekly", "Monthly", "Every N Days", "Every N Hours", "Every N Months") into a recurrence
+ * rule.
+ *
+ * @param label - The recurrence label.
+ * @returns The recurrence rule, or null for "As Needed", one-off and unknown labels.
+ */
+export function recurrenceRuleFromLabel(
+  label: string | null | undefined,
+): RecurrenceRule | null {
+  const normalized = (label ?? "")
+    .toLowerCase()
+    .replace(/[-\s]+/g, " ")
+    .trim();
+  const rule = (freq: RecurrenceRule["freq"], interval = 1) =>
+    RecurrenceRuleSchema.parse({ freq, interval });
+
+  const interval = normalized.match(/^every (\d+) (days|hours|months)$/);
+  if (interval) {
+    const n = Math.max(1, Number(interval[1]));
+    const freqs = {
+      hours: "HOURLY",
+      days: "DAILY",
+      months: "MONTHLY",
+    } as const;
+    return rule(freqs[interval[2] as keyof typeof freqs], n);
+  }
+  if (normalized === "hourly") return rule("HOURLY");
+  if (normalized === "daily") return rule("DAILY");
+  if (normalized === "weekly") return rule("WEEKLY");
+  if (normalized === "biweekly") return rule("WEEKLY", 2);
+  if (normalized === "monthly") return rule("MONTHLY");
+  return null;
+}
+
+const formatTime = (time: string) =>
+  format(new Date(2000, 0, 1, +time.slice(0, 2), +time.slice(3)), "h:mm a");
+
+/**
+ * Describes a recurrence rule in plain English. This is what is stored in the `recurrence`
+ * column next to the rule, so simple rules keep the labels older reminders use.
+ *
+ * @param rule - The recurrence rule, or null for a medication taken as needed.
+ * @returns The description, e.g. "Every 3 Weeks on Mon, Thu at 8:00 AM, 8:00 PM".
+ */
+export function describeRecurrence(rule: RecurrenceRule | null): string {
+  if (!rule) return "As Needed";
+
+  const units: Record<RecurrenceRule["freq"], [string, string]> = {
+    HOURLY: ["Hourly", "Hours"],
+    DAILY: ["Daily", "Days"],
+    WEEKLY: ["Weekly", "Weeks"],
+    MONTHLY: ["Monthly", "Months"],
+  };
+  const [single, plural] = units[rule.freq];
+
+  let text =
+    rule.interval === 1
+      ? single
+      : rule.freq === "WEEKLY" && rule.interval === 2
+        ? "Biweekly"
+        : `Every ${rule.interval} ${plural}`;
+
+  if (rule.byDay.length > 0) {
+    const days = WEEKDAYS.filter((d) => rule.byDay.includes(d));
+    text += ` on ${days.map((d) => WEEKDAY_NAMES[d]).join(", ")}`;
+  }
+  if (rule.freq !== "HOURLY" && rule.times.length > 0) {
+    text += ` at ${rule.times.map(formatTime).join(", ")}`;
+  }
+  if (rule.until) {
+    text += ` until ${format(new Date(rule.until), "MMM d, yyyy")}`;
+  }
+  if (rule.count) {
+    text += `, ${rule.count} dose${rule.count === 1 ? "" : "s"}`;
+  }
+  return text;
+}
+
+/**
+ * The candidate times of one period of the rule (an hour block, day, week or month),
+ * in chronological order
+ */
+function periodCandidates(
+  rule: RecurrenceRule,
+  dtstart: Date,
+  period: number,
+): { periodStart: Date; candidates: Date[] } {
+  const times =
+    rule.times.length > 0
+      ? rule.times.map((t) => [+t.slice(0, 2), +t.slice(3)])
+      : [[dtstart.getHours(), dtstart.getMinutes()]];
+  // Set on the wall clock rather than added to midnight, which is off by an hour on DST days
+  const atTimes = (day: Date) =>
+    times.map(
+      ([h, m]) =>
+        new Date(day.getFullYear(), day.getMonth(), day.getDate(), h, m),
+    );
+  const allowed = (day: Date) =>
+    rule.byDay.length === 0 || rule.byDay.includes(weekdayOf(day));
+
+  switch (rule.freq) {
+    case "HOURLY": {
+      const time = addHours(dtstart, period * rule.interval);
+      return { periodStart: time, candidates: allowed(time) ? [time] : [] };
+    }
+    case "DAILY": {
+      const day = addDays(startOfDay(dtstart), period * rule.interval);
+      return {
+        periodStart: day,
+        candidates: allowed(day) ? atTimes(day) : [],
+      };
+    }
+    case "WEEKLY": {
+      const weekStart = addWeeks(
+        startOfWeek(dtstart, { weekStartsOn: 1 }),
+        period * rule.interval,
+      );
+      const days = rule.byDay.length > 0 ? rule.byDay : [weekdayOf(dtstart)];
+      return {
+        periodStart: weekStart,
+        candidates: WEEKDAYS.flatMap((d, i) =>
+          days.includes(d) ? atTimes(addDays(weekStart, i)) : [],
+        ),
+      };
+    }
+    case "MONTHLY": {
+      const monthStart = addMonths(
+        startOfMonth(dtstart),
+        period * rule.interval,
+      );
+      let days: Date[];
+      if (rule.byDay.length > 0) {
+        days = Array.from({ length: getDaysInMonth(monthStart) }, (_, i) =>
+          addDays(monthStart, i),
+        ).filter(allowed);
+      } else {
+        // Months too short for the day of the month are skipped, as RFC 5545 requires
+        days =
+          dtstart.getDate() <= getDaysInMonth(monthStart)
+            ? [addDays(monthStart, dtstart.getDate() - 1)]
+            : [];
+      }
+      return { periodStart: monthStart, candidates: days.flatMap(atTimes) };
+    }
+  }
+}
+
+/**
+ * Yields every occurrence of a rule from `dtstart` up to `end`, honouring UNTIL and COUNT
+ */
+function* occurrences(
+  rule: RecurrenceRule,
+  dtstart: Date,
+  end: Date,
+): Generator<Date> {
+  const until = rule.until ? new Date(rule.until) : null;
+  const last = until && until < end ? until : end;
+  let emitted = 0;
+
+  for (let period = 0; ; period++) {
+    const { periodStart, candidates } = periodCandidates(rule, dtstart, period);
+    if (periodStart > last) return;
+
+    for (const candidate of candidates) {
+      if (candidate < dtstart) continue;
+      if (candidate > last) return;
+      yield candidate;
+      emitted += 1;
+      if (rule.count && emitted >= rule.count) return;
+    }
+  }
+}
+
+/**
+ * Lists the occurrences of a recurrence rule that fall within a range. The first occurrence is
+ * never before `dtstart`, and COUNT is counted from `dtstart` even when the range starts later.
+ *
+ * @param rule - The recurrence rule, or null for a single occurrence at `dtstart`.
+ * @param dtstart - The start of the recurrence (the reminder time).
+ * @param rangeStart - The start of the range, inclusive.
+ * @param rangeEnd - The end of the range, inclusive.
+ * @returns The occurrences in chronological order, at most MAX_OCCURRENCES of them.
+ */
+export function expandRecurrence(
+  rule: RecurrenceRule | null,
+  dtstart: Date,
+  rangeStart: Date,
+  rangeEnd: Date,
+): Date[] {
+  if (!rule) {
+    return dtstart >= rangeStart && dtstart <= rangeEnd ? [dtstart] : [];
+  }
+
+  const result: Date[] = [];
+  for (const occurrence of occurrences(rule, dtstart, rangeEnd)) {
+    if (occurrence < rangeStart) continue;
+    result.push(occurrence);
+    if (result.length >= MAX_OCCURRENCES) break;
+  }
+  return result;
+}
+
+/**
+ * Finds the last occurrence of a recurrence rule at or before a given time.
+ *
+ * @param rule - The recurrence rule, or null for a single occurrence at `dtstart`.
+ * @param dtstart - The start of the recurrence (the reminder time).
+ * @param atOrBefore - The time to look back from.
+ * @returns The occurrence, or null if the recurrence hasn't started by then.
+ */
+export function getLatestOccurrence(
+  rule: RecurrenceRule | null,
+  dtstart: Date,
+  atOrBefore: Date,
+): Date | null {
+  if (!rule) return dtstart <= atOrBefore ? dtstart : null;
+
+  let latest: Date | null = null;
+  for (const occurrence of occurrences(rule, dtstart, atOrBefore)) {
+    latest = occurrence;
+  }
+  return latest;
+}
+
+/**
+ * Reads the recurrence rule of a medication reminder. Reminders saved before recurrence
+ * rules existed only have a recurrence label, which is converted instead.
+ *
+ * @param med - The medication reminder.
+ * @returns The recurrence rule, or null if the medication doesn't repeat.
+ */
+export function getMedicationRecurrenceRule(
+  med: Pick<MedicationReminder, "recurrence" | "recurrence_rule">,
+): RecurrenceRule | null {
+  if (med.recurrence_rule) return parseRRule(med.recurrence_rule);
+  return recurrenceRuleFromLabel(med.recurrence);
+}
+
+/**
+ * Lists the dose times of a medication reminder within a range.
+ *
+ * @param med - The medication reminder.
+ * @param rangeStart - The start of the range, inclusive.
+ * @param rangeEnd - The end of the range, inclusive.
+ * @param timeZone - (optional) The IANA time zone the times of day are in. Defaults to local
+ * time; the server, which doesn't run in the user's time zone, passes the user's.
+ * @returns The dose times in chronological order.
+ */
+export function getMedicationOccurrences(
+  med: Pick<
+    MedicationReminder,
+    "reminder_time" | "recurrence" | "recurrence_rule"
+  >,
+  rangeStart: Date,
+  rangeEnd: Date,
+  timeZone?: string,
+): Date[] {
+  const rule = getMedicationRecurrenceRule(med);
+  const dtstart = new Date(med.reminder_time);
+  if (!timeZone || !rule) {
+    return expandRecurrence(rule, dtstart, rangeStart, rangeEnd);
+  }
+
+  // Expand in local time on the zone's wall-clock times, then turn them back into instants
+  const toZoned = (date: Date) => toZonedWallClock(date, timeZone);
+  return expandRecurrence(
+    {
+      ...rule,
+      until: rule.until && toZoned(new Date(rule.until)).toISOString(),
+    },
+    toZoned(dtstart),
+    // Widened by a day, since the wall-clock range can be off by the zone's DST change
+    addDays(toZoned(rangeStart), -1),
+    addDays(toZoned(rangeEnd), 1),
+  )
+    .map((time) => fromZonedWallClock(time, timeZone))
+    .filter((time) => time >= rangeStart && time <= rangeEnd);
+}
+
+/**
+ * The fields to save on a medication reminder for a recurrence rule: the RRULE itself
+ * and its plain-English description.
+ *
+ * @param rule - The recurrence rule, or null for a medication taken as needed.
+ * @returns The `recurrence` and `recurrence_rule` values.
+ */
+export function toMedicationRecurrence(rule: RecurrenceRule | null): {
+  recurrence: string;
+  recurrence_rule: string | null;
+} {
+  return {
+    recurrence: describeRecurrence(rule),
+    recurrence_rule: rule ? formatRRule(rule) : null,
+  };
+}
@@ -0,0 +1,550 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { addMinutes } from "date-fns";
+import { MedicationReminder, MedicationReminderSchema } from "./medications";
+import {
+  AppointmentReminder,
+  AppointmentReminderSchema,
+} from "./appointmentReminders";
+import { MedicationDose, MedicationDoseSchema } from "./medicationDoses";
+import { getMedicationOccurrences } from "./recurrence";
+import { isValidTimeZone } from "./timeZone";
+import { DEFAULT_NOTIFICATION_SETTINGS } from "./notificationPreferences";
+
+/**
+ * This file contains the server-side reminder scheduler. Each run works out which medication
+ * doses and appointments are due for a notification since the previous run, and writes one
+ * `user_notifications` row for each. The app shows those rows as toasts and browser
+ * notifications as they are inserted (see pages/_app.tsx).
+ *
+ * Snoozed doses are reminded about again when their snooze ends. A dose nobody confirms within
+ * the user's escalation window (after it was due, or after its snooze ended) gets one more
+ * notification and is recorded as missed.
+ *
+ * Runs are meant to happen every minute (pages/api/cron/reminders.ts) and look back a few
+ * minutes, so a late or failed run is caught up by the next one. Every row has a dedupe key,
+ * so the overlap never notifies twice.
+ */
+
+// How many minutes before a dose or appointment its notifications are sent
+export type ReminderLeadTimes = {
+  medication: number[];
+  appointment: number[];
+};
+
+export const DEFAULT_LEAD_TIMES: ReminderLeadTimes = {
+  medication: [0],
+  appointment: [24 * 60, 60],
+};
+
+// Each run also covers this many minutes before it, to catch up on missed runs
+export const SCHEDULER_LOOKBACK_MINUTES = 5;
+
+// Minutes after which unconfirmed doses are followed up, for users who haven't picked their own
+export const DEFAULT_ESCALATION_MINUTES =
+  DEFAULT_NOTIFICATION_SETTINGS.escalation_minutes as number;
+
+// Rows are loaded this many at a time, the most a Supabase project returns per request
+const PAGE_SIZE = 1000;
+
+// A user_notifications row written by the scheduler
+export type ScheduledNotification = {
+  user_profile_id: string;
+  title: string;
+  body: string;
+  medication_id: string | null;
+  appointment_id: string | null;
+  scheduled_for: string;
+  dedupe_key: string;
+};
+
+export type ReminderSchedulerRecords = {
+  medications: MedicationReminder[];
+  appointments: AppointmentReminder[];
+  // Doses already marked taken or skipped aren't reminded about; snoozed ones are reminded
+  // about again when their snooze ends
+  doses: Pick<
+    MedicationDose,
+    "medication_id" | "scheduled_for" | "status" | "snoozed_until"
+  >[];
+  // Time zone of each user; users without one are scheduled in UTC
+  timeZones: Record<string, string>;
+  // Appointment lead times each user picked; other users get the default ones
+  appointmentLeadTimes?: Record<string, number[]>;
+  // Escalation window each user picked (null turns it off); other users get the default one
+  escalationMinutes?: Record<string, number | null>;
+};
+
+// A dose nobody confirmed in time, with the notification that follows it up
+export type EscalatedDose = {
+  medication_id: string;
+  user_profile_id: string;
+  scheduled_for: string;
+  // Whether the dose was snoozed, rather than never answered
+  snoozed: boolean;
+  notification: ScheduledNotification;
+};
+
+/**
+ * Describes a lead time, e.g. "now", "in 1 hour" or "in 2 days"
+ */
+function describeLeadTime(minutes: number): string {
+  if (minutes === 0) return "now";
+  const [amount, unit] =
+    minutes % (24 * 60) === 0
+      ? [minutes / (24 * 60), "day"]
+      : minutes % 60 === 0
+        ? [minutes / 60, "hour"]
+        : [minutes, "minute"];
+  return `in ${amount} ${unit}${amount === 1 ? "" : "s"}`;
+}
+
+const doseKey = (medicationId: string, scheduledFor: Date) =>
+  `${medicationId}:${scheduledFor.getTime()}`;
+
+const describeDose = (med: MedicationReminder) =>
+  med.dosage ? `${med.dosage} of ${med.medication_name}` : med.medication_name;
+
+const resolveTimeZone = (timeZone: string | undefined) =>
+  timeZone && isValidTimeZone(timeZone) ? timeZone : "UTC";
+
+const isInWindow = (time: Date, windowStart: Date, windowEnd: Date) =>
+  time > windowStart && time <= windowEnd;
+
+/**
+ * Works out the notifications that fall due within a window. A notification is due when its
+ * dose or appointment, minus the lead time, is after `windowStart` and at or before `windowEnd`.
+ *
+ * @param records - The medications, appointments, marked doses and time zones to consider.
+ * @param windowStart - The start of the window, exclusive.
+ * @param windowEnd - The end of the window, inclusive.
+ * @param leadTimes - (optional) How long before doses and appointments to notify, unless the
+ * user picked their own appointment lead times.
+ * @returns The notifications to write, in no particular order.
+ */
+export function planReminderNotifications(
+  {
+    medications,
+    appointments,
+    doses,
+    timeZones,
+    appointmentLeadTimes = {},
+  }: ReminderSchedulerRecords,
+  windowStart: Date,
+  windowEnd: Date,
+  leadTimes: ReminderLeadTimes = DEFAULT_LEAD_TIMES,
+): ScheduledNotification[] {
+  const notifications: ScheduledNotification[] = [];
+  const isDue = (time: Date, lead: number) =>
+    isInWindow(addMinutes(time, -lead), windowStart, windowEnd);
+
+  const markedDoses = new Set(
+    doses
+      .filter((d) => d.status === "taken" || d.status === "skipped")
+      .map((d) => doseKey(d.medication_id, new Date(d.scheduled_for))),
+  );
+
+  for (const med of medications) {
+    for (const lead of leadTimes.medication) {
+      const occurrences = getMedicationOccurrences(
+        med,
+        addMinutes(windowStart, lead),
+        addMinutes(windowEnd, lead),
+        resolveTimeZone(timeZones[med.user_profile_id]),
+      );
+      for (const time of occurrences) {
+        if (!isDue(time, lead) || markedDoses.has(doseKey(med.id, time))) {
+          continue;
+        }
+        notifications.push({
+          user_profile_id: med.user_profile_id,
+          title:
+            lead === 0
+              ? `💊 Time to take ${med.medication_name}`
+              : `💊 ${med.medication_name} is due ${describeLeadTime(lead)}`,
+          body: `Take ${describeDose(med)}.`,
+          medication_id: med.id,
+          appointment_id: null,
+          scheduled_for: time.toISOString(),
+          dedupe_key: `med:${med.id}:${time.toISOString()}:${lead}`,
+        });
+      }
+    }
+  }
+
+  // Snoozes that end within the window
+  const medsById = new Map(medications.map((med) => [med.id, med]));
+  for (const dose of doses) {
+    const med = medsById.get(dose.medication_id);
+    if (!med || dose.status !== "snoozed" || !dose.snoozed_until) continue;
+    const snoozedUntil = new Date(dose.snoozed_until);
+    if (!isDue(snoozedUntil, 0)) continue;
+
+    const scheduledFor = new Date(dose.scheduled_for).toISOString();
+    notifications.push({
+      user_profile_id: med.user_profile_id,
+      title: `⏰ Time to take ${med.medication_name}`,
+      body: `Snoozed reminder: take ${describeDose(med)}.`,
+      medication_id: med.id,
+      appointment_id: null,
+      scheduled_for: scheduledFor,
+      dedupe_key: `snooze:${med.id}:${scheduledFor}:${snoozedUntil.toISOString()}`,
+    });
+  }
+
+  for (const appt of appointments) {
+    const time = new Date(appt.date);
+    const leads =
+      appointmentLeadTimes[appt.user_profile_id] ?? leadTimes.appointment;
+    for (const lead of leads) {
+      if (!isDue(time, lead)) continue;
+      notifications.push({
+        user_profile_id: appt.user_profile_id,
+        title: `🗓️ ${appt.appointment_name}`,
+        body: `Your appointment "${appt.appointment_name}" starts ${describeLeadTime(lead)}.`,
+        medication_id: null,
+        appointment_id: appt.id,
+        scheduled_for: time.toISOString(),
+        dedupe_key: `appt:${appt.id}:${time.toISOString()}:${lead}`,
+      });
+    }
+  }
+
+  return notifications;
+}
+
+/**
+ * Works out the doses whose escalation falls due within a window: doses with no answer at all
+ * whose escalation window ended, and snoozed doses whose escalation window after the snooze
+ * ended. Medications taken as needed are never escalated.
+ *
+ * @param records - The medications, every recorded dose around the window, time zones and
+ * escalation windows to consider.
+ * @param windowStart - The start of the window, exclusive.
+ * @param windowEnd - The end of the window, inclusive.
+ * @param defaultEscalationMinutes - (optional) The escalation window of users who haven't
+ * picked their own.
+ * @returns The doses to mark missed, with their follow-up notifications.
+ */
+export function planDoseEscalations(
+  {
+    medications,
+    doses,
+    timeZones,
+    escalationMinutes = {},
+  }: Omit<ReminderSchedulerRecords, "appointments">,
+  windowStart: Date,
+  windowEnd: Date,
+  defaultEscalationMinutes: number = DEFAULT_ESCALATION_MINUTES,
+): EscalatedDose[] {
+  const escalated: EscalatedDose[] = [];
+  const recordedDoses = new Set(
+    doses.map((d) => doseKey(d.medication_id, new Date(d.scheduled_for))),
+  );
+
+  const escalate = (med: MedicationReminder, time: Date, snoozed: boolean) => {
+    const scheduledFor = time.toISOString();
+    escalated.push({
+      medication_id: med.id,
+      user_profile_id: med.user_profile_id,
+      scheduled_for: scheduledFor,
+      snoozed,
+      notification: {
+        user_profile_id: med.user_profile_id,
+        title: `⚠️ Missed dose: ${med.medication_name}`,
+        body: `You haven't confirmed taking ${describeDose(med)}. Take it now, or mark it as skipped.`,
+        medication_id: med.id,
+        appointment_id: null,
+        scheduled_for: scheduledFor,
+        dedupe_key: `missed:${med.id}:${scheduledFor}`,
+      },
+    });
+  };
+
+  for (const med of medications) {
+    const window =
+      med.user_profile_id in escalationMinutes
+        ? escalationMinutes[med.user_profile_id]
+        : defaultEscalationMinutes;
+    if (window === null || med.recurrence === "As Needed") continue;
+
+    const occurrences = getMedicationOccurrences(
+      med,
+      addMinutes(windowStart, -window),
+      addMinutes(windowEnd, -window),
+      resolveTimeZone(timeZones[med.user_profile_id]),
+    );
+    for (const time of occurrences) {
+      if (
+        isInWindow(addMinutes(time, window), windowStart, windowEnd) &&
+        !recordedDoses.has(doseKey(med.id, time))
+      ) {
+        escalate(med, time, false);
+      }
+    }
+
+    for (const dose of doses) {
+      if (
+        dose.medication_id === med.id &&
+        dose.status === "snoozed" &&
+        dose.snoozed_until &&
+        isInWindow(
+          addMinutes(new Date(dose.snoozed_until), window),
+          windowStart,
+          windowEnd,
+        )
+      ) {
+        escalate(med, new Date(dose.scheduled_for), true);
+      }
+    }
+  }
+
+  return escalated;
+}
+
+/**
+ * Records escalated doses as missed. Doses answered in the meantime are left alone.
+ *
+ * @param client - A service role Supabase client.
+ * @param escalated - The escalated doses.
+ * @returns The doses that were marked missed.
+ * @throws An error if a dose can't be saved.
+ */
+async function markDosesMissed(
+  client: SupabaseClient,
+  escalated: EscalatedDose[],
+): Promise<EscalatedDose[]> {
+  const marked = new Set<string>();
+  const mark = (rows: { medication_id: string; scheduled_for: string }[]) =>
+    rows.forEach((r) =>
+      marked.add(doseKey(r.medication_id, new Date(r.scheduled_for))),
+    );
+
+  const unanswered = escalated.filter((d) => !d.snoozed);
+  if (unanswered.length > 0) {
+    // Only the doses that were inserted come back
+    const { data, error } = await client
+      .from("medication_doses")
+      .upsert(
+        unanswered.map((d) => ({
+          medication_id: d.medication_id,
+          user_profile_id: d.user_profile_id,
+          scheduled_for: d.scheduled_for,
+          status: "missed",
+        })),
+        { onConflict: "medication_id,scheduled_for", ignoreDuplicates: true },
+      )
+      .select("medication_id, scheduled_for");
+    if (error) throw error;
+    mark(data ?? []);
+  }
+
+  for (const dose of escalated.filter((d) => d.snoozed)) {
+    const { data, error } = await client
+      .from("medication_doses")
+      .update({ status: "missed", snoozed_until: null })
+      .eq("medication_id", dose.medication_id)
+      .eq("scheduled_for", dose.scheduled_for)
+      .eq("status", "snoozed")
+      .select("medication_id, scheduled_for");
+    if (error) throw error;
+    mark(data ?? []);
+  }
+
+  return escalated.filter((d) =>
+    marked.has(doseKey(d.medication_id, new Date(d.scheduled_for))),
+  );
+}
+
+/**
+ * Retrieves every row a query matches, a page at a time, since a single request is cut off at
+ * the project's row limit. The query has to be ordered by a unique key so pages don't overlap.
+ */
+async function fetchAllPages(
+  query: (
+    from: number,
+    to: number,
+  ) => PromiseLike<{ data: unknown[] | null; error: unknown }>,
+): Promise<unknown[]> {
+  const rows: unknown[] = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await query(from, from + PAGE_SIZE - 1);
+    if (error) throw error;
+    rows.push(...(data ?? []));
+    if (!data || data.length < PAGE_SIZE) return rows;
+  }
+}
+
+/**
+ * Runs the scheduler once: loads what's due since the last few minutes, marks unconfirmed doses
+ * missed and writes the notifications that haven't been written yet. Needs a client that can read every user's
+ * records, i.e. one created with `createServiceSupabaseClient`.
+ *
+ * @param client - A service role Supabase client (a local Supabase works too).
+ * @param options - (optional) The time of the run, how far it looks back, and the lead times.
+ * @returns How many notifications were due, the ones that were new, and how many doses were
+ * marked missed.
+ * @throws An error if loading records or writing doses or notifications fails.
+ */
+export async function runReminderScheduler(
+  client: SupabaseClient,
+  {
+    now = new Date(),
+    lookbackMinutes = SCHEDULER_LOOKBACK_MINUTES,
+    leadTimes = DEFAULT_LEAD_TIMES,
+  }: {
+    now?: Date;
+    lookbackMinutes?: number;
+    leadTimes?: ReminderLeadTimes;
+  } = {},
+): Promise<{
+  due: number;
+  created: ScheduledNotification[];
+  missed: number;
+}> {
+  const windowStart = addMinutes(now, -lookbackMinutes);
+  const maxLead = (leads: number[]) => Math.max(0, ...leads);
+
+  // Users' own lead times and escalation windows decide how far around the window to load
+  const prefs = (await fetchAllPages((from, to) =>
+    client
+      .from("notification_preferences")
+      .select(
+        "user_profile_id, time_zone, appointment_lead_minutes, escalation_minutes",
+      )
+      .order("user_profile_id")
+      .range(from, to),
+  )) as {
+    user_profile_id: string;
+    time_zone: string;
+    appointment_lead_minutes: number[] | null;
+    escalation_minutes?: number | null;
+  }[];
+  const appointmentLeadTimes = Object.fromEntries(
+    prefs
+      .filter((p) => p.appointment_lead_minutes)
+      .map((p) => [p.user_profile_id, p.appointment_lead_minutes as number[]]),
+  );
+  const maxAppointmentLead = maxLead([
+    ...leadTimes.appointment,
+    ...Object.values(appointmentLeadTimes).flat(),
+  ]);
+  const escalationMinutes = Object.fromEntries(
+    prefs
+      .filter((p) => p.escalation_minutes !== undefined)
+      .map((p) => [p.user_profile_id, p.escalation_minutes ?? null]),
+  );
+  const escalationStart = addMinutes(
+    windowStart,
+    -maxLead([
+      DEFAULT_ESCALATION_MINUTES,
+      ...Object.values(escalationMinutes).filter((m) => m !== null),
+    ]),
+  ).toISOString();
+
+  const doseColumns = "medication_id, scheduled_for, status, snoozed_until";
+  const doseHorizon = addMinutes(
+    now,
+    maxLead(leadTimes.medication),
+  ).toISOString();
+  const [meds, appts, recordedDoses, snoozedDoses] = await Promise.all([
+    // A medication's first dose is at its reminder time, so later ones can't be due yet
+    fetchAllPages((from, to) =>
+      client
+        .from("medication_reminders")
+        .select("*")
+        .lte("reminder_time", doseHorizon)
+        .order("id")
+        .range(from, to),
+    ),
+    fetchAllPages((from, to) =>
+      client
+        .from("appointment_reminders")
+        .select("*")
+        .gt("date", windowStart.toISOString())
+        .lte("date", addMinutes(now, maxAppointmentLead).toISOString())
+        .order("id")
+        .range(from, to),
+    ),
+    // Every dose recorded around the window, to tell which ones were answered
+    fetchAllPages((from, to) =>
+      client
+        .from("medication_doses")
+        .select(doseColumns)
+        .gt("scheduled_for", escalationStart)
+        .lte("scheduled_for", doseHorizon)
+        .order("medication_id")
+        .order("scheduled_for")
+        .range(from, to),
+    ),
+    // Snoozes that end around the window, whenever their dose was
+    fetchAllPages((from, to) =>
+      client
+        .from("medication_doses")
+        .select(doseColumns)
+        .eq("status", "snoozed")
+        .gt("snoozed_until", escalationStart)
+        .lte("snoozed_until", now.toISOString())
+        .order("medication_id")
+        .order("scheduled_for")
+        .range(from, to),
+    ),
+  ]);
+
+  const doseSchema = MedicationDoseSchema.pick({
+    medication_id: true,
+    scheduled_for: true,
+    status: true,
+    snoozed_until: true,
+  });
+  const doses = new Map(
+    doseSchema
+      .array()
+      .parse([...recordedDoses, ...snoozedDoses])
+      .map((d) => [doseKey(d.medication_id, new Date(d.scheduled_for)), d]),
+  );
+
+  const records: ReminderSchedulerRecords = {
+    medications: MedicationReminderSchema.array().parse(meds),
+    appointments: AppointmentReminderSchema.array().parse(appts),
+    doses: [...doses.values()],
+    timeZones: Object.fromEntries(
+      prefs.map((p) => [p.user_profile_id, p.time_zone]),
+    ),
+    appointmentLeadTimes,
+    escalationMinutes,
+  };
+  const reminders = planReminderNotifications(
+    records,
+    windowStart,
+    now,
+    leadTimes,
+  );
+  const escalated = planDoseEscalations(records, windowStart, now);
+  if (reminders.length === 0 && escalated.length === 0) {
+    return { due: 0, created: [], missed: 0 };
+  }
+
+  // A dose the user answered since it was loaded isn't followed up
+  const missed = await markDosesMissed(client, escalated);
+  const due = [...reminders, ...missed.map((d) => d.notification)];
+  if (due.length === 0) return { due: 0, created: [], missed: 0 };
+
+  // Rows from an earlier, overlapping run are left alone
+  const { data, error } = await client
+    .from("user_notifications")
+    .upsert(due, { onConflict: "dedupe_key", ignoreDuplicates: true })
+    .select(
+      "user_profile_id, title, body, medication_id, appointment_id, scheduled_for, dedupe_key",
+    );
+
+  if (error) throw error;
+  return {
+    due: due.length,
+    created: (data ?? []) as ScheduledNotification[],
+    missed: missed.length,
+  };
+}
+
+// Supabase RLS Policy: The scheduler uses the service role, which bypasses RLS, to read every
+// user's reminders and write their notifications. Users can still only read their own notifications.
+// See supabase/migrations/20261019040000_reminder_scheduler.sql
@@ -0,0 +1,89 @@
+/**
+ * This file contains the registration of the service worker (public/sw.js), which shows
+ * notifications and keeps the app shell cached so SymptomSync opens offline once installed.
+ * The worker is registered per build (/sw.js?build=<buildId>), so each deploy installs a
+ * worker that precaches that build's assets.
+ */
+
+// Next.js' build id in dev, where nothing is precached
+export const DEV_BUILD_ID = "development";
+
+/**
+ * Retrieves the id of the build this page was loaded from.
+ *
+ * @returns The build id, or null outside the browser.
+ */
+export function getBuildId(): string | null {
+  if (typeof window === "undefined") return null;
+  return window.__NEXT_DATA__?.buildId ?? null;
+}
+
+/**
+ * The URL the service worker for a build is registered with.
+ *
+ * @param buildId - The build id.
+ * @returns The service worker URL.
+ */
+export function serviceWorkerUrl(buildId: string): string {
+  return `/sw.js?build=${encodeURIComponent(buildId)}`;
+}
+
+/**
+ * Reads which build a service worker was registered for.
+ *
+ * @param worker - The service worker, e.g. registration.waiting.
+ * @returns The build id, or null for a worker registered without one.
+ */
+export function getWorkerBuildId(
+  worker: Pick<ServiceWorker, "scriptURL"> | null | undefined,
+): string | null {
+  if (!worker) return null;
+  return new URL(worker.scriptURL, "http://localhost").searchParams.get(
+    "build",
+  );
+}
+
+/**
+ * Reads the build id out of a Next.js page.
+ *
+ * @param html - The page's HTML.
+ * @returns The build id, or null if the page has none.
+ */
+export function parseBuildId(html: string): string | null {
+  return html.match(/"buildId"\s*:\s*"([^"]+)"/)?.[1] ?? null;
+}
+
+/**
+ * Registers the service worker for a build. Registering a newer build than the active worker's
+ * installs it next to the old one; it waits until the app is reloaded (see
+ * components/AppUpdatePrompt.tsx).
+ *
+ * @param buildId - (optional) The build to register, defaults to this page's build.
+ * @returns The registration, or null if service workers aren't supported.
+ */
+export async function registerServiceWorker(
+  buildId: string | null = getBuildId(),
+): Promise<ServiceWorkerRegistration | null> {
+  if (typeof window === "undefined" || !("serviceWorker" in navigator)) {
+    return null;
+  }
+  return navigator.serviceWorker.register(
+    serviceWorkerUrl(buildId ?? DEV_BUILD_ID),
+  );
+}
+
+/**
+ * Asks the server which build is deployed now. Offline, the service worker answers with the
+ * cached page, so the current build is reported.
+ *
+ * @returns The deployed build id, or null if it couldn't be reached.
+ */
+export async function fetchDeployedBuildId(): Promise<string | null> {
+  try {
+    const res = await fetch("/offline", { cache: "no-store" });
+    if (!res.ok) return null;
+    return parseBuildId(await res.text());
+  } catch {
+    return null;
+  }
+}
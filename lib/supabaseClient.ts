@@ -17,3 +17,40 @@ export const supabase: SupabaseClient = createClient(
 );
 
 export const getSupabaseClient = () => supabase;
+
+/**
+ * Creates a Supabase client that acts on behalf of the user who owns the given access token.
+ * Used by API routes so that queries still go through the user's RLS policies.
+ *
+ * @param accessToken - The user's Supabase access token (JWT).
+ * @returns A Supabase client scoped to that user.
+ */
+export const createServerSupabaseClient = (
+  accessToken: string,
+): SupabaseClient =>
+  createClient(
+    supabaseUrl || "http://localhost:54321",
+    supabaseAnonKey || "dummy_anon_key",
+    {
+      global: { headers: { Authorization: `Bearer ${accessToken}` } },
+      auth: { persistSession: false, autoRefreshToken: false },
+    },
+  );
+
+/**
+ * Creates a Supabase client with the service role key, which bypasses RLS. Only for server-side
+ * jobs that act for every user, such as the reminder scheduler; never use it in the browser.
+ *
+ * @returns A Supabase client with full access to the database.
+ * @throws An error if SUPABASE_SERVICE_ROLE_KEY is not set.
+ */
+export const createServiceSupabaseClient = (): SupabaseClient => {
+  const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+  if (!serviceRoleKey) {
+    throw new Error("Missing SUPABASE_SERVICE_ROLE_KEY");
+  }
+
+  return createClient(supabaseUrl || "http://localhost:54321", serviceRoleKey, {
+    auth: { persistSession: false, autoRefreshToken: false },
+  });
+};
@@ -0,0 +1,546 @@
+import { z } from "zod";
+
+/**
+ * This file contains the symptom catalogue health logs pick their symptoms from. Each symptom
+ * has a canonical name, the synonyms it is also known by, the body system it belongs to and,
+ * where one applies, its SNOMED CT concept and ICD-10 code. A log can still hold a symptom that
+ * isn't in the catalogue; it is stored by name with no symptom_id.
+ */
+
+export const BODY_SYSTEMS = [
+  "General",
+  "Neurological",
+  "Mental health",
+  "Eyes",
+  "Ear, nose & throat",
+  "Respiratory",
+  "Cardiovascular",
+  "Digestive",
+  "Urinary",
+  "Musculoskeletal",
+  "Skin",
+] as const;
+
+export type BodySystem = (typeof BODY_SYSTEMS)[number];
+
+export type Symptom = {
+  id: string;
+  name: string;
+  synonyms: string[];
+  bodySystem: BodySystem;
+  snomed?: string;
+  icd10?: string;
+};
+
+// Keep in sync with the synonym map in supabase/migrations/20261019100000_symptom_taxonomy.sql
+export const SYMPTOM_CATALOGUE: Symptom[] = [
+  {
+    id: "fever",
+    name: "Fever",
+    synonyms: ["high temperature", "pyrexia", "febrile"],
+    bodySystem: "General",
+    snomed: "386661006",
+    icd10: "R50.9",
+  },
+  {
+    id: "chills",
+    name: "Chills",
+    synonyms: ["shivering", "rigors", "cold sweats"],
+    bodySystem: "General",
+    snomed: "43724002",
+    icd10: "R68.83",
+  },
+  {
+    id: "fatigue",
+    name: "Fatigue",
+    synonyms: ["tiredness", "tired", "exhaustion", "lethargy", "low energy"],
+    bodySystem: "General",
+    snomed: "84229001",
+    icd10: "R53.83",
+  },
+  {
+    id: "night-sweats",
+    name: "Night Sweats",
+    synonyms: ["sweating at night", "sweats"],
+    bodySystem: "General",
+    snomed: "42984000",
+    icd10: "R61",
+  },
+  {
+    id: "weight-loss",
+    name: "Weight Loss",
+    synonyms: ["losing weight", "unintentional weight loss"],
+    bodySystem: "General",
+    snomed: "89362005",
+    icd10: "R63.4",
+  },
+  {
+    id: "loss-of-appetite",
+    name: "Loss of Appetite",
+    synonyms: ["no appetite", "poor appetite", "anorexia"],
+    bodySystem: "General",
+    snomed: "79890006",
+    icd10: "R63.0",
+  },
+  {
+    id: "swelling",
+    name: "Swelling",
+    synonyms: ["edema", "oedema", "swollen", "fluid retention"],
+    bodySystem: "General",
+    snomed: "267038008",
+    icd10: "R60.9",
+  },
+  {
+    id: "headache",
+    name: "Headache",
+    synonyms: ["head ache", "head pain", "cephalalgia"],
+    bodySystem: "Neurological",
+    snomed: "25064002",
+    icd10: "R51.9",
+  },
+  {
+    id: "migraine",
+    name: "Migraine",
+    synonyms: ["migraines", "migraine headache"],
+    bodySystem: "Neurological",
+    snomed: "37796009",
+    icd10: "G43.909",
+  },
+  {
+    id: "dizziness",
+    name: "Dizziness",
+    synonyms: ["dizzy", "lightheaded", "light headed", "vertigo"],
+    bodySystem: "Neurological",
+    snomed: "404640003",
+    icd10: "R42",
+  },
+  {
+    id: "fainting",
+    name: "Fainting",
+    synonyms: ["syncope", "passing out", "blackout"],
+    bodySystem: "Neurological",
+    snomed: "271594007",
+    icd10: "R55",
+  },
+  {
+    id: "numbness",
+    name: "Numbness",
+    synonyms: ["numb", "loss of sensation"],
+    bodySystem: "Neurological",
+    snomed: "44077006",
+    icd10: "R20.0",
+  },
+  {
+    id: "tingling",
+    name: "Tingling",
+    synonyms: ["pins and needles", "paresthesia", "paraesthesia"],
+    bodySystem: "Neurological",
+    snomed: "62507009",
+    icd10: "R20.2",
+  },
+  {
+    id: "tremor",
+    name: "Tremor",
+    synonyms: ["shaking", "shakiness", "trembling"],
+    bodySystem: "Neurological",
+    snomed: "26079004",
+    icd10: "R25.1",
+  },
+  {
+    id: "confusion",
+    name: "Confusion",
+    synonyms: ["brain fog", "disorientation", "confused"],
+    bodySystem: "Neurological",
+    snomed: "286933003",
+    icd10: "R41.0",
+  },
+  {
+    id: "memory-loss",
+    name: "Memory Loss",
+    synonyms: ["forgetfulness", "amnesia", "poor memory"],
+    bodySystem: "Neurological",
+    snomed: "386807006",
+    icd10: "R41.3",
+  },
+  {
+    id: "insomnia",
+    name: "Insomnia",
+    synonyms: ["trouble sleeping", "sleeplessness", "can't sleep"],
+    bodySystem: "Mental health",
+    snomed: "193462001",
+    icd10: "G47.00",
+  },
+  {
+    id: "anxiety",
+    name: "Anxiety",
+    synonyms: ["anxious", "nervousness", "worry", "panic"],
+    bodySystem: "Mental health",
+    snomed: "48694002",
+  },
+  {
+    id: "low-mood",
+    name: "Low Mood",
+    synonyms: ["depressed mood", "feeling down", "sadness", "depression"],
+    bodySystem: "Mental health",
+    snomed: "366979004",
+  },
+  {
+    id: "blurred-vision",
+    name: "Blurred Vision",
+    synonyms: ["blurry vision", "vision problems"],
+    bodySystem: "Eyes",
+    snomed: "111516008",
+    icd10: "H53.8",
+  },
+  {
+    id: "ear-pain",
+    name: "Ear Pain",
+    synonyms: ["earache", "ear ache", "otalgia"],
+    bodySystem: "Ear, nose & throat",
+    snomed: "16001004",
+    icd10: "H92.09",
+  },
+  {
+    id: "sore-throat",
+    name: "Sore Throat",
+    synonyms: ["throat pain", "scratchy throat", "pharyngitis"],
+    bodySystem: "Ear, nose & throat",
+    snomed: "162397003",
+    icd10: "R07.0",
+  },
+  {
+    id: "runny-nose",
+    name: "Runny Nose",
+    synonyms: ["rhinorrhea", "rhinorrhoea", "running nose"],
+    bodySystem: "Ear, nose & throat",
+    snomed: "64531003",
+    icd10: "J34.89",
+  },
+  {
+    id: "nasal-congestion",
+    name: "Nasal Congestion",
+    synonyms: ["stuffy nose", "blocked nose", "congestion", "stuffed nose"],
+    bodySystem: "Ear, nose & throat",
+    snomed: "68235000",
+    icd10: "R09.81",
+  },
+  {
+    id: "sneezing",
+    name: "Sneezing",
+    synonyms: ["sneeze", "sneezes"],
+    bodySystem: "Ear, nose & throat",
+    snomed: "76067001",
+    icd10: "R06.7",
+  },
+  {
+    id: "cough",
+    name: "Cough",
+    synonyms: ["coughing", "dry cough", "wet cough"],
+    bodySystem: "Respiratory",
+    snomed: "49727002",
+    icd10: "R05.9",
+  },
+  {
+    id: "shortness-of-breath",
+    name: "Shortness of Breath",
+    synonyms: ["breathlessness", "difficulty breathing", "dyspnea", "dyspnoea"],
+    bodySystem: "Respiratory",
+    snomed: "267036007",
+    icd10: "R06.02",
+  },
+  {
+    id: "wheezing",
+    name: "Wheezing",
+    synonyms: ["wheeze", "wheezy"],
+    bodySystem: "Respiratory",
+    snomed: "56018004",
+    icd10: "R06.2",
+  },
+  {
+    id: "chest-pain",
+    name: "Chest Pain",
+    synonyms: ["chest tightness", "chest discomfort"],
+    bodySystem: "Cardiovascular",
+    snomed: "29857009",
+    icd10: "R07.9",
+  },
+  {
+    id: "palpitations",
+    name: "Palpitations",
+    synonyms: ["racing heart", "heart racing", "pounding heart", "fluttering"],
+    bodySystem: "Cardiovascular",
+    snomed: "80313002",
+    icd10: "R00.2",
+  },
+  {
+    id: "nausea",
+    name: "Nausea",
+    synonyms: ["nauseous", "queasy", "feeling sick"],
+    bodySystem: "Digestive",
+    snomed: "422587007",
+    icd10: "R11.0",
+  },
+  {
+    id: "vomiting",
+    name: "Vomiting",
+    synonyms: ["throwing up", "being sick", "emesis"],
+    bodySystem: "Digestive",
+    snomed: "422400008",
+    icd10: "R11.10",
+  },
+  {
+    id: "diarrhea",
+    name: "Diarrhea",
+    synonyms: ["diarrhoea", "loose stools", "runny stools"],
+    bodySystem: "Digestive",
+    snomed: "62315008",
+    icd10: "R19.7",
+  },
+  {
+    id: "constipation",
+    name: "Constipation",
+    synonyms: ["constipated", "hard stools"],
+    bodySystem: "Digestive",
+    snomed: "14760008",
+    icd10: "K59.00",
+  },
+  {
+    id: "abdominal-pain",
+    name: "Abdominal Pain",
+    synonyms: ["stomach ache", "stomachache", "stomach pain", "belly pain"],
+    bodySystem: "Digestive",
+    snomed: "21522001",
+    icd10: "R10.9",
+  },
+  {
+    id: "bloating",
+    name: "Bloating",
+    synonyms: ["bloated", "gas", "abdominal bloating"],
+    bodySystem: "Digestive",
+    snomed: "116289008",
+    icd10: "R14.0",
+  },
+  {
+    id: "heartburn",
+    name: "Heartburn",
+    synonyms: ["acid reflux", "indigestion", "reflux"],
+    bodySystem: "Digestive",
+    snomed: "16331000",
+    icd10: "R12",
+  },
+  {
+    id: "frequent-urination",
+    name: "Frequent Urination",
+    synonyms: ["urinary frequency", "peeing often"],
+    bodySystem: "Urinary",
+    snomed: "162116003",
+    icd10: "R35.0",
+  },
+  {
+    id: "painful-urination",
+    name: "Painful Urination",
+    synonyms: ["dysuria", "burning urination"],
+    bodySystem: "Urinary",
+    snomed: "49650001",
+    icd10: "R30.0",
+  },
+  {
+    id: "back-pain",
+    name: "Back Pain",
+    synonyms: ["backache", "back ache", "lower back pain"],
+    bodySystem: "Musculoskeletal",
+    snomed: "161891005",
+    icd10: "M54.9",
+  },
+  {
+    id: "neck-pain",
+    name: "Neck Pain",
+    synonyms: ["stiff neck", "sore neck"],
+    bodySystem: "Musculoskeletal",
+    snomed: "81680005",
+    icd10: "M54.2",
+  },
+  {
+    id: "joint-pain",
+    name: "Joint Pain",
+    synonyms: ["arthralgia", "sore joints", "aching joints"],
+    bodySystem: "Musculoskeletal",
+    snomed: "57676002",
+    icd10: "M25.50",
+  },
+  {
+    id: "muscle-pain",
+    name: "Muscle Pain",
+    synonyms: ["myalgia", "muscle aches", "body aches", "sore muscles"],
+    bodySystem: "Musculoskeletal",
+    snomed: "68962001",
+    icd10: "M79.10",
+  },
+  {
+    id: "rash",
+    name: "Rash",
+    synonyms: ["skin rash", "hives", "eruption"],
+    bodySystem: "Skin",
+    snomed: "271807003",
+    icd10: "R21",
+  },
+  {
+    id: "itching",
+    name: "Itching",
+    synonyms: ["itchy", "itchiness", "pruritus"],
+    bodySystem: "Skin",
+    snomed: "418290006",
+    icd10: "L29.9",
+  },
+];
+
+export const SYMPTOMS_BY_ID = new Map(SYMPTOM_CATALOGUE.map((s) => [s.id, s]));
+
+/**
+ * Lowercases a symptom and collapses its whitespace, so "Headache", "headache " and
+ * "HEADACHE" compare equal.
+ */
+export function normalizeSymptomText(text: string): string {
+  return text.trim().replace(/\s+/g, " ").toLowerCase();
+}
+
+// Every canonical name and synonym, normalized, to the symptom it names
+const SYMPTOMS_BY_TERM = new Map(
+  SYMPTOM_CATALOGUE.flatMap((s) =>
+    [s.name, ...s.synonyms].map((term) => [normalizeSymptomText(term), s]),
+  ),
+);
+
+/**
+ * Finds the catalogue symptom a name or synonym refers to, e.g. "migraines" or "Stomach ache".
+ *
+ * @param text - The symptom as the user typed it.
+ * @returns The symptom, or null if it isn't in the catalogue.
+ */
+export function findSymptom(text: string): Symptom | null {
+  return SYMPTOMS_BY_TERM.get(normalizeSymptomText(text)) ?? null;
+}
+
+/**
+ * Searches the catalogue for the autocomplete: symptoms whose name or a synonym starts with the
+ * query come first, then those that contain it.
+ *
+ * @param query - What the user has typed so far.
+ * @param limit - The most symptoms to return.
+ * @returns The matching symptoms, without duplicates.
+ */
+export function searchSymptoms(query: string, limit = 8): Symptom[] {
+  const q = normalizeSymptomText(query);
+  if (!q) return SYMPTOM_CATALOGUE.slice(0, limit);
+
+  const rank = (s: Symptom) => {
+    const terms = [s.name, ...s.synonyms].map(normalizeSymptomText);
+    if (terms.some((t) => t.startsWith(q))) return 0;
+    if (terms.some((t) => t.includes(q))) return 1;
+    return null;
+  };
+
+  return SYMPTOM_CATALOGUE.map((s) => ({ s, r: rank(s) }))
+    .filter((m) => m.r !== null)
+    .sort((a, b) => a.r! - b.r!)
+    .slice(0, limit)
+    .map((m) => m.s);
+}
+
+// Zod schema for one symptom of a health log.
+export const SymptomEntrySchema = z.object({
+  // The catalogue id, or null for a symptom that isn't in the catalogue
+  symptom_id: z.string().nullable(),
+  name: z.string().min(1),
+  severity: z.number().min(0).max(10),
+});
+
+export type SymptomEntry = z.infer<typeof SymptomEntrySchema>;
+
+/**
+ * Turns what the user typed into a symptom entry: a catalogue symptom by its canonical name, or
+ * the text in title case.
+ *
+ * @param text - The symptom as the user typed it.
+ * @param severity - Its severity, 0 to 10.
+ * @returns The entry, or null if the text is empty.
+ */
+export function toSymptomEntry(
+  text: string,
+  severity: number,
+): SymptomEntry | null {
+  const symptom = findSymptom(text);
+  if (symptom) {
+    return { symptom_id: symptom.id, name: symptom.name, severity };
+  }
+  const name = normalizeSymptomText(text).replace(/\b\w/g, (c) =>
+    c.toUpperCase(),
+  );
+  return name ? { symptom_id: null, name, severity } : null;
+}
+
+/**
+ * Reads a comma-separated list of symptoms, as logs stored them before the catalogue, into
+ * entries that all share the log's severity. Repeats are dropped.
+ *
+ * @param text - e.g. "headache , Migraine, nausea".
+ * @param severity - The log's severity.
+ * @returns The symptom entries.
+ */
+export function parseSymptomList(
+  text: string | null | undefined,
+  severity: number | null | undefined,
+): SymptomEntry[] {
+  const entries = (text ?? "")
+    .split(",")
+    .map((part) => toSymptomEntry(part, severity ?? 0))
+    .filter((entry): entry is SymptomEntry => entry !== null);
+  return dedupeSymptoms(entries);
+}
+
+/**
+ * Drops repeated symptoms, keeping the first of each.
+ */
+export function dedupeSymptoms(entries: SymptomEntry[]): SymptomEntry[] {
+  const seen = new Set<string>();
+  return entries.filter((entry) => {
+    const key = entry.symptom_id ?? normalizeSymptomText(entry.name);
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
+
+/**
+ * The symptoms of a health log. Logs saved before the catalogue only have symptom_type, so their
+ * symptoms are read from it.
+ *
+ * @param log - The health log.
+ * @returns The log's symptom entries.
+ */
+export function getLogSymptoms(log: {
+  symptoms?: SymptomEntry[] | null;
+  symptom_type: string | null;
+  severity: number | null;
+}): SymptomEntry[] {
+  if (log.symptoms?.length) return log.symptoms;
+  return parseSymptomList(log.symptom_type, log.severity);
+}
+
+/**
+ * The symptom_type and severity a log keeps alongside its symptoms, for everything that reads a
+ * single symptom and severity: the names joined with commas and the worst severity.
+ *
+ * @param entries - The log's symptoms.
+ * @returns The summary fields.
+ */
+export function summarizeSymptoms(entries: SymptomEntry[]): {
+  symptom_type: string | null;
+  severity: number | null;
+} {
+  if (entries.length === 0) return { symptom_type: null, severity: null };
+  return {
+    symptom_type: entries.map((e) => e.name).join(", "),
+    severity: Math.max(...entries.map((e) => e.severity)),
+  };
+}
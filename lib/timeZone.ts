@@ -0,0 +1,113 @@
+/**
+ * This file contains helpers for working with IANA time zones other than the one the code runs
+ * in, using only the Intl API. The server usually runs in UTC, while medication times are the
+ * user's local times, so anything that schedules reminders on the server goes through these.
+ */
+
+/**
+ * Whether the runtime knows a time zone.
+ *
+ * @param timeZone - The IANA time zone name, e.g. "America/New_York".
+ * @returns True if the time zone can be used.
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * The offset of a time zone from UTC at a given instant.
+ *
+ * @param time - The instant, in milliseconds since the epoch.
+ * @param timeZone - The IANA time zone name.
+ * @returns The offset in milliseconds (positive east of UTC).
+ */
+export function getTimeZoneOffset(time: number, timeZone: string): number {
+  const parts = Object.fromEntries(
+    new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+      second: "2-digit",
+    })
+      .formatToParts(new Date(time))
+      .map((p) => [p.type, p.value]),
+  );
+  const wallClock = Date.UTC(
+    +parts.year,
+    +parts.month - 1,
+    +parts.day,
+    +parts.hour,
+    +parts.minute,
+    +parts.second,
+  );
+  return wallClock - Math.floor(time / 1000) * 1000;
+}
+
+/**
+ * Finds the instant at which a time zone's clocks show a given wall-clock time.
+ *
+ * @param wallClock - The wall-clock time, as the milliseconds `Date.UTC` gives for its fields.
+ * @param timeZone - The IANA time zone name.
+ * @returns The instant.
+ */
+export function wallClockToInstant(wallClock: number, timeZone: string): Date {
+  // The offset at the wall-clock time itself can be off by an hour around DST changes,
+  // so correct it once with the offset at the first guess
+  const guess = wallClock - getTimeZoneOffset(wallClock, timeZone);
+  return new Date(wallClock - getTimeZoneOffset(guess, timeZone));
+}
+
+/**
+ * Returns a local Date whose local fields (year, month, ..., seconds) are the wall-clock time
+ * of `date` in `timeZone`. Local date-fns calculations on it then follow that time zone's
+ * calendar, and `fromZonedWallClock` turns the results back into instants.
+ *
+ * @param date - The instant.
+ * @param timeZone - The IANA time zone name.
+ * @returns The wall-clock time as a local Date.
+ */
+export function toZonedWallClock(date: Date, timeZone: string): Date {
+  const shifted = new Date(
+    date.getTime() + getTimeZoneOffset(date.getTime(), timeZone),
+  );
+  return new Date(
+    shifted.getUTCFullYear(),
+    shifted.getUTCMonth(),
+    shifted.getUTCDate(),
+    shifted.getUTCHours(),
+    shifted.getUTCMinutes(),
+    shifted.getUTCSeconds(),
+    date.getMilliseconds(),
+  );
+}
+
+/**
+ * Reverses `toZonedWallClock`.
+ *
+ * @param local - A local Date holding a wall-clock time in `timeZone`.
+ * @param timeZone - The IANA time zone name.
+ * @returns The instant.
+ */
+export function fromZonedWallClock(local: Date, timeZone: string): Date {
+  return wallClockToInstant(
+    Date.UTC(
+      local.getFullYear(),
+      local.getMonth(),
+      local.getDate(),
+      local.getHours(),
+      local.getMinutes(),
+      local.getSeconds(),
+      local.getMilliseconds(),
+    ),
+    timeZone,
+  );
+}
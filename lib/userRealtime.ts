@@ -0,0 +1,140 @@
+import { z } from "zod";
+import { MedicationReminder, MedicationReminderSchema } from "./medications";
+import {
+  AppointmentReminder,
+  AppointmentReminderSchema,
+} from "./appointmentReminders";
+import { HealthLog, HealthLogSchema } from "./healthLogs";
+import { MedicationDose, MedicationDoseSchema } from "./medicationDoses";
+import { FileRow, FileRowSchema } from "./fileDetails";
+
+/**
+ * This file contains the typed events of the user's realtime channel (see
+ * components/UserRealtimeProvider.tsx): Postgres changes to the user's records turned into
+ * "created", "updated" and "deleted" events, and helpers to apply them to cached lists.
+ */
+
+// Zod schema for a user_notifications row as the notifier uses it.
+export const UserNotificationSchema = z.object({
+  id: z.string(),
+  title: z.string(),
+  body: z.string(),
+  medication_id: z.string().nullish(),
+  appointment_id: z.string().nullish(),
+  scheduled_for: z.string().nullish(),
+});
+
+export type UserNotification = z.infer<typeof UserNotificationSchema>;
+
+type RealtimeRecords = {
+  medication: MedicationReminder;
+  appointment: AppointmentReminder;
+  healthLog: HealthLog;
+  file: FileRow;
+  dose: MedicationDose;
+  notification: UserNotification;
+};
+
+export type RealtimeEntity = keyof RealtimeRecords;
+
+// The table behind each kind of record. Only notifications are never updated or deleted.
+// Each table has to be in the supabase_realtime publication for its changes to arrive
+// (medication_doses is added in supabase/migrations/20261019120000_medication_doses_realtime.sql).
+export const REALTIME_TABLES: Record<RealtimeEntity, string> = {
+  medication: "medication_reminders",
+  appointment: "appointment_reminders",
+  healthLog: "health_logs",
+  file: "files",
+  dose: "medication_doses",
+  notification: "user_notifications",
+};
+
+const REALTIME_SCHEMAS: {
+  [E in RealtimeEntity]: z.ZodType<RealtimeRecords[E], z.ZodTypeDef, unknown>;
+} = {
+  medication: MedicationReminderSchema,
+  appointment: AppointmentReminderSchema,
+  healthLog: HealthLogSchema,
+  file: FileRowSchema,
+  dose: MedicationDoseSchema,
+  notification: UserNotificationSchema,
+};
+
+export type UserRealtimeEvent = {
+  [E in RealtimeEntity]:
+    | { entity: E; type: "created" | "updated"; record: RealtimeRecords[E] }
+    | { entity: E; type: "deleted"; id: string };
+}[RealtimeEntity];
+
+// The parts of a Supabase postgres_changes payload the events are made from
+export type PostgresChangePayload = {
+  eventType: "INSERT" | "UPDATE" | "DELETE";
+  new: Record<string, unknown>;
+  old: Record<string, unknown>;
+};
+
+/**
+ * Turns a Postgres change into a typed event.
+ *
+ * @param entity - The kind of record that changed.
+ * @param payload - The postgres_changes payload.
+ * @returns The event, or null if the row doesn't look like the record it should be.
+ */
+export function toUserRealtimeEvent(
+  entity: RealtimeEntity,
+  payload: PostgresChangePayload,
+): UserRealtimeEvent | null {
+  if (payload.eventType === "DELETE") {
+    // Deletes only carry the primary key
+    const id = payload.old?.id;
+    return typeof id === "string"
+      ? ({ entity, type: "deleted", id } as UserRealtimeEvent)
+      : null;
+  }
+
+  const parsed = REALTIME_SCHEMAS[entity].safeParse(payload.new);
+  if (!parsed.success) {
+    console.error(`Unexpected ${entity} row from realtime:`, parsed.error);
+    return null;
+  }
+  return {
+    entity,
+    type: payload.eventType === "INSERT" ? "created" : "updated",
+    record: parsed.data,
+  } as UserRealtimeEvent;
+}
+
+/**
+ * Applies an event to a cached list of records: created records are added to the start,
+ * updated ones replaced in place and deleted ones removed. Suits setState and React Query's
+ * setQueryData.
+ *
+ * @param records - The cached list (undefined if nothing is cached yet).
+ * @param event - An event about the same kind of record.
+ * @param options - (optional) Whether to add created records, e.g. only on the first page.
+ * @returns The updated list, or the same list if the event doesn't change it.
+ */
+export function applyRealtimeEvent<T extends { id: string }>(
+  records: T[] | undefined,
+  event:
+    | { type: "created" | "updated"; record: T }
+    | { type: "deleted"; id: string },
+  { addCreated = true }: { addCreated?: boolean } = {},
+): T[] | undefined {
+  if (!records) return records;
+
+  if (event.type === "deleted") {
+    return records.some((r) => r.id === event.id)
+      ? records.filter((r) => r.id !== event.id)
+      : records;
+  }
+
+  const index = records.findIndex((r) => r.id === event.record.id);
+  if (index === -1) {
+    // The record's own tab may have added it already
+    return event.type === "created" && addCreated
+      ? [event.record, ...records]
+      : records;
+  }
+  return records.map((r, i) => (i === index ? event.record : r));
+}
@@ -0,0 +1,589 @@
+import {
+  PDFDocument,
+  PDFFont,
+  PDFPage,
+  StandardFonts,
+  rgb,
+  type RGB,
+} from "pdf-lib";
+import { addDays, format, startOfDay } from "date-fns";
+import type { Profile } from "./profile";
+import type { MedicationReminder } from "./medications";
+import type { HealthLog } from "./healthLogs";
+import type { AppointmentReminder } from "./appointmentReminders";
+import {
+  describeRecurrence,
+  getMedicationOccurrences,
+  getMedicationRecurrenceRule,
+} from "./recurrence";
+import { SymptomEntry, getLogSymptoms } from "./symptoms";
+import { VITAL_FIELDS, VitalKey, Vitals } from "./vitals";
+import {
+  DEFAULT_VITAL_THRESHOLDS,
+  VitalThresholds,
+  findOutOfRangeVitals,
+} from "./vitalThresholds";
+
+/**
+ * This file builds the clinician visit summary exported from the Documents page: a PDF with the
+ * patient's profile and conditions, current medications, a symptom timeline and severity chart
+ * for a chosen date range, their vitals and upcoming appointments, optionally followed by
+ * uploaded documents. buildVisitSummary gathers the data and renderVisitSummaryPdf lays it out.
+ */
+
+export type VisitSummaryRange = { start: Date; end: Date };
+
+export type VisitSummary = {
+  generatedAt: Date;
+  range: VisitSummaryRange;
+  patient: { name: string; email: string; conditions: string[] };
+  medications: { name: string; dosage: string | null; schedule: string }[];
+  timeline: {
+    date: string;
+    symptoms: SymptomEntry[];
+    severity: number | null;
+    mood: string | null;
+    notes: string | null;
+  }[];
+  // The worst severity logged each day of the range that has a log
+  severityByDay: { date: Date; severity: number }[];
+  vitals: { date: string; vitals: Vitals; outOfRange: VitalKey[] }[];
+  appointments: { name: string; date: string }[];
+};
+
+// Drawn in place of each character the PDF's fonts can't show
+export const UNSUPPORTED_TEXT_PLACEHOLDER = "?";
+
+// How far ahead a medication must still have doses to count as current
+const CURRENT_MEDICATION_DAYS = 366;
+// The most upcoming appointments listed
+const MAX_APPOINTMENTS = 10;
+
+/**
+ * Gathers what goes into a visit summary. Logs and vitals are limited to the date range;
+ * medications are the ones with doses still to come (or taken as needed) and appointments the
+ * ones still ahead.
+ *
+ * @param data - The user's profile, medications, health logs, appointments and vital thresholds.
+ * @param range - The dates the timeline, chart and vitals cover, both inclusive.
+ * @param now - The current time.
+ * @returns The visit summary.
+ */
+export function buildVisitSummary(
+  data: {
+    profile: Profile;
+    medications: MedicationReminder[];
+    logs: HealthLog[];
+    appointments: AppointmentReminder[];
+    thresholds?: VitalThresholds;
+  },
+  range: VisitSummaryRange,
+  now = new Date(),
+): VisitSummary {
+  const rangeStart = startOfDay(range.start);
+  const rangeEnd = addDays(startOfDay(range.end), 1);
+  const logs = data.logs
+    .filter((l) => {
+      const date = new Date(l.start_date);
+      return date >= rangeStart && date < rangeEnd;
+    })
+    .sort(
+      (a, b) =>
+        new Date(a.start_date).getTime() - new Date(b.start_date).getTime(),
+    );
+
+  const medications = data.medications
+    .filter((med) => {
+      const rule = getMedicationRecurrenceRule(med);
+      return (
+        !rule ||
+        getMedicationOccurrences(
+          med,
+          now,
+          addDays(now, CURRENT_MEDICATION_DAYS),
+        ).length > 0
+      );
+    })
+    .sort((a, b) => a.medication_name.localeCompare(b.medication_name))
+    .map((med) => ({
+      name: med.medication_name,
+      dosage: med.dosage,
+      schedule:
+        med.recurrence ?? describeRecurrence(getMedicationRecurrenceRule(med)),
+    }));
+
+  const worstByDay = new Map<number, number>();
+  for (const log of logs) {
+    if (log.severity == null) continue;
+    const day = startOfDay(new Date(log.start_date)).getTime();
+    worstByDay.set(day, Math.max(worstByDay.get(day) ?? 0, log.severity));
+  }
+
+  return {
+    generatedAt: now,
+    range: { start: rangeStart, end: startOfDay(range.end) },
+    patient: {
+      name: data.profile.full_name || data.profile.email,
+      email: data.profile.email,
+      conditions: data.profile.condition_tags,
+    },
+    medications,
+    timeline: logs.map((l) => ({
+      date: l.start_date,
+      symptoms: getLogSymptoms(l),
+      severity: l.severity,
+      mood: l.mood,
+      notes: l.notes,
+    })),
+    severityByDay: [...worstByDay.entries()]
+      .sort(([a], [b]) => a - b)
+      .map(([day, severity]) => ({ date: new Date(day), severity })),
+    vitals: logs
+      .filter((l) => l.vitals)
+      .map((l) => ({
+        date: l.start_date,
+        vitals: l.vitals!,
+        outOfRange: findOutOfRangeVitals(
+          l.vitals,
+          data.thresholds ?? DEFAULT_VITAL_THRESHOLDS,
+        ).map((v) => v.key),
+      })),
+    appointments: data.appointments
+      .filter((a) => new Date(a.date) >= now)
+      .sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime())
+      .slice(0, MAX_APPOINTMENTS)
+      .map((a) => ({ name: a.appointment_name, date: a.date })),
+  };
+}
+
+const PAGE_SIZE: [number, number] = [612, 792];
+const MARGIN = 50;
+const CONTENT_WIDTH = PAGE_SIZE[0] - MARGIN * 2;
+const TEXT_COLOR = rgb(0.1, 0.1, 0.1);
+const MUTED_COLOR = rgb(0.4, 0.4, 0.4);
+const ACCENT_COLOR = rgb(0.2, 0.29, 0.4);
+const ALERT_COLOR = rgb(0.88, 0.11, 0.28);
+
+// The vitals table: blood pressure takes one column for systolic/diastolic
+const VITAL_COLUMNS: { label: string; keys: VitalKey[] }[] = [
+  { label: "HR", keys: ["heartRate"] },
+  { label: "BP", keys: ["systolic", "diastolic"] },
+  { label: "Temp", keys: ["temperature"] },
+  { label: "SpO2", keys: ["spo2"] },
+  { label: "RR", keys: ["respiratoryRate"] },
+  { label: "Weight", keys: ["weight"] },
+  { label: "Glucose", keys: ["glucose"] },
+];
+
+/**
+ * Lays text out top to bottom across as many pages as it takes.
+ */
+function createWriter(pdf: PDFDocument, regular: PDFFont, bold: PDFFont) {
+  let page: PDFPage = pdf.addPage(PAGE_SIZE);
+  let y = PAGE_SIZE[1] - MARGIN;
+
+  // The standard fonts only cover Latin text, so anything else is shown as a placeholder
+  // (see findUnsupportedText)
+  const encodable = new Set(regular.getCharacterSet());
+  const clean = (text: string) =>
+    [...text.replace(/[\r\n\t]+/g, " ")]
+      .map((c) =>
+        encodable.has(c.codePointAt(0)!) ? c : UNSUPPORTED_TEXT_PLACEHOLDER,
+      )
+      .join("");
+
+  const ensureSpace = (height: number) => {
+    if (y - height < MARGIN) {
+      page = pdf.addPage(PAGE_SIZE);
+      y = PAGE_SIZE[1] - MARGIN;
+    }
+  };
+
+  const wrap = (text: string, font: PDFFont, size: number, width: number) => {
+    const lines: string[] = [];
+    let line = "";
+    for (const word of clean(text).split(" ")) {
+      const next = line ? `${line} ${word}` : word;
+      if (line && font.widthOfTextAtSize(next, size) > width) {
+        lines.push(line);
+        line = word;
+      } else {
+        line = next;
+      }
+    }
+    if (line) lines.push(line);
+    return lines;
+  };
+
+  return {
+    get page() {
+      return page;
+    },
+    get y() {
+      return y;
+    },
+    ensureSpace,
+    gap(height: number) {
+      y -= height;
+    },
+    text(
+      text: string,
+      options: {
+        size?: number;
+        font?: "regular" | "bold";
+        color?: RGB;
+        indent?: number;
+      } = {},
+    ) {
+      const size = options.size ?? 10;
+      const font = options.font === "bold" ? bold : regular;
+      const indent = options.indent ?? 0;
+      for (const line of wrap(text, font, size, CONTENT_WIDTH - indent)) {
+        ensureSpace(size * 1.4);
+        y -= size * 1.4;
+        page.drawText(line, {
+          x: MARGIN + indent,
+          y,
+          size,
+          font,
+          color: options.color ?? TEXT_COLOR,
+        });
+      }
+    },
+    heading(text: string) {
+      ensureSpace(40);
+      y -= 14;
+      this.text(text, { size: 14, font: "bold", color: ACCENT_COLOR });
+      y -= 4;
+      page.drawLine({
+        start: { x: MARGIN, y },
+        end: { x: MARGIN + CONTENT_WIDTH, y },
+        thickness: 0.5,
+        color: ACCENT_COLOR,
+      });
+      y -= 4;
+    },
+    row(
+      cells: { text: string; color?: RGB }[],
+      widths: number[],
+      font: "regular" | "bold" = "regular",
+    ) {
+      const size = 9;
+      ensureSpace(size * 1.6);
+      y -= size * 1.6;
+      let x = MARGIN;
+      cells.forEach((cell, i) => {
+        const fontObj = font === "bold" ? bold : regular;
+        // Cut to the column, as table rows stay on one line
+        let text = clean(cell.text);
+        while (
+          text.length > 1 &&
+          fontObj.widthOfTextAtSize(text, size) > widths[i] - 4
+        ) {
+          text = text.slice(0, -1);
+        }
+        page.drawText(text, {
+          x,
+          y,
+          size,
+          font: fontObj,
+          color: cell.color ?? TEXT_COLOR,
+        });
+        x += widths[i];
+      });
+    },
+  };
+}
+
+type Writer = ReturnType<typeof createWriter>;
+
+/**
+ * Draws the worst severity of each day as a line chart, 0 to 10.
+ */
+function drawSeverityChart(
+  writer: Writer,
+  summary: VisitSummary,
+  font: PDFFont,
+) {
+  const height = 150;
+  const axisWidth = 20;
+  writer.ensureSpace(height + 30);
+  writer.gap(height + 10);
+
+  const { page } = writer;
+  const left = MARGIN + axisWidth;
+  const bottom = writer.y;
+  const width = CONTENT_WIDTH - axisWidth;
+  const days = Math.max(
+    1,
+    Math.round(
+      (summary.range.end.getTime() - summary.range.start.getTime()) /
+        (24 * 60 * 60 * 1000),
+    ),
+  );
+  const xOf = (date: Date) =>
+    left +
+    (width * (date.getTime() - summary.range.start.getTime())) /
+      (days * 24 * 60 * 60 * 1000);
+  const yOf = (severity: number) => bottom + (height * severity) / 10;
+
+  for (const tick of [0, 5, 10]) {
+    page.drawLine({
+      start: { x: left, y: yOf(tick) },
+      end: { x: left + width, y: yOf(tick) },
+      thickness: 0.25,
+      color: MUTED_COLOR,
+    });
+    page.drawText(String(tick), {
+      x: MARGIN,
+      y: yOf(tick) - 3,
+      size: 8,
+      font,
+      color: MUTED_COLOR,
+    });
+  }
+
+  const points = summary.severityByDay.map((d) => ({
+    x: xOf(d.date),
+    y: yOf(d.severity),
+  }));
+  points.forEach((point, i) => {
+    if (i > 0) {
+      page.drawLine({
+        start: points[i - 1],
+        end: point,
+        thickness: 1.5,
+        color: ACCENT_COLOR,
+      });
+    }
+    page.drawCircle({ ...point, size: 2.5, color: ACCENT_COLOR });
+  });
+
+  writer.text(
+    `${format(summary.range.start, "MMM d, yyyy")} to ${format(summary.range.end, "MMM d, yyyy")} (worst severity per day)`,
+    { size: 8, color: MUTED_COLOR, indent: axisWidth },
+  );
+}
+
+const vitalCell = (vitals: Vitals, keys: VitalKey[]) =>
+  keys.every((key) => vitals[key] != null)
+    ? keys.map((key) => vitals[key]).join("/")
+    : "";
+
+/**
+ * Finds the text in a visit summary that the PDF can't show as written. Its fonts only cover
+ * Latin text, so e.g. names in other scripts or emoji are drawn as UNSUPPORTED_TEXT_PLACEHOLDER.
+ *
+ * @param summary - The visit summary (see buildVisitSummary).
+ * @returns Each piece of text with characters that can't be shown, once.
+ */
+export async function findUnsupportedText(
+  summary: VisitSummary,
+): Promise<string[]> {
+  const pdf = await PDFDocument.create();
+  const font = await pdf.embedFont(StandardFonts.Helvetica);
+  const encodable = new Set(font.getCharacterSet());
+
+  const found = new Set<string>();
+  const visit = (value: unknown) => {
+    if (typeof value === "string") {
+      const unsupported = [...value.replace(/[\r\n\t]+/g, " ")].some(
+        (c) => !encodable.has(c.codePointAt(0)!),
+      );
+      if (unsupported) found.add(value);
+    } else if (Array.isArray(value)) {
+      value.forEach(visit);
+    } else if (value && typeof value === "object" && !(value instanceof Date)) {
+      Object.values(value).forEach(visit);
+    }
+  };
+  visit(summary);
+  return [...found];
+}
+
+/**
+ * Renders a visit summary as a PDF. Uploaded documents can be appended to the returned
+ * document before it is saved.
+ *
+ * @param summary - The visit summary (see buildVisitSummary).
+ * @returns The PDF document.
+ */
+export async function renderVisitSummaryPdf(
+  summary: VisitSummary,
+): Promise<PDFDocument> {
+  const pdf = await PDFDocument.create();
+  pdf.setTitle(`Visit Summary - ${summary.patient.name}`);
+  pdf.setCreator("SymptomSync");
+  const regular = await pdf.embedFont(StandardFonts.Helvetica);
+  const bold = await pdf.embedFont(StandardFonts.HelveticaBold);
+  const writer = createWriter(pdf, regular, bold);
+  const dateTime = (iso: string) => format(new Date(iso), "MMM d, yyyy h:mm a");
+
+  writer.text("SymptomSync - Visit Summary", {
+    size: 20,
+    font: "bold",
+    color: ACCENT_COLOR,
+  });
+  writer.text(
+    `Generated ${format(summary.generatedAt, "MMM d, yyyy h:mm a")}. Covers ${format(summary.range.start, "MMM d, yyyy")} to ${format(summary.range.end, "MMM d, yyyy")}.`,
+    { size: 9, color: MUTED_COLOR },
+  );
+
+  writer.heading("Patient");
+  writer.text(`Name: ${summary.patient.name}`);
+  writer.text(`Email: ${summary.patient.email}`);
+  writer.text(
+    `Conditions: ${summary.patient.conditions.join(", ") || "None recorded"}`,
+  );
+
+  writer.heading("Current Medications");
+  if (summary.medications.length === 0) {
+    writer.text("No current medications.", { color: MUTED_COLOR });
+  } else {
+    const widths = [200, 120, CONTENT_WIDTH - 320];
+    writer.row(
+      [{ text: "Medication" }, { text: "Dosage" }, { text: "Schedule" }],
+      widths,
+      "bold",
+    );
+    for (const med of summary.medications) {
+      writer.row(
+        [
+          { text: med.name },
+          { text: med.dosage ?? "-" },
+          { text: med.schedule },
+        ],
+        widths,
+      );
+    }
+  }
+
+  writer.heading("Severity");
+  if (summary.severityByDay.length === 0) {
+    writer.text("No severity logged in this period.", { color: MUTED_COLOR });
+  } else {
+    drawSeverityChart(writer, summary, regular);
+  }
+
+  writer.heading("Symptom Timeline");
+  if (summary.timeline.length === 0) {
+    writer.text("No health logs in this period.", { color: MUTED_COLOR });
+  }
+  for (const entry of summary.timeline) {
+    writer.ensureSpace(40);
+    writer.text(
+      `${dateTime(entry.date)}  |  Severity ${entry.severity ?? "N/A"}${
+        entry.mood ? `  |  Mood: ${entry.mood}` : ""
+      }`,
+      { font: "bold" },
+    );
+    writer.text(
+      entry.symptoms.length > 0
+        ? entry.symptoms.map((s) => `${s.name} (${s.severity}/10)`).join(", ")
+        : "No symptoms recorded",
+      { indent: 12 },
+    );
+    if (entry.notes) {
+      writer.text(`Notes: ${entry.notes}`, { indent: 12, color: MUTED_COLOR });
+    }
+    writer.gap(4);
+  }
+
+  writer.heading("Vitals");
+  if (summary.vitals.length === 0) {
+    writer.text("No vitals recorded in this period.", { color: MUTED_COLOR });
+  } else {
+    const dateWidth = 110;
+    const widths = [
+      dateWidth,
+      ...VITAL_COLUMNS.map(
+        () => (CONTENT_WIDTH - dateWidth) / VITAL_COLUMNS.length,
+      ),
+    ];
+    // Units go on a line of their own, as "RR (breaths/min)" doesn't fit a column
+    writer.ensureSpace(30);
+    writer.row(
+      [{ text: "Date" }, ...VITAL_COLUMNS.map((c) => ({ text: c.label }))],
+      widths,
+      "bold",
+    );
+    writer.row(
+      [
+        { text: "" },
+        ...VITAL_COLUMNS.map((c) => ({
+          text: VITAL_FIELDS[c.keys[0]].unit,
+          color: MUTED_COLOR,
+        })),
+      ],
+      widths,
+    );
+    for (const row of summary.vitals) {
+      writer.row(
+        [
+          { text: dateTime(row.date) },
+          ...VITAL_COLUMNS.map((c) => {
+            const out = c.keys.some((key) => row.outOfRange.includes(key));
+            const text = vitalCell(row.vitals, c.keys);
+            return out
+              ? { text: `${text}*`, color: ALERT_COLOR }
+              : { text: text || "-" };
+          }),
+        ],
+        widths,
+      );
+    }
+    if (summary.vitals.some((row) => row.outOfRange.length > 0)) {
+      writer.text("* Outside the patient's normal range.", {
+        size: 8,
+        color: ALERT_COLOR,
+      });
+    }
+  }
+
+  writer.heading("Upcoming Appointments");
+  if (summary.appointments.length === 0) {
+    writer.text("No upcoming appointments.", { color: MUTED_COLOR });
+  }
+  for (const appt of summary.appointments) {
+    writer.text(`${dateTime(appt.date)}  -  ${appt.name}`);
+  }
+
+  return pdf;
+}
+
+/**
+ * Appends uploaded documents to a PDF: every page of a PDF, and images on a page of their own.
+ * Other file types are skipped.
+ *
+ * @param pdf - The PDF to append to.
+ * @param documents - The documents, each with its filename and a URL to download it from.
+ */
+export async function appendDocumentsToPdf(
+  pdf: PDFDocument,
+  documents: { filename: string; url: string }[],
+): Promise<void> {
+  for (const file of documents) {
+    const ext = file.filename.split(".").pop()?.toLowerCase();
+    if (!["pdf", "png", "jpg", "jpeg"].includes(ext || "")) continue;
+    const arrayBuffer = await fetch(file.url).then((res) => res.arrayBuffer());
+
+    if (ext === "pdf") {
+      const donorPdf = await PDFDocument.load(arrayBuffer);
+      const pages = await pdf.copyPages(donorPdf, donorPdf.getPageIndices());
+      pages.forEach((p) => pdf.addPage(p));
+    } else {
+      const img =
+        ext === "png"
+          ? await pdf.embedPng(arrayBuffer)
+          : await pdf.embedJpg(arrayBuffer);
+      const dims = img.scale(1);
+      const imgPage = pdf.addPage([dims.width, dims.height]);
+      imgPage.drawImage(img, {
+        x: 0,
+        y: 0,
+        width: dims.width,
+        height: dims.height,
+      });
+    }
+  }
+}
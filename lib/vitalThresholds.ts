@@ -0,0 +1,158 @@
+import { supabase } from "./supabaseClient";
+import { z } from "zod";
+import {
+  VITAL_FIELDS,
+  VITAL_KEYS,
+  VitalKey,
+  Vitals,
+  formatVitalValue,
+} from "./vitals";
+
+/**
+ * This file contains functions to manage the normal range the user sets for each vital. The
+ * vitals charts on the dashboard shade it, and health logs with a vital outside it are flagged.
+ */
+
+const ThresholdSchema = z
+  .object({
+    low: z.number().nullable(),
+    high: z.number().nullable(),
+  })
+  .refine((t) => t.low == null || t.high == null || t.low < t.high, {
+    message: "The low end of a range must be below the high end.",
+  });
+
+export type VitalThreshold = z.infer<typeof ThresholdSchema>;
+export type VitalThresholds = Record<VitalKey, VitalThreshold>;
+
+// Typical adult resting ranges, in the units of VITAL_FIELDS. Weight has no normal range.
+export const DEFAULT_VITAL_THRESHOLDS: VitalThresholds = {
+  heartRate: { low: 60, high: 100 },
+  systolic: { low: 90, high: 130 },
+  diastolic: { low: 60, high: 80 },
+  temperature: { low: 97, high: 99.5 },
+  spo2: { low: 95, high: null },
+  respiratoryRate: { low: 12, high: 20 },
+  weight: { low: null, high: null },
+  glucose: { low: 70, high: 140 },
+};
+
+// Zod schema for the thresholds column: any vital left out keeps its default.
+export const VitalThresholdsSchema = z
+  .object(
+    Object.fromEntries(
+      VITAL_KEYS.map((key) => [key, ThresholdSchema.optional()]),
+    ) as Record<VitalKey, z.ZodOptional<typeof ThresholdSchema>>,
+  )
+  .transform(
+    (stored) =>
+      Object.fromEntries(
+        VITAL_KEYS.map((key) => [
+          key,
+          stored[key] ?? DEFAULT_VITAL_THRESHOLDS[key],
+        ]),
+      ) as VitalThresholds,
+  );
+
+export type OutOfRangeVital = {
+  key: VitalKey;
+  value: number;
+  direction: "low" | "high";
+  threshold: VitalThreshold;
+};
+
+/**
+ * Finds the vitals of a health log that fall outside the user's normal ranges.
+ *
+ * @param vitals - The log's vitals.
+ * @param thresholds - The user's thresholds.
+ * @returns The out-of-range vitals, in the order of VITAL_KEYS.
+ */
+export function findOutOfRangeVitals(
+  vitals: Vitals | null | undefined,
+  thresholds: VitalThresholds = DEFAULT_VITAL_THRESHOLDS,
+): OutOfRangeVital[] {
+  if (!vitals) return [];
+  const outOfRange: OutOfRangeVital[] = [];
+  for (const key of VITAL_KEYS) {
+    const value = vitals[key];
+    const threshold = thresholds[key];
+    if (value == null) continue;
+    if (threshold.low != null && value < threshold.low) {
+      outOfRange.push({ key, value, direction: "low", threshold });
+    } else if (threshold.high != null && value > threshold.high) {
+      outOfRange.push({ key, value, direction: "high", threshold });
+    }
+  }
+  return outOfRange;
+}
+
+/**
+ * Describes an out-of-range vital, e.g. "Heart Rate 112 bpm is above 100 bpm".
+ *
+ * @param vital - The out-of-range vital.
+ * @returns The description.
+ */
+export function describeOutOfRangeVital(vital: OutOfRangeVital): string {
+  const limit =
+    vital.direction === "low" ? vital.threshold.low! : vital.threshold.high!;
+  const value = formatVitalValue(vital.key, vital.value);
+  const position = vital.direction === "low" ? "below" : "above";
+  return `${VITAL_FIELDS[vital.key].label} ${value} is ${position} ${formatVitalValue(vital.key, limit)}`;
+}
+
+/**
+ * Retrieves the user's vital thresholds.
+ * Note: Supabase RLS will block this operation if the user is not the owner of the record.
+ *
+ * @param userId - The id of the user.
+ * @returns The thresholds, with the defaults for any vital the user hasn't set.
+ * @throws An error if the query fails.
+ */
+export async function getVitalThresholds(
+  userId: string,
+): Promise<VitalThresholds> {
+  const { data, error } = await supabase
+    .from("vital_thresholds")
+    .select("thresholds")
+    .eq("user_profile_id", userId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return VitalThresholdsSchema.parse(data?.thresholds ?? {});
+}
+
+/**
+ * Saves the user's vital thresholds.
+ * Note: Supabase RLS will block this operation if the user is not the owner of the record.
+ *
+ * @param userId - The id of the user.
+ * @param thresholds - The thresholds for every vital.
+ * @returns The saved thresholds.
+ * @throws An error if a range is invalid or the thresholds can't be saved.
+ */
+export async function updateVitalThresholds(
+  userId: string,
+  thresholds: VitalThresholds,
+): Promise<VitalThresholds> {
+  const validated = VitalThresholdsSchema.parse(thresholds);
+
+  const { data, error } = await supabase
+    .from("vital_thresholds")
+    .upsert(
+      {
+        user_profile_id: userId,
+        thresholds: validated,
+        updated_at: new Date().toISOString(),
+      },
+      { onConflict: "user_profile_id" },
+    )
+    .select("thresholds")
+    .single();
+
+  if (error) throw error;
+  return VitalThresholdsSchema.parse(data.thresholds);
+}
+
+// Supabase RLS Policy: Only allow authenticated users to access their own vital thresholds.
+// See supabase/migrations/20261019090000_vital_thresholds.sql
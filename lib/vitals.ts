@@ -0,0 +1,325 @@
+import { z } from "zod";
+
+/**
+ * This file contains the structured vitals stored in health_logs.vitals: each vital is a
+ * number in a fixed unit, validated against a plausible range. It also reads the vitals older
+ * logs stored as strings, e.g. JSON.stringify({ heartRate: "72 BPM", bloodPressure: "120/80 mmHg" }).
+ */
+
+export const VITAL_KEYS = [
+  "heartRate",
+  "systolic",
+  "diastolic",
+  "temperature",
+  "spo2",
+  "respiratoryRate",
+  "weight",
+  "glucose",
+] as const;
+
+export type VitalKey = (typeof VITAL_KEYS)[number];
+
+export type VitalField = {
+  label: string;
+  unit: string;
+  min: number;
+  max: number;
+  // Input step, and how many decimals are kept
+  step: number;
+  placeholder: string;
+};
+
+// The unit each vital is stored in, and the range a value must fall in to be saved
+export const VITAL_FIELDS: Record<VitalKey, VitalField> = {
+  heartRate: {
+    label: "Heart Rate",
+    unit: "bpm",
+    min: 20,
+    max: 250,
+    step: 1,
+    placeholder: "e.g. 72",
+  },
+  systolic: {
+    label: "Systolic",
+    unit: "mmHg",
+    min: 50,
+    max: 260,
+    step: 1,
+    placeholder: "Systolic",
+  },
+  diastolic: {
+    label: "Diastolic",
+    unit: "mmHg",
+    min: 30,
+    max: 160,
+    step: 1,
+    placeholder: "Diastolic",
+  },
+  temperature: {
+    label: "Temperature",
+    unit: "°F",
+    min: 86,
+    max: 113,
+    step: 0.1,
+    placeholder: "e.g. 98.6",
+  },
+  spo2: {
+    label: "Oxygen Saturation (SpO2)",
+    unit: "%",
+    min: 50,
+    max: 100,
+    step: 1,
+    placeholder: "e.g. 98",
+  },
+  respiratoryRate: {
+    label: "Respiratory Rate",
+    unit: "breaths/min",
+    min: 4,
+    max: 60,
+    step: 1,
+    placeholder: "e.g. 16",
+  },
+  weight: {
+    label: "Weight",
+    unit: "lb",
+    min: 2,
+    max: 1100,
+    step: 0.1,
+    placeholder: "e.g. 150",
+  },
+  glucose: {
+    label: "Blood Glucose",
+    unit: "mg/dL",
+    min: 20,
+    max: 600,
+    step: 1,
+    placeholder: "e.g. 100",
+  },
+};
+
+/**
+ * Formats a vital with its unit, e.g. "72 bpm", "98.6°F" or "97%".
+ *
+ * @param key - The vital.
+ * @param value - The value, in the vital's unit.
+ * @returns The formatted value.
+ */
+export function formatVitalValue(key: VitalKey, value: number): string {
+  const { unit } = VITAL_FIELDS[key];
+  return unit === "%" || unit === "°F" ? `${value}${unit}` : `${value} ${unit}`;
+}
+
+const vitalValue = (key: VitalKey) => {
+  const { label, min, max } = VITAL_FIELDS[key];
+  return z
+    .number({ invalid_type_error: `${label} must be a number.` })
+    .min(min, `${label} must be at least ${formatVitalValue(key, min)}.`)
+    .max(max, `${label} must be at most ${formatVitalValue(key, max)}.`)
+    .nullish();
+};
+
+// Zod schema for the vitals of a health log.
+export const VitalsSchema = z
+  .object({
+    heartRate: vitalValue("heartRate"),
+    systolic: vitalValue("systolic"),
+    diastolic: vitalValue("diastolic"),
+    temperature: vitalValue("temperature"),
+    spo2: vitalValue("spo2"),
+    respiratoryRate: vitalValue("respiratoryRate"),
+    weight: vitalValue("weight"),
+    glucose: vitalValue("glucose"),
+  })
+  .refine((v) => (v.systolic == null) === (v.diastolic == null), {
+    message: "Enter both systolic and diastolic blood pressure.",
+    path: ["diastolic"],
+  })
+  .refine(
+    (v) =>
+      v.systolic == null || v.diastolic == null || v.systolic > v.diastolic,
+    {
+      message: "Systolic blood pressure must be higher than diastolic.",
+      path: ["systolic"],
+    },
+  );
+
+export type Vitals = z.infer<typeof VitalsSchema>;
+
+/**
+ * Reads the first number in a legacy vital such as "72 BPM" or "98.6".
+ */
+function legacyNumber(value: unknown): number | null {
+  if (typeof value === "number") return Number.isFinite(value) ? value : null;
+  if (typeof value !== "string") return null;
+  const match = value.match(/-?\d+(?:\.\d+)?/);
+  return match ? Number(match[0]) : null;
+}
+
+/**
+ * Reads the vitals of a health log, whatever way they were stored: the structured object, or
+ * the JSON string older logs held with "72 BPM" and "120/80 mmHg" strings. Values outside the
+ * ranges of VITAL_FIELDS are dropped.
+ *
+ * @param raw - The stored vitals.
+ * @returns The vitals, or null if there are none.
+ */
+export function parseVitals(raw: unknown): Vitals | null {
+  let value = raw;
+  if (typeof value === "string") {
+    try {
+      value = JSON.parse(value);
+    } catch {
+      return null;
+    }
+  }
+  if (!value || typeof value !== "object" || Array.isArray(value)) return null;
+
+  const source = value as Record<string, unknown>;
+  const candidate: Record<string, number | null> = {};
+  for (const key of VITAL_KEYS) {
+    candidate[key] = legacyNumber(source[key]);
+  }
+  if (typeof source.bloodPressure === "string") {
+    const [systolic, diastolic] = source.bloodPressure.split("/");
+    candidate.systolic ??= legacyNumber(systolic);
+    candidate.diastolic ??= legacyNumber(diastolic);
+  }
+
+  const vitals: Vitals = {};
+  for (const key of VITAL_KEYS) {
+    const parsed = vitalValue(key).safeParse(candidate[key]);
+    if (parsed.success && parsed.data != null) vitals[key] = parsed.data;
+  }
+  if (!VitalsSchema.safeParse(vitals).success) {
+    // Blood pressure only makes sense as a valid pair
+    delete vitals.systolic;
+    delete vitals.diastolic;
+  }
+  return Object.keys(vitals).length > 0 ? vitals : null;
+}
+
+// Zod schema for health_logs.vitals as read from the database.
+export const StoredVitalsSchema = z.preprocess(
+  parseVitals,
+  VitalsSchema.nullable(),
+);
+
+// What the vitals inputs of the log dialogs hold: one string per vital, "" when left empty
+export type VitalsFormValues = Record<VitalKey, string>;
+
+export const EMPTY_VITALS_FORM = Object.fromEntries(
+  VITAL_KEYS.map((key) => [key, ""]),
+) as VitalsFormValues;
+
+/**
+ * Fills the vitals inputs of the edit dialog from a health log.
+ *
+ * @param vitals - The log's vitals.
+ * @returns The input values.
+ */
+export function toVitalsForm(
+  vitals: Vitals | null | undefined,
+): VitalsFormValues {
+  const values = { ...EMPTY_VITALS_FORM };
+  for (const key of VITAL_KEYS) {
+    const value = vitals?.[key];
+    if (value != null) values[key] = String(value);
+  }
+  return values;
+}
+
+/**
+ * Validates the vitals inputs of the log dialogs.
+ *
+ * @param values - The input values.
+ * @returns The vitals to save (null when none were entered), or the first problem found.
+ */
+export function parseVitalsForm(
+  values: VitalsFormValues,
+): { vitals: Vitals | null; error?: undefined } | { error: string } {
+  const candidate: Record<string, number> = {};
+  for (const key of VITAL_KEYS) {
+    const text = values[key].trim();
+    if (!text) continue;
+    const number = Number(text);
+    if (!Number.isFinite(number)) {
+      return { error: `${VITAL_FIELDS[key].label} must be a number.` };
+    }
+    const decimals = VITAL_FIELDS[key].step < 1 ? 1 : 0;
+    candidate[key] = Number(number.toFixed(decimals));
+  }
+
+  const parsed = VitalsSchema.safeParse(candidate);
+  if (!parsed.success) return { error: parsed.error.issues[0].message };
+  return {
+    vitals: Object.keys(parsed.data).length > 0 ? parsed.data : null,
+  };
+}
+
+/**
+ * Describes vitals for display, with blood pressure as one "120/80 mmHg" entry.
+ *
+ * @param vitals - The vitals.
+ * @returns A label and formatted value per recorded vital.
+ */
+export function describeVitals(
+  vitals: Vitals | null | undefined,
+): { key: VitalKey | "bloodPressure"; label: string; value: string }[] {
+  if (!vitals) return [];
+  const entries: {
+    key: VitalKey | "bloodPressure";
+    label: string;
+    value: string;
+  }[] = [];
+  for (const key of VITAL_KEYS) {
+    const value = vitals[key];
+    if (key === "diastolic" || value == null) continue;
+    if (key === "systolic") {
+      entries.push({
+        key: "bloodPressure",
+        label: "Blood Pressure",
+        value: `${value}/${vitals.diastolic} ${VITAL_FIELDS.systolic.unit}`,
+      });
+      continue;
+    }
+    entries.push({
+      key,
+      label: VITAL_FIELDS[key].label,
+      value: formatVitalValue(key, value),
+    });
+  }
+  return entries;
+}
+
+export type VitalReading = {
+  logId: string;
+  date: string;
+  value: number;
+};
+
+/**
+ * Collects one vital's readings from health logs, oldest first.
+ *
+ * @param logs - The health logs.
+ * @param key - The vital.
+ * @param since - (optional) Only readings logged at or after this time.
+ * @returns The readings.
+ */
+export function getVitalReadings(
+  logs: { id: string; start_date: string; vitals: Vitals | null }[],
+  key: VitalKey,
+  since?: Date,
+): VitalReading[] {
+  return logs
+    .filter(
+      (log) =>
+        log.vitals?.[key] != null &&
+        (!since || Date.parse(log.start_date) >= since.getTime()),
+    )
+    .map((log) => ({
+      logId: log.id,
+      date: log.start_date,
+      value: log.vitals![key]!,
+    }))
+    .sort((a, b) => Date.parse(a.date) - Date.parse(b.date));
+}
@@ -0,0 +1,295 @@
+import {
+  createECDH,
+  createCipheriv,
+  createPrivateKey,
+  hkdfSync,
+  randomBytes,
+  sign,
+} from "crypto";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import {
+  DEFAULT_NOTIFICATION_SETTINGS,
+  getNotificationPreferences,
+  shouldDeliverNotification,
+} from "./notificationPreferences";
+
+/**
+ * This file contains the server side of Web Push: it encrypts a payload for a browser's push
+ * subscription (RFC 8291), signs the request with the app's VAPID key (RFC 8292) and sends it
+ * to the browser vendor's push service, which wakes the service worker (public/sw.js) even when
+ * no SymptomSync tab is open.
+ *
+ * Server-only: it uses Node's crypto module and the VAPID private key.
+ */
+
+// The keys of a browser's push subscription, as PushSubscription.toJSON() gives them
+export type WebPushSubscription = {
+  endpoint: string;
+  p256dh: string;
+  auth: string;
+};
+
+export type VapidKeys = {
+  // The uncompressed P-256 public key, URL-safe base64 (also given to the browser)
+  publicKey: string;
+  // The P-256 private key, URL-safe base64
+  privateKey: string;
+  // A mailto: or https: URL push services can contact about the app
+  subject: string;
+};
+
+// What public/sw.js shows for a push
+export type WebPushPayload = {
+  title: string;
+  body: string;
+  tag?: string;
+  url?: string;
+  medicationId?: string | null;
+  scheduledFor?: string | null;
+  // The user's snooze length, offered first on medication reminders
+  snoozeMinutes?: number;
+};
+
+// How long push services keep undelivered messages, in seconds
+const DEFAULT_TTL = 60 * 60;
+// The record size written in the aes128gcm header; payloads always fit in one record
+const RECORD_SIZE = 4096;
+// VAPID tokens must expire within 24 hours
+const VAPID_TOKEN_SECONDS = 12 * 60 * 60;
+
+const base64Url = (buffer: Buffer) => buffer.toString("base64url");
+const fromBase64Url = (text: string) => Buffer.from(text, "base64url");
+
+/**
+ * Reads the VAPID keys from the environment.
+ *
+ * @returns The keys, or null if Web Push isn't configured.
+ */
+export function getVapidKeys(): VapidKeys | null {
+  const publicKey = process.env.NEXT_PUBLIC_VAPID_PUBLIC_KEY;
+  const privateKey = process.env.VAPID_PRIVATE_KEY;
+  if (!publicKey || !privateKey) return null;
+  return {
+    publicKey,
+    privateKey,
+    subject: process.env.VAPID_SUBJECT || "mailto:support@symptomsync.com",
+  };
+}
+
+/**
+ * Builds the signed VAPID token for a push service.
+ *
+ * @param endpoint - The subscription's endpoint; the token is only valid for its origin.
+ * @param keys - The VAPID keys.
+ * @param now - (optional) The current time, for tests.
+ * @returns The value of the Authorization header.
+ */
+export function createVapidAuthorization(
+  endpoint: string,
+  keys: VapidKeys,
+  now: Date = new Date(),
+): string {
+  const publicKey = fromBase64Url(keys.publicKey);
+  const privateKey = createPrivateKey({
+    key: {
+      kty: "EC",
+      crv: "P-256",
+      d: keys.privateKey,
+      x: base64Url(publicKey.subarray(1, 33)),
+      y: base64Url(publicKey.subarray(33, 65)),
+    },
+    format: "jwk",
+  });
+
+  const header = base64Url(
+    Buffer.from(JSON.stringify({ typ: "JWT", alg: "ES256" })),
+  );
+  const claims = base64Url(
+    Buffer.from(
+      JSON.stringify({
+        aud: new URL(endpoint).origin,
+        exp: Math.floor(now.getTime() / 1000) + VAPID_TOKEN_SECONDS,
+        sub: keys.subject,
+      }),
+    ),
+  );
+  const signature = sign("sha256", Buffer.from(`${header}.${claims}`), {
+    key: privateKey,
+    dsaEncoding: "ieee-p1363",
+  });
+
+  return `vapid t=${header}.${claims}.${base64Url(signature)}, k=${keys.publicKey}`;
+}
+
+/**
+ * Encrypts a payload for a subscription with the aes128gcm content encoding (RFC 8291).
+ *
+ * @param subscription - The browser's push subscription.
+ * @param payload - The message to encrypt.
+ * @returns The request body to send to the push service.
+ */
+export function encryptWebPushPayload(
+  subscription: WebPushSubscription,
+  payload: string,
+): Buffer {
+  const userAgentPublicKey = fromBase64Url(subscription.p256dh);
+  const authSecret = fromBase64Url(subscription.auth);
+
+  const ecdh = createECDH("prime256v1");
+  const serverPublicKey = ecdh.generateKeys();
+  const sharedSecret = ecdh.computeSecret(userAgentPublicKey);
+
+  const keyInfo = Buffer.concat([
+    Buffer.from("WebPush: info\0"),
+    userAgentPublicKey,
+    serverPublicKey,
+  ]);
+  const ikm = Buffer.from(
+    hkdfSync("sha256", sharedSecret, authSecret, keyInfo, 32),
+  );
+
+  const salt = randomBytes(16);
+  const contentKey = Buffer.from(
+    hkdfSync("sha256", ikm, salt, "Content-Encoding: aes128gcm\0", 16),
+  );
+  const nonce = Buffer.from(
+    hkdfSync("sha256", ikm, salt, "Content-Encoding: nonce\0", 12),
+  );
+
+  const cipher = createCipheriv("aes-128-gcm", contentKey, nonce);
+  // 0x02 marks the last (and only) record
+  const ciphertext = Buffer.concat([
+    cipher.update(Buffer.concat([Buffer.from(payload), Buffer.from([2])])),
+    cipher.final(),
+    cipher.getAuthTag(),
+  ]);
+
+  const recordSize = Buffer.alloc(4);
+  recordSize.writeUInt32BE(RECORD_SIZE);
+  return Buffer.concat([
+    salt,
+    recordSize,
+    Buffer.from([serverPublicKey.length]),
+    serverPublicKey,
+    ciphertext,
+  ]);
+}
+
+/**
+ * Sends one push message to one subscription.
+ *
+ * @param subscription - The browser's push subscription.
+ * @param payload - What the service worker should show.
+ * @param options - (optional) The VAPID keys (defaults to the environment's), TTL and urgency.
+ * @returns The push service's HTTP status. 404 and 410 mean the subscription is gone.
+ * @throws An error if Web Push isn't configured or the push service can't be reached.
+ */
+export async function sendWebPush(
+  subscription: WebPushSubscription,
+  payload: WebPushPayload,
+  {
+    keys = getVapidKeys(),
+    ttl = DEFAULT_TTL,
+    urgency = "high",
+  }: {
+    keys?: VapidKeys | null;
+    ttl?: number;
+    urgency?: "very-low" | "low" | "normal" | "high";
+  } = {},
+): Promise<number> {
+  if (!keys) {
+    throw new Error(
+      "Missing NEXT_PUBLIC_VAPID_PUBLIC_KEY or VAPID_PRIVATE_KEY",
+    );
+  }
+
+  const res = await fetch(subscription.endpoint, {
+    method: "POST",
+    headers: {
+      Authorization: createVapidAuthorization(subscription.endpoint, keys),
+      "Content-Encoding": "aes128gcm",
+      "Content-Type": "application/octet-stream",
+      TTL: String(ttl),
+      Urgency: urgency,
+    },
+    body: new Uint8Array(
+      encryptWebPushPayload(subscription, JSON.stringify(payload)),
+    ),
+  });
+  return res.status;
+}
+
+/**
+ * Pushes a user_notifications row to every device its user subscribed, unless the user turned
+ * push off for that kind of reminder or it's their quiet hours. Subscriptions the push
+ * service reports as gone are deleted. Needs a client that can read every user's subscriptions,
+ * i.e. one created with `createServiceSupabaseClient`.
+ *
+ * @param client - A service role Supabase client.
+ * @param notification - The notification row.
+ * @returns How many devices the push was delivered to.
+ * @throws An error if the preferences or subscriptions can't be loaded.
+ */
+export async function pushUserNotification(
+  client: SupabaseClient,
+  notification: {
+    user_profile_id: string;
+    title: string;
+    body: string;
+    medication_id?: string | null;
+    appointment_id?: string | null;
+    scheduled_for?: string | null;
+  },
+): Promise<number> {
+  const preferences = await getNotificationPreferences(
+    notification.user_profile_id,
+    client,
+  );
+  if (!shouldDeliverNotification(preferences, notification, "push")) {
+    return 0;
+  }
+
+  const { data, error } = await client
+    .from("push_subscriptions")
+    .select("endpoint, p256dh, auth")
+    .eq("user_profile_id", notification.user_profile_id);
+
+  if (error) throw error;
+
+  const payload: WebPushPayload = {
+    title: notification.title,
+    body: notification.body,
+    // The same tag as the in-app notification, so an open tab doesn't show it twice
+    tag: `${notification.title}:${notification.body}`,
+    url: notification.medication_id ? "/reminder" : "/calendar",
+    medicationId: notification.medication_id ?? null,
+    scheduledFor: notification.scheduled_for ?? null,
+    snoozeMinutes:
+      preferences?.snooze_minutes ??
+      DEFAULT_NOTIFICATION_SETTINGS.snooze_minutes,
+  };
+
+  let delivered = 0;
+  for (const subscription of (data ?? []) as WebPushSubscription[]) {
+    try {
+      const status = await sendWebPush(subscription, payload);
+      if (status === 404 || status === 410) {
+        await client
+          .from("push_subscriptions")
+          .delete()
+          .eq("endpoint", subscription.endpoint);
+      } else if (status >= 200 && status < 300) {
+        delivered++;
+      } else {
+        console.error(`Push service responded with ${status}`);
+      }
+    } catch (err) {
+      console.error("Failed to send push:", err);
+    }
+  }
+  return delivered;
+}
+
+// Supabase RLS Policy: Users can only manage their own push subscriptions (lib/pushSubscriptions.ts).
+// Pushes are sent with the service role, which reads every user's subscriptions.
+// See supabase/migrations/20261019050000_push_subscriptions.sql
@@ -1,25 +1,187 @@
 import "@/styles/globals.css";
 import type { AppProps } from "next/app";
 import { useRouter } from "next/router";
-import { useEffect, useState, useRef, useLayoutEffect } from "react";
+import { useEffect, useState } from "react";
 import NavBar from "@/components/NavBar";
 import { Toaster, toast } from "sonner";
 import { supabase } from "@/lib/supabaseClient";
 import { Analytics } from "@vercel/analytics/react";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { ThemeProvider } from "@/components/theme-provider";
+import { DoseReminderActions } from "@/components/DoseReminderActions";
+import { AppUpdatePrompt } from "@/components/AppUpdatePrompt";
+import { syncOfflineChangesWithToast } from "@/components/OfflineIndicator";
+import {
+  UserRealtimeProvider,
+  useUserRealtime,
+} from "@/components/UserRealtimeProvider";
+import {
+  SNOOZE_MINUTES,
+  getSnoozeAction,
+  parseDoseAction,
+  recordMedicationDose,
+} from "@/lib/medicationDoses";
+import {
+  NotificationPreferences,
+  SNOOZE_OPTIONS,
+  onNotificationPreferencesChange,
+  shouldDeliverNotification,
+  syncNotificationTimeZone,
+} from "@/lib/notificationPreferences";
 
 const queryClient = new QueryClient();
 
+// A row of user_notifications. Medication reminders also name the dose they are about.
+type ReminderNotification = {
+  id?: string;
+  title: string;
+  body: string;
+  type?: string;
+  medication_id?: string | null;
+  appointment_id?: string | null;
+  scheduled_for?: string | null;
+};
+
+// Service worker notifications support action buttons, which lib.dom doesn't type yet
+type ReminderNotificationOptions = NotificationOptions & {
+  actions?: Array<{ action: string; title: string }>;
+};
+
+const NOTIFICATION_COLUMNS =
+  "id, title, body, medication_id, appointment_id, scheduled_for";
+
+// Notifications already shown, kept across reloads so catching up on missed ones doesn't
+// show them again
+const SHOWN_NOTIFICATIONS_KEY = "shownNotifications";
+const MAX_SHOWN_NOTIFICATIONS = 200;
 const shownNotifications = new Set<string>();
-let browserNotifier:
-  | ((r: { title: string; body: string; type?: string }) => void)
-  | null = null;
+let shownNotificationsLoaded = false;
+
+// The user's channels, quiet hours and snooze length; null until loaded (defaults apply)
+let notificationPreferences: NotificationPreferences | null = null;
+
+const getSnoozeMinutes = () =>
+  notificationPreferences?.snooze_minutes ?? SNOOZE_MINUTES;
+
+/**
+ * Remembers that a notification was shown.
+ *
+ * @returns False if it had already been shown.
+ */
+const markNotificationShown = (key: string) => {
+  if (!shownNotificationsLoaded) {
+    shownNotificationsLoaded = true;
+    try {
+      const stored = JSON.parse(
+        localStorage.getItem(SHOWN_NOTIFICATIONS_KEY) ?? "[]",
+      );
+      if (Array.isArray(stored)) {
+        stored.forEach((k) => shownNotifications.add(String(k)));
+      }
+    } catch (err) {
+      console.error("Failed to read shown notifications:", err);
+    }
+  }
+
+  if (shownNotifications.has(key)) return false;
+  shownNotifications.add(key);
+  localStorage.setItem(
+    SHOWN_NOTIFICATIONS_KEY,
+    JSON.stringify([...shownNotifications].slice(-MAX_SHOWN_NOTIFICATIONS)),
+  );
+  return true;
+};
+
+let browserNotifier: ((r: ReminderNotification) => void) | null = null;
 
 let notifierInitPromise: Promise<
-  ((r: { title: string; body: string; type?: string }) => Promise<void>) | null
+  ((r: ReminderNotification) => Promise<void>) | null
 > | null = null;
 
+/**
+ * Builds the browser notification for a reminder. Medication reminders get Taken, Skipped and
+ * Snooze (the user's snooze length first) buttons, which the service worker passes back to the
+ * app (see public/sw.js). Browsers only show as many buttons as they support, two in Chrome.
+ */
+const buildNotificationOptions = ({
+  title,
+  body,
+  medication_id,
+  scheduled_for,
+}: ReminderNotification): ReminderNotificationOptions => {
+  const options: ReminderNotificationOptions = {
+    body,
+    icon: "/favicon.ico",
+    tag: `${title}:${body}`,
+    data: { url: window.location.href },
+  };
+
+  if (medication_id && scheduled_for) {
+    options.data = {
+      ...options.data,
+      medicationId: medication_id,
+      scheduledFor: scheduled_for,
+    };
+    const preferred = getSnoozeMinutes();
+    const snoozes = [
+      preferred,
+      ...SNOOZE_OPTIONS.filter((minutes) => minutes !== preferred),
+    ];
+    options.actions = [
+      { action: "taken", title: "Taken" },
+      { action: "skipped", title: "Skipped" },
+      ...snoozes.map((minutes) => ({
+        action: getSnoozeAction(minutes),
+        title: `Snooze ${minutes} min`,
+      })),
+    ];
+    options.requireInteraction = true;
+  }
+
+  return options;
+};
+
+/**
+ * Records the user's answer to a medication notification: "taken", "skipped", "snoozed" or a
+ * snooze for some minutes like "snooze-30"
+ */
+const handleDoseAction = async ({
+  action,
+  medicationId,
+  scheduledFor,
+}: {
+  action: string;
+  medicationId: string;
+  scheduledFor: string;
+}) => {
+  const answer = parseDoseAction(action, getSnoozeMinutes());
+  if (!answer) return;
+  const { status, snoozeMinutes } = answer;
+
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+  if (!user) return;
+
+  try {
+    await recordMedicationDose({
+      medication_id: medicationId,
+      user_profile_id: user.id,
+      scheduled_for: scheduledFor,
+      status,
+      snoozeMinutes,
+    });
+    toast.success(
+      status === "snoozed"
+        ? `Dose snoozed for ${snoozeMinutes} minutes.`
+        : `Dose marked as ${status}.`,
+    );
+  } catch (err) {
+    console.error("Failed to record dose:", err);
+    toast.error("Failed to update the dose.");
+  }
+};
+
 let notifiedPermissionDenied = false;
 
 const initBrowserNotifier = async () => {
@@ -27,14 +189,7 @@ const initBrowserNotifier = async () => {
     return null;
   }
   try {
-    if ("serviceWorker" in navigator) {
-      try {
-        await navigator.serviceWorker.register("/sw.js");
-      } catch (err) {
-        console.error("Service worker registration failed:", err);
-      }
-    }
-
+    // The worker itself is registered by AppUpdatePrompt
     const registration =
       "serviceWorker" in navigator
         ? await navigator.serviceWorker.ready.catch((err) => {
@@ -47,7 +202,7 @@ const initBrowserNotifier = async () => {
       await Notification.requestPermission();
     }
 
-    const notify = async ({ title, body }: { title: string; body: string }) => {
+    const notify = async (r: ReminderNotification) => {
       if (!("Notification" in window)) return;
       if (Notification.permission === "denied") {
         if (!notifiedPermissionDenied) {
@@ -71,17 +226,12 @@ const initBrowserNotifier = async () => {
           return null;
         }));
 
-      const options: NotificationOptions = {
-        body,
-        icon: "/favicon.ico",
-        tag: `${title}:${body}`,
-        data: { url: window.location.href },
-      };
+      const options = buildNotificationOptions(r);
 
       if (reg) {
-        await reg.showNotification(title, options);
+        await reg.showNotification(r.title, options);
       } else {
-        new Notification(title, options);
+        new Notification(r.title, options);
       }
     };
 
@@ -101,13 +251,43 @@ const ensureNotifier = async () => {
   return notifierInitPromise;
 };
 
-const handleToast = (r: { title: string; body: string }) => {
-  const key = `${r.title}:${r.body}`;
-  if (shownNotifications.has(key)) return;
-  shownNotifications.add(key);
-
-  toast.info(r.title, { description: r.body });
+/**
+ * Shows a notification as a toast and a browser notification, as far as the user's channels
+ * and quiet hours allow
+ */
+const handleToast = (r: ReminderNotification) => {
+  // The same reminder text comes back for every dose, so tell doses apart by their time
+  const key = r.id ?? `${r.title}:${r.body}:${r.scheduled_for ?? ""}`;
+  if (!markNotificationShown(key)) return;
+
+  if (shouldDeliverNotification(notificationPreferences, r, "in_app")) {
+    const { medication_id: medicationId, scheduled_for: scheduledFor } = r;
+    if (medicationId && scheduledFor) {
+      // Medication reminders can be answered right from the toast
+      const toastId = `dose:${key}`;
+      const answer = (action: string) => {
+        toast.dismiss(toastId);
+        handleDoseAction({ action, medicationId, scheduledFor });
+      };
+      toast.info(r.title, {
+        id: toastId,
+        duration: 60_000,
+        description: (
+          <DoseReminderActions
+            message={r.body}
+            onTaken={() => answer("taken")}
+            onSnooze={(minutes) => answer(getSnoozeAction(minutes))}
+          />
+        ),
+      });
+    } else {
+      toast.info(r.title, { description: r.body });
+    }
+  }
 
+  if (!shouldDeliverNotification(notificationPreferences, r, "browser")) {
+    return;
+  }
   if (browserNotifier) {
     browserNotifier(r);
   } else {
@@ -115,15 +295,98 @@ const handleToast = (r: { title: string; body: string }) => {
   }
 };
 
+/**
+ * Fetches the user's notifications created since the given time and shows them
+ */
+const showNotificationsSince = async (
+  userId: string,
+  since: Date,
+  until?: Date,
+) => {
+  let query = supabase
+    .from("user_notifications")
+    .select(NOTIFICATION_COLUMNS)
+    .eq("user_profile_id", userId)
+    .gte("created_at", since.toISOString());
+  if (until) query = query.lt("created_at", until.toISOString());
+
+  const { data, error } = await query;
+  if (error) {
+    console.error("Error fetching notifications:", error);
+    return;
+  }
+
+  (data ?? []).forEach(handleToast);
+};
+
+/**
+ * Shows the user's notifications as they arrive on their realtime channel (see
+ * UserRealtimeProvider), catching up on the last minute whenever the channel (re)connects
+ */
+function ReminderNotifications() {
+  const { userId, status } = useUserRealtime((event) => {
+    if (event.entity === "notification" && event.type === "created") {
+      handleToast(event.record);
+    }
+  });
+
+  // ✅ The reminder scheduler sends notifications in the user's time zone
+  useEffect(() => {
+    if (!userId) return;
+    syncNotificationTimeZone(userId)
+      .then((preferences) => {
+        notificationPreferences = preferences;
+      })
+      .catch((err) => console.error("Failed to save time zone:", err));
+  }, [userId]);
+
+  useEffect(() => {
+    if (!userId || status !== "connected") return;
+    showNotificationsSince(userId, new Date(Date.now() - 60_000));
+  }, [userId, status]);
+
+  // ✅ Fetch due reminders every minute, in case realtime misses one
+  useEffect(() => {
+    if (!userId) return;
+
+    const fetchDueReminders = () => {
+      const windowStart = new Date();
+      windowStart.setSeconds(0, 0);
+      const windowEnd = new Date(windowStart.getTime() + 60_000);
+      showNotificationsSince(userId, windowStart, windowEnd);
+    };
+
+    const now = new Date();
+    const msToNextMinute =
+      60_000 - (now.getSeconds() * 1_000 + now.getMilliseconds());
+
+    let intervalId: ReturnType<typeof setInterval> | undefined;
+    const timeoutId = setTimeout(() => {
+      fetchDueReminders();
+      intervalId = setInterval(fetchDueReminders, 60_000);
+    }, msToNextMinute);
+
+    fetchDueReminders();
+
+    return () => {
+      clearTimeout(timeoutId);
+      clearInterval(intervalId);
+    };
+  }, [userId]);
+
+  return null;
+}
+
 export default function App({ Component, pageProps }: AppProps) {
   const router = useRouter();
 
-  // Hide nav bar on auth pages and landing page and 404
+  // Hide nav bar on auth pages and landing page, 404 and the offline page
   const authPaths = [
     "/",
     "/auth/signUp",
     "/auth/login",
     "/404",
+    "/offline",
     "/auth/forgotPassword",
     "/auth/updatePassword",
   ];
@@ -134,10 +397,6 @@ export default function App({ Component, pageProps }: AppProps) {
 
   const marginLeft = isMobile ? "0" : navExpanded ? "16rem" : "5rem";
 
-  const [userId, setUserId] = useState<string | null>(null);
-  // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  const broadcastChannelRef = useRef<any>(null);
-
   // ✅ Responsive
   useEffect(() => {
     if (typeof window !== "undefined") {
@@ -157,21 +416,39 @@ export default function App({ Component, pageProps }: AppProps) {
     localStorage.setItem("navExpanded", String(navExpanded));
   }, [navExpanded]);
 
-  // ✅ Register service worker
+  // ✅ Taken / Skipped / Snooze pressed on a medication notification
   useEffect(() => {
     if (typeof window === "undefined" || !("serviceWorker" in navigator)) {
       return;
     }
-    const register = async () => {
-      try {
-        await navigator.serviceWorker.register("/sw.js");
-      } catch (err) {
-        console.error("Service worker registration failed:", err);
+
+    const onMessage = (event: MessageEvent) => {
+      if (event.data?.type === "dose-action") {
+        handleDoseAction(event.data);
       }
     };
-    register();
+
+    navigator.serviceWorker.addEventListener("message", onMessage);
+    return () =>
+      navigator.serviceWorker.removeEventListener("message", onMessage);
   }, []);
 
+  // When no window was open, the service worker opens one with the action in the query string
+  useEffect(() => {
+    if (!router.isReady) return;
+    const { doseAction, medicationId, scheduledFor } = router.query;
+    if (
+      typeof doseAction !== "string" ||
+      typeof medicationId !== "string" ||
+      typeof scheduledFor !== "string"
+    ) {
+      return;
+    }
+
+    handleDoseAction({ action: doseAction, medicationId, scheduledFor });
+    router.replace(router.pathname, undefined, { shallow: true });
+  }, [router]);
+
   // ✅ Init browser notifications
   useEffect(() => {
     if (typeof window === "undefined" || !("Notification" in window)) {
@@ -191,13 +468,7 @@ export default function App({ Component, pageProps }: AppProps) {
       }
     };
 
-    const notifyBrowser = async ({
-      title,
-      body,
-    }: {
-      title: string;
-      body: string;
-    }) => {
+    const notifyBrowser = async (r: ReminderNotification) => {
       try {
         if (!("Notification" in window)) return;
         if (Notification.permission === "denied") return;
@@ -208,17 +479,12 @@ export default function App({ Component, pageProps }: AppProps) {
         }
 
         const registration = await navigator.serviceWorker.getRegistration();
-        const options: NotificationOptions = {
-          body,
-          icon: "/favicon.ico",
-          tag: `${title}:${body}`,
-          data: { url: window.location.href },
-        };
+        const options = buildNotificationOptions(r);
 
         if (registration) {
-          await registration.showNotification(title, options);
+          await registration.showNotification(r.title, options);
         } else {
-          new Notification(title, options);
+          new Notification(r.title, options);
         }
       } catch (err) {
         console.error("Failed to show browser notification:", err);
@@ -236,233 +502,33 @@ export default function App({ Component, pageProps }: AppProps) {
     };
   }, []);
 
-  // ✅ Important: Move supabase auth listener INSIDE useEffect (no build crash)
+  // ✅ Send the changes made offline once the device is back online
   useEffect(() => {
-    if (!supabase) return;
-
-    const {
-      data: { subscription },
-    } = supabase.auth.onAuthStateChange(async (_event, session) => {
-      const uid = session?.user?.id;
-      if (!uid) return;
-
-      supabase.removeAllChannels();
-
-      const fetchMissed = async () => {
-        const since = new Date(Date.now() - 60_000).toISOString();
-        const { data, error } = await supabase
-          .from("user_notifications")
-          .select("title, body")
-          .eq("user_profile_id", uid)
-          .gte("created_at", since);
-
-        if (error) {
-          console.error("Missed fetch error:", error);
-          return;
-        }
-
-        (data ?? []).forEach(handleToast);
-      };
-
-      const channel = supabase
-        .channel(`reminders-${uid}`)
-        .on(
-          "postgres_changes",
-          {
-            event: "INSERT",
-            schema: "public",
-            table: "user_notifications",
-            filter: `user_profile_id=eq.${uid}`,
-          },
-          // eslint-disable-next-line @typescript-eslint/no-explicit-any
-          ({ new: row }: any) => handleToast(row),
-        );
-
-      channel.subscribe((status) => {
-        if (status === "SUBSCRIBED") {
-          console.log("✅ reminders channel LIVE");
-          fetchMissed();
-        }
-      });
-    });
-
-    return () => {
-      subscription.unsubscribe();
-    };
-  }, []);
-
-  // ✅ Get logged-in user id
-  useEffect(() => {
-    if (!supabase) return;
-
-    let isMounted = true;
-
-    async function init() {
-      const {
-        data: { user },
-      } = await supabase.auth.getUser();
-
-      if (user && isMounted) {
-        setUserId(user.id);
-      }
-    }
-
-    init();
-
-    return () => {
-      isMounted = false;
-    };
+    window.addEventListener("online", syncOfflineChangesWithToast);
+    syncOfflineChangesWithToast();
+    return () =>
+      window.removeEventListener("online", syncOfflineChangesWithToast);
   }, []);
 
-  // ✅ Realtime reminders channel (guarded)
-  useLayoutEffect(() => {
-    if (!supabase) return;
-    if (!userId) return;
-
-    const fetchMissed = async () => {
-      const since = new Date(Date.now() - 60_000).toISOString();
-      const { data, error } = await supabase
-        .from("user_notifications")
-        .select("title, body")
-        .eq("user_profile_id", userId)
-        .gte("created_at", since);
-
-      if (error) {
-        console.error("Missed fetch error:", error);
-        return;
-      }
-
-      (data ?? []).forEach(handleToast);
-    };
-
-    const channel = supabase
-      .channel(`reminders-${userId}`)
-      .on(
-        "postgres_changes",
-        {
-          event: "INSERT",
-          schema: "public",
-          table: "user_notifications",
-          filter: `user_profile_id=eq.${userId}`,
-        },
-        ({ new: row }) => handleToast(row as { title: string; body: string }),
-      );
-
-    channel.subscribe((status) => {
-      if (status === "SUBSCRIBED") {
-        fetchMissed();
-      }
-    });
-
-    return () => {
-      supabase.removeChannel(channel);
-    };
-  }, [userId]);
-
-  // ✅ Reminder notifications subscription (guarded)
-  useEffect(() => {
-    if (!supabase) return;
-    if (!userId) return;
-
-    const channel = supabase
-      .channel(`reminders-${userId}`)
-      .on(
-        "postgres_changes",
-        {
-          event: "INSERT",
-          schema: "public",
-          table: "user_notifications",
-          filter: `user_profile_id=eq.${userId}`,
-        },
-        (payload) => {
-          const { title, body } = payload.new as {
-            title: string;
-            body: string;
-          };
-          handleToast({ title, body });
-        },
-      )
-      .subscribe();
-
-    return () => {
-      supabase.removeChannel(channel);
-    };
-  }, [userId]);
-
-  // ✅ Broadcast channel (guarded)
-  useEffect(() => {
-    if (!supabase) return;
-
-    broadcastChannelRef.current = supabase.channel("universal-channel", {
-      config: { broadcast: { self: false } },
-    });
-
-    const channel = broadcastChannelRef.current;
-
-    channel
-      // eslint-disable-next-line @typescript-eslint/no-explicit-any
-      .on("broadcast", { event: "*" }, (payload: any) => {
-        if (payload?.payload?.message) {
-          toast.success(`Notification: ${payload.payload.message}`);
-        }
-      })
-      .subscribe((status: string) => {
-        console.log("Universal channel status:", status);
-      });
-
-    return () => {
-      supabase.removeChannel(channel);
-      broadcastChannelRef.current = null;
-    };
-  }, []);
-
-  // ✅ Fetch due reminders (guarded)
-  useEffect(() => {
-    if (!supabase) return;
-    if (!userId) return;
-
-    const fetchDueReminders = async () => {
-      const now = new Date();
-      const windowStart = new Date(now.setSeconds(0, 0));
-      const windowEnd = new Date(windowStart.getTime() + 60_000);
-
-      const { data: dueReminders, error } = await supabase
-        .from("user_notifications")
-        .select("title, body")
-        .eq("user_profile_id", userId)
-        .gte("created_at", windowStart.toISOString())
-        .lt("created_at", windowEnd.toISOString());
-
-      if (error) {
-        console.error("Error fetching due reminders:", error);
-        return;
-      }
-
-      dueReminders?.forEach(({ title, body }) => handleToast({ title, body }));
-    };
-
-    const now = new Date();
-    const msToNextMinute =
-      60_000 - (now.getSeconds() * 1_000 + now.getMilliseconds());
-
-    const timeoutId = setTimeout(() => {
-      fetchDueReminders();
-      const intervalId = setInterval(fetchDueReminders, 60_000);
-
-      return () => clearInterval(intervalId);
-    }, msToNextMinute);
-
-    fetchDueReminders();
-
-    return () => clearTimeout(timeoutId);
-  }, [userId]);
+  // ✅ Notification settings saved on the profile page apply right away
+  useEffect(
+    () =>
+      onNotificationPreferencesChange((preferences) => {
+        notificationPreferences = preferences;
+      }),
+    [],
+  );
 
   if (hideNav) {
     return (
       <QueryClientProvider client={queryClient}>
-        <Component {...pageProps} />
-        <Toaster position="bottom-right" richColors />
-        <Analytics />
+        <UserRealtimeProvider>
+          <ReminderNotifications />
+          <AppUpdatePrompt />
+          <Component {...pageProps} />
+          <Toaster position="bottom-right" richColors />
+          <Analytics />
+        </UserRealtimeProvider>
       </QueryClientProvider>
     );
   }
@@ -475,18 +541,25 @@ export default function App({ Component, pageProps }: AppProps) {
         enableSystem
         disableTransitionOnChange
       >
-        <div>
-          <NavBar
-            isExpanded={navExpanded}
-            setIsExpanded={setNavExpanded}
-            staticNav={false}
-          />
-          <main className="transition-all duration-300" style={{ marginLeft }}>
-            <Component {...pageProps} />
-          </main>
-          <Toaster position="bottom-right" richColors />
-          <Analytics />
-        </div>
+        <UserRealtimeProvider>
+          <ReminderNotifications />
+          <AppUpdatePrompt />
+          <div>
+            <NavBar
+              isExpanded={navExpanded}
+              setIsExpanded={setNavExpanded}
+              staticNav={false}
+            />
+            <main
+              className="transition-all duration-300"
+              style={{ marginLeft }}
+            >
+              <Component {...pageProps} />
+            </main>
+            <Toaster position="bottom-right" richColors />
+            <Analytics />
+          </div>
+        </UserRealtimeProvider>
       </ThemeProvider>
     </QueryClientProvider>
   );
@@ -37,6 +37,12 @@ export default function Document() {
         <link rel="manifest" href="/manifest.json" />
         <meta name="theme-color" content="#344966" />
 
+        {/* Installed app (home screen) */}
+        <meta name="mobile-web-app-capable" content="yes" />
+        <meta name="apple-mobile-web-app-capable" content="yes" />
+        <meta name="apple-mobile-web-app-title" content="SymptomSync" />
+        <meta name="apple-mobile-web-app-status-bar-style" content="default" />
+
         {/* Open Graph / Facebook */}
         <meta property="og:title" content="SymptomSync" />
         <meta
@@ -77,4 +83,4 @@ export default function Document() {
       </body>
     </Html>
   );
-}
\ No newline at end of file
+}
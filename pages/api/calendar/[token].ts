@@ -0,0 +1,52 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { getCalendarFeedRecords } from "@/lib/calendarFeed";
+import { generateIcs } from "@/lib/ics";
+
+type ErrorResponse = { error: string };
+
+// How often calendar apps that honour it should poll the feed
+const REFRESH_INTERVAL = "PT1H";
+
+/**
+ * Serves a user's calendar feed as an iCalendar file at /api/calendar/<token>.ics.
+ * Calendar apps subscribe to this URL without signing in, so the token is the only credential.
+ */
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<string | ErrorResponse>,
+) {
+  if (req.method !== "GET" && req.method !== "HEAD") {
+    res.setHeader("Allow", "GET, HEAD");
+    return res.status(405).json({ error: "Method not allowed" });
+  }
+
+  const { token } = req.query;
+  const feedToken =
+    typeof token === "string" ? token.replace(/\.ics$/, "") : "";
+  if (!feedToken) {
+    return res.status(404).json({ error: "Calendar feed not found" });
+  }
+
+  let records;
+  try {
+    records = await getCalendarFeedRecords(feedToken);
+  } catch (err) {
+    console.error("Failed to load calendar feed:", err);
+    return res.status(500).json({ error: "Could not load calendar feed" });
+  }
+  // Revoked and unknown tokens look the same, so tokens can't be probed
+  if (!records) {
+    return res.status(404).json({ error: "Calendar feed not found" });
+  }
+
+  const ics = generateIcs(records, {
+    refreshInterval: REFRESH_INTERVAL,
+    timeZone: records.time_zone,
+  });
+  res.setHeader("Content-Type", "text/calendar; charset=utf-8");
+  res.setHeader("Content-Disposition", 'inline; filename="symptomsync.ics"');
+  // The feed is private to whoever holds the URL
+  res.setHeader("Cache-Control", "private, max-age=300");
+  res.setHeader("X-Robots-Tag", "noindex");
+  return res.status(200).send(ics);
+}
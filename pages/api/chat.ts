@@ -0,0 +1,208 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { z } from "zod";
+import { chatWithHealthAI, streamHealthAIChat } from "@/lib/aiChat";
+import { createServerSupabaseClient } from "@/lib/supabaseClient";
+import { CHAT_STREAM_ERROR_MARKER } from "@/lib/chatApi";
+import { MedicationReminderSchema } from "@/lib/medications";
+import { AppointmentReminderSchema } from "@/lib/appointmentReminders";
+import { HealthLogSchema } from "@/lib/healthLogs";
+import { ProfileSchema } from "@/lib/profile";
+import {
+  ChatContextFile,
+  ChatContextRecords,
+  DEFAULT_CONTEXT_TOKEN_BUDGET,
+  buildChatContext,
+} from "@/lib/chatContext";
+
+type ChatResponse = { text: string };
+type ErrorResponse = { error: string };
+
+// Only this much health log history is loaded for the assistant's context
+const CONTEXT_LOG_DAYS = 180;
+const CONTEXT_LOG_LIMIT = 1000;
+
+const ChatRequestSchema = z.object({
+  message: z.string().trim().min(1),
+  history: z
+    .array(
+      z.object({
+        role: z.enum(["user", "model"]),
+        text: z.string(),
+      }),
+    )
+    .default([]),
+  timeZone: z.string().optional(),
+  stream: z.boolean().optional(),
+});
+
+/**
+ * Loads everything the assistant is told about the user. The queries go through the
+ * user-scoped client, so RLS only ever returns the caller's own records.
+ */
+async function loadUserRecords(
+  client: SupabaseClient,
+  userId: string,
+): Promise<ChatContextRecords> {
+  const logsSince = new Date(
+    Date.now() - CONTEXT_LOG_DAYS * 24 * 60 * 60 * 1000,
+  ).toISOString();
+
+  const [medsRes, apptsRes, logsRes, profileRes, filesRes] = await Promise.all([
+    client
+      .from("medication_reminders")
+      .select("*")
+      .eq("user_profile_id", userId),
+    client
+      .from("appointment_reminders")
+      .select("*")
+      .eq("user_profile_id", userId),
+    client
+      .from("health_logs")
+      .select("*")
+      .eq("user_profile_id", userId)
+      .gte("start_date", logsSince)
+      .order("start_date", { ascending: false })
+      .limit(CONTEXT_LOG_LIMIT),
+    client.from("user_profiles").select("*").eq("id", userId).maybeSingle(),
+    client
+      .from("files")
+      .select("*")
+      .eq("user_profile_id", userId)
+      .order("created_at", { ascending: false })
+      .range(0, 4),
+  ]);
+
+  for (const res of [medsRes, apptsRes, logsRes, profileRes, filesRes]) {
+    if (res.error) throw res.error;
+  }
+
+  return {
+    meds: MedicationReminderSchema.array().parse(medsRes.data),
+    appts: AppointmentReminderSchema.array().parse(apptsRes.data),
+    logs: HealthLogSchema.array().parse(logsRes.data),
+    profile: profileRes.data ? ProfileSchema.parse(profileRes.data) : null,
+    files: (filesRes.data ?? []) as ChatContextFile[],
+  };
+}
+
+/**
+ * Responds with the error from the AI model, passing rate limits through as 429
+ */
+function sendAIError(res: NextApiResponse<ErrorResponse>, err: unknown) {
+  console.error("AI chat error:", err);
+  const errorMessage =
+    err instanceof Error ? err.message : "AI is unavailable.";
+  const status = errorMessage.includes("429") ? 429 : 502;
+  return res.status(status).json({ error: errorMessage });
+}
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<ChatResponse | ErrorResponse>,
+) {
+  if (req.method !== "POST") {
+    res.setHeader("Allow", "POST");
+    return res.status(405).json({ error: "Method not allowed" });
+  }
+
+  const authHeader = req.headers.authorization;
+  const accessToken = authHeader?.startsWith("Bearer ")
+    ? authHeader.slice("Bearer ".length).trim()
+    : "";
+  if (!accessToken) {
+    return res.status(401).json({ error: "Not authenticated" });
+  }
+
+  const client = createServerSupabaseClient(accessToken);
+  const {
+    data: { user },
+    error: authError,
+  } = await client.auth.getUser(accessToken);
+  if (authError || !user) {
+    return res.status(401).json({ error: "Not authenticated" });
+  }
+
+  const parsed = ChatRequestSchema.safeParse(req.body);
+  if (!parsed.success) {
+    return res.status(400).json({ error: "Invalid chat request" });
+  }
+  const { message, history, timeZone, stream } = parsed.data;
+
+  let userDataSummary: string;
+  try {
+    const records = await loadUserRecords(client, user.id);
+    userDataSummary = buildChatContext(records, {
+      timeZone,
+      maxTokens:
+        Number(process.env.CHAT_CONTEXT_TOKEN_BUDGET) ||
+        DEFAULT_CONTEXT_TOKEN_BUDGET,
+    });
+  } catch (err) {
+    console.error("Failed to load user data for chat:", err);
+    return res.status(500).json({ error: "Could not load your health data." });
+  }
+
+  if (!stream) {
+    try {
+      const text = await chatWithHealthAI(
+        history,
+        message,
+        undefined,
+        userDataSummary,
+      );
+      return res.status(200).json({ text });
+    } catch (err) {
+      return sendAIError(res, err);
+    }
+  }
+
+  // Stop generating as soon as the client goes away (e.g. the user pressed Stop)
+  const controller = new AbortController();
+  let finished = false;
+  res.on("close", () => {
+    if (!finished) controller.abort();
+  });
+
+  const pieces = streamHealthAIChat(
+    history,
+    message,
+    undefined,
+    userDataSummary,
+    controller.signal,
+  );
+
+  // Wait for the first piece so that failures can still be reported with a proper status
+  let first: IteratorResult<string>;
+  try {
+    first = await pieces.next();
+  } catch (err) {
+    finished = true;
+    return sendAIError(res, err);
+  }
+
+  res.writeHead(200, {
+    "Content-Type": "text/plain; charset=utf-8",
+    "Cache-Control": "no-cache, no-transform",
+  });
+  if (!first.done) res.write(first.value);
+
+  try {
+    for await (const piece of pieces) {
+      res.write(piece);
+    }
+  } catch (err) {
+    if (!controller.signal.aborted) {
+      console.error("AI chat stream error:", err);
+      // The status has already been sent, so tell the client in the stream that the reply
+      // is incomplete (see streamChatReply)
+      res.write(
+        CHAT_STREAM_ERROR_MARKER +
+          (err instanceof Error ? err.message : "AI is unavailable."),
+      );
+    }
+  } finally {
+    finished = true;
+    res.end();
+  }
+}
@@ -0,0 +1,38 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { createServiceSupabaseClient } from "@/lib/supabaseClient";
+import { runAccountDeletions } from "@/lib/accountDeletion";
+
+type AccountDeletionsResponse = { deleted: number; failed: number };
+type ErrorResponse = { error: string };
+
+/**
+ * Deletes the accounts whose deletion grace period has passed (see lib/accountDeletion.ts).
+ * Call it every hour, e.g. from Vercel Cron or system cron, with
+ * `Authorization: Bearer <CRON_SECRET>`.
+ */
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<AccountDeletionsResponse | ErrorResponse>,
+) {
+  if (req.method !== "GET" && req.method !== "POST") {
+    res.setHeader("Allow", "GET, POST");
+    return res.status(405).json({ error: "Method not allowed" });
+  }
+
+  const secret = process.env.CRON_SECRET;
+  if (!secret || req.headers.authorization !== `Bearer ${secret}`) {
+    return res.status(401).json({ error: "Not authorized" });
+  }
+
+  try {
+    const { deleted, failed } = await runAccountDeletions(
+      createServiceSupabaseClient(),
+    );
+    return res
+      .status(200)
+      .json({ deleted: deleted.length, failed: failed.length });
+  } catch (err) {
+    console.error("Account deletions failed:", err);
+    return res.status(500).json({ error: "Account deletions failed" });
+  }
+}
@@ -0,0 +1,50 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { createServiceSupabaseClient } from "@/lib/supabaseClient";
+import { runReminderScheduler } from "@/lib/reminderScheduler";
+import { getVapidKeys, pushUserNotification } from "@/lib/webPush";
+
+type SchedulerResponse = {
+  due: number;
+  created: number;
+  pushed: number;
+  missed: number;
+};
+type ErrorResponse = { error: string };
+
+/**
+ * Runs the reminder scheduler once (reminders, snooze follow-ups and missed doses) and pushes
+ * the notifications it created to the users' subscribed devices (when Web Push is configured). Call it every minute, e.g. from Vercel Cron
+ * or scripts/reminder-scheduler.mjs, with `Authorization: Bearer <CRON_SECRET>`.
+ */
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<SchedulerResponse | ErrorResponse>,
+) {
+  if (req.method !== "GET" && req.method !== "POST") {
+    res.setHeader("Allow", "GET, POST");
+    return res.status(405).json({ error: "Method not allowed" });
+  }
+
+  const secret = process.env.CRON_SECRET;
+  if (!secret || req.headers.authorization !== `Bearer ${secret}`) {
+    return res.status(401).json({ error: "Not authorized" });
+  }
+
+  try {
+    const client = createServiceSupabaseClient();
+    const { due, created, missed } = await runReminderScheduler(client);
+
+    let pushed = 0;
+    if (getVapidKeys()) {
+      for (const notification of created) {
+        pushed += await pushUserNotification(client, notification);
+      }
+    }
+    return res
+      .status(200)
+      .json({ due, created: created.length, pushed, missed });
+  } catch (err) {
+    console.error("Reminder scheduler failed:", err);
+    return res.status(500).json({ error: "Reminder scheduler failed" });
+  }
+}
@@ -0,0 +1,78 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { z } from "zod";
+import { createServiceSupabaseClient } from "@/lib/supabaseClient";
+import { getVapidKeys, pushUserNotification } from "@/lib/webPush";
+
+type SendResponse = { pushed: number };
+type ErrorResponse = { error: string };
+
+// Either a notification id, or the payload of a Supabase Database Webhook on user_notifications
+const SendRequestSchema = z.union([
+  z.object({ notificationId: z.string() }),
+  z.object({
+    record: z.object({
+      user_profile_id: z.string(),
+      title: z.string(),
+      body: z.string(),
+      medication_id: z.string().nullable().optional(),
+      appointment_id: z.string().nullable().optional(),
+      scheduled_for: z.string().nullable().optional(),
+    }),
+  }),
+]);
+
+/**
+ * Pushes a user_notifications row to its user's subscribed devices. Notifications created by the
+ * reminder scheduler are pushed by pages/api/cron/reminders.ts; this route is for any other
+ * notification. Requires `Authorization: Bearer <CRON_SECRET>`.
+ */
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<SendResponse | ErrorResponse>,
+) {
+  if (req.method !== "POST") {
+    res.setHeader("Allow", "POST");
+    return res.status(405).json({ error: "Method not allowed" });
+  }
+
+  const secret = process.env.CRON_SECRET;
+  if (!secret || req.headers.authorization !== `Bearer ${secret}`) {
+    return res.status(401).json({ error: "Not authorized" });
+  }
+
+  if (!getVapidKeys()) {
+    return res.status(503).json({ error: "Web Push is not configured" });
+  }
+
+  const parsed = SendRequestSchema.safeParse(req.body);
+  if (!parsed.success) {
+    return res.status(400).json({ error: "Invalid push request" });
+  }
+
+  try {
+    const client = createServiceSupabaseClient();
+    let notification;
+    if ("record" in parsed.data) {
+      notification = parsed.data.record;
+    } else {
+      const { data, error } = await client
+        .from("user_notifications")
+        .select(
+          "user_profile_id, title, body, medication_id, appointment_id, scheduled_for",
+        )
+        .eq("id", parsed.data.notificationId)
+        .maybeSingle();
+      if (error) throw error;
+      if (!data) {
+        return res.status(404).json({ error: "Notification not found" });
+      }
+      notification = data;
+    }
+
+    const pushed = await pushUserNotification(client, notification);
+    return res.status(200).json({ pushed });
+  } catch (err) {
+    console.error("Failed to push notification:", err);
+    return res.status(500).json({ error: "Failed to push notification" });
+  }
+}
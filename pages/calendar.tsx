@@ -1,5 +1,5 @@
 import React, { useEffect, useState, useRef } from "react";
-import { supabase } from "@/lib/supabaseClient";
+import { getCurrentUser } from "@/lib/auth";
 import { useRouter } from "next/router";
 import {
   MedicationReminder,
@@ -40,8 +40,11 @@ import {
   startOfWeek,
   getDay,
   format,
-  addDays,
-  addMonths,
+  startOfMonth,
+  endOfMonth,
+  endOfWeek,
+  startOfDay,
+  endOfDay,
 } from "date-fns";
 import { enUS } from "date-fns/locale/en-US";
 import { toast } from "sonner";
@@ -59,6 +62,22 @@ import Head from "next/head";
 import { motion } from "framer-motion";
 import { DatePicker } from "@/components/ui/date-picker";
 import { CustomTimePicker } from "@/components/ui/time-picker";
+import { RecurrenceEditor } from "@/components/RecurrenceEditor";
+import { useUserRealtime } from "@/components/UserRealtimeProvider";
+import { applyRealtimeEvent } from "@/lib/userRealtime";
+import {
+  RecurrenceRule,
+  getMedicationOccurrences,
+  getMedicationRecurrenceRule,
+  parseRRule,
+  toMedicationRecurrence,
+} from "@/lib/recurrence";
+import {
+  classifyIcsEvent,
+  generateIcs,
+  IcsImportItem,
+  parseIcs,
+} from "@/lib/ics";
 
 const containerVariants = {
   hidden: { opacity: 0, pointerEvents: "none" },
@@ -107,182 +126,80 @@ type CalendarEvent = {
   type: "medication" | "appointment";
 };
 
+type CalendarRange = { start: Date; end: Date };
+
 /**
- * Takes a medication reminder and expands it into multiple calendar events based on its recurrence
+ * Takes a medication reminder and expands it into one calendar event per dose
+ * within the range that is shown on the calendar
  *
  * @param med - The medication reminder object.
- * @param horizonDays - The number of days to expand the events into the future.
+ * @param range - The visible range of the calendar.
  * @returns - An array of calendar events.
  */
 function expandMedication(
   med: MedicationReminder,
-  // For now we'll just do 90 days - since we don't ask the user for the end date when they add a med
-  horizonDays = 90,
+  range: CalendarRange,
 ): CalendarEvent[] {
-  const baseTime = new Date(med.reminder_time);
-  const events: CalendarEvent[] = [];
-  const recurrence = med.recurrence
-    ? med.recurrence
-        .toLowerCase()
-        .replace(/[-\s]+/g, " ")
-        .trim()
-    : "";
-
-  if (!recurrence || recurrence === "as needed") {
-    events.push({
-      id: `med-${med.id}-0`,
-      title: `💊 Med: ${med.medication_name}`,
-      start: baseTime,
-      end: baseTime,
-      type: "medication",
-    });
-    return events;
-  }
-
-  const endPoint = addDays(baseTime, horizonDays);
-
-  let deltaDays = 1;
-  if (recurrence === "weekly") {
-    deltaDays = 7;
-  } else if (recurrence === "biweekly") {
-    deltaDays = 14;
-  } else if (recurrence === "monthly") {
-    // Monthly recurrence will be handled below
-  }
-
-  let index = 0;
-  if (recurrence === "monthly") {
-    let current = new Date(baseTime);
-    while (current <= endPoint) {
-      events.push({
-        id: `med-${med.id}-${index}`,
-        title: `💊 Med: ${med.medication_name}`,
-        start: new Date(current),
-        end: new Date(current),
-        type: "medication",
-      });
-      index++;
-      current = addMonths(current, 1);
-    }
-  } else {
-    let current = new Date(baseTime);
-    while (current <= endPoint) {
-      events.push({
-        id: `med-${med.id}-${index}`,
-        title: `💊 Med: ${med.medication_name}`,
-        start: new Date(current),
-        end: new Date(current),
-        type: "medication",
-      });
-      index++;
-      current = addDays(current, deltaDays);
-    }
-  }
-
-  return events;
+  return getMedicationOccurrences(med, range.start, range.end).map((time) => ({
+    id: `med-${med.id}-${time.getTime()}`,
+    title: `💊 Med: ${med.medication_name}`,
+    start: time,
+    end: time,
+    type: "medication",
+  }));
 }
 
 /**
- * Converts a raw ICS date string of the form "YYYYMMDDTHHMMSS"
- * into a valid ISO 8601 date string (like "YYYY-MM-DDTHH:MM:SSZ")
- *
- * Asked ChatGPT to help me with the regexs
+ * Turns an appointment reminder into its one-hour calendar event
  *
- * @param dateStr - The raw ICS date string to normalize.
- * @returns - The normalized date string in ISO 8601 format.
+ * @param appt - The appointment reminder object.
+ * @returns - The calendar event.
  */
-function normalizeIcsDate(dateStr: string): string {
-  const regex = /^(\d{4})(\d{2})(\d{2})T(\d{2})(\d{2})(\d{2})(Z?)$/;
-  const match = regex.exec(dateStr);
-  if (match) {
-    // eslint-disable-next-line @typescript-eslint/no-unused-vars
-    const [_, year, month, day, hour, minute, second, z] = match;
-    return `${year}-${month}-${day}T${hour}:${minute}:${second}${z || "Z"}`;
-  }
-
-  return dateStr;
+function toAppointmentEvent(appt: AppointmentReminder): CalendarEvent {
+  const start = new Date(appt.date);
+  const end = new Date(appt.date);
+  end.setHours(end.getHours() + 1);
+  return {
+    id: `appt-${appt.id}`,
+    title: `🗓️ Appt: ${appt.appointment_name}`,
+    start,
+    end,
+    type: "appointment",
+  };
 }
 
 /**
- * Generates an ICS string from the given events
- *
- * @param events - An array of calendar events to include in the ICS file.
- * @returns - A string representing the ICS file content.
+ * The range shown by the calendar's default month view, including the days of the
+ * previous and next months that fill the first and last weeks
  */
-function generateIcs(events: CalendarEvent[]): string {
-  const formatDateUtc = (date: Date) => format(date, "yyyyMMdd'T'HHmmss'Z'");
-  const ics = [
-    "BEGIN:VCALENDAR",
-    "CALSCALE:GREGORIAN",
-    "PRODID:-//SymptomSync//EN",
-    "VERSION:2.0",
-    "X-WR-CALNAME:SymptomSync Calendar",
-  ];
-  const dtStamp = formatDateUtc(new Date());
-  events.forEach((ev) => {
-    ics.push("BEGIN:VEVENT");
-    ics.push(`UID:${ev.id}@symptomsync.com`);
-    ics.push(`DTSTAMP:${dtStamp}`);
-    ics.push(`DTSTART:${formatDateUtc(ev.start)}`);
-    ics.push(`DTEND:${formatDateUtc(ev.end)}`);
-
-    if (ev.type === "medication") {
-      ics.push(`SUMMARY:💊 Med: ${ev.title.replace(/^💊 Med: /, "")}`);
-    } else {
-      ics.push(`SUMMARY:🗓️ Appt: ${ev.title.replace(/^🗓️ Appt: /, "")}`);
-    }
-    ics.push("END:VEVENT");
-  });
-  ics.push("END:VCALENDAR");
-  return ics.join("\r\n");
+function getMonthRange(date: Date): CalendarRange {
+  return {
+    start: startOfWeek(startOfMonth(date)),
+    end: endOfWeek(endOfMonth(date)),
+  };
 }
 
 /**
- * Parses a simple ICS string and returns an array of objects representing the events.
- * This parser extracts DTSTART, DTEND, and SUMMARY and normalizes the dates.
- * Only events within the past year are returned to avoid too large calendars
+ * Names imported events for a message, e.g. "Aspirin, Vitamin D and 2 more"
  */
-function parseIcs(
-  icsText: string,
-): { summary: string; dtstart: string; dtend: string }[] {
-  const events = [];
-  const lines = icsText.split(/\r?\n/);
-  let currentEvent: { summary?: string; dtstart?: string; dtend?: string } = {};
-  let inEvent = false;
-  for (const line of lines) {
-    if (line === "BEGIN:VEVENT") {
-      inEvent = true;
-      currentEvent = {};
-    } else if (line === "END:VEVENT") {
-      inEvent = false;
-      if (currentEvent.dtstart && currentEvent.dtend && currentEvent.summary) {
-        events.push({
-          summary: currentEvent.summary,
-          dtstart: currentEvent.dtstart,
-          dtend: currentEvent.dtend,
-        });
-      }
-    } else if (inEvent) {
-      if (line.startsWith("SUMMARY:")) {
-        currentEvent.summary = line.substring(8).trim();
-      } else if (line.startsWith("DTSTART:")) {
-        currentEvent.dtstart = normalizeIcsDate(line.substring(8).trim());
-      } else if (line.startsWith("DTEND:")) {
-        currentEvent.dtend = normalizeIcsDate(line.substring(6).trim());
-      }
-    }
+function listImportedNames(items: IcsImportItem[]): string {
+  const names = items.slice(0, 3).map((item) => item.name);
+  if (items.length > 3) {
+    return `${names.join(", ")} and ${items.length - 3} more`;
   }
-  const oneYearAgo = new Date(Date.now() - 365 * 24 * 60 * 60 * 1000);
-  return events.filter(
-    (ev) => new Date(ev.dtstart).getTime() >= oneYearAgo.getTime(),
-  );
+  return names.length === 1
+    ? names[0]
+    : `${names.slice(0, -1).join(", ")} and ${names[names.length - 1]}`;
 }
 
 /**
- * Handles importing an ICS file. Tries its best to classify events as
- * medications or appointments based on the summary. But this is a heuristic
- * and may not be 100% accurate. For events it doesn't recognize, it will
- * treat them as appointments
+ * Handles importing an ICS file. Events exported by SymptomSync carry the id of their record
+ * in their UID, so re-importing an export updates those records instead of duplicating them.
+ * Other events are classified as medications or appointments based on their summary, which
+ * is a heuristic and may not be 100% accurate. For events it doesn't recognize, it will
+ * treat them as appointments. The user is told about medications whose RRULE can't be read,
+ * which are imported as As Needed, and recurring appointments, of which only the first
+ * occurrence is imported.
  *
  * @param e - The change event from the file input.
  * @param userId - The user ID to associate the events with.
@@ -300,27 +217,75 @@ function handleImportIcs(
   reader.onload = async (event) => {
     try {
       const text = event.target?.result as string;
-      const importedEvents = parseIcs(text);
-      for (const ev of importedEvents) {
-        if (/^(Med:|Medication:)/i.test(ev.summary)) {
-          const medName = ev.summary.replace(/^(Med:|Medication:)\s*/i, "");
-          await createMedicationReminder({
-            user_profile_id: userId,
-            medication_name: medName,
-            dosage: null,
-            reminder_time: new Date(ev.dtstart).toISOString(),
-            recurrence: "As Needed",
-            calendar_sync_token: null,
-          });
+      const items = parseIcs(text).map(classifyIcsEvent);
+      // Only ids of the user's own records are updated; anything else is created
+      const [meds, appts] = await Promise.all([
+        getMedicationRemindersByUser(userId),
+        getAppointmentRemindersByUser(userId),
+      ]);
+      const medIds = new Set(meds.map((med) => med.id));
+      const apptIds = new Set(appts.map((appt) => appt.id));
+
+      let updated = 0;
+      // Events whose repetition SymptomSync can't keep, reported once the import is done
+      const unreadRules: IcsImportItem[] = [];
+      const recurringAppts: IcsImportItem[] = [];
+      for (const item of items) {
+        if (item.type === "medication") {
+          const rule = item.rrule ? parseRRule(item.rrule) : null;
+          if (item.rrule && !rule) unreadRules.push(item);
+          const fields = {
+            medication_name: item.name,
+            dosage: item.dosage,
+            reminder_time: item.start.toISOString(),
+            ...toMedicationRecurrence(rule),
+          };
+          if (item.id && medIds.has(item.id)) {
+            await updateMedicationReminder(item.id, fields);
+            updated++;
+          } else {
+            await createMedicationReminder({
+              user_profile_id: userId,
+              ...fields,
+              calendar_sync_token: null,
+            });
+          }
         } else {
-          await createAppointmentReminder({
-            user_profile_id: userId,
-            appointment_name: ev.summary,
-            date: new Date(ev.dtstart).toISOString(),
-          });
+          if (item.rrule) recurringAppts.push(item);
+          const fields = {
+            appointment_name: item.name,
+            date: item.start.toISOString(),
+          };
+          if (item.id && apptIds.has(item.id)) {
+            await updateAppointmentReminder(item.id, fields);
+            updated++;
+          } else {
+            await createAppointmentReminder({
+              user_profile_id: userId,
+              ...fields,
+            });
+          }
         }
       }
-      toast.success("ICS file imported successfully");
+      toast.success(
+        `Imported ${items.length} events (${updated} updated, ${items.length - updated} new)`,
+      );
+      if (unreadRules.length > 0) {
+        console.warn(
+          "Unsupported RRULEs imported as As Needed:",
+          unreadRules.map((item) => `${item.name}: ${item.rrule}`),
+        );
+        toast.warning(
+          `SymptomSync can't repeat ${listImportedNames(unreadRules)} the way the calendar does, so ${
+            unreadRules.length === 1 ? "it was" : "they were"
+          } imported as As Needed. Edit ${unreadRules.length === 1 ? "it" : "them"} to set a schedule.`,
+        );
+      }
+      if (recurringAppts.length > 0) {
+        toast.warning(
+          `Appointments don't repeat in SymptomSync, so only the first occurrence of ${listImportedNames(recurringAppts)} was imported.`,
+        );
+      }
       await refresh();
     } catch (error) {
       console.error("Error importing ICS", error);
@@ -332,13 +297,12 @@ function handleImportIcs(
 
 export default function CalendarPage() {
   const [userId, setUserId] = useState<string | null>(null);
-  // eslint-disable-next-line @typescript-eslint/no-unused-vars
   const [medications, setMedications] = useState<MedicationReminder[]>([]);
   // eslint-disable-next-line @typescript-eslint/no-unused-vars
   const [appointments, setAppointments] = useState<AppointmentReminder[]>([]);
   const [events, setEvents] = useState<CalendarEvent[]>([]);
-  // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  const channelRefs = useRef<any[]>([]);
+  // Medication doses are only expanded for the range the calendar currently shows
+  const visibleRangeRef = useRef<CalendarRange>(getMonthRange(new Date()));
   const [showSelectTypeDialog, setShowSelectTypeDialog] = useState(false);
   const [slotDate, setSlotDate] = useState<Date | null>(null);
   const [showAddDialog, setShowAddDialog] = useState(false);
@@ -353,7 +317,8 @@ export default function CalendarPage() {
   const [newMedDosage, setNewMedDosage] = useState("");
   const [newMedDosageUnit, setNewMedDosageUnit] = useState("");
   const [newMedTimePicker, setNewMedTimePicker] = useState("00:00");
-  const [newMedRecurrence, setNewMedRecurrence] = useState<null | string>(null);
+  const [newMedRecurrence, setNewMedRecurrence] =
+    useState<RecurrenceRule | null>(null);
   const [showEventDialog, setShowEventDialog] = useState(false);
   const [dialogEvent, setDialogEvent] = useState<CalendarEvent | null>(null);
   const [editTitle, setEditTitle] = useState("");
@@ -367,184 +332,58 @@ export default function CalendarPage() {
   );
   const [showIcsDialog, setShowIcsDialog] = useState(false);
   const router = useRouter();
-  // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  const broadcastChannelRef = useRef<any>(null);
   const [editMedDosage, setEditMedDosage] = useState("");
   const [editMedDosageUnit, setEditMedDosageUnit] = useState("mg");
-  const [editMedRecurrence, setEditMedRecurrence] = useState("Daily");
+  const [editMedRecurrence, setEditMedRecurrence] =
+    useState<RecurrenceRule | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [moreEvents, setMoreEvents] = useState<CalendarEvent[]>([]);
   const [moreDate, setMoreDate] = useState<Date | null>(null);
   const [showMoreDialog, setShowMoreDialog] = useState(false);
 
   /**
-   * Function to send a broadcast message to all connected clients
-   * using the Supabase broadcast channel.
-   *
-   * @param eventName - The name of the event to broadcast
-   * @param message - The message to send with the event
+   * Supabase Realtime: changes to medication and appointment reminders (e.g. from another
+   * device) replace just their own events on the calendar. Broadcasts from the user's other
+   * devices and tabs are shown by the UserRealtimeProvider.
    */
-  const sendBroadcast = (eventName: string, message: string) => {
-    if (broadcastChannelRef.current) {
-      broadcastChannelRef.current.send({
-        type: "broadcast",
-        event: eventName,
-        payload: { message },
-      });
+  const { broadcast: sendBroadcast } = useUserRealtime((event) => {
+    if (event.entity === "medication") {
+      const id = event.type === "deleted" ? event.id : event.record.id;
+      setMedications((prev) => applyRealtimeEvent(prev, event) ?? prev);
+      setEvents((prev) => [
+        ...prev.filter((e) => !e.id.startsWith(`med-${id}-`)),
+        ...(event.type === "deleted"
+          ? []
+          : expandMedication(event.record, visibleRangeRef.current)),
+      ]);
+    } else if (event.entity === "appointment") {
+      const id = event.type === "deleted" ? event.id : event.record.id;
+      setAppointments((prev) => applyRealtimeEvent(prev, event) ?? prev);
+      setEvents((prev) => [
+        ...prev.filter((e) => e.id !== `appt-${id}`),
+        ...(event.type === "deleted" ? [] : [toAppointmentEvent(event.record)]),
+      ]);
     }
-  };
+  });
 
-  /**
-   * Supabase Realtime #1: Subscribe to changes in medication and appointment reminders
-   * and update the UI immediately as changes occur
-   */
   useEffect(() => {
     let isMounted = true;
     async function init() {
-      const {
-        data: { user },
-      } = await supabase.auth.getUser();
-      if (!user || !isMounted) return;
+      const user = await getCurrentUser();
+      if (!user) {
+        router.push("/auth/login");
+        return;
+      }
+      if (!isMounted) return;
       setUserId(user.id);
       await fetchAllData(user.id);
-
-      const medsChannel = supabase
-        .channel("medsSub")
-        .on(
-          "postgres_changes",
-          {
-            event: "INSERT",
-            schema: "public",
-            table: "medication_reminders",
-            filter: `user_profile_id=eq.${user.id}`,
-          },
-          async () => {
-            await fetchAllData(user.id);
-          },
-        )
-        .on(
-          "postgres_changes",
-          {
-            event: "UPDATE",
-            schema: "public",
-            table: "medication_reminders",
-            filter: `user_profile_id=eq.${user.id}`,
-          },
-          async () => {
-            await fetchAllData(user.id);
-          },
-        )
-        .on(
-          "postgres_changes",
-          {
-            event: "DELETE",
-            schema: "public",
-            table: "medication_reminders",
-            filter: `user_profile_id=eq.${user.id}`,
-          },
-          async () => {
-            await fetchAllData(user.id);
-          },
-        )
-        .subscribe();
-      channelRefs.current.push(medsChannel);
-
-      const apptsChannel = supabase
-        .channel("apptsSub")
-        .on(
-          "postgres_changes",
-          {
-            event: "INSERT",
-            schema: "public",
-            table: "appointment_reminders",
-            filter: `user_profile_id=eq.${user.id}`,
-          },
-          async () => {
-            await fetchAllData(user.id);
-          },
-        )
-        .on(
-          "postgres_changes",
-          {
-            event: "UPDATE",
-            schema: "public",
-            table: "appointment_reminders",
-            filter: `user_profile_id=eq.${user.id}`,
-          },
-          async () => {
-            await fetchAllData(user.id);
-          },
-        )
-        .on(
-          "postgres_changes",
-          {
-            event: "DELETE",
-            schema: "public",
-            table: "appointment_reminders",
-            filter: `user_profile_id=eq.${user.id}`,
-          },
-          async () => {
-            await fetchAllData(user.id);
-          },
-        )
-        .subscribe();
-      channelRefs.current.push(apptsChannel);
     }
 
     init();
 
     return () => {
       isMounted = false;
-      channelRefs.current.forEach((ch) => supabase.removeChannel(ch));
     };
-  }, []);
-
-  /**
-   * Supabase Realtime #2: In the above realtime functionality, we already
-   * created postgres changes for meds, appointments, and health logs. However,
-   * that will only update the UI if the user adds a new med, appointment, or log
-   * from another device. But we may also wanna broadcast a message to the user
-   * when a new med, appointment, or log is added from another device as well.
-   * This is where the broadcast channel comes in - it will broadcast a message
-   * to the user when a new med, appointment, or log is added from another device so
-   * that the user knows that something has changed in the UI and the reason
-   * for that change.
-   */
-  useEffect(() => {
-    async function subscribeToUserChannel() {
-      const {
-        data: { user },
-      } = await supabase.auth.getUser();
-
-      if (!user) {
-        router.push("/auth/login");
-        return;
-      }
-
-      const userChannelName = `user-channel-${user.id}`;
-      broadcastChannelRef.current = supabase.channel(userChannelName, {
-        config: { broadcast: { self: false } },
-      });
-      const channel = broadcastChannelRef.current;
-
-      channel
-        // eslint-disable-next-line @typescript-eslint/no-explicit-any
-        .on("broadcast", { event: "*" }, (payload: any) => {
-          toast.success(
-            `Notification: ${payload.payload.message.replace(/\./g, "")} from another device or tab.`,
-          );
-        })
-        .subscribe((status: string) => {
-          console.log("User-specific channel status:", status);
-        });
-
-      return () => {
-        supabase.removeChannel(channel);
-        broadcastChannelRef.current = null;
-      };
-    }
-
-    subscribeToUserChannel();
   }, [router]);
 
   /**
@@ -568,22 +407,11 @@ export default function CalendarPage() {
 
       let medEvents: CalendarEvent[] = [];
       meds.forEach((m) => {
-        const repeated = expandMedication(m);
+        const repeated = expandMedication(m, visibleRangeRef.current);
         medEvents = medEvents.concat(repeated);
       });
 
-      const apptEvents: CalendarEvent[] = appts.map((a) => {
-        const startDate = new Date(a.date);
-        const endDate = new Date(a.date);
-        endDate.setHours(endDate.getHours() + 1);
-        return {
-          id: `appt-${a.id}`,
-          title: `🗓️ Appt: ${a.appointment_name}`,
-          start: startDate,
-          end: endDate,
-          type: "appointment",
-        };
-      });
+      const apptEvents = appts.map(toAppointmentEvent);
 
       setEvents([...medEvents, ...apptEvents]);
       setIsLoading(false);
@@ -624,7 +452,7 @@ export default function CalendarPage() {
       } else {
         setNewMedDate(slotDate);
         setNewMedTimePicker(timeStr);
-        setNewMedRecurrence("As Needed");
+        setNewMedRecurrence(null);
       }
     }
     setShowSelectTypeDialog(false);
@@ -652,18 +480,9 @@ export default function CalendarPage() {
         appointment_name: newApptName,
         date: isoString,
       });
-      const startDt = new Date(created.date);
-      const endDt = new Date(created.date);
-      endDt.setHours(endDt.getHours() + 1);
       setEvents((prev) => [
-        ...prev,
-        {
-          id: `appt-${created.id}`,
-          title: `🗓️ Appt: ${created.appointment_name}`,
-          start: startDt,
-          end: endDt,
-          type: "appointment",
-        },
+        ...prev.filter((e) => e.id !== `appt-${created.id}`),
+        toAppointmentEvent(created),
       ]);
       toast.success("Appointment reminder added successfully!");
       sendBroadcast(
@@ -690,9 +509,6 @@ export default function CalendarPage() {
   async function handleAddMedication() {
     if (!userId || !newMedName || !newMedDate) return;
     try {
-      if (!newMedRecurrence) {
-        setNewMedRecurrence("As Needed");
-      }
       const dateString = format(newMedDate, "yyyy-MM-dd");
       const combined = `${dateString}T${newMedTimePicker}`;
       const combinedDosage = newMedDosage
@@ -705,11 +521,19 @@ export default function CalendarPage() {
         medication_name: newMedName,
         dosage: combinedDosage,
         reminder_time: isoString,
-        recurrence: newMedRecurrence,
+        ...toMedicationRecurrence(newMedRecurrence),
         calendar_sync_token: null,
       });
-      const repeated = expandMedication(created);
-      setEvents((prev) => [...prev, ...repeated]);
+      const repeated = expandMedication(created, visibleRangeRef.current);
+      // The realtime update may have added it already
+      setMedications((prev) => [
+        ...prev.filter((m) => m.id !== created.id),
+        created,
+      ]);
+      setEvents((prev) => [
+        ...prev.filter((e) => !e.id.startsWith(`med-${created.id}-`)),
+        ...repeated,
+      ]);
       toast.success("Medication reminder added successfully!");
       sendBroadcast(
         "med-add",
@@ -750,6 +574,10 @@ export default function CalendarPage() {
 
     if (ev.type === "medication") {
       setEditTitle(ev.title.replace(/^💊 Med: /, ""));
+      const withoutPrefix = ev.id.slice(4);
+      const medId = withoutPrefix.substring(0, withoutPrefix.lastIndexOf("-"));
+      const med = medications.find((m) => m.id === medId);
+      setEditMedRecurrence(med ? getMedicationRecurrenceRule(med) : null);
     } else {
       setEditTitle(ev.title.replace(/^🗓️ Appt: /, ""));
     }
@@ -758,6 +586,22 @@ export default function CalendarPage() {
     setShowEventDialog(true);
   }
 
+  /**
+   * Re-expands the medication doses when the user moves to another month, week or day
+   *
+   * @param range - The dates shown (week and day views) or the start and end of the view
+   */
+  function handleRangeChange(range: Date[] | CalendarRange) {
+    const next = Array.isArray(range)
+      ? { start: startOfDay(range[0]), end: endOfDay(range[range.length - 1]) }
+      : { start: startOfDay(range.start), end: endOfDay(range.end) };
+    visibleRangeRef.current = next;
+    setEvents((prev) => [
+      ...prev.filter((e) => e.type !== "medication"),
+      ...medications.flatMap((m) => expandMedication(m, next)),
+    ]);
+  }
+
   function handleShowMore(eventsForDay: CalendarEvent[], date: Date) {
     setMoreEvents(eventsForDay);
     setMoreDate(date);
@@ -844,10 +688,16 @@ export default function CalendarPage() {
           medication_name: editTitle,
           dosage: `${editMedDosage} ${editMedDosageUnit}`,
           reminder_time: isoString,
-          recurrence: editMedRecurrence,
+          ...toMedicationRecurrence(editMedRecurrence),
         });
 
-        const newEventsForMed = expandMedication(updated);
+        const newEventsForMed = expandMedication(
+          updated,
+          visibleRangeRef.current,
+        );
+        setMedications((prev) =>
+          prev.map((m) => (m.id === updated.id ? updated : m)),
+        );
         setEvents((prev) => {
           const filtered = prev.filter((e) => {
             if (e.type === "medication") {
@@ -933,6 +783,9 @@ export default function CalendarPage() {
         );
       }
       toast.success("Deleted events");
+      setMedications((prev) =>
+        prev.filter((m) => !medicationIdsToDelete.has(m.id)),
+      );
       setEvents((prev) =>
         prev.filter((evt) => {
           if (evt.type === "appointment") {
@@ -958,10 +811,23 @@ export default function CalendarPage() {
   }
 
   /**
-   * Export the entire calendar as an ICS file
+   * Export the entire calendar as an ICS file. Recurring medications are exported as a
+   * single recurring event rather than only the doses shown on the calendar
    */
   async function handleExportCalendar() {
-    const icsString = generateIcs(events);
+    if (!userId) return;
+    let icsString: string;
+    try {
+      const [meds, appts] = await Promise.all([
+        getMedicationRemindersByUser(userId),
+        getAppointmentRemindersByUser(userId),
+      ]);
+      icsString = generateIcs({ medications: meds, appointments: appts });
+    } catch (error) {
+      console.error("Error exporting calendar", error);
+      toast.error("Error exporting calendar");
+      return;
+    }
     const blob = new Blob([icsString], { type: "text/calendar;charset=utf-8" });
     const url = URL.createObjectURL(blob);
     const a = document.createElement("a");
@@ -1102,6 +968,7 @@ export default function CalendarPage() {
             onSelectEvent={handleSelectEvent}
             onSelectSlot={handleSelectSlot}
             onShowMore={handleShowMore}
+            onRangeChange={handleRangeChange}
             eventPropGetter={eventPropGetter}
             dayPropGetter={dayPropGetter}
           />
@@ -1208,7 +1075,8 @@ export default function CalendarPage() {
                     &quot;Export…&quot; to save your calendar as an ICS file.
                   </span>
                   <br />
-                  Only events occurring within the past year will be imported.
+                  Importing a file exported from SymptomSync updates the events
+                  it contains instead of adding them again.
                 </p>
                 <Input
                   type="file"
@@ -1380,21 +1248,10 @@ export default function CalendarPage() {
                     Recurrence
                     <span className="ml-0 text-red-500">*</span>
                   </Label>
-                  <Select
-                    value={newMedRecurrence ?? undefined}
-                    onValueChange={setNewMedRecurrence}
-                  >
-                    <SelectTrigger className="w-full border border-input rounded px-2 py-1">
-                      <SelectValue placeholder="Select recurrence" />
-                    </SelectTrigger>
-                    <SelectContent>
-                      <SelectItem value="as-needed">As Needed</SelectItem>
-                      <SelectItem value="Daily">Daily</SelectItem>
-                      <SelectItem value="Weekly">Weekly</SelectItem>
-                      <SelectItem value="Biweekly">Biweekly</SelectItem>
-                      <SelectItem value="Monthly">Monthly</SelectItem>
-                    </SelectContent>
-                  </Select>
+                  <RecurrenceEditor
+                    value={newMedRecurrence}
+                    onChange={setNewMedRecurrence}
+                  />
                 </div>
               </div>
             )}
@@ -1508,21 +1365,10 @@ export default function CalendarPage() {
 
                     <div className="space-y-2">
                       <Label>Recurrence</Label>
-                      <Select
+                      <RecurrenceEditor
                         value={editMedRecurrence}
-                        onValueChange={setEditMedRecurrence}
-                      >
-                        <SelectTrigger className="w-full border border-input rounded px-2 py-1">
-                          <SelectValue placeholder="Select recurrence" />
-                        </SelectTrigger>
-                        <SelectContent>
-                          <SelectItem value="as-needed">As Needed</SelectItem>
-                          <SelectItem value="Daily">Daily</SelectItem>
-                          <SelectItem value="Weekly">Weekly</SelectItem>
-                          <SelectItem value="Biweekly">Biweekly</SelectItem>
-                          <SelectItem value="Monthly">Monthly</SelectItem>
-                        </SelectContent>
-                      </Select>
+                        onChange={setEditMedRecurrence}
+                      />
                     </div>
                   </>
                 )}
@@ -1593,4 +1439,4 @@ export default function CalendarPage() {
       </motion.div>
     </>
   );
-}
\ No newline at end of file
+}
@@ -1,58 +1,76 @@
-import React, { useState, useEffect, useRef } from "react";
+import React, { useState, useEffect, useRef, useCallback } from "react";
 import { supabase } from "@/lib/supabaseClient";
 import { useRouter } from "next/router";
 import Head from "next/head";
 import { motion, AnimatePresence } from "framer-motion";
-import { chatWithHealthAI } from "@/lib/aiChat";
+import { ChatStreamInterruptedError, streamChatReply } from "@/lib/chatApi";
 import ReactMarkdown from "react-markdown";
 import remarkGfm from "remark-gfm";
-import { Loader2, Send, Trash2 } from "lucide-react";
+import {
+  Check,
+  Loader2,
+  MessageSquare,
+  Pencil,
+  Plus,
+  Send,
+  Square,
+  Trash2,
+  X,
+} from "lucide-react";
+import { useUserRealtime } from "@/components/UserRealtimeProvider";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Card } from "@/components/ui/card";
 import {
-  getMedicationRemindersByUser,
-  createMedicationReminder,
-  updateMedicationReminder,
-  deleteMedicationReminder,
-} from "@/lib/medications";
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { getMedicationRemindersByUser } from "@/lib/medications";
+import { getAppointmentRemindersByUser } from "@/lib/appointmentReminders";
+import { getHealthLogsByUser } from "@/lib/healthLogs";
 import {
-  getAppointmentRemindersByUser,
-  createAppointmentReminder,
-  updateAppointmentReminder,
-  deleteAppointmentReminder,
-} from "@/lib/appointmentReminders";
+  ACTION_ENTITY_LABELS,
+  ChatAction,
+  ChatActionRecords,
+  applyChatAction,
+  describeChatAction,
+  extractChatAction,
+} from "@/lib/chatActions";
 import {
-  getHealthLogsByUser,
-  createHealthLog,
-  updateHealthLog,
-  deleteHealthLog,
-} from "@/lib/healthLogs";
-import { getCurrentProfile } from "@/lib/profile";
-import { fetchUserFiles } from "@/lib/files";
+  ChatMessageRecord,
+  ChatThread,
+  addChatMessages,
+  createChatThread,
+  deleteChatThread,
+  getChatMessagesByThread,
+  getChatThreadsByUser,
+  importChatHistory,
+  renameChatThread,
+  updateChatMessageActionStatus,
+} from "@/lib/chatThreads";
 import { toast } from "sonner";
 
 type Role = "user" | "model";
 
+type ActionStatus = "applied" | "dismissed";
+
 type ChatMessage = {
+  // Set once the message has been saved to its chat thread
+  id?: string;
   role: Role;
   text: string;
+  actionStatus?: ActionStatus;
+  // When the message was sent; relative dates in a suggested action are resolved against it
+  sentAt: string;
 };
 
-type ActionEntity = "appointment" | "medication" | "health_log";
-type ActionIntent = "create" | "update" | "delete";
-type ActionPayload = {
-  entity: ActionEntity;
-  intent: ActionIntent;
-  // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  data: Record<string, any>;
-};
-
-type FileSummary = {
-  filename?: string | null;
-  file_type?: string | null;
-  tags?: string[] | null;
-};
+// Added to the end of a reply the model stopped partway through
+const INTERRUPTED_REPLY_NOTE =
+  "\n\n*The reply was interrupted and may be incomplete.*";
 
 const containerVariants = {
   hidden: { opacity: 0 },
@@ -216,6 +234,220 @@ const markdownComponents = {
   ),
 };
 
+/**
+ * Confirmation card for an action suggested by the assistant. Shows what will
+ * change and lets the user apply or dismiss it.
+ */
+function ActionConfirmCard({
+  action,
+  records,
+  status,
+  applying,
+  onApply,
+  onDismiss,
+}: {
+  action: ChatAction;
+  records: ChatActionRecords;
+  status?: ActionStatus;
+  applying: boolean;
+  onApply: () => void;
+  onDismiss: () => void;
+}) {
+  const rows = describeChatAction(action, records);
+  const intentLabel =
+    action.intent.charAt(0).toUpperCase() + action.intent.slice(1);
+
+  return (
+    <div className="my-2 rounded-md border border-border bg-background p-3 text-foreground">
+      <p className="text-sm font-semibold mb-2">
+        {intentLabel} {ACTION_ENTITY_LABELS[action.entity]}
+      </p>
+      <table className="w-full text-xs mb-3">
+        <tbody>
+          {rows.map((row) => (
+            <tr key={row.field} className="border-b last:border-0">
+              <td className="py-1 pr-2 font-medium">
+                {row.field.replace(/_/g, " ")}
+              </td>
+              <td className="py-1 pr-2 text-muted-foreground line-through">
+                {action.intent === "create" ? "" : (row.before ?? "—")}
+              </td>
+              <td className="py-1">
+                {action.intent === "delete" ? "" : (row.after ?? "—")}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      {status === "applied" ? (
+        <p className="text-xs text-muted-foreground">Applied ✅</p>
+      ) : status === "dismissed" ? (
+        <p className="text-xs text-muted-foreground">Dismissed</p>
+      ) : (
+        <div className="flex gap-2 justify-end">
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={onDismiss}
+            disabled={applying}
+            className="cursor-pointer"
+          >
+            <X className="w-4 h-4" /> Dismiss
+          </Button>
+          <Button
+            size="sm"
+            variant={action.intent === "delete" ? "destructive" : "default"}
+            onClick={onApply}
+            disabled={applying}
+            className="cursor-pointer"
+          >
+            {applying ? (
+              <Loader2 className="w-4 h-4 animate-spin" />
+            ) : (
+              <Check className="w-4 h-4" />
+            )}
+            Apply
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
+
+const DEFAULT_THREAD_TITLE = "New chat";
+
+/**
+ * Turns the first message of a conversation into a short thread title
+ */
+const titleFromMessage = (text: string) => {
+  const singleLine = text.replace(/\s+/g, " ").trim();
+  return singleLine.length > 40
+    ? `${singleLine.slice(0, 40).trimEnd()}…`
+    : singleLine || DEFAULT_THREAD_TITLE;
+};
+
+const toChatMessage = (record: ChatMessageRecord): ChatMessage => ({
+  id: record.id,
+  role: record.role,
+  text: record.text,
+  actionStatus: record.action_status ?? undefined,
+  sentAt: record.created_at,
+});
+
+/**
+ * Sidebar listing the user's chat threads, with buttons to start, rename and delete threads
+ */
+function ThreadSidebar({
+  threads,
+  activeThreadId,
+  disabled,
+  onSelect,
+  onNew,
+  onRename,
+  onDelete,
+}: {
+  threads: ChatThread[];
+  activeThreadId: string | null;
+  disabled: boolean;
+  onSelect: (id: string) => void;
+  onNew: () => void;
+  onRename: (id: string, title: string) => void;
+  onDelete: (id: string) => void;
+}) {
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [renameText, setRenameText] = useState("");
+
+  const submitRename = () => {
+    if (renamingId && renameText.trim()) {
+      onRename(renamingId, renameText.trim());
+    }
+    setRenamingId(null);
+  };
+
+  return (
+    <Card className="p-3 w-full md:w-64 shrink-0 flex flex-col max-h-48 md:max-h-none md:h-[70vh] rounded-xl shadow-2xl gap-2">
+      <Button
+        variant="outline"
+        className="flex items-center gap-2 cursor-pointer"
+        onClick={onNew}
+        disabled={disabled}
+      >
+        <Plus className="w-4 h-4" />
+        New Chat
+      </Button>
+      <div className="flex-1 overflow-y-auto space-y-1">
+        {threads.length === 0 && (
+          <p className="text-xs text-muted-foreground text-center mt-4">
+            No conversations yet.
+          </p>
+        )}
+        {threads.map((thread) =>
+          renamingId === thread.id ? (
+            <Input
+              key={thread.id}
+              autoFocus
+              value={renameText}
+              onChange={(e) => setRenameText(e.target.value)}
+              onBlur={submitRename}
+              onKeyDown={(e) => {
+                if (e.key === "Enter") {
+                  e.preventDefault();
+                  submitRename();
+                } else if (e.key === "Escape") {
+                  setRenamingId(null);
+                }
+              }}
+              className="h-8 text-sm"
+            />
+          ) : (
+            <div
+              key={thread.id}
+              className={`group flex items-center gap-1 rounded-md px-2 py-1 text-sm ${
+                thread.id === activeThreadId
+                  ? "bg-muted font-medium"
+                  : "hover:bg-muted/60"
+              }`}
+            >
+              <button
+                type="button"
+                className="flex flex-1 items-center gap-2 truncate text-left cursor-pointer disabled:cursor-not-allowed"
+                onClick={() => onSelect(thread.id)}
+                disabled={disabled}
+                title={thread.title}
+              >
+                <MessageSquare className="w-3.5 h-3.5 shrink-0" />
+                <span className="truncate">{thread.title}</span>
+              </button>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-6 w-6 cursor-pointer"
+                onClick={() => {
+                  setRenamingId(thread.id);
+                  setRenameText(thread.title);
+                }}
+                aria-label="Rename conversation"
+              >
+                <Pencil className="w-3 h-3" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-6 w-6 cursor-pointer"
+                onClick={() => onDelete(thread.id)}
+                disabled={disabled}
+                aria-label="Delete conversation"
+              >
+                <Trash2 className="w-3 h-3" />
+              </Button>
+            </div>
+          ),
+        )}
+      </div>
+    </Card>
+  );
+}
+
 // ClientOnly
 const ClientOnly: React.FC<{ children: React.ReactNode }> = ({ children }) => {
   const [mounted, setMounted] = useState(false);
@@ -231,16 +463,17 @@ export default function AIChatPage() {
   const [userId, setUserId] = useState<string | null>(null);
   const [userInput, setUserInput] = useState("");
   const [loading, setLoading] = useState(false);
-  const [pendingAction, setPendingAction] = useState<ActionPayload | null>(
-    null,
-  );
   const [applyingAction, setApplyingAction] = useState(false);
   const [aiError, setAiError] = useState<string | null>(null);
   const hasSentMessageRef = useRef(false);
   const scrollRef = useRef<HTMLDivElement>(null);
   const router = useRouter();
-  // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  const broadcastChannelRef = useRef<any>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+  const importingHistoryRef = useRef(false);
+
+  const [threads, setThreads] = useState<ChatThread[]>([]);
+  const [activeThreadId, setActiveThreadId] = useState<string | null>(null);
+  const [deleteThreadId, setDeleteThreadId] = useState<string | null>(null);
 
   const [latestMeds, setLatestMeds] = useState<
     Awaited<ReturnType<typeof getMedicationRemindersByUser>>
@@ -266,199 +499,363 @@ export default function AIChatPage() {
     checkUserAuth();
   }, [router]);
 
-  useEffect(() => {
+  /**
+   * Loads the records that suggested actions are previewed and applied against
+   */
+  const loadActionRecords = useCallback(async () => {
     if (!userId) return;
-    const stored = localStorage.getItem(`symptomSyncChat-${userId}`);
-    if (stored) {
+    try {
+      const [meds, appts, logs] = await Promise.all([
+        getMedicationRemindersByUser(userId),
+        getAppointmentRemindersByUser(userId),
+        getHealthLogsByUser(userId),
+      ]);
+      setLatestMeds(meds);
+      setLatestAppts(appts);
+      setLatestLogs(logs);
+    } catch (err) {
+      console.error("Error loading records for suggested actions:", err);
+    }
+  }, [userId]);
+
+  /**
+   * Shows the messages of the given chat thread, with the records its suggested actions
+   * refer to
+   */
+  const openThread = useCallback(
+    async (threadId: string) => {
+      setActiveThreadId(threadId);
+      setAiError(null);
+      hasSentMessageRef.current = false;
+      loadActionRecords();
       try {
-        setMessages(JSON.parse(stored));
-      } catch {
+        const records = await getChatMessagesByThread(threadId);
+        setMessages(records.map(toChatMessage));
+      } catch (err) {
+        console.error("Error loading conversation:", err);
+        toast.error("Error loading the conversation.");
         setMessages([]);
       }
-    } else {
-      setMessages([]);
-    }
-  }, [userId]);
+    },
+    [loadActionRecords],
+  );
 
   useEffect(() => {
     if (!userId) return;
-    localStorage.setItem(`symptomSyncChat-${userId}`, JSON.stringify(messages));
-    if (hasSentMessageRef.current) {
-      scrollRef.current?.scrollIntoView({ behavior: "smooth" });
-    }
-  }, [messages, userId]);
+    const currentUserId = userId;
 
-  useEffect(() => {
-    async function subscribeToUserChannel() {
-      const {
-        data: { user },
-      } = await supabase.auth.getUser();
+    /**
+     * Conversations used to be kept only in localStorage; move any that is left there
+     * into its own thread the first time the user opens the chat
+     */
+    async function importLocalHistory() {
+      const storageKey = `symptomSyncChat-${currentUserId}`;
+      const stored = localStorage.getItem(storageKey);
+      if (!stored || importingHistoryRef.current) return;
+      importingHistoryRef.current = true;
 
-      if (!user) {
-        router.push("/auth/login");
+      let parsed: unknown;
+      try {
+        parsed = JSON.parse(stored);
+      } catch {
+        localStorage.removeItem(storageKey);
         return;
       }
 
-      const userChannelName = `user-channel-${user.id}`;
-      broadcastChannelRef.current = supabase.channel(userChannelName, {
-        config: { broadcast: { self: false } },
-      });
-      const channel = broadcastChannelRef.current;
+      const localMessages = (Array.isArray(parsed) ? parsed : []).filter(
+        (m): m is ChatMessage =>
+          (m?.role === "user" || m?.role === "model") &&
+          typeof m.text === "string" &&
+          m.text.length > 0,
+      );
 
-      channel
-        // eslint-disable-next-line @typescript-eslint/no-explicit-any
-        .on("broadcast", { event: "*" }, (payload: any) => {
-          toast.success(
-            `Notification: ${payload.payload.message.replace(/\./g, "")} from another device or tab.`,
-          );
-        })
-        .subscribe((status: string) => {
-          console.log("User-specific channel status:", status);
-        });
+      try {
+        if (localMessages.length > 0) {
+          await importChatHistory(currentUserId, localMessages);
+        }
+        localStorage.removeItem(storageKey);
+      } catch (err) {
+        // Leave the history in localStorage so we can try again next time
+        console.error("Error moving the saved conversation:", err);
+        importingHistoryRef.current = false;
+      }
+    }
+
+    async function loadThreads() {
+      await importLocalHistory();
+      try {
+        const loaded = await getChatThreadsByUser(currentUserId);
+        setThreads(loaded);
+        if (loaded.length > 0) {
+          await openThread(loaded[0].id);
+        } else {
+          await loadActionRecords();
+        }
+      } catch (err) {
+        console.error("Error loading conversations:", err);
+        toast.error("Error loading your conversations.");
+      }
+    }
+
+    loadThreads();
+  }, [userId, openThread, loadActionRecords]);
 
-      return () => {
-        supabase.removeChannel(channel);
-        broadcastChannelRef.current = null;
-      };
+  useEffect(() => {
+    if (hasSentMessageRef.current) {
+      scrollRef.current?.scrollIntoView({ behavior: "smooth" });
     }
+  }, [messages]);
 
-    subscribeToUserChannel();
-  }, [router]);
+  // Tells the user's other devices and tabs about changes made from the chat
+  const { broadcast: sendBroadcast } = useUserRealtime();
+
+  /**
+   * Moves a thread to the top of the sidebar after it was used
+   */
+  const bumpThread = (thread: ChatThread) => {
+    setThreads((prev) => [
+      { ...thread, updated_at: new Date().toISOString() },
+      ...prev.filter((t) => t.id !== thread.id),
+    ]);
+  };
 
   async function handleSend() {
     if (!userInput.trim() || loading) return;
     setLoading(true);
 
+    const sentText = userInput;
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    // The reply is streamed into an empty model message right after the user's message
+    const userIndex = messages.length;
+    const replyIndex = messages.length + 1;
+    let replyText = "";
+    let thread: ChatThread | null = null;
+    let currentUserId: string | null = null;
+
     try {
       const {
         data: { user },
       } = await supabase.auth.getUser();
       if (!user) throw new Error("User not logged in");
+      currentUserId = user.id;
 
-      // ✅ FIX HERE: fetchUserFiles returns { data, count }
-      const [meds, appts, logs, profile, filesRes] = await Promise.all([
-        getMedicationRemindersByUser(user.id),
-        getAppointmentRemindersByUser(user.id),
-        getHealthLogsByUser(user.id),
-        getCurrentProfile(),
-        fetchUserFiles(user.id, 1),
+      const history = messages.map((m) => ({ role: m.role, text: m.text }));
+      const sentAt = new Date().toISOString();
+      setMessages([
+        ...messages,
+        { role: "user", text: sentText, sentAt },
+        { role: "model", text: "", sentAt },
       ]);
+      setUserInput("");
+      hasSentMessageRef.current = true;
 
-      const files = filesRes?.data ?? [];
-
-      setLatestMeds(meds);
-      setLatestAppts(appts);
-      setLatestLogs(logs);
-
-      let userDataSummary = `Appointments:\n`;
-      if (appts.length === 0) {
-        userDataSummary += `- None\n`;
-      } else {
-        appts.forEach((a) => {
-          const dateString = new Date(a.date).toLocaleString();
-          userDataSummary += `- ${a.appointment_name} on ${dateString}\n`;
+      thread = threads.find((t) => t.id === activeThreadId) ?? null;
+      if (!thread) {
+        thread = await createChatThread({
+          user_profile_id: user.id,
+          title: titleFromMessage(sentText),
         });
+        setActiveThreadId(thread.id);
       }
+      bumpThread(thread);
 
-      userDataSummary += `\nMedications:\n`;
-      if (meds.length === 0) {
-        userDataSummary += `- None\n`;
-      } else {
-        meds.forEach((m) => {
-          userDataSummary += `- ${m.medication_name}, dosage: ${
-            m.dosage ?? "N/A"
-          }, next time: ${new Date(m.reminder_time).toLocaleString()}, recurrence: ${
-            m.recurrence ?? "N/A"
-          }\n`;
-        });
-      }
+      const [userRecord] = await addChatMessages(thread.id, user.id, [
+        { role: "user", text: sentText },
+      ]);
+      setMessages((prev) =>
+        prev.map((m, i) => (i === userIndex ? { ...m, id: userRecord.id } : m)),
+      );
 
-      userDataSummary += `\nRecent Health Logs:\n`;
-      if (logs.length === 0) {
-        userDataSummary += `- None\n`;
-      } else {
-        const recent = logs.slice(-3);
-        recent.forEach((l) => {
-          userDataSummary += `- Symptom: ${l.symptom_type ?? "N/A"}, severity: ${
-            l.severity ?? 0
-          }, start: ${new Date(l.start_date).toLocaleString()}\n`;
-        });
-      }
+      await streamChatReply(
+        history,
+        sentText,
+        (textSoFar) => {
+          replyText = textSoFar;
+          setMessages((prev) =>
+            prev.map((m, i) =>
+              i === replyIndex ? { ...m, text: textSoFar } : m,
+            ),
+          );
+        },
+        controller.signal,
+      );
 
-      userDataSummary += `\nProfile:\n`;
-      if (profile) {
-        userDataSummary += `- Name: ${profile.full_name ?? "N/A"}\n`;
-        userDataSummary += `- Conditions: ${
-          profile.condition_tags?.join(", ") || "None"
-        }\n`;
-      } else {
-        userDataSummary += `- No profile found.\n`;
+      // Picks up changes made elsewhere before any suggested action is previewed; the
+      // assistant's own context is built by the API route
+      loadActionRecords();
+
+      setAiError(null);
+    } catch (err) {
+      // Drop the empty reply bubble if nothing came back, but keep any partial text
+      if (!replyText) {
+        setMessages((prev) => prev.filter((_, i) => i !== replyIndex));
       }
 
-      // ✅ FIX HERE: files is already an array
-      const docSummaries = (files as FileSummary[]).slice(0, 5);
-      userDataSummary += `\nRecent Documents:\n`;
-      if (docSummaries.length === 0) {
-        userDataSummary += `- None\n`;
+      if (controller.signal.aborted) {
+        setAiError(null);
+      } else if (err instanceof ChatStreamInterruptedError && replyText) {
+        // Mark the partial reply so it isn't mistaken for a complete answer, here and once saved
+        console.error(err);
+        replyText += INTERRUPTED_REPLY_NOTE;
+        const interruptedText = replyText;
+        setMessages((prev) =>
+          prev.map((m, i) =>
+            i === replyIndex ? { ...m, text: interruptedText } : m,
+          ),
+        );
+        setAiError(null);
+        toast.error("The reply was interrupted. Please try again.");
       } else {
-        docSummaries.forEach((f) => {
-          const filename = f.filename ?? "unknown";
-          const fileType = f.file_type ?? "unknown";
-          const tags =
-            Array.isArray(f.tags) && f.tags.length > 0
-              ? f.tags.join(", ")
-              : "no tags";
-          userDataSummary += `- ${filename} (${fileType}, ${tags})\n`;
-        });
+        console.error(err);
+        if (!replyText && !thread) setUserInput(sentText);
+        let friendly = "AI is unavailable. Please try again soon.";
+        if (err instanceof Error) {
+          if (err.message.includes("429")) {
+            friendly =
+              "AI hit a rate limit. Please retry in a few seconds or check quota.";
+          } else {
+            friendly = err.message;
+          }
+        }
+        setAiError(friendly);
+        toast.error(friendly);
       }
+    } finally {
+      abortControllerRef.current = null;
+      setLoading(false);
+    }
 
-      const newUserMessage: ChatMessage = { role: "user", text: userInput };
-      const updatedMessages = [...messages, newUserMessage];
-      setMessages(updatedMessages);
-      hasSentMessageRef.current = true;
+    // Save the reply, including a partial one if the user pressed Stop
+    if (thread && currentUserId && replyText) {
+      try {
+        const [replyRecord] = await addChatMessages(thread.id, currentUserId, [
+          { role: "model", text: replyText },
+        ]);
+        setMessages((prev) =>
+          prev.map((m, i) =>
+            i === replyIndex
+              ? { ...m, id: replyRecord.id, sentAt: replyRecord.created_at }
+              : m,
+          ),
+        );
+      } catch (err) {
+        console.error("Error saving the reply:", err);
+        toast.error("The reply could not be saved to this conversation.");
+      }
+    }
+  }
 
-      const newHistory = updatedMessages.map((m) => ({
-        role: m.role,
-        parts: [{ text: m.text }],
-      }));
+  /**
+   * Stops the response that is currently streaming in, keeping what has arrived so far
+   */
+  const handleStop = () => {
+    abortControllerRef.current?.abort();
+  };
 
-      const aiResponse = await chatWithHealthAI(
-        newHistory,
-        userInput,
-        undefined,
-        userDataSummary,
+  /**
+   * Marks the action in a model message as applied or dismissed, and saves that to its thread
+   *
+   * @param idx - The index of the model message containing the action
+   * @param status - The new action status
+   */
+  const setActionStatus = (idx: number, status: ActionStatus) => {
+    const id = messages[idx]?.id;
+    setMessages((prev) =>
+      prev.map((m, i) => (i === idx ? { ...m, actionStatus: status } : m)),
+    );
+    if (id) {
+      updateChatMessageActionStatus(id, status).catch((err) =>
+        console.error("Error saving the action status:", err),
       );
+    }
+  };
 
-      setAiError(null);
+  /**
+   * Applies the action suggested in a model message after the user confirms it,
+   * then broadcasts the change to the user's other devices and tabs
+   *
+   * @param idx - The index of the model message containing the action
+   * @param action - The validated action to apply
+   */
+  async function handleApplyAction(idx: number, action: ChatAction) {
+    if (!userId || applyingAction) return;
+    setApplyingAction(true);
+    try {
+      const { event, message } = await applyChatAction(action, userId, {
+        medications: latestMeds,
+        appointments: latestAppts,
+        logs: latestLogs,
+      });
 
-      setMessages((prev) => [...prev, { role: "model", text: aiResponse }]);
-      setUserInput("");
+      sendBroadcast(event, message);
+      setActionStatus(idx, "applied");
+      toast.success(message);
+      await loadActionRecords();
     } catch (err) {
-      console.error(err);
-      let friendly = "AI is unavailable. Please try again soon.";
-      if (err instanceof Error) {
-        if (err.message.includes("429")) {
-          friendly =
-            "AI hit a rate limit. Please retry in a few seconds or check quota.";
-        } else {
-          friendly = err.message;
-        }
-      }
-      setAiError(friendly);
-      toast.error(friendly);
+      console.error("Error applying action:", err);
+      toast.error(
+        err instanceof Error ? err.message : "Error applying the change.",
+      );
     } finally {
-      setLoading(false);
+      setApplyingAction(false);
     }
   }
 
-  const handleClear = () => {
+  const handleDismissAction = (idx: number) => {
+    setActionStatus(idx, "dismissed");
+  };
+
+  /**
+   * Starts a new conversation. The thread itself is created when the first message is sent.
+   */
+  const handleNewThread = () => {
+    setActiveThreadId(null);
     setMessages([]);
-    if (userId) {
-      localStorage.removeItem(`symptomSyncChat-${userId}`);
-    }
+    setAiError(null);
     hasSentMessageRef.current = false;
   };
 
+  /**
+   * Renames a chat thread
+   *
+   * @param id - The id of the chat thread
+   * @param title - The new title
+   */
+  async function handleRenameThread(id: string, title: string) {
+    try {
+      const updated = await renameChatThread(id, title);
+      setThreads((prev) => prev.map((t) => (t.id === id ? updated : t)));
+    } catch (err) {
+      console.error("Error renaming conversation:", err);
+      toast.error("Error renaming the conversation.");
+    }
+  }
+
+  /**
+   * Deletes a chat thread and its messages, then opens the next most recent thread
+   *
+   * @param id - The id of the chat thread
+   */
+  async function handleDeleteThread(id: string) {
+    try {
+      await deleteChatThread(id);
+      const remaining = threads.filter((t) => t.id !== id);
+      setThreads(remaining);
+      toast.success("Conversation deleted.");
+      if (id === activeThreadId) {
+        if (remaining.length > 0) {
+          await openThread(remaining[0].id);
+        } else {
+          handleNewThread();
+        }
+      }
+    } catch (err) {
+      console.error("Error deleting conversation:", err);
+      toast.error("Error deleting the conversation.");
+    }
+  }
+
   const AnimatedDots: React.FC = () => {
     const [dots, setDots] = useState("");
 
@@ -506,7 +903,7 @@ export default function AIChatPage() {
             }
           `}</style>
 
-          <div className="max-w-4xl mx-auto space-y-6 pt-2">
+          <div className="max-w-6xl mx-auto space-y-6 pt-2">
             <div className="flex flex-col md:flex-row justify-between items-center mb-6">
               <motion.div
                 variants={containerVariants}
@@ -529,21 +926,23 @@ export default function AIChatPage() {
               </motion.div>
             </div>
 
-            {messages.length > 0 && (
-              <div className="flex justify-end">
-                <Button
-                  variant="outline"
-                  className="flex items-center gap-2 hover:scale-102 transition-transform cursor-pointer"
-                  onClick={handleClear}
-                >
-                  <Trash2 className="w-4 h-4" />
-                  Clear Conversation
-                </Button>
-              </div>
-            )}
+            <motion.div
+              variants={cardVariants}
+              initial="hidden"
+              animate="visible"
+              className="flex flex-col md:flex-row gap-4"
+            >
+              <ThreadSidebar
+                threads={threads}
+                activeThreadId={activeThreadId}
+                disabled={loading}
+                onSelect={openThread}
+                onNew={handleNewThread}
+                onRename={handleRenameThread}
+                onDelete={setDeleteThreadId}
+              />
 
-            <motion.div variants={cardVariants} initial="hidden" animate="visible">
-              <Card className="p-4 sm:p-6 flex flex-col h-[70vh] rounded-xl shadow-2xl">
+              <Card className="p-4 sm:p-6 flex flex-1 min-w-0 flex-col h-[70vh] rounded-xl shadow-2xl">
                 <div className="flex-1 overflow-y-auto mb-4">
                   {messages.length === 0 && !loading && (
                     <div className="text-center text-gray-500 my-8">
@@ -552,19 +951,22 @@ export default function AIChatPage() {
                   )}
 
                   <AnimatePresence initial={false}>
-                    {messages.map((msg, idx) => (
-                      <motion.div
-                        key={idx}
-                        variants={bubbleVariants}
-                        initial="hidden"
-                        animate="visible"
-                        exit={{ opacity: 0, y: -10 }}
-                        className={`mb-2 flex ${
-                          msg.role === "user" ? "justify-end" : "justify-start"
-                        }`}
-                      >
-                        <div
-                          className={`
+                    {messages.map((msg, idx) =>
+                      msg.role === "model" && !msg.text ? null : (
+                        <motion.div
+                          key={idx}
+                          variants={bubbleVariants}
+                          initial="hidden"
+                          animate="visible"
+                          exit={{ opacity: 0, y: -10 }}
+                          className={`mb-2 flex ${
+                            msg.role === "user"
+                              ? "justify-end"
+                              : "justify-start"
+                          }`}
+                        >
+                          <div
+                            className={`
                             rounded-lg p-2 pb-0 shadow 
                             ${
                               msg.role === "user"
@@ -574,19 +976,65 @@ export default function AIChatPage() {
                             max-w-xs sm:max-w-sm md:max-w-md lg:max-w-lg
                             overflow-x-auto hover:shadow-lg transition-shadow duration-300
                           `}
-                        >
-                          <ReactMarkdown
-                            remarkPlugins={[remarkGfm]}
-                            components={markdownComponents}
                           >
-                            {msg.text}
-                          </ReactMarkdown>
-                        </div>
-                      </motion.div>
-                    ))}
+                            {(() => {
+                              if (msg.role === "user") {
+                                return (
+                                  <ReactMarkdown
+                                    remarkPlugins={[remarkGfm]}
+                                    components={markdownComponents}
+                                  >
+                                    {msg.text}
+                                  </ReactMarkdown>
+                                );
+                              }
+                              const { content, action, error } =
+                                extractChatAction(
+                                  msg.text,
+                                  new Date(msg.sentAt),
+                                );
+                              return (
+                                <>
+                                  <ReactMarkdown
+                                    remarkPlugins={[remarkGfm]}
+                                    components={markdownComponents}
+                                  >
+                                    {content}
+                                  </ReactMarkdown>
+                                  {action && (
+                                    <ActionConfirmCard
+                                      action={action}
+                                      records={{
+                                        medications: latestMeds,
+                                        appointments: latestAppts,
+                                        logs: latestLogs,
+                                      }}
+                                      status={msg.actionStatus}
+                                      applying={
+                                        applyingAction ||
+                                        (loading && idx === messages.length - 1)
+                                      }
+                                      onApply={() =>
+                                        handleApplyAction(idx, action)
+                                      }
+                                      onDismiss={() => handleDismissAction(idx)}
+                                    />
+                                  )}
+                                  {error && (
+                                    <p className="text-xs text-destructive mb-2">
+                                      {error}
+                                    </p>
+                                  )}
+                                </>
+                              );
+                            })()}
+                          </div>
+                        </motion.div>
+                      ),
+                    )}
                   </AnimatePresence>
 
-                  {loading && (
+                  {loading && !messages[messages.length - 1]?.text && (
                     <motion.div
                       variants={bubbleVariants}
                       initial="hidden"
@@ -629,22 +1077,64 @@ export default function AIChatPage() {
                       }
                     }}
                   />
-                  <Button
-                    onClick={handleSend}
-                    disabled={loading}
-                    className="flex items-center gap-1 hover:scale-105 transition-transform cursor-pointer"
-                  >
-                    {loading ? (
-                      <Loader2 className="h-4 w-4 animate-spin" />
-                    ) : (
+                  {loading ? (
+                    <Button
+                      variant="outline"
+                      onClick={handleStop}
+                      className="flex items-center gap-1 hover:scale-105 transition-transform cursor-pointer"
+                    >
+                      <Square className="h-4 w-4" />
+                      Stop
+                    </Button>
+                  ) : (
+                    <Button
+                      onClick={handleSend}
+                      className="flex items-center gap-1 hover:scale-105 transition-transform cursor-pointer"
+                    >
                       <Send className="h-4 w-4" />
-                    )}
-                    Send
-                  </Button>
+                      Send
+                    </Button>
+                  )}
                 </div>
               </Card>
             </motion.div>
           </div>
+
+          <Dialog
+            open={deleteThreadId !== null}
+            onOpenChange={(open) => !open && setDeleteThreadId(null)}
+          >
+            <DialogContent className="max-w-sm w-full">
+              <DialogHeader>
+                <DialogTitle>Confirm Delete Conversation</DialogTitle>
+                <DialogDescription>
+                  Are you sure you want to delete this conversation? All of its
+                  messages will be removed.
+                </DialogDescription>
+              </DialogHeader>
+              <DialogFooter>
+                <Button
+                  variant="secondary"
+                  className="cursor-pointer"
+                  onClick={() => setDeleteThreadId(null)}
+                >
+                  Cancel
+                </Button>
+                <Button
+                  variant="destructive"
+                  className="cursor-pointer"
+                  onClick={() => {
+                    if (deleteThreadId) {
+                      handleDeleteThread(deleteThreadId);
+                    }
+                    setDeleteThreadId(null);
+                  }}
+                >
+                  Yes, Delete
+                </Button>
+              </DialogFooter>
+            </DialogContent>
+          </Dialog>
         </motion.div>
       </ClientOnly>
     </>
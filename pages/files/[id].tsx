@@ -1,10 +1,10 @@
 "use client";
 
-import { useEffect, useRef } from "react";
-import { supabase } from "@/lib/supabaseClient";
+import { useEffect } from "react";
 import { useRouter } from "next/router";
-import { useQuery } from "@tanstack/react-query";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
 import { fetchFileDetails, FileRow } from "@/lib/fileDetails";
+import { useUserRealtime } from "@/components/UserRealtimeProvider";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
 import { Loader2, Tag, ChevronLeft } from "lucide-react";
@@ -14,8 +14,7 @@ import Head from "next/head";
 export default function FileViewPage() {
   const router = useRouter();
   const { id } = router.query;
-  // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  const broadcastChannelRef = useRef<any>(null);
+  const queryClient = useQueryClient();
 
   /**
    * Using React Query to fetch file details and handle loading and error states.
@@ -59,42 +58,19 @@ export default function FileViewPage() {
     if (error) toast.error(error.message);
   }, [error]);
 
-  useEffect(() => {
-    async function subscribeToUserChannel() {
-      const {
-        data: { user },
-      } = await supabase.auth.getUser();
-
-      if (!user) {
-        router.push("/auth/login");
-        return;
-      }
-
-      const userChannelName = `user-channel-${user.id}`;
-      broadcastChannelRef.current = supabase.channel(userChannelName, {
-        config: { broadcast: { self: false } },
-      });
-      const channel = broadcastChannelRef.current;
-
-      channel
-        // eslint-disable-next-line @typescript-eslint/no-explicit-any
-        .on("broadcast", { event: "*" }, (payload: any) => {
-          toast.success(
-            `Notification: ${payload.payload.message.replace(/\./g, "")} from another device or tab.`,
-          );
-        })
-        .subscribe((status: string) => {
-          console.log("User-specific channel status:", status);
-        });
-
-      return () => {
-        supabase.removeChannel(channel);
-        broadcastChannelRef.current = null;
-      };
-    }
-
-    subscribeToUserChannel();
-  }, [router]);
+  /**
+   * Supabase Realtime: shows edits made to the file elsewhere (e.g. on another device) and
+   * that it was deleted
+   */
+  useUserRealtime((event) => {
+    if (event.entity !== "file") return;
+    const changedId = event.type === "deleted" ? event.id : event.record.id;
+    if (changedId !== id) return;
+    queryClient.setQueryData<FileRow | null>(
+      ["file", id],
+      event.type === "deleted" ? null : event.record,
+    );
+  });
 
   return (
     <>
@@ -186,4 +162,4 @@ export default function FileViewPage() {
       </div>
     </>
   );
-}
\ No newline at end of file
+}
@@ -1,5 +1,6 @@
-import React, { useEffect, useState, useRef } from "react";
+import React, { useEffect, useState } from "react";
 import { supabase } from "@/lib/supabaseClient";
+import { getCurrentUser } from "@/lib/auth";
 import { useRouter } from "next/router";
 import {
   Pill,
@@ -14,6 +15,7 @@ import {
   HeartPulse,
   Clock,
   Thermometer,
+  TriangleAlert,
 } from "lucide-react";
 import {
   MedicationReminder,
@@ -39,6 +41,20 @@ import {
   updateHealthLog,
   deleteHealthLog,
 } from "@/lib/healthLogs";
+import {
+  RecurrenceRule,
+  getMedicationRecurrenceRule,
+  recurrenceRuleFromLabel,
+  toMedicationRecurrence,
+} from "@/lib/recurrence";
+import { RecurrenceEditor } from "@/components/RecurrenceEditor";
+import { useUserRealtime } from "@/components/UserRealtimeProvider";
+import { UserRealtimeEvent, applyRealtimeEvent } from "@/lib/userRealtime";
+import {
+  MedicationDose,
+  calculateAdherence,
+  getMedicationDosesByUser,
+} from "@/lib/medicationDoses";
 import {
   Dialog,
   DialogContent,
@@ -54,7 +70,6 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
-import { Slider } from "@/components/ui/slider";
 import { Card, CardHeader, CardTitle, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -82,7 +97,29 @@ import { format } from "date-fns";
 import { DatePicker } from "@/components/ui/date-picker";
 import { CustomTimePicker } from "@/components/ui/time-picker";
 import { BarcodeScanModal, MedInfo } from "@/components/ScanMedication";
+import { QuickDateEntry } from "@/components/QuickDateEntry";
+import { VitalsFields } from "@/components/VitalsFields";
+import { SymptomPicker } from "@/components/SymptomPicker";
+import { SymptomEntry, getLogSymptoms } from "@/lib/symptoms";
+import {
+  EMPTY_VITALS_FORM,
+  Vitals,
+  VitalsFormValues,
+  describeVitals,
+  parseVitalsForm,
+  toVitalsForm,
+} from "@/lib/vitals";
 import { useTheme } from "next-themes";
+import { useQuery } from "@tanstack/react-query";
+import { VitalsTrendCard } from "@/components/VitalsTrendCard";
+import { InsightsCard } from "@/components/InsightsCard";
+import {
+  DEFAULT_VITAL_THRESHOLDS,
+  VitalThresholds,
+  describeOutOfRangeVital,
+  findOutOfRangeVitals,
+  getVitalThresholds,
+} from "@/lib/vitalThresholds";
 
 ChartJS.register(
   CategoryScale,
@@ -98,6 +135,9 @@ ChartJS.register(
   Legend,
 );
 
+// Adherence on the medication cards is computed over the doses of this many recent days
+const ADHERENCE_DAYS = 30;
+
 /**
  * This hook checks if an element is in the viewport using the Intersection Observer API.
  * It sets up an observer on the provided ref and updates the visibility state
@@ -163,6 +203,29 @@ function LazyChart({
   );
 }
 
+/**
+ * Flags a health log whose vitals are outside the user's normal ranges
+ */
+function OutOfRangeVitalsFlag({
+  vitals,
+  thresholds,
+}: {
+  vitals: Vitals | null;
+  thresholds: VitalThresholds;
+}) {
+  const outOfRange = findOutOfRangeVitals(vitals, thresholds);
+  if (outOfRange.length === 0) return null;
+  return (
+    <div className="mt-2 flex items-start gap-2 rounded-md bg-red-50 dark:bg-red-950/40 px-3 py-2 text-sm text-red-700 dark:text-red-300">
+      <TriangleAlert className="w-4 h-4 mt-0.5 flex-shrink-0" />
+      <span>
+        Outside your normal range:{" "}
+        {outOfRange.map(describeOutOfRangeVital).join("; ")}
+      </span>
+    </div>
+  );
+}
+
 const containerVariants = {
   hidden: { opacity: 0, pointerEvents: "none" },
   visible: {
@@ -289,17 +352,14 @@ export default function HomePage() {
   const [newMedDosageUnit, setNewMedDosageUnit] = useState("mg");
   const [newMedDate, setNewMedDate] = useState<Date | undefined>(undefined);
   const [newMedTimePicker, setNewMedTimePicker] = useState("00:00");
-  const [newMedRecurrence, setNewMedRecurrence] = useState("Daily");
-  const [newMedCalendarSync, setNewMedCalendarSync] = useState("");
+  const [newMedRecurrence, setNewMedRecurrence] =
+    useState<RecurrenceRule | null>(recurrenceRuleFromLabel("Daily"));
   const [newApptName, setNewApptName] = useState("");
   const [newApptDate, setNewApptDate] = useState<Date | undefined>(undefined);
   const [newApptTime, setNewApptTime] = useState("00:00");
-  const [hlSymptomType, setHlSymptomType] = useState("");
-  const [hlSeverity, setHlSeverity] = useState<number>(0);
+  const [hlSymptoms, setHlSymptoms] = useState<SymptomEntry[]>([]);
   const [hlMood, setHlMood] = useState("");
-  const [hlHeartRate, setHlHeartRate] = useState("");
-  const [hlBloodPressureSys, setHlBloodPressureSys] = useState("");
-  const [hlBloodPressureDia, setHlBloodPressureDia] = useState("");
+  const [hlVitals, setHlVitals] = useState<VitalsFormValues>(EMPTY_VITALS_FORM);
   const [hlMedIntakeNumber, setHlMedIntakeNumber] = useState("");
   const [hlMedIntakeUnit, setHlMedIntakeUnit] = useState("mg");
   const [hlNotes, setHlNotes] = useState("");
@@ -317,8 +377,8 @@ export default function HomePage() {
   const [editMedDosageUnit, setEditMedDosageUnit] = useState("mg");
   const [editMedDate, setEditMedDate] = useState<Date | undefined>(undefined);
   const [editMedTimePicker, setEditMedTimePicker] = useState("00:00");
-  const [editMedRecurrence, setEditMedRecurrence] = useState("Daily");
-  const [editMedCalendarSync, setEditMedCalendarSync] = useState("");
+  const [editMedRecurrence, setEditMedRecurrence] =
+    useState<RecurrenceRule | null>(recurrenceRuleFromLabel("Daily"));
   const [scanOpen, setScanOpen] = useState(false);
   const [editingAppt, setEditingAppt] = useState<AppointmentReminder | null>(
     null,
@@ -327,12 +387,10 @@ export default function HomePage() {
   const [editApptDate, setEditApptDate] = useState<Date | undefined>(undefined);
   const [editApptTime, setEditApptTime] = useState("");
   const [editingLog, setEditingLog] = useState<HealthLog | null>(null);
-  const [editSymptomType, setEditSymptomType] = useState("");
-  const [editSeverity, setEditSeverity] = useState<number>(0);
+  const [editSymptoms, setEditSymptoms] = useState<SymptomEntry[]>([]);
   const [editMood, setEditMood] = useState("");
-  const [editHeartRate, setEditHeartRate] = useState("");
-  const [editBloodPressureSys, setEditBloodPressureSys] = useState("");
-  const [editBloodPressureDia, setEditBloodPressureDia] = useState("");
+  const [editVitals, setEditVitals] =
+    useState<VitalsFormValues>(EMPTY_VITALS_FORM);
   const [editMedIntakeNumber, setEditMedIntakeNumber] = useState("");
   const [editMedIntakeUnit, setEditMedIntakeUnit] = useState("mg");
   const [editNotes, setEditNotes] = useState("");
@@ -344,10 +402,6 @@ export default function HomePage() {
     undefined,
   );
   const [editEndTimePicker, setEditEndTimePicker] = useState("00:00");
-  // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  const channelRefs: any[] = [];
-  // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  const broadcastChannelRef = useRef<any>(null);
   const router = useRouter();
   const [showDeleteLogDialog, setShowDeleteLogDialog] = useState(false);
   const [deleteLogId, setDeleteLogId] = useState<string | null>(null);
@@ -366,6 +420,13 @@ export default function HomePage() {
     [],
   );
   const [allLogs, setAllLogs] = useState<HealthLog[]>([]);
+  // Offline, or before they load, logs are checked against the default ranges
+  const { data: vitalThresholds = DEFAULT_VITAL_THRESHOLDS } = useQuery({
+    queryKey: ["vitalThresholds", userId],
+    queryFn: () => getVitalThresholds(userId!),
+    enabled: !!userId,
+  });
+  const [recentDoses, setRecentDoses] = useState<MedicationDose[]>([]);
   const [viewingMed, setViewingMed] = useState<MedicationReminder | null>(null);
   const [viewingAppt, setViewingAppt] = useState<AppointmentReminder | null>(
     null,
@@ -442,14 +503,23 @@ export default function HomePage() {
    */
   async function fetchAllRecords(uid: string) {
     try {
-      const [meds, appts, logs] = await Promise.all([
+      const adherenceSince = new Date(
+        Date.now() - ADHERENCE_DAYS * 24 * 60 * 60 * 1000,
+      ).toISOString();
+      const [meds, appts, logs, doses] = await Promise.all([
         getMedicationRemindersByUser(uid),
         getAppointmentRemindersByUser(uid),
         getHealthLogsByUser(uid),
+        // Doses aren't kept offline; the adherence summary is just empty then
+        getMedicationDosesByUser(uid, adherenceSince).catch((err) => {
+          console.error("Error fetching doses:", err);
+          return [];
+        }),
       ]);
       setAllMedications(meds);
       setAllAppointments(appts);
       setAllLogs(logs);
+      setRecentDoses(doses);
     } catch (err) {
       console.error("Error fetching all records:", err);
       toast.error("Error loading chart data.");
@@ -461,40 +531,88 @@ export default function HomePage() {
   }, [userId, medPage, apptPage, logPage]);
 
   /**
-   * This function sends a broadcast message to all connected clients using the Supabase
-   * broadcast channel. It is used to notify other devices or tabs when a new medication,
-   * appointment, or health log is added
+   * Refetches the current page of one list and its count, after a record was added to or
+   * removed from it on another device or tab
    *
-   * @param eventName - The name of the event to broadcast
-   * @param message - The message to send
+   * @param entity - The kind of record that was added or removed
+   * @param uid - The user ID
    */
-  const sendBroadcast = (eventName: string, message: string) => {
-    if (broadcastChannelRef.current) {
-      broadcastChannelRef.current.send({
-        type: "broadcast",
-        event: eventName,
-        payload: { message },
-      });
+  async function refreshPage(entity: UserRealtimeEvent["entity"], uid: string) {
+    try {
+      if (entity === "medication") {
+        const res = await getPaginatedMedicationRemindersByUser(
+          uid,
+          medPage,
+          30,
+        );
+        setMedications(res.data);
+        setTotalMeds(res.count);
+      } else if (entity === "appointment") {
+        const res = await getPaginatedAppointmentRemindersByUser(
+          uid,
+          apptPage,
+          50,
+        );
+        setAppointments(res.data);
+        setTotalAppointments(res.count);
+      } else if (entity === "healthLog") {
+        const res = await getPaginatedHealthLogsByUser(uid, logPage, 20);
+        setLogs(res.data);
+        setTotalLogs(res.count);
+      }
+    } catch (err) {
+      console.error("Error refreshing data:", err);
     }
-  };
+  }
 
   /**
-   * Supabase Realtime #1: Listens for changes in the database (in terms of medication,
-   * appointments, and health logs) and updates the state accordingly
-   *
-   * For example, if the user adds a new med from another device, it will be reflected
-   * in the UI in the current device without needing to refresh the page. Same for
-   * appointments and health logs
+   * Supabase Realtime: changes to the user's medications, appointments, health logs and doses
+   * (e.g. from another device) are applied to the lists in place. Only the page of a list that
+   * gained or lost a record is refetched. Broadcasts from the user's other devices and tabs are
+   * shown by the UserRealtimeProvider.
    */
+  const { broadcast: sendBroadcast } = useUserRealtime((event) => {
+    if (event.entity === "medication") {
+      setAllMedications((prev) => applyRealtimeEvent(prev, event) ?? prev);
+      setMedications(
+        (prev) =>
+          applyRealtimeEvent(prev, event, { addCreated: false }) ?? prev,
+      );
+    } else if (event.entity === "appointment") {
+      setAllAppointments((prev) => applyRealtimeEvent(prev, event) ?? prev);
+      setAppointments(
+        (prev) =>
+          applyRealtimeEvent(prev, event, { addCreated: false }) ?? prev,
+      );
+    } else if (event.entity === "healthLog") {
+      setAllLogs((prev) => applyRealtimeEvent(prev, event) ?? prev);
+      setLogs(
+        (prev) =>
+          applyRealtimeEvent(prev, event, { addCreated: false }) ?? prev,
+      );
+    } else if (event.entity === "dose") {
+      setRecentDoses((prev) => applyRealtimeEvent(prev, event) ?? prev);
+      return;
+    } else {
+      return;
+    }
+
+    if (event.type !== "updated" && userId) {
+      refreshPage(event.entity, userId);
+    }
+  });
+
   useEffect(() => {
     let isMounted = true;
 
     async function init() {
-      const {
-        data: { user },
-      } = await supabase.auth.getUser();
+      const user = await getCurrentUser();
 
-      if (!user || !isMounted) return;
+      if (!user) {
+        router.push("/auth/login");
+        return;
+      }
+      if (!isMounted) return;
       setUserId(user.id);
 
       const { data: profileData } = await supabase
@@ -508,184 +626,13 @@ export default function HomePage() {
       }
 
       await fetchAllData(user.id);
-
-      const medsChannel = supabase.channel("medicationChanges");
-      medsChannel
-        .on(
-          "postgres_changes",
-          {
-            event: "INSERT",
-            schema: "public",
-            table: "medication_reminders",
-            filter: `user_profile_id=eq.${user.id}`,
-          },
-          () => {
-            if (isMounted) fetchAllData(user.id);
-          },
-        )
-        .on(
-          "postgres_changes",
-          {
-            event: "UPDATE",
-            schema: "public",
-            table: "medication_reminders",
-            filter: `user_profile_id=eq.${user.id}`,
-          },
-          () => {
-            if (isMounted) fetchAllData(user.id);
-          },
-        )
-        .on(
-          "postgres_changes",
-          {
-            event: "DELETE",
-            schema: "public",
-            table: "medication_reminders",
-          },
-          () => {
-            fetchAllData(user.id);
-          },
-        )
-        .subscribe();
-      channelRefs.push(medsChannel);
-
-      const apptsChannel = supabase.channel("appointmentChanges");
-      apptsChannel
-        .on(
-          "postgres_changes",
-          {
-            event: "INSERT",
-            schema: "public",
-            table: "appointment_reminders",
-            filter: `user_profile_id=eq.${user.id}`,
-          },
-          () => {
-            if (isMounted) fetchAllData(user.id);
-          },
-        )
-        .on(
-          "postgres_changes",
-          {
-            event: "UPDATE",
-            schema: "public",
-            table: "appointment_reminders",
-            filter: `user_profile_id=eq.${user.id}`,
-          },
-          () => {
-            if (isMounted) fetchAllData(user.id);
-          },
-        )
-        .on(
-          "postgres_changes",
-          {
-            event: "DELETE",
-            schema: "public",
-            table: "appointment_reminders",
-          },
-          () => {
-            fetchAllData(user.id);
-          },
-        )
-        .subscribe();
-      channelRefs.push(apptsChannel);
-
-      const logsChannel = supabase.channel("healthLogChanges");
-      logsChannel
-        .on(
-          "postgres_changes",
-          {
-            event: "INSERT",
-            schema: "public",
-            table: "health_logs",
-            filter: `user_profile_id=eq.${user.id}`,
-          },
-          () => {
-            if (isMounted) fetchAllData(user.id);
-          },
-        )
-        .on(
-          "postgres_changes",
-          {
-            event: "UPDATE",
-            schema: "public",
-            table: "health_logs",
-            filter: `user_profile_id=eq.${user.id}`,
-          },
-          () => {
-            if (isMounted) fetchAllData(user.id);
-          },
-        )
-        .on(
-          "postgres_changes",
-          {
-            event: "DELETE",
-            schema: "public",
-            table: "health_logs",
-          },
-          () => {
-            fetchAllData(user.id);
-          },
-        )
-        .subscribe();
-      channelRefs.push(logsChannel);
     }
 
     init();
 
     return () => {
       isMounted = false;
-      channelRefs.forEach((ch) => {
-        supabase.removeChannel(ch);
-      });
     };
-  }, []);
-
-  /**
-   * Supabase Realtime #2: In the above realtime functionality, we already
-   * created postgres changes for meds, appointments, and health logs. However,
-   * that will only update the UI if the user adds a new med, appointment, or log
-   * from another device. But we may also wanna broadcast a message to the user
-   * when a new med, appointment, or log is added from another device as well.
-   * This is where the broadcast channel comes in - it will broadcast a message
-   * to the user when a new med, appointment, or log is added from another device so
-   * that the user knows that something has changed in the UI and the reason
-   * for that change.
-   */
-  useEffect(() => {
-    async function subscribeToUserChannel() {
-      const {
-        data: { user },
-      } = await supabase.auth.getUser();
-
-      if (!user) {
-        router.push("/auth/login");
-        return;
-      }
-
-      const userChannelName = `user-channel-${user.id}`;
-      broadcastChannelRef.current = supabase.channel(userChannelName, {
-        config: { broadcast: { self: false } },
-      });
-      const channel = broadcastChannelRef.current;
-
-      channel
-        // eslint-disable-next-line @typescript-eslint/no-explicit-any
-        .on("broadcast", { event: "*" }, (payload: any) => {
-          toast.success(
-            `Notification: ${payload.payload.message.replace(/\./g, "")} from another device or tab.`,
-          );
-        })
-        .subscribe((status: string) => {
-          console.log("User-specific channel status:", status);
-        });
-
-      return () => {
-        supabase.removeChannel(channel);
-        broadcastChannelRef.current = null;
-      };
-    }
-
-    subscribeToUserChannel();
   }, [router]);
 
   /**
@@ -706,8 +653,7 @@ export default function HomePage() {
         medication_name: newMedName,
         dosage: combinedDosage || null,
         reminder_time: localDate.toISOString(),
-        recurrence: newMedRecurrence || null,
-        calendar_sync_token: newMedCalendarSync || null,
+        ...toMedicationRecurrence(newMedRecurrence),
       });
 
       sendBroadcast(
@@ -722,8 +668,7 @@ export default function HomePage() {
       setNewMedDosageUnit("mg");
       setNewMedDate(undefined);
       setNewMedTimePicker("00:00");
-      setNewMedRecurrence("Daily");
-      setNewMedCalendarSync("");
+      setNewMedRecurrence(recurrenceRuleFromLabel("Daily"));
       setAddMedOpen(false);
       toast.success("Medication reminder added successfully!");
     } catch (err) {
@@ -767,12 +712,30 @@ export default function HomePage() {
     }
   }
 
+  /**
+   * Tells the user when vitals they just logged are outside their normal ranges
+   */
+  function warnOutOfRangeVitals(vitals: Vitals | null) {
+    const outOfRange = findOutOfRangeVitals(vitals, vitalThresholds);
+    if (outOfRange.length === 0) return;
+    toast.warning(
+      `Outside your normal range: ${outOfRange.map(describeOutOfRangeVital).join("; ")}.`,
+      { duration: 10000 },
+    );
+  }
+
   /**
    * Adds a new health log for the user
    */
   async function handleAddHealthLog() {
     if (!userId) return;
 
+    const vitalsResult = parseVitalsForm(hlVitals);
+    if (vitalsResult.error !== undefined) {
+      toast.error(vitalsResult.error);
+      return;
+    }
+
     try {
       const localStart = hlStartDatePicker
         ? new Date(
@@ -787,26 +750,15 @@ export default function HomePage() {
         : new Date();
       const endISO = localEnd.toISOString();
 
-      const bpString =
-        hlBloodPressureSys && hlBloodPressureDia
-          ? `${hlBloodPressureSys}/${hlBloodPressureDia} mmHg`
-          : "";
-
       const medIntakeString = hlMedIntakeNumber
         ? `${hlMedIntakeNumber} ${hlMedIntakeUnit}`
         : "";
 
-      const vitalsObj = {
-        heartRate: hlHeartRate ? `${hlHeartRate} BPM` : null,
-        bloodPressure: bpString || null,
-      };
-
       await createHealthLog({
         user_profile_id: userId,
-        symptom_type: hlSymptomType || null,
-        severity: hlSeverity,
+        symptoms: hlSymptoms,
         mood: hlMood || null,
-        vitals: JSON.stringify(vitalsObj),
+        vitals: vitalsResult.vitals,
         medication_intake: medIntakeString || null,
         notes: hlNotes || null,
         start_date: startISO,
@@ -817,12 +769,9 @@ export default function HomePage() {
 
       await fetchAllData(userId);
 
-      setHlSymptomType("");
-      setHlSeverity(0);
+      setHlSymptoms([]);
       setHlMood("");
-      setHlHeartRate("");
-      setHlBloodPressureSys("");
-      setHlBloodPressureDia("");
+      setHlVitals(EMPTY_VITALS_FORM);
       setHlMedIntakeNumber("");
       setHlMedIntakeUnit("mg");
       setHlNotes("");
@@ -832,6 +781,7 @@ export default function HomePage() {
       setHlEndTimePicker("00:00");
       setAddLogOpen(false);
       toast.success("Health log added successfully!");
+      warnOutOfRangeVitals(vitalsResult.vitals);
     } catch (err) {
       toast.error("Error creating health log.");
       console.error("Error creating health log:", err);
@@ -856,8 +806,7 @@ export default function HomePage() {
     const medDate = new Date(med.reminder_time);
     setEditMedDate(medDate);
     setEditMedTimePicker(medDate.toTimeString().slice(0, 5));
-    setEditMedRecurrence(med.recurrence ?? "Daily");
-    setEditMedCalendarSync(med.calendar_sync_token ?? "");
+    setEditMedRecurrence(getMedicationRecurrenceRule(med));
   }
 
   /**
@@ -878,8 +827,7 @@ export default function HomePage() {
         medication_name: editMedName,
         dosage: combinedDosage,
         reminder_time: isoString,
-        recurrence: editMedRecurrence,
-        calendar_sync_token: editMedCalendarSync,
+        ...toMedicationRecurrence(editMedRecurrence),
       });
 
       sendBroadcast(
@@ -942,8 +890,7 @@ export default function HomePage() {
    */
   function openEditLogDialog(log: HealthLog) {
     setEditingLog(log);
-    setEditSymptomType(log.symptom_type ?? "");
-    setEditSeverity(log.severity ?? 0);
+    setEditSymptoms(getLogSymptoms(log));
     setEditMood(log.mood ?? "");
     setEditNotes(log.notes ?? "");
 
@@ -960,29 +907,7 @@ export default function HomePage() {
       setEditEndTimePicker("00:00");
     }
 
-    let heartRateStr = "";
-    if (log.vitals) {
-      try {
-        const v =
-          typeof log.vitals === "string" ? JSON.parse(log.vitals) : log.vitals;
-        if (v.heartRate) {
-          const hrParts = v.heartRate.split(" ");
-          heartRateStr = hrParts[0] || "";
-        }
-        if (v.bloodPressure) {
-          // eslint-disable-next-line @typescript-eslint/no-unused-vars
-          const [sysDia, _unit] = v.bloodPressure.split(" ");
-          if (sysDia) {
-            const [sys, dia] = sysDia.split("/");
-            setEditBloodPressureSys(sys || "");
-            setEditBloodPressureDia(dia || "");
-          }
-        }
-      } catch {
-        /* fallback */
-      }
-    }
-    setEditHeartRate(heartRateStr);
+    setEditVitals(toVitalsForm(log.vitals));
 
     let medsIntakeNumber = "";
     let medsIntakeUnit = "mg";
@@ -1002,6 +927,13 @@ export default function HomePage() {
    */
   async function handleUpdateLog() {
     if (!editingLog || !userId || !editStartDatePicker) return;
+
+    const vitalsResult = parseVitalsForm(editVitals);
+    if (vitalsResult.error !== undefined) {
+      toast.error(vitalsResult.error);
+      return;
+    }
+
     try {
       const startCombined = `${format(editStartDatePicker, "yyyy-MM-dd")}T${editStartTimePicker}`;
       const startISO = new Date(startCombined).toISOString();
@@ -1012,25 +944,14 @@ export default function HomePage() {
         ? new Date(endCombined).toISOString()
         : new Date().toISOString();
 
-      const bpString =
-        editBloodPressureSys && editBloodPressureDia
-          ? `${editBloodPressureSys}/${editBloodPressureDia} mmHg`
-          : "";
-      const hrString = editHeartRate ? `${editHeartRate} BPM` : "";
-      const vitalsObj = {
-        heartRate: hrString || null,
-        bloodPressure: bpString || null,
-      };
-
       const medIntakeString = editMedIntakeNumber
         ? `${editMedIntakeNumber} ${editMedIntakeUnit}`
         : "";
 
       await updateHealthLog(editingLog.id, {
-        symptom_type: editSymptomType,
-        severity: editSeverity,
+        symptoms: editSymptoms,
         mood: editMood,
-        vitals: JSON.stringify(vitalsObj),
+        vitals: vitalsResult.vitals,
         medication_intake: medIntakeString,
         notes: editNotes,
         start_date: startISO,
@@ -1042,6 +963,7 @@ export default function HomePage() {
       await fetchAllData(userId);
       setEditingLog(null);
       toast.success("Health log updated successfully!");
+      warnOutOfRangeVitals(vitalsResult.vitals);
     } catch (err) {
       toast.error("Error updating health log.");
       console.error("Error updating health log:", err);
@@ -1109,6 +1031,9 @@ export default function HomePage() {
       .includes(debouncedMedSearch.trim().toLowerCase()),
   );
 
+  const getAdherence = (medId: string) =>
+    calculateAdherence(recentDoses.filter((d) => d.medication_id === medId));
+
   const medsForDisplay = debouncedMedSearch.trim()
     ? filteredMeds
     : allMedications;
@@ -1249,12 +1174,11 @@ export default function HomePage() {
   };
 
   const symptomFreqMap: Record<string, number> = {};
+  // Counted by canonical name, so "headache " and "Migraines" add to Headache and Migraine
   allLogs.forEach((l) =>
-    (l.symptom_type || "")
-      .split(",")
-      .map((s) => s.trim())
-      .filter(Boolean)
-      .forEach((s) => (symptomFreqMap[s] = (symptomFreqMap[s] || 0) + 1)),
+    getLogSymptoms(l).forEach(
+      ({ name }) => (symptomFreqMap[name] = (symptomFreqMap[name] || 0) + 1),
+    ),
   );
   const doughnutLabels = Object.keys(symptomFreqMap);
   const doughnutValues = doughnutLabels.map((k) => symptomFreqMap[k]);
@@ -1599,6 +1523,20 @@ export default function HomePage() {
           </Card>
         </motion.div>
 
+        <motion.div
+          custom={4}
+          initial="hidden"
+          animate="visible"
+          variants={cardVariants}
+        >
+          <VitalsTrendCard
+            logs={allLogs}
+            thresholds={vitalThresholds}
+            chartOptions={defaultChartOptions}
+            colors={colorSet}
+          />
+        </motion.div>
+
         <motion.div
           className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4"
           initial="hidden"
@@ -1746,6 +1684,15 @@ export default function HomePage() {
           </motion.div>
         </motion.div>
 
+        <motion.div
+          custom={5}
+          initial="hidden"
+          animate="visible"
+          variants={cardVariants}
+        >
+          <InsightsCard logs={allLogs} medications={allMedications} />
+        </motion.div>
+
         <motion.div
           className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4"
           initial="hidden"
@@ -1805,6 +1752,25 @@ export default function HomePage() {
                         <strong>Recurrence:</strong>{" "}
                         {safeDisplay(med.recurrence)}
                       </p>
+                      {(() => {
+                        const adherence = getAdherence(med.id);
+                        return (
+                          <p>
+                            <strong>Adherence ({ADHERENCE_DAYS} days):</strong>{" "}
+                            {adherence.percentage === null
+                              ? "No doses marked yet"
+                              : `${adherence.percentage}% (${adherence.taken} taken${
+                                  adherence.late
+                                    ? `, ${adherence.late} late`
+                                    : ""
+                                }, ${adherence.skipped} skipped${
+                                  adherence.missed
+                                    ? `, ${adherence.missed} missed`
+                                    : ""
+                                })`}
+                          </p>
+                        );
+                      })()}
                       <p>
                         <strong>Created:</strong>{" "}
                         {new Date(med.created_at).toLocaleString()}
@@ -1988,19 +1954,6 @@ export default function HomePage() {
                 </div>
 
                 {logsPageItems.map((log, idx) => {
-                  let vitalsData = null;
-                  if (log.vitals) {
-                    try {
-                      vitalsData =
-                        typeof log.vitals === "string"
-                          ? JSON.parse(log.vitals)
-                          : log.vitals;
-                      // eslint-disable-next-line @typescript-eslint/no-unused-vars
-                    } catch (error) {
-                      // eslint-disable-next-line @typescript-eslint/no-unused-vars
-                      vitalsData = null;
-                    }
-                  }
                   return (
                     <div
                       key={log.id}
@@ -2012,6 +1965,10 @@ export default function HomePage() {
                         <h3 className="text-lg font-semibold text-foreground">
                           Symptoms: {safeDisplay(log.symptom_type) || "N/A"}
                         </h3>
+                        <OutOfRangeVitalsFlag
+                          vitals={log.vitals}
+                          thresholds={vitalThresholds}
+                        />
                       </div>
 
                       <div className="space-y-2 text-sm text-foreground">
@@ -2034,38 +1991,18 @@ export default function HomePage() {
                         <div>
                           <p className="font-bold">Vitals:</p>
                           <div className="ml-4">
-                            {(() => {
-                              let vitalsObj = null;
-                              if (log.vitals) {
-                                try {
-                                  vitalsObj =
-                                    typeof log.vitals === "string"
-                                      ? JSON.parse(log.vitals)
-                                      : log.vitals;
-                                  // eslint-disable-next-line @typescript-eslint/no-unused-vars
-                                } catch (error) {
-                                  vitalsObj = null;
-                                }
-                              }
-                              return vitalsObj ? (
-                                <>
-                                  <p className="mb-2">
-                                    <span className="font-bold">
-                                      - Heart Rate:
-                                    </span>{" "}
-                                    {vitalsObj.heartRate || "N/A"}
-                                  </p>
-                                  <p className="mb-2">
-                                    <span className="font-bold">
-                                      - Blood Pressure:
-                                    </span>{" "}
-                                    {vitalsObj.bloodPressure || "N/A"}
-                                  </p>
-                                </>
-                              ) : (
-                                <p>N/A</p>
-                              );
-                            })()}
+                            {log.vitals ? (
+                              describeVitals(log.vitals).map((vital) => (
+                                <p key={vital.key} className="mb-2">
+                                  <span className="font-bold">
+                                    - {vital.label}:
+                                  </span>{" "}
+                                  {vital.value}
+                                </p>
+                              ))
+                            ) : (
+                              <p>N/A</p>
+                            )}
                           </div>
                         </div>
                         <div>
@@ -2227,6 +2164,21 @@ export default function HomePage() {
                 </div>
               </div>
 
+              <div className="space-y-2">
+                <Label>Quick Entry</Label>
+                <QuickDateEntry
+                  placeholder='e.g. "every other morning"'
+                  showRecurrence
+                  onResolve={({ date, recurrence }) => {
+                    setNewMedDate(date);
+                    setNewMedTimePicker(format(date, "HH:mm"));
+                    if (recurrence) {
+                      setNewMedRecurrence(recurrenceRuleFromLabel(recurrence));
+                    }
+                  }}
+                />
+              </div>
+
               <div className="space-y-2">
                 <Label className="inline-flex items-center gap-0.5">
                   Schedule (Date & Time)
@@ -2254,21 +2206,10 @@ export default function HomePage() {
                   Recurrence
                   <span className="ml-0 text-red-500">*</span>
                 </Label>
-                <Select
+                <RecurrenceEditor
                   value={newMedRecurrence}
-                  onValueChange={setNewMedRecurrence}
-                >
-                  <SelectTrigger className="w-full border border-input rounded px-2 py-1">
-                    <SelectValue placeholder="Select recurrence" />
-                  </SelectTrigger>
-                  <SelectContent>
-                    <SelectItem value="Daily">Daily</SelectItem>
-                    <SelectItem value="Weekly">Weekly</SelectItem>
-                    <SelectItem value="Biweekly">Biweekly</SelectItem>
-                    <SelectItem value="Monthly">Monthly</SelectItem>
-                    <SelectItem value="As Needed">As Needed</SelectItem>
-                  </SelectContent>
-                </Select>
+                  onChange={setNewMedRecurrence}
+                />
               </div>
             </div>
             <DialogFooter>
@@ -2312,6 +2253,17 @@ export default function HomePage() {
                 />
               </div>
 
+              <div className="space-y-2">
+                <Label>Quick Entry</Label>
+                <QuickDateEntry
+                  placeholder='e.g. "next Tuesday at 9"'
+                  onResolve={({ date }) => {
+                    setNewApptDate(date);
+                    setNewApptTime(format(date, "HH:mm"));
+                  }}
+                />
+              </div>
+
               <div className="space-y-2">
                 <Label className="inline-flex items-center gap-0.5">
                   Date
@@ -2365,27 +2317,7 @@ export default function HomePage() {
                   Symptom(s)
                   <span className="ml-0 text-red-500">*</span>
                 </Label>
-                <Input
-                  value={hlSymptomType}
-                  onChange={(e) => setHlSymptomType(e.target.value)}
-                  placeholder="Separate multiple with commas"
-                />
-              </div>
-
-              <div className="space-y-2">
-                <Label className="inline-flex items-center gap-0.5">
-                  Severity (0-10)
-                  <span className="ml-0 text-red-500">*</span>
-                </Label>
-                <Slider
-                  value={[hlSeverity]}
-                  onValueChange={(value) => setHlSeverity(value[0])}
-                  min={0}
-                  max={10}
-                  step={1}
-                  className="w-full"
-                />
-                <div className="text-xs">Current: {hlSeverity}</div>
+                <SymptomPicker value={hlSymptoms} onChange={setHlSymptoms} />
               </div>
 
               <div className="space-y-2">
@@ -2404,44 +2336,7 @@ export default function HomePage() {
                 </Select>
               </div>
 
-              <div className="space-y-2">
-                <Label>Heart Rate</Label>
-                <div className="flex items-center gap-2">
-                  <Input
-                    type="number"
-                    min="0"
-                    max="300"
-                    value={hlHeartRate}
-                    onChange={(e) => setHlHeartRate(e.target.value)}
-                    placeholder="e.g. 72"
-                  />
-                  <span className="text-sm">BPM</span>
-                </div>
-              </div>
-
-              <div className="space-y-2">
-                <Label>Blood Pressure</Label>
-                <div className="flex items-center gap-2">
-                  <Input
-                    type="number"
-                    min="0"
-                    max="300"
-                    value={hlBloodPressureSys}
-                    onChange={(e) => setHlBloodPressureSys(e.target.value)}
-                    placeholder="Systolic"
-                  />
-                  <span>/</span>
-                  <Input
-                    type="number"
-                    min="0"
-                    max="300"
-                    value={hlBloodPressureDia}
-                    onChange={(e) => setHlBloodPressureDia(e.target.value)}
-                    placeholder="Diastolic"
-                  />
-                  <span className="text-sm">mmHg</span>
-                </div>
-              </div>
+              <VitalsFields values={hlVitals} onChange={setHlVitals} />
 
               <div className="space-y-2">
                 <Label>Medication Intake</Label>
@@ -2540,7 +2435,7 @@ export default function HomePage() {
                 className="cursor-pointer"
                 onClick={handleAddHealthLog}
                 disabled={
-                  !hlSymptomType ||
+                  hlSymptoms.length === 0 ||
                   !hlStartDatePicker ||
                   (hlEndDatePicker &&
                     new Date(
@@ -2635,21 +2530,10 @@ export default function HomePage() {
                     Recurrence
                     <span className="ml-0 text-red-500">*</span>
                   </Label>
-                  <Select
+                  <RecurrenceEditor
                     value={editMedRecurrence}
-                    onValueChange={setEditMedRecurrence}
-                  >
-                    <SelectTrigger className="w-full border border-input rounded px-2 py-1">
-                      <SelectValue placeholder="Select recurrence" />
-                    </SelectTrigger>
-                    <SelectContent>
-                      <SelectItem value="Daily">Daily</SelectItem>
-                      <SelectItem value="Weekly">Weekly</SelectItem>
-                      <SelectItem value="Biweekly">Biweekly</SelectItem>
-                      <SelectItem value="Monthly">Monthly</SelectItem>
-                      <SelectItem value="As Needed">As Needed</SelectItem>
-                    </SelectContent>
-                  </Select>
+                    onChange={setEditMedRecurrence}
+                  />
                 </div>
               </div>
               <DialogFooter>
@@ -2755,26 +2639,10 @@ export default function HomePage() {
                     Symptom(s)
                     <span className="ml-0 text-red-500">*</span>
                   </Label>
-                  <Input
-                    value={editSymptomType}
-                    onChange={(e) => setEditSymptomType(e.target.value)}
-                  />
-                </div>
-
-                <div className="space-y-2">
-                  <Label className="inline-flex items-center gap-0.5">
-                    Severity (0-10)
-                    <span className="ml-0 text-red-500">*</span>
-                  </Label>
-                  <Slider
-                    value={[editSeverity]}
-                    onValueChange={(value) => setEditSeverity(value[0])}
-                    min={0}
-                    max={10}
-                    step={1}
-                    className="w-full"
+                  <SymptomPicker
+                    value={editSymptoms}
+                    onChange={setEditSymptoms}
                   />
-                  <div className="text-xs">Current: {editSeverity}</div>
                 </div>
 
                 <div className="space-y-2">
@@ -2796,43 +2664,7 @@ export default function HomePage() {
                   </Select>
                 </div>
 
-                <div className="space-y-2">
-                  <Label>Heart Rate</Label>
-                  <div className="flex items-center gap-2">
-                    <Input
-                      type="number"
-                      min="0"
-                      max="300"
-                      value={editHeartRate}
-                      onChange={(e) => setEditHeartRate(e.target.value)}
-                    />
-                    <span className="text-sm">BPM</span>
-                  </div>
-                </div>
-
-                <div className="space-y-2">
-                  <Label>Blood Pressure</Label>
-                  <div className="flex items-center gap-2">
-                    <Input
-                      type="number"
-                      min="0"
-                      max="300"
-                      value={editBloodPressureSys}
-                      onChange={(e) => setEditBloodPressureSys(e.target.value)}
-                      placeholder="Systolic"
-                    />
-                    <span>/</span>
-                    <Input
-                      type="number"
-                      min="0"
-                      max="300"
-                      value={editBloodPressureDia}
-                      onChange={(e) => setEditBloodPressureDia(e.target.value)}
-                      placeholder="Diastolic"
-                    />
-                    <span className="text-sm">mmHg</span>
-                  </div>
-                </div>
+                <VitalsFields values={editVitals} onChange={setEditVitals} />
 
                 <div className="space-y-2">
                   <Label>Medication Intake</Label>
@@ -2929,7 +2761,7 @@ export default function HomePage() {
                   className="cursor-pointer"
                   onClick={handleUpdateLog}
                   disabled={
-                    !editSymptomType ||
+                    editSymptoms.length === 0 ||
                     !editStartDatePicker ||
                     (editEndDatePicker &&
                       new Date(
@@ -3193,7 +3025,9 @@ export default function HomePage() {
                   <HeartPulse className="w-5 h-5 text-pink-500" />
                   <span>
                     <strong>Symptoms:</strong>{" "}
-                    {safeDisplay(viewingLog.symptom_type)}
+                    {getLogSymptoms(viewingLog)
+                      .map((e) => `${e.name} (${e.severity}/10)`)
+                      .join(", ") || "N/A"}
                   </span>
                 </div>
                 <div className="flex items-center gap-2">
@@ -3208,28 +3042,18 @@ export default function HomePage() {
                     <strong>Mood:</strong> {safeDisplay(viewingLog.mood)}
                   </span>
                 </div>
-                {viewingLog.vitals && (
-                  <>
-                    <div className="flex items-center gap-2">
-                      <Heart className="w-5 h-5 text-red-600" />
-                      <span>
-                        <strong>Heart Rate:</strong>{" "}
-                        {typeof viewingLog.vitals === "string"
-                          ? JSON.parse(viewingLog.vitals).heartRate
-                          : viewingLog.vitals.heartRate || "N/A"}
-                      </span>
-                    </div>
-                    <div className="flex items-center gap-2">
-                      <Pill className="w-5 h-5 text-green-600" />
-                      <span>
-                        <strong>Blood Pressure:</strong>{" "}
-                        {typeof viewingLog.vitals === "string"
-                          ? JSON.parse(viewingLog.vitals).bloodPressure
-                          : viewingLog.vitals.bloodPressure || "N/A"}
-                      </span>
-                    </div>
-                  </>
-                )}
+                <OutOfRangeVitalsFlag
+                  vitals={viewingLog.vitals}
+                  thresholds={vitalThresholds}
+                />
+                {describeVitals(viewingLog.vitals).map((vital) => (
+                  <div key={vital.key} className="flex items-center gap-2">
+                    <Heart className="w-5 h-5 text-red-600" />
+                    <span>
+                      <strong>{vital.label}:</strong> {vital.value}
+                    </span>
+                  </div>
+                ))}
                 <div className="flex items-center gap-2">
                   <Pill className="w-5 h-5 text-indigo-600" />
                   <span>
@@ -3287,4 +3111,4 @@ export default function HomePage() {
       </motion.div>
     </>
   );
-}
\ No newline at end of file
+}
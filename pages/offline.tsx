@@ -0,0 +1,43 @@
+import Head from "next/head";
+import Link from "next/link";
+import { WifiOff } from "lucide-react";
+
+/**
+ * Shown by the service worker (public/sw.js) when a page that isn't cached is opened offline.
+ * It is precached with the app shell, so it must not need any data to render.
+ */
+export default function OfflinePage() {
+  return (
+    <>
+      <Head>
+        <title>SymptomSync | Offline</title>
+        <meta name="description" content="You're offline" />
+      </Head>
+      <div className="min-h-screen flex flex-col items-center justify-center bg-primary text-primary-foreground px-4 text-center">
+        <WifiOff className="w-16 h-16 mb-6" aria-hidden="true" />
+        <h1 className="text-4xl md:text-6xl font-extrabold tracking-tight mb-4">
+          You&apos;re offline
+        </h1>
+        <p className="text-lg md:text-xl mb-8 max-w-md">
+          This page isn&apos;t available without a connection. Your dashboard,
+          medications and calendar still work, and changes you make are synced
+          when you&apos;re back online.
+        </p>
+        <div className="flex flex-wrap justify-center gap-4">
+          <button
+            onClick={() => window.location.reload()}
+            className="px-6 py-3 bg-white text-primary rounded-full font-semibold hover:bg-gray-100 transition-colors duration-300 cursor-pointer"
+          >
+            Try Again
+          </button>
+          <Link
+            href="/home"
+            className="px-6 py-3 border border-white rounded-full font-semibold hover:bg-white/10 transition-colors duration-300"
+          >
+            Go to Dashboard
+          </Link>
+        </div>
+      </div>
+    </>
+  );
+}
@@ -144,7 +144,12 @@ export default function PrivacyPolicy() {
               <h2 className="text-2xl font-bold mb-3">Your Rights</h2>
               <p>
                 You have the right to access, correct, or delete your personal
-                data. To exercise these rights, please contact us at{" "}
+                data. You can download a copy of all of it, including the
+                documents you uploaded, with &quot;Export My Data&quot; on your
+                profile page, and delete your account with &quot;Delete My
+                Account&quot;. Deleted accounts are kept for 30 days in case you
+                change your mind, and then your records, documents and sign-in
+                are permanently removed. For anything else, please contact us at{" "}
                 <a
                   href="mailto:privacy@symptomsync.com"
                   className="text-foreground underline"
@@ -184,4 +189,4 @@ export default function PrivacyPolicy() {
       </motion.div>
     </>
   );
-}
\ No newline at end of file
+}
@@ -1,4 +1,4 @@
-import { useState, useEffect, ChangeEvent, useRef } from "react";
+import { useState, useEffect, ChangeEvent } from "react";
 import { useRouter } from "next/router";
 import { useQuery } from "@tanstack/react-query";
 import { motion } from "framer-motion";
@@ -36,6 +36,12 @@ import {
   type Profile,
 } from "@/lib/profile";
 import { supabase } from "@/lib/supabaseClient";
+import { AccountDataCard } from "@/components/AccountDataCard";
+import { CalendarFeedCard } from "@/components/CalendarFeedCard";
+import { FhirDataCard } from "@/components/FhirDataCard";
+import { PushNotificationsCard } from "@/components/PushNotificationsCard";
+import { NotificationSettingsCard } from "@/components/NotificationSettingsCard";
+import { VitalThresholdsCard } from "@/components/VitalThresholdsCard";
 import Head from "next/head";
 
 // A simple debounce hook to limit frequent search calls
@@ -82,8 +88,6 @@ export default function ProfilePage() {
   const [searchLoading, setSearchLoading] = useState(false);
   const [selectedProfile, setSelectedProfile] = useState<Profile | null>(null);
   const profileToDisplay = selectedProfile || profile;
-  // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  const broadcastChannelRef = useRef<any>(null);
 
   useQuery({
     queryKey: ["profile"],
@@ -129,43 +133,6 @@ export default function ProfilePage() {
     enabled: true,
   });
 
-  useEffect(() => {
-    async function subscribeToUserChannel() {
-      const {
-        data: { user },
-      } = await supabase.auth.getUser();
-
-      if (!user) {
-        router.push("/auth/login");
-        return;
-      }
-
-      const userChannelName = `user-channel-${user.id}`;
-      broadcastChannelRef.current = supabase.channel(userChannelName, {
-        config: { broadcast: { self: false } },
-      });
-      const channel = broadcastChannelRef.current;
-
-      channel
-        // eslint-disable-next-line @typescript-eslint/no-explicit-any
-        .on("broadcast", { event: "*" }, (payload: any) => {
-          toast.success(
-            `Notification: ${payload.payload.message.replace(/\./g, "")} from another device or tab.`,
-          );
-        })
-        .subscribe((status: string) => {
-          console.log("User-specific channel status:", status);
-        });
-
-      return () => {
-        supabase.removeChannel(channel);
-        broadcastChannelRef.current = null;
-      };
-    }
-
-    subscribeToUserChannel();
-  }, [router]);
-
   /**
    * Handles the change event for the avatar file input
    *
@@ -414,6 +381,29 @@ export default function ProfilePage() {
             )}
           </motion.div>
 
+          {profile && profileToDisplay?.id === profile.id && (
+            <>
+              <motion.div variants={fadeInUp}>
+                <PushNotificationsCard />
+              </motion.div>
+              <motion.div variants={fadeInUp}>
+                <NotificationSettingsCard userId={profile.id} />
+              </motion.div>
+              <motion.div variants={fadeInUp}>
+                <CalendarFeedCard userId={profile.id} />
+              </motion.div>
+              <motion.div variants={fadeInUp}>
+                <VitalThresholdsCard userId={profile.id} />
+              </motion.div>
+              <motion.div variants={fadeInUp}>
+                <FhirDataCard userId={profile.id} />
+              </motion.div>
+              <motion.div variants={fadeInUp}>
+                <AccountDataCard userId={profile.id} />
+              </motion.div>
+            </>
+          )}
+
           {profileToDisplay?.id === profile?.id && (
             <Dialog open={editDialogOpen} onOpenChange={setEditDialogOpen}>
               <DialogContent className="bg-background p-8 rounded-xl shadow-2xl max-w-lg mx-auto">
@@ -524,4 +514,4 @@ export default function ProfilePage() {
       </div>
     </>
   );
-}
\ No newline at end of file
+}
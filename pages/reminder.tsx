@@ -1,9 +1,34 @@
-import { useEffect, useState, useRef } from "react";
+import { useEffect, useState } from "react";
 import { useRouter } from "next/router";
 import Head from "next/head";
 import { getSupabaseClient } from "@/lib/supabaseClient";
-import { getPaginatedMedicationRemindersByUser } from "@/lib/medications";
-import { Bell, Pencil, Loader2 } from "lucide-react";
+import { getCurrentUser } from "@/lib/auth";
+import {
+  MedicationReminder,
+  getPaginatedMedicationRemindersByUser,
+} from "@/lib/medications";
+import {
+  MedicationDose,
+  MedicationDoseStatus,
+  SNOOZE_MINUTES,
+  getCurrentDoseTime,
+  getMedicationDosesByUser,
+  isLateDose,
+  recordMedicationDose,
+} from "@/lib/medicationDoses";
+import { getNotificationPreferences } from "@/lib/notificationPreferences";
+import {
+  RecurrenceRule,
+  getMedicationOccurrences,
+  getMedicationRecurrenceRule,
+  recurrenceRuleFromLabel,
+  toMedicationRecurrence,
+} from "@/lib/recurrence";
+import { RecurrenceEditor } from "@/components/RecurrenceEditor";
+import { DoseReminderActions } from "@/components/DoseReminderActions";
+import { useUserRealtime } from "@/components/UserRealtimeProvider";
+import { applyRealtimeEvent } from "@/lib/userRealtime";
+import { Bell, Pencil, Loader2, Check, X, AlarmClock } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
@@ -25,7 +50,7 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 import { ChevronLeft, ChevronRight } from "lucide-react";
-import { format } from "date-fns";
+import { addDays, format } from "date-fns";
 import { motion } from "framer-motion";
 import { toast } from "sonner";
 
@@ -63,19 +88,37 @@ const cardContainerVariants = {
   },
 };
 
+// The next few doses listed on each card
+const UPCOMING_DOSE_COUNT = 3;
+const UPCOMING_DOSE_DAYS = 7;
+
 interface Reminder {
   id: string;
   medication_name: string;
   dosage: string;
   reminder_time: string;
   recurrence: string;
+  recurrence_rule: string | null;
   user_profile_id: string;
 }
 
+/**
+ * Turns a medication reminder into the shape the cards show
+ */
+function toReminder(med: MedicationReminder): Reminder {
+  return {
+    ...med,
+    dosage: med.dosage ?? "",
+    recurrence: med.recurrence ?? "",
+  };
+}
+
 export default function MedicationReminders() {
   const supabase = getSupabaseClient(); // ✅ safe client
 
   const [reminders, setReminders] = useState<Reminder[]>([]);
+  const [doses, setDoses] = useState<MedicationDose[]>([]);
+  const [snoozeMinutes, setSnoozeMinutes] = useState(SNOOZE_MINUTES);
   const [loading, setLoading] = useState(true);
   const [editingMed, setEditingMed] = useState<Reminder | null>(null);
   const [editMedName, setEditMedName] = useState("");
@@ -83,74 +126,38 @@ export default function MedicationReminders() {
   const [editMedDosageUnit, setEditMedDosageUnit] = useState("mg");
   const [editMedDate, setEditMedDate] = useState<Date | undefined>(undefined);
   const [editMedTimePicker, setEditMedTimePicker] = useState("00:00");
-  const [editMedRecurrence, setEditMedRecurrence] = useState("Daily");
-  const [editMedCalendarSync, setEditMedCalendarSync] = useState("");
+  const [editMedRecurrence, setEditMedRecurrence] =
+    useState<RecurrenceRule | null>(recurrenceRuleFromLabel("Daily"));
   const [medPage, setMedPage] = useState(1);
   const [totalMeds, setTotalMeds] = useState(0);
 
   const router = useRouter();
-  // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  const broadcastChannelRef = useRef<any>(null);
 
   /**
-   * Trigger a broadcast event to all connected clients
+   * Supabase Realtime: edits to the user's medications (e.g. from another device) and their
+   * doses are applied in place; the page is refetched when a medication is added or removed.
+   * Broadcasts from the user's other devices and tabs are shown by the UserRealtimeProvider.
    */
-  const sendBroadcast = (eventName: string, message: string) => {
-    if (broadcastChannelRef.current) {
-      broadcastChannelRef.current.send({
-        type: "broadcast",
-        event: eventName,
-        payload: { message },
-      });
-    }
-  };
-
-  useEffect(() => {
-    if (!supabase) return; // ✅ important
-
-    async function subscribeToUserChannel() {
-      const {
-        data: { user },
-      } = await supabase.auth.getUser();
-
-      if (!user) {
-        router.push("/auth/login");
-        return;
+  const { broadcast: sendBroadcast } = useUserRealtime((event) => {
+    if (event.entity === "medication") {
+      if (event.type === "updated") {
+        const reminder = toReminder(event.record);
+        setReminders((prev) =>
+          prev.map((r) => (r.id === reminder.id ? reminder : r)),
+        );
+      } else {
+        fetchReminders();
       }
-
-      const userChannelName = `user-channel-${user.id}`;
-      broadcastChannelRef.current = supabase.channel(userChannelName, {
-        config: { broadcast: { self: false } },
-      });
-      const channel = broadcastChannelRef.current;
-
-      channel
-        // eslint-disable-next-line @typescript-eslint/no-explicit-any
-        .on("broadcast", { event: "*" }, (payload: any) => {
-          toast.success(
-            `Notification: ${payload.payload.message.replace(/\./g, "")} from another device or tab.`,
-          );
-        })
-        .subscribe((status: string) => {
-          console.log("User-specific channel status:", status);
-        });
-
-      return () => {
-        supabase.removeChannel(channel);
-        broadcastChannelRef.current = null;
-      };
+    } else if (event.entity === "dose") {
+      setDoses((prev) => applyRealtimeEvent(prev, event) ?? prev);
     }
-
-    subscribeToUserChannel();
-  }, [router, supabase]);
+  });
 
   useEffect(() => {
     if (!supabase) return; // ✅ important
 
     async function checkUserAuth() {
-      const {
-        data: { user },
-      } = await supabase.auth.getUser();
+      const user = await getCurrentUser();
 
       if (!user) {
         router.push("/auth/login");
@@ -164,81 +171,19 @@ export default function MedicationReminders() {
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [medPage]);
 
-  useEffect(() => {
-    if (!supabase) return; // ✅ important
-
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    let subscription: any;
-
-    async function init() {
-      const {
-        data: { user },
-      } = await supabase.auth.getUser();
-      if (!user) return;
-
-      subscription = supabase
-        .channel("medicationChanges")
-        .on(
-          "postgres_changes",
-          {
-            event: "INSERT",
-            schema: "public",
-            table: "medication_reminders",
-            filter: `user_profile_id=eq.${user.id}`,
-          },
-          () => {
-            console.log("Med INSERT received");
-            fetchReminders();
-          },
-        )
-        .on(
-          "postgres_changes",
-          {
-            event: "UPDATE",
-            schema: "public",
-            table: "medication_reminders",
-            filter: `user_profile_id=eq.${user.id}`,
-          },
-          () => {
-            console.log("Med UPDATE received");
-            fetchReminders();
-          },
-        )
-        .on(
-          "postgres_changes",
-          {
-            event: "DELETE",
-            schema: "public",
-            table: "medication_reminders",
-          },
-          () => {
-            fetchReminders();
-          },
-        )
-        .subscribe();
-    }
-
-    init();
-
-    return () => {
-      if (subscription) supabase.removeChannel(subscription);
-    };
-    // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [supabase]);
-
   async function fetchReminders() {
     if (!supabase) return; // ✅ important
 
     setLoading(true);
-    const { data: userData, error: userError } = await supabase.auth.getUser();
+    const user = await getCurrentUser();
 
-    if (userError || !userData?.user) {
+    if (!user) {
       console.error("User not authenticated");
       setLoading(false);
       return;
     }
 
-    const userId = userData.user.id;
+    const userId = user.id;
 
     try {
       const { data, count } = await getPaginatedMedicationRemindersByUser(
@@ -247,14 +192,10 @@ export default function MedicationReminders() {
         50,
       );
 
-      const uiReminders: Reminder[] = data.map((r) => ({
-        ...r,
-        dosage: r.dosage ?? "",
-        recurrence: r.recurrence ?? "",
-      }));
-
-      setReminders(uiReminders);
+      setReminders(data.map(toReminder));
       setTotalMeds(count);
+      await fetchDoses(userId);
+      await fetchSnoozeMinutes(userId);
     } catch (error) {
       console.error("Error fetching reminders:", error);
       toast.error("Failed to load medication reminders.");
@@ -263,6 +204,77 @@ export default function MedicationReminders() {
     }
   }
 
+  async function fetchDoses(userId: string) {
+    try {
+      // Only the latest dose of each medication is shown, which is at most a month old
+      const since = new Date(Date.now() - 31 * 24 * 60 * 60 * 1000);
+      setDoses(await getMedicationDosesByUser(userId, since.toISOString()));
+    } catch (error) {
+      console.error("Error fetching doses:", error);
+    }
+  }
+
+  async function fetchSnoozeMinutes(userId: string) {
+    try {
+      const preferences = await getNotificationPreferences(userId);
+      setSnoozeMinutes(preferences?.snooze_minutes ?? SNOOZE_MINUTES);
+    } catch (error) {
+      console.error("Error fetching notification preferences:", error);
+    }
+  }
+
+  /**
+   * Finds the recorded status of the dose a reminder is currently about, if it was marked
+   */
+  function getCurrentDose(reminder: Reminder) {
+    const scheduledFor = getCurrentDoseTime(reminder).getTime();
+    return doses.find(
+      (d) =>
+        d.medication_id === reminder.id &&
+        new Date(d.scheduled_for).getTime() === scheduledFor,
+    );
+  }
+
+  async function handleDoseAction(
+    reminder: Reminder,
+    status: Exclude<MedicationDoseStatus, "missed">,
+    minutes: number = snoozeMinutes,
+  ) {
+    try {
+      const dose = await recordMedicationDose({
+        medication_id: reminder.id,
+        user_profile_id: reminder.user_profile_id,
+        scheduled_for: getCurrentDoseTime(reminder).toISOString(),
+        status,
+        snoozeMinutes: minutes,
+      });
+      setDoses((prev) => [dose, ...prev.filter((d) => d.id !== dose.id)]);
+
+      const messages: Record<typeof status, string> = {
+        taken: `Marked ${reminder.medication_name} as taken.`,
+        skipped: `Marked ${reminder.medication_name} as skipped.`,
+        snoozed: `Snoozed ${reminder.medication_name} for ${minutes} minutes.`,
+      };
+      toast.success(messages[status]);
+      sendBroadcast("dose-update", messages[status]);
+    } catch (error) {
+      console.error("Failed to record dose:", error);
+      toast.error("Failed to update the dose.");
+    }
+  }
+
+  function describeDose(dose: MedicationDose) {
+    if (dose.status === "taken" && dose.taken_at) {
+      return `Taken at ${format(new Date(dose.taken_at), "h:mm a")}${
+        isLateDose(dose) ? " (late)" : ""
+      }`;
+    }
+    if (dose.status === "snoozed" && dose.snoozed_until) {
+      return `Snoozed until ${format(new Date(dose.snoozed_until), "h:mm a")}`;
+    }
+    return dose.status === "missed" ? "Missed" : "Skipped";
+  }
+
   function openEditMedDialog(med: Reminder) {
     setEditingMed(med);
     setEditMedName(med.medication_name);
@@ -280,8 +292,7 @@ export default function MedicationReminders() {
     setEditMedDate(medDate);
     setEditMedTimePicker(medDate.toTimeString().slice(0, 5));
 
-    setEditMedRecurrence(med.recurrence ?? "Daily");
-    setEditMedCalendarSync("");
+    setEditMedRecurrence(getMedicationRecurrenceRule(med));
   }
 
   async function handleUpdateMed() {
@@ -299,8 +310,7 @@ export default function MedicationReminders() {
         medication_name: editMedName,
         dosage: `${editMedDosage} ${editMedDosageUnit}`,
         reminder_time: isoString,
-        recurrence: editMedRecurrence,
-        calendar_sync_token: editMedCalendarSync,
+        ...toMedicationRecurrence(editMedRecurrence),
       })
       .eq("id", editingMed.id);
 
@@ -315,8 +325,7 @@ export default function MedicationReminders() {
       setEditMedDosageUnit("mg");
       setEditMedDate(undefined);
       setEditMedTimePicker("00:00");
-      setEditMedRecurrence("Daily");
-      setEditMedCalendarSync("");
+      setEditMedRecurrence(recurrenceRuleFromLabel("Daily"));
       toast.success("Reminder updated successfully.");
       sendBroadcast(
         "med-update",
@@ -325,11 +334,30 @@ export default function MedicationReminders() {
     }
   }
 
+  /**
+   * Shows a reminder for the current dose that can be answered right away: taken, or snoozed
+   * for a while, after which the reminder scheduler reminds about it again
+   */
   function handleBellClick(reminder: Reminder) {
-    const takeTime = format(new Date(reminder.reminder_time), "PPP, h:mm a");
-    toast(
-      `Reminder: Don't forget to take ${reminder.medication_name} at ${takeTime}!`,
-    );
+    const takeTime = format(getCurrentDoseTime(reminder), "PPP, h:mm a");
+    const toastId = `dose-reminder-${reminder.id}`;
+    toast(`Don't forget to take ${reminder.medication_name}`, {
+      id: toastId,
+      duration: 60_000,
+      description: (
+        <DoseReminderActions
+          message={`Scheduled for ${takeTime}.`}
+          onTaken={() => {
+            toast.dismiss(toastId);
+            handleDoseAction(reminder, "taken");
+          }}
+          onSnooze={(minutes) => {
+            toast.dismiss(toastId);
+            handleDoseAction(reminder, "snoozed", minutes);
+          }}
+        />
+      ),
+    });
   }
 
   const totalPages = Math.ceil(totalMeds / 50);
@@ -341,8 +369,8 @@ export default function MedicationReminders() {
         <div className="max-w-md text-center">
           <h2 className="text-xl font-bold mb-2">Supabase Not Configured</h2>
           <p className="text-sm opacity-80">
-            Please set NEXT_PUBLIC_SUPABASE_URL and NEXT_PUBLIC_SUPABASE_ANON_KEY
-            in Environment Variables.
+            Please set NEXT_PUBLIC_SUPABASE_URL and
+            NEXT_PUBLIC_SUPABASE_ANON_KEY in Environment Variables.
           </p>
         </div>
       </div>
@@ -421,6 +449,74 @@ export default function MedicationReminders() {
                     <p className="text-sm">
                       Recurrence: {reminder.recurrence || "N/A"}
                     </p>
+                    {(() => {
+                      const now = new Date();
+                      const upcoming = getMedicationOccurrences(
+                        reminder,
+                        now,
+                        addDays(now, UPCOMING_DOSE_DAYS),
+                      ).slice(0, UPCOMING_DOSE_COUNT);
+                      return (
+                        upcoming.length > 0 && (
+                          <p className="text-sm">
+                            Next:{" "}
+                            {upcoming
+                              .map((time) => format(time, "EEE, h:mm a"))
+                              .join(" · ")}
+                          </p>
+                        )
+                      );
+                    })()}
+                    {(() => {
+                      const dose = getCurrentDose(reminder);
+                      return (
+                        <div className="mt-4">
+                          <p className="text-xs opacity-80 mb-2">
+                            Dose at{" "}
+                            {format(
+                              getCurrentDoseTime(reminder),
+                              "PPP, h:mm a",
+                            )}
+                            {dose ? `: ${describeDose(dose)}` : ""}
+                          </p>
+                          <div className="flex flex-wrap gap-2">
+                            <Button
+                              size="sm"
+                              variant="secondary"
+                              disabled={dose?.status === "taken"}
+                              onClick={() =>
+                                handleDoseAction(reminder, "taken")
+                              }
+                              className="cursor-pointer"
+                            >
+                              <Check size={14} className="mr-1" /> Taken
+                            </Button>
+                            <Button
+                              size="sm"
+                              variant="secondary"
+                              disabled={dose?.status === "skipped"}
+                              onClick={() =>
+                                handleDoseAction(reminder, "skipped")
+                              }
+                              className="cursor-pointer"
+                            >
+                              <X size={14} className="mr-1" /> Skipped
+                            </Button>
+                            <Button
+                              size="sm"
+                              variant="secondary"
+                              disabled={dose?.status === "taken"}
+                              onClick={() =>
+                                handleDoseAction(reminder, "snoozed")
+                              }
+                              className="cursor-pointer"
+                            >
+                              <AlarmClock size={14} className="mr-1" /> Snooze
+                            </Button>
+                          </div>
+                        </div>
+                      );
+                    })()}
                   </div>
                   <div className="flex flex-col gap-2 items-end text-white opacity-80">
                     <Button
@@ -555,21 +651,10 @@ export default function MedicationReminders() {
                 <Label className="inline-flex items-center gap-0.5">
                   Recurrence<span className="ml-0 text-red-500">*</span>
                 </Label>
-                <Select
+                <RecurrenceEditor
                   value={editMedRecurrence}
-                  onValueChange={setEditMedRecurrence}
-                >
-                  <SelectTrigger className="w-full border border-input rounded px-2 py-1">
-                    <SelectValue placeholder="Select recurrence" />
-                  </SelectTrigger>
-                  <SelectContent>
-                    <SelectItem value="Daily">Daily</SelectItem>
-                    <SelectItem value="Weekly">Weekly</SelectItem>
-                    <SelectItem value="Biweekly">Biweekly</SelectItem>
-                    <SelectItem value="Monthly">Monthly</SelectItem>
-                    <SelectItem value="As Needed">As Needed</SelectItem>
-                  </SelectContent>
-                </Select>
+                  onChange={setEditMedRecurrence}
+                />
               </div>
             </div>
 
@@ -1,6 +1,6 @@
 import { useEffect, useState, useRef } from "react";
 import { useRouter } from "next/router";
-import { useQuery } from "@tanstack/react-query";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
 import { supabase } from "@/lib/supabaseClient";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -25,8 +25,9 @@ import {
   ChevronRight,
   HeartPulse,
   Edit3,
+  TriangleAlert,
 } from "lucide-react";
-import { format } from "date-fns";
+import { format, subDays } from "date-fns";
 import {
   Tooltip,
   TooltipContent,
@@ -35,18 +36,28 @@ import {
 } from "@/components/ui/tooltip";
 import { toast } from "sonner";
 import { fetchUserFiles, uploadUserFile } from "@/lib/files";
+import { FileRow } from "@/lib/fileDetails";
+import { applyRealtimeEvent } from "@/lib/userRealtime";
+import { useUserRealtime } from "@/components/UserRealtimeProvider";
 import { motion } from "framer-motion";
 import Head from "next/head";
-import { PDFDocument, StandardFonts, rgb } from "pdf-lib";
-
-type FileRow = {
-  id: string;
-  filename: string;
-  url: string;
-  file_type: string;
-  uploaded_at: string;
-  tags?: string[];
-};
+import { DatePicker } from "@/components/ui/date-picker";
+import { Label } from "@/components/ui/label";
+import { getCurrentProfile } from "@/lib/profile";
+import { getMedicationRemindersByUser } from "@/lib/medications";
+import { getHealthLogsByUser } from "@/lib/healthLogs";
+import { getAppointmentRemindersByUser } from "@/lib/appointmentReminders";
+import {
+  DEFAULT_VITAL_THRESHOLDS,
+  getVitalThresholds,
+} from "@/lib/vitalThresholds";
+import {
+  appendDocumentsToPdf,
+  buildVisitSummary,
+  findUnsupportedText,
+  renderVisitSummaryPdf,
+  UNSUPPORTED_TEXT_PLACEHOLDER,
+} from "@/lib/visitSummary";
 
 const containerVariants = {
   hidden: { opacity: 0 },
@@ -68,104 +79,97 @@ const fadeInUp = {
 
 const ITEMS_PER_PAGE = 50;
 
+// One page of the user's files and how many they have in total
+type FilesPage = { data: FileRow[]; count: number };
+
 export default function DocumentsPage() {
-  const [files, setFiles] = useState<FileRow[]>([]);
-  const [totalDocuments, setTotalDocuments] = useState(0);
   const [search, setSearch] = useState("");
   const [uploading, setUploading] = useState(false);
   const [fileToUpload, setFileToUpload] = useState<File | null>(null);
   const [customFilename, setCustomFilename] = useState("");
   const [tagsInput, setTagsInput] = useState("");
-  const [loadingFiles, setLoadingFiles] = useState(true);
   const [dialogOpen, setDialogOpen] = useState(false);
   const [healthDialogOpen, setHealthDialogOpen] = useState(false);
   const [selectedForReport, setSelectedForReport] = useState<string[]>([]);
   const [reportProcessing, setReportProcessing] = useState(false);
+  // Text the visit summary can't show, once the user has been warned about it
+  const [unsupportedText, setUnsupportedText] = useState<string[] | null>(null);
+  const [reportStart, setReportStart] = useState<Date | undefined>(() =>
+    subDays(new Date(), 30),
+  );
+  const [reportEnd, setReportEnd] = useState<Date | undefined>(
+    () => new Date(),
+  );
   const [currentPage, setCurrentPage] = useState(1);
   const router = useRouter();
   const searchInputRef = useRef<HTMLInputElement>(null);
   const [fileToDelete, setFileToDelete] = useState<string | null>(null);
   const [confirmDeleteDialogOpen, setConfirmDeleteDialogOpen] = useState(false);
-  // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  const broadcastChannelRef = useRef<any>(null);
   const [editDialogOpen, setEditDialogOpen] = useState(false);
   const [editingFile, setEditingFile] = useState<FileRow | null>(null);
   const [editFilename, setEditFilename] = useState("");
   const [editTagsInput, setEditTagsInput] = useState("");
 
-  useQuery({
-    queryKey: ["files", currentPage],
-    queryFn: async () => {
-      await fetchFiles();
-      return true;
+  const queryClient = useQueryClient();
+
+  /**
+   * Supabase Realtime: edits to the user's files (e.g. from another device) are applied to the
+   * cached page; the page is refetched when a file is added or removed, as that shifts the
+   * pages and the count
+   */
+  const { userId } = useUserRealtime((event) => {
+    if (event.entity !== "file" || !userId) return;
+    if (event.type === "updated") {
+      queryClient.setQueryData<FilesPage>(
+        ["files", userId, currentPage],
+        (prev) =>
+          prev && {
+            ...prev,
+            data:
+              applyRealtimeEvent(prev.data, event, { addCreated: false }) ??
+              prev.data,
+          },
+      );
+    } else {
+      refreshFiles();
+    }
+  });
+
+  const { data: filesPage, isPending: loadingFiles } = useQuery({
+    queryKey: ["files", userId, currentPage],
+    queryFn: async (): Promise<FilesPage> => {
+      try {
+        const { data, count } = await fetchUserFiles(userId!, currentPage);
+        return { data: data as FileRow[], count };
+      } catch (error) {
+        console.error("Error fetching files:", error);
+        toast.error("Failed to fetch files");
+        throw error;
+      }
     },
+    enabled: !!userId,
   });
+  const files = filesPage?.data ?? [];
+  const totalDocuments = filesPage?.count ?? 0;
 
   useEffect(() => {
-    async function subscribeToUserChannel() {
+    async function checkUserAuth() {
       const {
         data: { user },
       } = await supabase.auth.getUser();
 
       if (!user) {
         router.push("/auth/login");
-        return;
       }
-
-      const userChannelName = `user-channel-${user.id}`;
-      broadcastChannelRef.current = supabase.channel(userChannelName, {
-        config: { broadcast: { self: false } },
-      });
-      const channel = broadcastChannelRef.current;
-
-      channel
-        // eslint-disable-next-line @typescript-eslint/no-explicit-any
-        .on("broadcast", { event: "*" }, (payload: any) => {
-          toast.success(
-            `Notification: ${payload.payload.message.replace(/\./g, "")} from another device or tab.`,
-          );
-        })
-        .subscribe((status: string) => {
-          console.log("User-specific channel status:", status);
-        });
-
-      return () => {
-        supabase.removeChannel(channel);
-        broadcastChannelRef.current = null;
-      };
     }
-
-    subscribeToUserChannel();
+    checkUserAuth();
   }, [router]);
 
-  async function fetchFiles() {
-    setLoadingFiles(true);
-    const {
-      data: { user },
-    } = await supabase.auth.getUser();
-    if (!user) {
-      toast.error("User not logged in");
-      setLoadingFiles(false);
-      return;
-    }
-    try {
-      const docs = await fetchUserFiles(user.id, currentPage);
-      setFiles(docs);
-
-      const { count, error: countError } = await supabase
-        .from("files")
-        .select("id", { count: "exact", head: true })
-        .eq("user_profile_id", user.id);
-      if (countError) {
-        console.error("Error fetching documents count:", countError);
-      } else {
-        setTotalDocuments(count || 0);
-      }
-    } catch (error) {
-      console.error("Error fetching files:", error);
-      toast.error("Failed to fetch files");
-    }
-    setLoadingFiles(false);
+  /**
+   * Refetches the files after one was added or removed
+   */
+  function refreshFiles() {
+    queryClient.invalidateQueries({ queryKey: ["files", userId] });
   }
 
   /**
@@ -195,15 +199,14 @@ export default function DocumentsPage() {
         .split(",")
         .map((tag) => tag.trim())
         .filter((tag) => tag !== "");
-      const newFile = await uploadUserFile(fileToProcess, user.id, tags);
-      setFiles((prev) => [newFile, ...prev]);
+      await uploadUserFile(fileToProcess, user.id, tags);
       toast.success("File uploaded successfully");
 
       setFileToUpload(null);
       setCustomFilename("");
       setTagsInput("");
       setDialogOpen(false);
-      fetchFiles();
+      refreshFiles();
     } catch (error) {
       console.error("Error uploading file:", error);
       toast.error("Failed to upload file");
@@ -275,12 +278,17 @@ export default function DocumentsPage() {
         .eq("id", editingFile.id);
       if (error) throw error;
 
-      setFiles((prev) =>
-        prev.map((f) =>
-          f.id === editingFile.id
-            ? { ...f, filename: editFilename.trim(), tags: newTags }
-            : f,
-        ),
+      queryClient.setQueryData<FilesPage>(
+        ["files", userId, currentPage],
+        (prev) =>
+          prev && {
+            ...prev,
+            data: prev.data.map((f) =>
+              f.id === editingFile.id
+                ? { ...f, filename: editFilename.trim(), tags: newTags }
+                : f,
+            ),
+          },
       );
       toast.success("Metadata updated");
       setEditDialogOpen(false);
@@ -291,80 +299,64 @@ export default function DocumentsPage() {
   }
 
   /**
-   * Handles exporting a consolidated health report PDF. Creates a new PDF
-   * document, adds a title page, and appends selected files to it.
-   * The user can select which files to include in the report.
+   * Handles exporting the visit summary PDF. Builds a summary of the user's profile,
+   * medications, health logs, vitals and appointments for the chosen date range, and
+   * appends the files the user selected to it. If some of the text can't be shown in the PDF,
+   * the first attempt only warns about it in the dialog.
    */
   async function handleExportHealthReport() {
-    if (selectedForReport.length === 0) {
-      toast.error("Please select at least one document.");
+    if (!userId) return;
+    if (!reportStart || !reportEnd || reportStart > reportEnd) {
+      toast.error("Please choose a start date on or before the end date.");
       return;
     }
     setReportProcessing(true);
     try {
-      const mergedPdf = await PDFDocument.create();
-      const titlePage = mergedPdf.addPage();
-      // eslint-disable-next-line @typescript-eslint/no-unused-vars
-      const { width, height } = titlePage.getSize();
-      const font = await mergedPdf.embedFont(StandardFonts.HelveticaBold);
-      const fontSize = 24;
-      titlePage.drawText("SymptomSync - Your Health Report", {
-        x: 50,
-        y: height - 4 * fontSize,
-        size: fontSize,
-        font,
-        color: rgb(0, 0, 0),
-      });
-
-      for (const fileId of selectedForReport) {
-        const file = files.find((f) => f.id === fileId);
-        if (!file) continue;
-        const ext = file.filename.split(".").pop()?.toLowerCase();
-        const arrayBuffer = await fetch(file.url).then((res) =>
-          res.arrayBuffer(),
-        );
-
-        if (ext === "pdf") {
-          const donorPdf = await PDFDocument.load(arrayBuffer);
-          const pages = await mergedPdf.copyPages(
-            donorPdf,
-            donorPdf.getPageIndices(),
-          );
-          pages.forEach((p) => mergedPdf.addPage(p));
-        } else if (["png", "jpg", "jpeg"].includes(ext || "")) {
-          let img;
-          if (ext === "png") {
-            img = await mergedPdf.embedPng(arrayBuffer);
-          } else {
-            img = await mergedPdf.embedJpg(arrayBuffer);
-          }
-          const dims = img.scale(1);
-          const imgPage = mergedPdf.addPage([dims.width, dims.height]);
-          imgPage.drawImage(img, {
-            x: 0,
-            y: 0,
-            width: dims.width,
-            height: dims.height,
-          });
+      const [profile, medications, logs, appointments, thresholds] =
+        await Promise.all([
+          getCurrentProfile(),
+          getMedicationRemindersByUser(userId),
+          getHealthLogsByUser(userId),
+          getAppointmentRemindersByUser(userId),
+          getVitalThresholds(userId).catch(() => DEFAULT_VITAL_THRESHOLDS),
+        ]);
+      if (!profile) throw new Error("No profile found for the current user.");
+
+      const summary = buildVisitSummary(
+        { profile, medications, logs, appointments, thresholds },
+        { start: reportStart, end: reportEnd },
+      );
+      if (!unsupportedText) {
+        const unsupported = await findUnsupportedText(summary);
+        if (unsupported.length > 0) {
+          setUnsupportedText(unsupported);
+          return;
         }
       }
+      const pdf = await renderVisitSummaryPdf(summary);
+      await appendDocumentsToPdf(
+        pdf,
+        selectedForReport
+          .map((fileId) => files.find((f) => f.id === fileId))
+          .filter((file): file is FileRow => !!file),
+      );
 
-      const pdfBytes = await mergedPdf.save();
+      const pdfBytes = await pdf.save();
       const blob = new Blob([pdfBytes], { type: "application/pdf" });
       const url = window.URL.createObjectURL(blob);
       const a = document.createElement("a");
       a.href = url;
-      a.download = "Health_Report.pdf";
+      a.download = `Visit_Summary_${format(new Date(), "yyyy-MM-dd")}.pdf`;
       document.body.appendChild(a);
       a.click();
       document.body.removeChild(a);
       window.URL.revokeObjectURL(url);
       setHealthDialogOpen(false);
       setSelectedForReport([]);
-      toast.success("Health report exported successfully");
+      toast.success("Visit summary exported successfully");
     } catch (error) {
-      console.error("Error creating health report:", error);
-      toast.error("Failed to export health report");
+      console.error("Error creating visit summary:", error);
+      toast.error("Failed to export visit summary");
     } finally {
       setReportProcessing(false);
     }
@@ -457,12 +449,15 @@ export default function DocumentsPage() {
                     animate="visible"
                   >
                     <Button
-                      onClick={() => setHealthDialogOpen(true)}
+                      onClick={() => {
+                        setUnsupportedText(null);
+                        setHealthDialogOpen(true);
+                      }}
                       className="whitespace-nowrap flex items-center gap-2 cursor-pointer"
                       variant="secondary"
                     >
                       <HeartPulse size={18} />
-                      Export Health Report
+                      Export Visit Summary
                     </Button>
 
                     <Dialog
@@ -471,13 +466,39 @@ export default function DocumentsPage() {
                     >
                       <DialogContent className="max-w-lg w-full">
                         <DialogHeader>
-                          <DialogTitle>Export Health Report</DialogTitle>
+                          <DialogTitle>Export Visit Summary</DialogTitle>
                           <DialogDescription>
-                            Select which PDF or image documents you would like
-                            to include in your consolidated health report.
+                            A summary for your clinician of your medications,
+                            symptoms, vitals and upcoming appointments. Choose
+                            the period it covers, and any PDF or image documents
+                            to append.
                           </DialogDescription>
                         </DialogHeader>
-                        <div className="mt-4 max-h-64 overflow-y-auto">
+                        <div className="grid grid-cols-2 gap-4 mt-4">
+                          <div className="space-y-2">
+                            <Label>From</Label>
+                            <DatePicker
+                              value={reportStart}
+                              onChange={(date) => {
+                                // Other dates may hold other text, so it's checked again
+                                setUnsupportedText(null);
+                                setReportStart(date);
+                              }}
+                            />
+                          </div>
+                          <div className="space-y-2">
+                            <Label>To</Label>
+                            <DatePicker
+                              value={reportEnd}
+                              onChange={(date) => {
+                                setUnsupportedText(null);
+                                setReportEnd(date);
+                              }}
+                            />
+                          </div>
+                        </div>
+                        <Label className="mt-4">Documents (optional)</Label>
+                        <div className="mt-2 max-h-64 overflow-y-auto">
                           {filteredFiles
                             .filter(
                               (file) =>
@@ -514,6 +535,23 @@ export default function DocumentsPage() {
                             </p>
                           )}
                         </div>
+                        {unsupportedText && (
+                          <div className="mt-4 flex items-start gap-2 rounded-md bg-amber-50 dark:bg-amber-950/40 px-3 py-2 text-sm text-amber-800 dark:text-amber-300">
+                            <TriangleAlert className="w-4 h-4 mt-0.5 flex-shrink-0" />
+                            <span>
+                              Some of your text has characters the PDF
+                              can&apos;t show, which will appear as &quot;
+                              {UNSUPPORTED_TEXT_PLACEHOLDER}&quot;:{" "}
+                              {unsupportedText
+                                .slice(0, 3)
+                                .map((text) => `"${text}"`)
+                                .join(", ")}
+                              {unsupportedText.length > 3 &&
+                                ` and ${unsupportedText.length - 3} more`}
+                              . Export anyway, or edit that text first.
+                            </span>
+                          </div>
+                        )}
                         <div className="flex justify-end gap-4 mt-4">
                           <Button
                             variant="secondary"
@@ -529,6 +567,8 @@ export default function DocumentsPage() {
                           >
                             {reportProcessing ? (
                               <Loader2 className="animate-spin h-4 w-4" />
+                            ) : unsupportedText ? (
+                              "Export Anyway"
                             ) : (
                               "Export"
                             )}
@@ -856,7 +896,7 @@ export default function DocumentsPage() {
                             .delete()
                             .eq("id", fileToDelete);
                           toast.success("File deleted successfully");
-                          fetchFiles();
+                          refreshFiles();
                         } catch (error) {
                           console.error("Error deleting file:", error);
                           toast.error("Failed to delete file");
@@ -877,4 +917,4 @@ export default function DocumentsPage() {
       </div>
     </>
   );
-}
\ No newline at end of file
+}
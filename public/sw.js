@@ -1,35 +1,244 @@
 /* eslint-disable no-restricted-globals */
-// Basic service worker to support showing notifications and future push payloads
+// Service worker that shows reminder notifications, including Web Push messages, and keeps
+// the app shell cached so the installed app opens offline
+
+// The build this worker belongs to: lib/serviceWorker.ts registers /sw.js?build=<buildId>, so
+// every deploy installs a new worker with its own cache
+const BUILD_ID = new URL(self.location.href).searchParams.get("build");
+// Next.js dev builds change on every edit, so nothing is cached there
+const CACHING = !!BUILD_ID && BUILD_ID !== "development";
+
+const CACHE_PREFIX = "symptomsync-";
+const CACHE_NAME = `${CACHE_PREFIX}${BUILD_ID}`;
+
+const OFFLINE_URL = "/offline";
+// Pages that work offline (their data comes from lib/offlineStore.ts)
+const SHELL_PAGES = ["/home", "/calendar", "/reminder", OFFLINE_URL];
+const SHELL_FILES = [
+  "/manifest.json",
+  "/favicon.ico",
+  "/android-chrome-192x192.png",
+  "/android-chrome-512x512.png",
+  "/maskable-icon-192x192.png",
+  "/maskable-icon-512x512.png",
+  "/apple-touch-icon.png",
+];
+
+// Build output referenced by a page or by Next's _buildManifest.js
+const STATIC_ASSET =
+  /\/?_next\/static\/[^"'\s)\\]+|static\/(?:chunks|css|media)\/[^"'\s)\\]+/g;
+
+const toAssetUrl = (path) =>
+  path.startsWith("static/") ? `/_next/${path}` : `/${path.replace(/^\//, "")}`;
+
+/**
+ * Caches the shell pages and every asset of this build: the ones the pages load directly and
+ * the chunks Next's build manifest lists for the other routes.
+ */
+const precacheAppShell = async () => {
+  const cache = await caches.open(CACHE_NAME);
+  const assets = new Set();
+
+  // The shell pages must all be cached, or the install fails and is retried later
+  await Promise.all(
+    SHELL_PAGES.map(async (url) => {
+      const res = await fetch(url, { cache: "reload" });
+      if (!res.ok) throw new Error(`Failed to precache ${url}: ${res.status}`);
+      const html = await res.clone().text();
+      (html.match(STATIC_ASSET) || []).forEach((path) =>
+        assets.add(toAssetUrl(path)),
+      );
+      await cache.put(url, res);
+    }),
+  );
+
+  const buildManifest = [...assets].find((url) =>
+    url.endsWith("/_buildManifest.js"),
+  );
+  if (buildManifest) {
+    try {
+      const res = await fetch(buildManifest);
+      (
+        ((res.ok && (await res.text())) || "").match(STATIC_ASSET) || []
+      ).forEach((path) => assets.add(toAssetUrl(path)));
+    } catch (err) {
+      console.error("Failed to read the build manifest:", err);
+    }
+  }
+
+  // Assets that fail are fetched again when a page needs them
+  await Promise.allSettled(
+    [...SHELL_FILES, ...assets].map((url) => cache.add(url)),
+  );
+};
 
 self.addEventListener("install", (event) => {
-  // Activate immediately so we can use notifications right away
-  event.waitUntil(self.skipWaiting());
+  // A new build waits until the app offers to reload (components/AppUpdatePrompt.tsx); the
+  // first one activates right away, so notifications work immediately
+  if (CACHING) event.waitUntil(precacheAppShell());
 });
 
 self.addEventListener("activate", (event) => {
-  event.waitUntil(self.clients.claim());
+  event.waitUntil(
+    (async () => {
+      const names = await caches.keys();
+      await Promise.all(
+        names
+          .filter(
+            (name) => name.startsWith(CACHE_PREFIX) && name !== CACHE_NAME,
+          )
+          .map((name) => caches.delete(name)),
+      );
+      await self.clients.claim();
+    })(),
+  );
 });
 
-// Handle push events if backend pushes are wired later
+self.addEventListener("message", (event) => {
+  if (event.data?.type === "skip-waiting") self.skipWaiting();
+});
+
+// Pages: the network first, so online users always get the latest build; offline, the cached
+// copy or the offline page
+const handleNavigation = async (request) => {
+  const cache = await caches.open(CACHE_NAME);
+  const url = new URL(request.url);
+  try {
+    const res = await fetch(request);
+    if (res.ok) cache.put(url.pathname, res.clone());
+    return res;
+  } catch (err) {
+    const cached =
+      (await cache.match(url.pathname, { ignoreSearch: true })) ||
+      (await cache.match(OFFLINE_URL));
+    if (cached) return cached;
+    throw err;
+  }
+};
+
+// Build assets have hashed names and never change, so the cache is always right
+const handleStaticAsset = async (request) => {
+  const cache = await caches.open(CACHE_NAME);
+  const cached = await cache.match(request);
+  if (cached) return cached;
+  const res = await fetch(request);
+  if (res.ok) cache.put(request, res.clone());
+  return res;
+};
+
+// Everything else of ours (icons, the manifest): the network, or the cache when offline
+const handleOtherRequest = async (request) => {
+  try {
+    return await fetch(request);
+  } catch (err) {
+    const cached = await caches.match(request, { ignoreSearch: true });
+    if (cached) return cached;
+    throw err;
+  }
+};
+
+self.addEventListener("fetch", (event) => {
+  const { request } = event;
+  if (!CACHING || request.method !== "GET") return;
+
+  const url = new URL(request.url);
+  // Supabase and other services, and the API routes, are never cached
+  if (url.origin !== self.location.origin || url.pathname.startsWith("/api/")) {
+    return;
+  }
+
+  if (request.mode === "navigate") {
+    event.respondWith(handleNavigation(request));
+  } else if (url.pathname.startsWith("/_next/static/")) {
+    event.respondWith(handleStaticAsset(request));
+  } else if (!url.pathname.startsWith("/_next/")) {
+    event.respondWith(handleOtherRequest(request));
+  }
+});
+
+// The snooze lengths offered on medication reminders, as in lib/notificationPreferences.ts
+const SNOOZE_OPTIONS = [10, 30, 60];
+
+// Reminders pushed by the server (lib/webPush.ts) while no tab may be open. Medication
+// reminders get Taken, Skipped and Snooze buttons, handled like the in-app ones below.
+// Browsers only show as many buttons as they support (two in Chrome), so the answers come
+// first, then the user's snooze length, then the other snooze lengths.
 self.addEventListener("push", (event) => {
+  let data = {};
   try {
-    const data = event.data?.json?.() ?? {};
-    const title = data.title || "SymptomSync";
-    const body = data.body || "You have a new update";
-    const options = {
-      body,
-      icon: "/favicon.ico",
-      data: data.data || {},
-    };
-    event.waitUntil(self.registration.showNotification(title, options));
+    data = event.data?.json?.() ?? {};
   } catch (err) {
     console.error("Push event error:", err);
   }
+
+  const title = data.title || "SymptomSync";
+  const options = {
+    body: data.body || "You have a new update",
+    icon: "/favicon.ico",
+    data: { url: data.url || "/" },
+  };
+  if (data.tag) options.tag = data.tag;
+
+  if (data.medicationId && data.scheduledFor) {
+    options.data.medicationId = data.medicationId;
+    options.data.scheduledFor = data.scheduledFor;
+    const preferred = data.snoozeMinutes || SNOOZE_OPTIONS[0];
+    const snoozes = [
+      preferred,
+      ...SNOOZE_OPTIONS.filter((minutes) => minutes !== preferred),
+    ];
+    options.actions = [
+      { action: "taken", title: "Taken" },
+      { action: "skipped", title: "Skipped" },
+      ...snoozes.map((minutes) => ({
+        action: `snooze-${minutes}`,
+        title: `Snooze ${minutes} min`,
+      })),
+    ];
+    options.requireInteraction = true;
+  }
+
+  event.waitUntil(self.registration.showNotification(title, options));
 });
 
+// Taken / Skipped / Snooze (e.g. "snooze-30") on a medication notification: hand the answer
+// to an open window, or open the reminders page with it in the query string
+const handleDoseAction = async (action, data) => {
+  const message = {
+    type: "dose-action",
+    action,
+    medicationId: data.medicationId,
+    scheduledFor: data.scheduledFor,
+  };
+  const clientsArr = await self.clients.matchAll({
+    type: "window",
+    includeUncontrolled: true,
+  });
+
+  if (clientsArr.length > 0) {
+    clientsArr[0].postMessage(message);
+    return;
+  }
+
+  if (self.clients.openWindow) {
+    const params = new URLSearchParams({
+      doseAction: action,
+      medicationId: data.medicationId,
+      scheduledFor: data.scheduledFor,
+    });
+    await self.clients.openWindow(`/reminder?${params.toString()}`);
+  }
+};
+
 self.addEventListener("notificationclick", (event) => {
   event.notification.close();
-  const url = event.notification.data?.url || "/";
+  const data = event.notification.data || {};
+  if (event.action && data.medicationId && data.scheduledFor) {
+    event.waitUntil(handleDoseAction(event.action, data));
+    return;
+  }
+
+  const url = data.url || "/";
   event.waitUntil(
     self.clients
       .matchAll({ type: "window", includeUncontrolled: true })
@@ -47,4 +256,4 @@ self.addEventListener("notificationclick", (event) => {
         return undefined;
       }),
   );
-});
\ No newline at end of file
+});
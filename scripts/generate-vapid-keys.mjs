@@ -0,0 +1,25 @@
+#!/usr/bin/env node
+//
+// Generates the VAPID key pair Web Push needs (see lib/webPush.ts). Add the output to .env;
+// keep VAPID_PRIVATE_KEY secret and out of the browser bundle.
+//
+// Usage:
+//   node scripts/generate-vapid-keys.mjs
+//
+
+import { createECDH } from "crypto";
+
+const ecdh = createECDH("prime256v1");
+ecdh.generateKeys();
+
+console.log(
+  `NEXT_PUBLIC_VAPID_PUBLIC_KEY=${ecdh.getPublicKey().toString("base64url")}`,
+);
+// The private key is a 32-byte number; pad it in case it starts with zero bytes
+const privateKey = ecdh.getPrivateKey();
+const padded = Buffer.concat([
+  Buffer.alloc(32 - privateKey.length),
+  privateKey,
+]);
+console.log(`VAPID_PRIVATE_KEY=${padded.toString("base64url")}`);
+console.log("VAPID_SUBJECT=mailto:you@example.com");
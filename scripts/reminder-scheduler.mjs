@@ -0,0 +1,53 @@
+#!/usr/bin/env node
+//
+// Runs the reminder scheduler every minute for deployments without a cron service
+// (e.g. the Docker image). It calls the app's /api/cron/reminders route, which does the work.
+//
+// Usage:
+//   APP_URL=http://localhost:3000 CRON_SECRET=<secret> node scripts/reminder-scheduler.mjs
+//   node scripts/reminder-scheduler.mjs --once   # run once and exit (e.g. from system cron)
+//
+
+const APP_URL = process.env.APP_URL || "http://localhost:3000";
+const CRON_SECRET = process.env.CRON_SECRET;
+const INTERVAL_MS = 60_000;
+
+if (!CRON_SECRET) {
+  console.error("Please set CRON_SECRET to the app's CRON_SECRET");
+  process.exit(1);
+}
+
+async function runOnce() {
+  try {
+    const res = await fetch(`${APP_URL}/api/cron/reminders`, {
+      method: "POST",
+      headers: { Authorization: `Bearer ${CRON_SECRET}` },
+    });
+    const body = await res.json().catch(() => ({}));
+    if (!res.ok) {
+      console.error(`Scheduler run failed (${res.status}):`, body.error);
+      return false;
+    }
+    console.log(
+      `${new Date().toISOString()} reminders due: ${body.due}, created: ${body.created}, pushed: ${body.pushed}, missed: ${body.missed}`,
+    );
+    return true;
+  } catch (err) {
+    console.error("Scheduler run failed:", err.message);
+    return false;
+  }
+}
+
+if (process.argv.includes("--once")) {
+  process.exit((await runOnce()) ? 0 : 1);
+}
+
+await runOnce();
+const interval = setInterval(runOnce, INTERVAL_MS);
+
+for (const signal of ["SIGINT", "SIGTERM"]) {
+  process.on(signal, () => {
+    clearInterval(interval);
+    process.exit(0);
+  });
+}
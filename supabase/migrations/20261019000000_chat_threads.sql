@@ -0,0 +1,65 @@
+-- Chat conversations with the AI assistant, previously kept only in localStorage.
+-- Each user can have many named threads; each thread has an ordered list of messages.
+
+create table if not exists public.chat_threads (
+  id uuid primary key default gen_random_uuid(),
+  user_profile_id uuid not null references public.user_profiles (id) on delete cascade,
+  title text not null default 'New chat',
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists chat_threads_user_updated_idx
+  on public.chat_threads (user_profile_id, updated_at desc);
+
+create table if not exists public.chat_messages (
+  id uuid primary key default gen_random_uuid(),
+  thread_id uuid not null references public.chat_threads (id) on delete cascade,
+  user_profile_id uuid not null references public.user_profiles (id) on delete cascade,
+  role text not null check (role in ('user', 'model')),
+  text text not null,
+  action_status text check (action_status in ('applied', 'dismissed')),
+  created_at timestamptz not null default now()
+);
+
+create index if not exists chat_messages_thread_created_idx
+  on public.chat_messages (thread_id, created_at);
+
+-- Keep the most recently used thread at the top of the sidebar
+create or replace function public.touch_chat_thread()
+returns trigger
+language plpgsql
+as $$
+begin
+  update public.chat_threads set updated_at = now() where id = new.thread_id;
+  return new;
+end;
+$$;
+
+drop trigger if exists chat_messages_touch_thread on public.chat_messages;
+create trigger chat_messages_touch_thread
+  after insert on public.chat_messages
+  for each row execute function public.touch_chat_thread();
+
+alter table public.chat_threads enable row level security;
+alter table public.chat_messages enable row level security;
+
+create policy "Users manage their own chat threads"
+  on public.chat_threads
+  for all
+  to authenticated
+  using (user_profile_id = auth.uid())
+  with check (user_profile_id = auth.uid());
+
+create policy "Users manage their own chat messages"
+  on public.chat_messages
+  for all
+  to authenticated
+  using (user_profile_id = auth.uid())
+  with check (
+    user_profile_id = auth.uid()
+    and exists (
+      select 1 from public.chat_threads t
+      where t.id = thread_id and t.user_profile_id = auth.uid()
+    )
+  );
@@ -0,0 +1,39 @@
+-- Whether each scheduled dose of a medication was actually taken, skipped or snoozed.
+-- A dose is identified by its medication and the time it was scheduled for, so marking
+-- the same dose twice (e.g. from the reminder page and from a notification) updates one row.
+
+create table if not exists public.medication_doses (
+  id uuid primary key default gen_random_uuid(),
+  medication_id uuid not null references public.medication_reminders (id) on delete cascade,
+  user_profile_id uuid not null references public.user_profiles (id) on delete cascade,
+  scheduled_for timestamptz not null,
+  status text not null check (status in ('taken', 'skipped', 'snoozed')),
+  taken_at timestamptz,
+  snoozed_until timestamptz,
+  created_at timestamptz not null default now(),
+  unique (medication_id, scheduled_for)
+);
+
+create index if not exists medication_doses_user_scheduled_idx
+  on public.medication_doses (user_profile_id, scheduled_for desc);
+
+alter table public.medication_doses enable row level security;
+
+create policy "Users manage their own medication doses"
+  on public.medication_doses
+  for all
+  to authenticated
+  using (user_profile_id = auth.uid())
+  with check (
+    user_profile_id = auth.uid()
+    and exists (
+      select 1 from public.medication_reminders m
+      where m.id = medication_id and m.user_profile_id = auth.uid()
+    )
+  );
+
+-- Medication notifications name the dose they are about, so the browser notification
+-- can offer Taken / Skipped / Snooze for it
+alter table public.user_notifications
+  add column if not exists medication_id uuid references public.medication_reminders (id) on delete cascade,
+  add column if not exists scheduled_for timestamptz;
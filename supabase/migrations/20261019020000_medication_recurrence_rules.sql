@@ -0,0 +1,29 @@
+-- Structured recurrence for medication reminders, as an RFC 5545 RRULE (see lib/recurrence.ts).
+-- `recurrence` stays as the plain-English description of the rule.
+
+alter table public.medication_reminders
+  add column if not exists recurrence_rule text;
+
+-- Convert the labels older reminders were saved with
+update public.medication_reminders
+set recurrence_rule = case lower(trim(recurrence))
+    when 'hourly' then 'FREQ=HOURLY'
+    when 'daily' then 'FREQ=DAILY'
+    when 'weekly' then 'FREQ=WEEKLY'
+    when 'biweekly' then 'FREQ=WEEKLY;INTERVAL=2'
+    when 'monthly' then 'FREQ=MONTHLY'
+  end
+where recurrence_rule is null
+  and lower(trim(recurrence)) in ('hourly', 'daily', 'weekly', 'biweekly', 'monthly');
+
+update public.medication_reminders
+set recurrence_rule = 'FREQ=DAILY;INTERVAL='
+  || substring(lower(trim(recurrence)) from '^every (\d+) days$')
+where recurrence_rule is null
+  and lower(trim(recurrence)) ~ '^every [1-9]\d* days$';
+
+update public.medication_reminders
+set recurrence_rule = 'FREQ=HOURLY;INTERVAL='
+  || substring(lower(trim(recurrence)) from '^every (\d+) hours$')
+where recurrence_rule is null
+  and lower(trim(recurrence)) ~ '^every [1-9]\d* hours$';
@@ -0,0 +1,79 @@
+-- Subscribable iCalendar feeds (see lib/calendarFeed.ts and pages/api/calendar/[token].ts).
+-- Each user has at most one feed, identified by a secret token in its URL. Calendar apps fetch
+-- the feed without signing in, so the feed is read through a security definer function that
+-- only returns the records of the token's owner.
+--
+-- medication_reminders.calendar_sync_token holds the token of the feed a medication is
+-- published in; medications with a null token are left out of the feed.
+
+create table if not exists public.calendar_feeds (
+  user_profile_id uuid primary key references public.user_profiles (id) on delete cascade,
+  token text not null unique,
+  -- The IANA time zone medication times are written in, since the feed is built on the server
+  time_zone text not null default 'UTC',
+  created_at timestamptz not null default now()
+);
+
+create index if not exists medication_reminders_calendar_sync_token_idx
+  on public.medication_reminders (calendar_sync_token)
+  where calendar_sync_token is not null;
+
+alter table public.calendar_feeds enable row level security;
+
+create policy "Users manage their own calendar feed"
+  on public.calendar_feeds
+  for all
+  to authenticated
+  using (user_profile_id = auth.uid())
+  with check (user_profile_id = auth.uid());
+
+-- New medications are published in their owner's feed, if they have one
+create or replace function public.set_medication_calendar_sync_token()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if new.calendar_sync_token is null then
+    select token into new.calendar_sync_token
+    from public.calendar_feeds
+    where user_profile_id = new.user_profile_id;
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists medication_reminders_calendar_sync_token on public.medication_reminders;
+create trigger medication_reminders_calendar_sync_token
+  before insert on public.medication_reminders
+  for each row execute function public.set_medication_calendar_sync_token();
+
+-- The records served by a feed, or null if the token doesn't belong to a feed
+create or replace function public.get_calendar_feed(feed_token text)
+returns json
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select json_build_object(
+    'time_zone', f.time_zone,
+    'medications', coalesce((
+      select json_agg(m)
+      from public.medication_reminders m
+      where m.user_profile_id = f.user_profile_id
+        and m.calendar_sync_token = f.token
+    ), '[]'::json),
+    'appointments', coalesce((
+      select json_agg(a)
+      from public.appointment_reminders a
+      where a.user_profile_id = f.user_profile_id
+    ), '[]'::json)
+  )
+  from public.calendar_feeds f
+  where f.token = feed_token;
+$$;
+
+revoke all on function public.get_calendar_feed(text) from public;
+grant execute on function public.get_calendar_feed(text) to anon, authenticated;
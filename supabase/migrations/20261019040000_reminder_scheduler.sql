@@ -0,0 +1,29 @@
+-- Reminder notifications written by the server-side scheduler (see lib/reminderScheduler.ts and
+-- pages/api/cron/reminders.ts). The scheduler runs with the service role, so it bypasses RLS.
+
+-- Per-user notification settings. The scheduler needs each user's time zone, because medication
+-- times of day are the user's local times and the server runs in UTC.
+create table if not exists public.notification_preferences (
+  user_profile_id uuid primary key references public.user_profiles (id) on delete cascade,
+  time_zone text not null default 'UTC',
+  updated_at timestamptz not null default now()
+);
+
+alter table public.notification_preferences enable row level security;
+
+create policy "Users manage their own notification preferences"
+  on public.notification_preferences
+  for all
+  to authenticated
+  using (user_profile_id = auth.uid())
+  with check (user_profile_id = auth.uid());
+
+-- Appointment reminders name their appointment. Every scheduled notification has a key made of
+-- what it is about, when that is, and its lead time, so a scheduler run that overlaps the
+-- previous one (or is retried) never notifies twice.
+alter table public.user_notifications
+  add column if not exists appointment_id uuid references public.appointment_reminders (id) on delete cascade,
+  add column if not exists dedupe_key text;
+
+create unique index if not exists user_notifications_dedupe_key_idx
+  on public.user_notifications (dedupe_key);
@@ -0,0 +1,50 @@
+-- Web Push subscriptions (see lib/pushSubscriptions.ts and lib/webPush.ts). Each browser the user
+-- turns push notifications on in has one row; the push service identifies it by its endpoint.
+
+create table if not exists public.push_subscriptions (
+  id uuid primary key default gen_random_uuid(),
+  user_profile_id uuid not null references public.user_profiles (id) on delete cascade,
+  endpoint text not null unique,
+  p256dh text not null,
+  auth text not null,
+  user_agent text,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists push_subscriptions_user_idx
+  on public.push_subscriptions (user_profile_id);
+
+alter table public.push_subscriptions enable row level security;
+
+create policy "Users manage their own push subscriptions"
+  on public.push_subscriptions
+  for all
+  to authenticated
+  using (user_profile_id = auth.uid())
+  with check (user_profile_id = auth.uid());
+
+-- Saves the current browser's subscription for the signed-in user. A browser has one endpoint,
+-- so when someone else signs in on it the subscription moves to them, which RLS alone wouldn't
+-- allow; hence security definer.
+create or replace function public.save_push_subscription(
+  sub_endpoint text,
+  sub_p256dh text,
+  sub_auth text,
+  sub_user_agent text default null
+)
+returns void
+language sql
+security definer
+set search_path = public
+as $$
+  insert into public.push_subscriptions (user_profile_id, endpoint, p256dh, auth, user_agent)
+  values (auth.uid(), sub_endpoint, sub_p256dh, sub_auth, sub_user_agent)
+  on conflict (endpoint) do update
+    set user_profile_id = excluded.user_profile_id,
+        p256dh = excluded.p256dh,
+        auth = excluded.auth,
+        user_agent = excluded.user_agent;
+$$;
+
+revoke all on function public.save_push_subscription(text, text, text, text) from public;
+grant execute on function public.save_push_subscription(text, text, text, text) to authenticated;
@@ -0,0 +1,25 @@
+-- Notification settings the user chooses on their profile page (see lib/notificationPreferences.ts).
+-- The in-app notifier (pages/_app.tsx), Web Push (lib/webPush.ts) and the reminder scheduler
+-- (lib/reminderScheduler.ts) all honor them.
+
+alter table public.notification_preferences
+  -- Where each kind of reminder is delivered: in_app (toasts), browser (notifications while the
+  -- app is open) and push (Web Push, also when it's closed)
+  add column if not exists medication_channels text[] not null default '{in_app,browser,push}'
+    check (medication_channels <@ array['in_app', 'browser', 'push']),
+  add column if not exists appointment_channels text[] not null default '{in_app,browser,push}'
+    check (appointment_channels <@ array['in_app', 'browser', 'push']),
+  -- How many minutes before an appointment its reminders are sent
+  add column if not exists appointment_lead_minutes integer[] not null default '{1440,60}'
+    check (appointment_lead_minutes <@ array[0, 15, 30, 60, 120, 1440, 2880]),
+  -- Browser and push notifications are held back between these wall-clock times in time_zone.
+  -- Both null means no quiet hours; the end may be earlier than the start (overnight).
+  add column if not exists quiet_hours_start time,
+  add column if not exists quiet_hours_end time,
+  -- How long "Snooze" puts a dose off for
+  add column if not exists snooze_minutes integer not null default 10
+    check (snooze_minutes between 1 and 240);
+
+alter table public.notification_preferences
+  add constraint notification_preferences_quiet_hours_check
+  check ((quiet_hours_start is null) = (quiet_hours_end is null));
@@ -0,0 +1,21 @@
+-- Follow-ups for medication reminders (see lib/reminderScheduler.ts). A snoozed dose is reminded
+-- about again when its snooze ends, and a dose nobody confirms within the user's escalation
+-- window is reminded about once more and recorded as missed.
+
+alter table public.medication_doses
+  drop constraint if exists medication_doses_status_check;
+
+alter table public.medication_doses
+  add constraint medication_doses_status_check
+  check (status in ('taken', 'skipped', 'snoozed', 'missed'));
+
+-- Snoozed doses whose snooze ends soon are looked up by the scheduler every minute
+create index if not exists medication_doses_snoozed_until_idx
+  on public.medication_doses (snoozed_until)
+  where status = 'snoozed';
+
+-- Minutes after a dose (or the end of its snooze) before it counts as missed; null turns
+-- escalation off
+alter table public.notification_preferences
+  add column if not exists escalation_minutes integer default 30
+    check (escalation_minutes is null or escalation_minutes between 5 and 720);
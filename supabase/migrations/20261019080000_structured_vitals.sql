@@ -0,0 +1,60 @@
+-- Structured vitals for health logs (see lib/vitals.ts). Logs used to store
+-- JSON.stringify({ heartRate: "72 BPM", bloodPressure: "120/80 mmHg" }), i.e. a string holding
+-- JSON with the numbers inside strings. They now hold an object of numbers in fixed units:
+-- { "heartRate": 72, "systolic": 120, "diastolic": 80, "temperature": 98.6, "spo2": 98,
+--   "respiratoryRate": 16, "weight": 150, "glucose": 100 }, every key optional.
+
+-- Works whether vitals was a text column or a jsonb one holding the string
+alter table public.health_logs
+  alter column vitals type jsonb
+  using nullif(btrim(vitals::text), '')::jsonb;
+
+-- Unwrap the JSON that was stored as a string
+update public.health_logs
+  set vitals = (vitals #>> '{}')::jsonb
+  where jsonb_typeof(vitals) = 'string'
+    and btrim(vitals #>> '{}') like '{%';
+
+-- A number in a legacy vital ("72 BPM", "120"), kept only if it is within the range the app
+-- accepts (VITAL_FIELDS in lib/vitals.ts)
+create or replace function public.legacy_vital(raw text, min_value numeric, max_value numeric)
+returns numeric
+language sql
+immutable
+as $$
+  select case
+    when n between min_value and max_value then n
+  end
+  from (select (substring(raw from '-?\d+(?:\.\d+)?'))::numeric as n) parsed
+$$;
+
+update public.health_logs
+  set vitals = (
+    select nullif(jsonb_strip_nulls(jsonb_build_object(
+      'heartRate', public.legacy_vital(vitals ->> 'heartRate', 20, 250),
+      'systolic', case when systolic > diastolic then systolic end,
+      'diastolic', case when systolic > diastolic then diastolic end
+    )), '{}'::jsonb)
+    from (
+      select
+        public.legacy_vital(split_part(vitals ->> 'bloodPressure', '/', 1), 50, 260) as systolic,
+        public.legacy_vital(split_part(vitals ->> 'bloodPressure', '/', 2), 30, 160) as diastolic
+    ) bp
+  )
+  where jsonb_typeof(vitals) = 'object'
+    and (vitals ? 'bloodPressure' or jsonb_typeof(vitals -> 'heartRate') = 'string');
+
+-- Anything else that isn't an object of vitals can't be read
+update public.health_logs
+  set vitals = null
+  where vitals is not null
+    and (jsonb_typeof(vitals) <> 'object' or vitals = '{}'::jsonb);
+
+drop function public.legacy_vital(text, numeric, numeric);
+
+alter table public.health_logs
+  drop constraint if exists health_logs_vitals_check;
+
+alter table public.health_logs
+  add constraint health_logs_vitals_check
+  check (vitals is null or jsonb_typeof(vitals) = 'object');
@@ -0,0 +1,20 @@
+-- The normal range the user sets per vital (see lib/vitalThresholds.ts). The vitals charts on
+-- the dashboard shade it, and logs with a vital outside it are flagged. Users who never saved
+-- any get the defaults in DEFAULT_VITAL_THRESHOLDS.
+
+create table if not exists public.vital_thresholds (
+  user_profile_id uuid primary key references public.user_profiles (id) on delete cascade,
+  -- { "<vital>": { "low": number | null, "high": number | null } } for the keys of lib/vitals.ts
+  thresholds jsonb not null default '{}'::jsonb
+    check (jsonb_typeof(thresholds) = 'object'),
+  updated_at timestamptz not null default now()
+);
+
+alter table public.vital_thresholds enable row level security;
+
+create policy "Users manage their own vital thresholds"
+  on public.vital_thresholds
+  for all
+  to authenticated
+  using (user_profile_id = auth.uid())
+  with check (user_profile_id = auth.uid());
@@ -0,0 +1,258 @@
+-- Symptom catalogue for health logs (see lib/symptoms.ts). Logs kept their symptoms in
+-- symptom_type as free text, comma separated ("headache , Migraines, nausea"), with one severity
+-- for the whole log. They now also hold each symptom with its own severity:
+-- [{ "symptom_id": "headache", "name": "Headache", "severity": 6 }, ...]
+-- where symptom_id is the catalogue id, or null for a symptom the catalogue doesn't have.
+-- symptom_type stays as the canonical names joined with ", ", and severity as the worst one.
+
+alter table public.health_logs
+  add column if not exists symptoms jsonb not null default '[]'::jsonb;
+
+alter table public.health_logs
+  drop constraint if exists health_logs_symptoms_check;
+
+alter table public.health_logs
+  add constraint health_logs_symptoms_check
+  check (jsonb_typeof(symptoms) = 'array');
+
+-- Every name and synonym in SYMPTOM_CATALOGUE, lowercased, and the symptom it names
+create temporary table symptom_terms (
+  term text primary key,
+  symptom_id text not null,
+  name text not null
+);
+
+insert into symptom_terms (term, symptom_id, name) values
+  ('fever', 'fever', 'Fever'),
+  ('high temperature', 'fever', 'Fever'),
+  ('pyrexia', 'fever', 'Fever'),
+  ('febrile', 'fever', 'Fever'),
+  ('chills', 'chills', 'Chills'),
+  ('shivering', 'chills', 'Chills'),
+  ('rigors', 'chills', 'Chills'),
+  ('cold sweats', 'chills', 'Chills'),
+  ('fatigue', 'fatigue', 'Fatigue'),
+  ('tiredness', 'fatigue', 'Fatigue'),
+  ('tired', 'fatigue', 'Fatigue'),
+  ('exhaustion', 'fatigue', 'Fatigue'),
+  ('lethargy', 'fatigue', 'Fatigue'),
+  ('low energy', 'fatigue', 'Fatigue'),
+  ('night sweats', 'night-sweats', 'Night Sweats'),
+  ('sweating at night', 'night-sweats', 'Night Sweats'),
+  ('sweats', 'night-sweats', 'Night Sweats'),
+  ('weight loss', 'weight-loss', 'Weight Loss'),
+  ('losing weight', 'weight-loss', 'Weight Loss'),
+  ('unintentional weight loss', 'weight-loss', 'Weight Loss'),
+  ('loss of appetite', 'loss-of-appetite', 'Loss of Appetite'),
+  ('no appetite', 'loss-of-appetite', 'Loss of Appetite'),
+  ('poor appetite', 'loss-of-appetite', 'Loss of Appetite'),
+  ('anorexia', 'loss-of-appetite', 'Loss of Appetite'),
+  ('swelling', 'swelling', 'Swelling'),
+  ('edema', 'swelling', 'Swelling'),
+  ('oedema', 'swelling', 'Swelling'),
+  ('swollen', 'swelling', 'Swelling'),
+  ('fluid retention', 'swelling', 'Swelling'),
+  ('headache', 'headache', 'Headache'),
+  ('head ache', 'headache', 'Headache'),
+  ('head pain', 'headache', 'Headache'),
+  ('cephalalgia', 'headache', 'Headache'),
+  ('migraine', 'migraine', 'Migraine'),
+  ('migraines', 'migraine', 'Migraine'),
+  ('migraine headache', 'migraine', 'Migraine'),
+  ('dizziness', 'dizziness', 'Dizziness'),
+  ('dizzy', 'dizziness', 'Dizziness'),
+  ('lightheaded', 'dizziness', 'Dizziness'),
+  ('light headed', 'dizziness', 'Dizziness'),
+  ('vertigo', 'dizziness', 'Dizziness'),
+  ('fainting', 'fainting', 'Fainting'),
+  ('syncope', 'fainting', 'Fainting'),
+  ('passing out', 'fainting', 'Fainting'),
+  ('blackout', 'fainting', 'Fainting'),
+  ('numbness', 'numbness', 'Numbness'),
+  ('numb', 'numbness', 'Numbness'),
+  ('loss of sensation', 'numbness', 'Numbness'),
+  ('tingling', 'tingling', 'Tingling'),
+  ('pins and needles', 'tingling', 'Tingling'),
+  ('paresthesia', 'tingling', 'Tingling'),
+  ('paraesthesia', 'tingling', 'Tingling'),
+  ('tremor', 'tremor', 'Tremor'),
+  ('shaking', 'tremor', 'Tremor'),
+  ('shakiness', 'tremor', 'Tremor'),
+  ('trembling', 'tremor', 'Tremor'),
+  ('confusion', 'confusion', 'Confusion'),
+  ('brain fog', 'confusion', 'Confusion'),
+  ('disorientation', 'confusion', 'Confusion'),
+  ('confused', 'confusion', 'Confusion'),
+  ('memory loss', 'memory-loss', 'Memory Loss'),
+  ('forgetfulness', 'memory-loss', 'Memory Loss'),
+  ('amnesia', 'memory-loss', 'Memory Loss'),
+  ('poor memory', 'memory-loss', 'Memory Loss'),
+  ('insomnia', 'insomnia', 'Insomnia'),
+  ('trouble sleeping', 'insomnia', 'Insomnia'),
+  ('sleeplessness', 'insomnia', 'Insomnia'),
+  ('can''t sleep', 'insomnia', 'Insomnia'),
+  ('anxiety', 'anxiety', 'Anxiety'),
+  ('anxious', 'anxiety', 'Anxiety'),
+  ('nervousness', 'anxiety', 'Anxiety'),
+  ('worry', 'anxiety', 'Anxiety'),
+  ('panic', 'anxiety', 'Anxiety'),
+  ('low mood', 'low-mood', 'Low Mood'),
+  ('depressed mood', 'low-mood', 'Low Mood'),
+  ('feeling down', 'low-mood', 'Low Mood'),
+  ('sadness', 'low-mood', 'Low Mood'),
+  ('depression', 'low-mood', 'Low Mood'),
+  ('blurred vision', 'blurred-vision', 'Blurred Vision'),
+  ('blurry vision', 'blurred-vision', 'Blurred Vision'),
+  ('vision problems', 'blurred-vision', 'Blurred Vision'),
+  ('ear pain', 'ear-pain', 'Ear Pain'),
+  ('earache', 'ear-pain', 'Ear Pain'),
+  ('ear ache', 'ear-pain', 'Ear Pain'),
+  ('otalgia', 'ear-pain', 'Ear Pain'),
+  ('sore throat', 'sore-throat', 'Sore Throat'),
+  ('throat pain', 'sore-throat', 'Sore Throat'),
+  ('scratchy throat', 'sore-throat', 'Sore Throat'),
+  ('pharyngitis', 'sore-throat', 'Sore Throat'),
+  ('runny nose', 'runny-nose', 'Runny Nose'),
+  ('rhinorrhea', 'runny-nose', 'Runny Nose'),
+  ('rhinorrhoea', 'runny-nose', 'Runny Nose'),
+  ('running nose', 'runny-nose', 'Runny Nose'),
+  ('nasal congestion', 'nasal-congestion', 'Nasal Congestion'),
+  ('stuffy nose', 'nasal-congestion', 'Nasal Congestion'),
+  ('blocked nose', 'nasal-congestion', 'Nasal Congestion'),
+  ('congestion', 'nasal-congestion', 'Nasal Congestion'),
+  ('stuffed nose', 'nasal-congestion', 'Nasal Congestion'),
+  ('sneezing', 'sneezing', 'Sneezing'),
+  ('sneeze', 'sneezing', 'Sneezing'),
+  ('sneezes', 'sneezing', 'Sneezing'),
+  ('cough', 'cough', 'Cough'),
+  ('coughing', 'cough', 'Cough'),
+  ('dry cough', 'cough', 'Cough'),
+  ('wet cough', 'cough', 'Cough'),
+  ('shortness of breath', 'shortness-of-breath', 'Shortness of Breath'),
+  ('breathlessness', 'shortness-of-breath', 'Shortness of Breath'),
+  ('difficulty breathing', 'shortness-of-breath', 'Shortness of Breath'),
+  ('dyspnea', 'shortness-of-breath', 'Shortness of Breath'),
+  ('dyspnoea', 'shortness-of-breath', 'Shortness of Breath'),
+  ('wheezing', 'wheezing', 'Wheezing'),
+  ('wheeze', 'wheezing', 'Wheezing'),
+  ('wheezy', 'wheezing', 'Wheezing'),
+  ('chest pain', 'chest-pain', 'Chest Pain'),
+  ('chest tightness', 'chest-pain', 'Chest Pain'),
+  ('chest discomfort', 'chest-pain', 'Chest Pain'),
+  ('palpitations', 'palpitations', 'Palpitations'),
+  ('racing heart', 'palpitations', 'Palpitations'),
+  ('heart racing', 'palpitations', 'Palpitations'),
+  ('pounding heart', 'palpitations', 'Palpitations'),
+  ('fluttering', 'palpitations', 'Palpitations'),
+  ('nausea', 'nausea', 'Nausea'),
+  ('nauseous', 'nausea', 'Nausea'),
+  ('queasy', 'nausea', 'Nausea'),
+  ('feeling sick', 'nausea', 'Nausea'),
+  ('vomiting', 'vomiting', 'Vomiting'),
+  ('throwing up', 'vomiting', 'Vomiting'),
+  ('being sick', 'vomiting', 'Vomiting'),
+  ('emesis', 'vomiting', 'Vomiting'),
+  ('diarrhea', 'diarrhea', 'Diarrhea'),
+  ('diarrhoea', 'diarrhea', 'Diarrhea'),
+  ('loose stools', 'diarrhea', 'Diarrhea'),
+  ('runny stools', 'diarrhea', 'Diarrhea'),
+  ('constipation', 'constipation', 'Constipation'),
+  ('constipated', 'constipation', 'Constipation'),
+  ('hard stools', 'constipation', 'Constipation'),
+  ('abdominal pain', 'abdominal-pain', 'Abdominal Pain'),
+  ('stomach ache', 'abdominal-pain', 'Abdominal Pain'),
+  ('stomachache', 'abdominal-pain', 'Abdominal Pain'),
+  ('stomach pain', 'abdominal-pain', 'Abdominal Pain'),
+  ('belly pain', 'abdominal-pain', 'Abdominal Pain'),
+  ('bloating', 'bloating', 'Bloating'),
+  ('bloated', 'bloating', 'Bloating'),
+  ('gas', 'bloating', 'Bloating'),
+  ('abdominal bloating', 'bloating', 'Bloating'),
+  ('heartburn', 'heartburn', 'Heartburn'),
+  ('acid reflux', 'heartburn', 'Heartburn'),
+  ('indigestion', 'heartburn', 'Heartburn'),
+  ('reflux', 'heartburn', 'Heartburn'),
+  ('frequent urination', 'frequent-urination', 'Frequent Urination'),
+  ('urinary frequency', 'frequent-urination', 'Frequent Urination'),
+  ('peeing often', 'frequent-urination', 'Frequent Urination'),
+  ('painful urination', 'painful-urination', 'Painful Urination'),
+  ('dysuria', 'painful-urination', 'Painful Urination'),
+  ('burning urination', 'painful-urination', 'Painful Urination'),
+  ('back pain', 'back-pain', 'Back Pain'),
+  ('backache', 'back-pain', 'Back Pain'),
+  ('back ache', 'back-pain', 'Back Pain'),
+  ('lower back pain', 'back-pain', 'Back Pain'),
+  ('neck pain', 'neck-pain', 'Neck Pain'),
+  ('stiff neck', 'neck-pain', 'Neck Pain'),
+  ('sore neck', 'neck-pain', 'Neck Pain'),
+  ('joint pain', 'joint-pain', 'Joint Pain'),
+  ('arthralgia', 'joint-pain', 'Joint Pain'),
+  ('sore joints', 'joint-pain', 'Joint Pain'),
+  ('aching joints', 'joint-pain', 'Joint Pain'),
+  ('muscle pain', 'muscle-pain', 'Muscle Pain'),
+  ('myalgia', 'muscle-pain', 'Muscle Pain'),
+  ('muscle aches', 'muscle-pain', 'Muscle Pain'),
+  ('body aches', 'muscle-pain', 'Muscle Pain'),
+  ('sore muscles', 'muscle-pain', 'Muscle Pain'),
+  ('rash', 'rash', 'Rash'),
+  ('skin rash', 'rash', 'Rash'),
+  ('hives', 'rash', 'Rash'),
+  ('eruption', 'rash', 'Rash'),
+  ('itching', 'itching', 'Itching'),
+  ('itchy', 'itching', 'Itching'),
+  ('itchiness', 'itching', 'Itching'),
+  ('pruritus', 'itching', 'Itching');
+
+-- Split each log's symptom_type, match every part against the catalogue (a part that isn't in
+-- it is kept in title case, like toSymptomEntry does), drop repeats and give each symptom the
+-- log's severity
+with parts as (
+  select
+    l.id,
+    p.ord,
+    regexp_replace(lower(btrim(p.part)), '\s+', ' ', 'g') as term
+  from public.health_logs l
+  cross join lateral unnest(string_to_array(l.symptom_type, ','))
+    with ordinality as p(part, ord)
+  where l.symptoms = '[]'::jsonb
+    and l.symptom_type is not null
+),
+entries as (
+  select
+    parts.id,
+    parts.ord,
+    t.symptom_id,
+    coalesce(t.name, initcap(parts.term)) as name
+  from parts
+  left join symptom_terms t on t.term = parts.term
+  where parts.term <> ''
+),
+deduped as (
+  select distinct on (id, coalesce(symptom_id, lower(name)))
+    id, ord, symptom_id, name
+  from entries
+  order by id, coalesce(symptom_id, lower(name)), ord
+),
+normalized as (
+  select
+    d.id,
+    jsonb_agg(
+      jsonb_build_object(
+        'symptom_id', d.symptom_id,
+        'name', d.name,
+        'severity', least(greatest(coalesce(l.severity, 0), 0), 10)
+      )
+      order by d.ord
+    ) as symptoms,
+    string_agg(d.name, ', ' order by d.ord) as symptom_type
+  from deduped d
+  join public.health_logs l on l.id = d.id
+  group by d.id
+)
+update public.health_logs l
+  set symptoms = n.symptoms,
+      symptom_type = n.symptom_type
+  from normalized n
+  where l.id = n.id;
+
+drop table symptom_terms;
@@ -0,0 +1,50 @@
+-- Account deletions the user asked for (see lib/accountData.ts). An account is deleted by
+-- lib/accountDeletion.ts once its scheduled_for has passed; until then the user can cancel by
+-- deleting the row. The dates are set here, so the grace period can't be cut short.
+
+create table if not exists public.account_deletion_requests (
+  user_profile_id uuid primary key references public.user_profiles (id) on delete cascade,
+  requested_at timestamptz not null default now(),
+  -- Keep in sync with ACCOUNT_DELETION_GRACE_DAYS
+  scheduled_for timestamptz not null default now() + interval '30 days'
+);
+
+create index if not exists account_deletion_requests_scheduled_for_idx
+  on public.account_deletion_requests (scheduled_for);
+
+alter table public.account_deletion_requests enable row level security;
+
+create policy "Users see their own account deletion"
+  on public.account_deletion_requests
+  for select
+  to authenticated
+  using (user_profile_id = auth.uid());
+
+create policy "Users ask for their own account deletion"
+  on public.account_deletion_requests
+  for insert
+  to authenticated
+  with check (user_profile_id = auth.uid());
+
+create policy "Users cancel their own account deletion"
+  on public.account_deletion_requests
+  for delete
+  to authenticated
+  using (user_profile_id = auth.uid());
+
+-- Whatever dates the client sends, the grace period starts now
+create or replace function public.set_account_deletion_dates()
+returns trigger
+language plpgsql
+as $$
+begin
+  new.requested_at := now();
+  new.scheduled_for := now() + interval '30 days';
+  return new;
+end;
+$$;
+
+drop trigger if exists set_account_deletion_dates on public.account_deletion_requests;
+create trigger set_account_deletion_dates
+  before insert on public.account_deletion_requests
+  for each row execute function public.set_account_deletion_dates();
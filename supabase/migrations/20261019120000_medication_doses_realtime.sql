@@ -0,0 +1,17 @@
+-- Publishes changes to medication doses, so a dose answered on one device or tab shows up on
+-- the others (see lib/userRealtime.ts). Deletes only need the id, which the default replica
+-- identity already sends, so the table keeps it.
+
+do $$
+begin
+  if not exists (
+    select 1
+    from pg_publication_tables
+    where pubname = 'supabase_realtime'
+      and schemaname = 'public'
+      and tablename = 'medication_doses'
+  ) then
+    alter publication supabase_realtime add table public.medication_doses;
+  end if;
+end
+$$;